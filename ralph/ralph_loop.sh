@@ -100,6 +100,7 @@ LIVE_OUTPUT=false       # Show Claude Code output in real-time (streaming)
 LIVE_LOG_FILE="$RALPH_DIR/live.log"  # Fixed file for live output monitoring
 CALL_COUNT_FILE="$RALPH_DIR/.call_count"
 TIMESTAMP_FILE="$RALPH_DIR/.last_reset"
+LOOP_CONTROL_FILE="$RALPH_DIR/.loop_control"  # "pause", "step" or "stop", written by bmalph run
 USE_TMUX=false
 PENDING_EXIT_REASON=""
 
@@ -622,6 +623,60 @@ describe_exit_code() {
     esac
 }
 
+# Honour pause, step and stop requests in $LOOP_CONTROL_FILE between loops.
+# "pause" waits until the file is removed; "step" lets loops run until one has
+# called the driver (see consume_loop_step), then pauses again.
+# "stop" returns 1 so the main loop ends without starting another loop.
+wait_while_paused() {
+    local loop_count=$1
+    local paused=false
+
+    while true; do
+        local control=""
+        if [[ -f "$LOOP_CONTROL_FILE" ]]; then
+            control=$(tr -d '[:space:]' < "$LOOP_CONTROL_FILE" 2>/dev/null) || control=""
+        fi
+
+        case "$control" in
+            pause)
+                if [[ "$paused" != "true" ]]; then
+                    paused=true
+                    update_status "$loop_count" "$(cat "$CALL_COUNT_FILE" 2>/dev/null || echo "0")" "paused" "running"
+                    log_status "INFO" "⏸️ Paused after loop #$loop_count - waiting to resume"
+                fi
+                sleep 1
+                ;;
+            stop)
+                update_status "$loop_count" "$(cat "$CALL_COUNT_FILE" 2>/dev/null || echo "0")" "stop_requested" "stopped" "stop_requested"
+                log_status "INFO" "⏹️ Stop requested - exiting after loop #$loop_count"
+                return 1
+                ;;
+            step)
+                log_status "INFO" "⏭️ Stepping: running one loop, then pausing"
+                return 0
+                ;;
+            *)
+                if [[ "$paused" == "true" ]]; then
+                    log_status "INFO" "▶️ Resumed"
+                fi
+                return 0
+                ;;
+        esac
+    done
+}
+
+# Turn a "step" request into "pause" once a loop has called the driver.
+# Loops that end early (rate limit wait, API limit) keep the step for the next.
+consume_loop_step() {
+    local control=""
+    if [[ -f "$LOOP_CONTROL_FILE" ]]; then
+        control=$(tr -d '[:space:]' < "$LOOP_CONTROL_FILE" 2>/dev/null) || control=""
+    fi
+    if [[ "$control" == "step" ]]; then
+        echo "pause" > "$LOOP_CONTROL_FILE"
+    fi
+}
+
 # Update status JSON for external monitoring
 update_status() {
     local loop_count=$1
@@ -2832,6 +2887,9 @@ main() {
     # Clean stale heartbeat marker from previous bmalph run crash (#146)
     rm -f "$RALPH_DIR/.write_heartbeat_triggered"
 
+    # A pause left behind by an earlier run must not hold up this one
+    rm -f "$LOOP_CONTROL_FILE"
+
     # Initialize session tracking before entering the loop
     init_session_tracking
 
@@ -2841,6 +2899,9 @@ main() {
     log_status "INFO" "Starting main loop..."
     
     while true; do
+        if ! wait_while_paused "$loop_count"; then
+            break
+        fi
         loop_count=$((loop_count + 1))
 
         # Update session last_used timestamp
@@ -2887,6 +2948,9 @@ main() {
         # Execute Claude Code
         execute_claude_code "$loop_count"
         local exec_result=$?
+        if [ $exec_result -ne 2 ]; then
+            consume_loop_step
+        fi
         
         if [ $exec_result -eq 0 ]; then
             if consume_current_loop_permission_denial "$loop_count"; then
@@ -0,0 +1,174 @@
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+import { getBundledVersions, getPackageVersion } from "../installer.js";
+import { RALPHRC_FILE } from "../config/ralphrc.js";
+import { findArtifactsDir } from "../transition/artifacts.js";
+import { readConfig } from "../utils/config.js";
+import { getFilesRecursive } from "../utils/file-system.js";
+import { isEnoent } from "../utils/errors.js";
+import { createTarGz, type TarEntry } from "../utils/tar.js";
+import {
+  ARCHIVE_FORMAT_VERSION,
+  ARCHIVE_MANIFEST_FILE,
+  EXPORTED_PATHS,
+  LOG_PATHS,
+  sha256,
+} from "./manifest.js";
+import type { ArchiveManifest, RedactedValue } from "./types.js";
+
+export interface ExportOptions {
+  /** Archive path; defaults to bmalph-<name>-<timestamp>.tar.gz in the project */
+  output?: string;
+  /** Include every file under .ralph/logs/, not only the metrics log */
+  includeLogs?: boolean;
+  now?: Date;
+}
+
+export interface ExportResult {
+  archivePath: string;
+  manifest: ArchiveManifest;
+}
+
+const SECRET_KEY_PATTERN = /TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL|API_KEY|PRIVATE_KEY|AUTH/;
+const ASSIGNMENT_PATTERN = /^(\s*)(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=(.*)$/;
+/** `${KEY:-default}`: Ralph's own env override of the same key */
+const SELF_DEFAULT_PATTERN = /^(["']?)\$\{([A-Za-z_][A-Za-z0-9_]*):-([^}$`]*)\}\1$/;
+
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+/**
+ * Comments out .ralphrc assignments that may carry secrets: keys that look
+ * like credentials, and values expanded from other environment variables or
+ * commands, which resolve differently (and possibly to secrets) on import.
+ */
+export function redactRalphrc(content: string): { content: string; redacted: RedactedValue[] } {
+  const redacted: RedactedValue[] = [];
+  const lines = content.split("\n").map((line) => {
+    const match = ASSIGNMENT_PATTERN.exec(line);
+    if (!match || line.trim().startsWith("#")) {
+      return line;
+    }
+    const [, indent = "", key = "", value = ""] = match;
+    const selfDefault = SELF_DEFAULT_PATTERN.exec(value.trim());
+    const expandsEnv = selfDefault?.[2] !== key && (value.includes("$") || value.includes("`"));
+
+    let reason: RedactedValue["reason"] | null = null;
+    if (SECRET_KEY_PATTERN.test(key)) {
+      reason = "secret";
+    } else if (expandsEnv) {
+      reason = "env-expansion";
+    }
+    if (!reason) {
+      return line;
+    }
+
+    redacted.push({ path: RALPHRC_FILE, key, reason });
+    return `${indent}# ${key}=<redacted by bmalph export>`;
+  });
+
+  return { content: lines.join("\n"), redacted };
+}
+
+async function collectPaths(
+  projectDir: string,
+  includeLogs: boolean,
+  artifactsDir: string | null
+): Promise<string[]> {
+  const roots = [...EXPORTED_PATHS, ...(includeLogs ? LOG_PATHS : [])];
+  if (artifactsDir) {
+    roots.push(artifactsDir);
+  }
+
+  const files = new Set<string>();
+  for (const root of roots) {
+    let stats;
+    try {
+      stats = await stat(join(projectDir, root));
+    } catch (err) {
+      if (isEnoent(err)) continue;
+      throw err;
+    }
+
+    if (stats.isDirectory()) {
+      for (const file of await getFilesRecursive(join(projectDir, root))) {
+        files.add(`${root}/${file}`);
+      }
+    } else if (stats.isFile()) {
+      files.add(root);
+    }
+  }
+
+  return [...files].sort();
+}
+
+function defaultArchiveName(projectName: string, now: Date): string {
+  const stamp = now
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .replace(/\.\d+Z$/, "");
+  const safeName = projectName.replace(/[^A-Za-z0-9._-]+/g, "-") || "project";
+  return `bmalph-${safeName}-${stamp}.tar.gz`;
+}
+
+/**
+ * Writes a gzip-compressed tar of the project's planning artifacts, bmalph
+ * config and state, and Ralph's plan, specs, context, settings and metrics,
+ * with a manifest of checksums and the versions that produced it.
+ */
+export async function exportProject(
+  projectDir: string,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const config = await readConfig(projectDir);
+  if (!config) {
+    throw new Error("bmalph is not initialized. Run 'bmalph init' first.");
+  }
+
+  const now = options.now ?? new Date();
+  const entries: TarEntry[] = [];
+  let redacted: RedactedValue[] = [];
+
+  const artifactsPath = await findArtifactsDir(projectDir);
+  const artifactsDir = artifactsPath ? toPosix(relative(projectDir, artifactsPath)) : null;
+  for (const path of await collectPaths(projectDir, options.includeLogs === true, artifactsDir)) {
+    let content = await readFile(join(projectDir, path));
+    if (path === RALPHRC_FILE) {
+      const result = redactRalphrc(content.toString("utf-8"));
+      content = Buffer.from(result.content, "utf-8");
+      redacted = result.redacted;
+    }
+    entries.push({ path, content, mtime: now });
+  }
+
+  const manifest: ArchiveManifest = {
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    createdAt: now.toISOString(),
+    bmalphVersion: await getPackageVersion(),
+    bmadCommit: (await getBundledVersions()).bmadCommit,
+    project: {
+      name: config.name,
+      ...(config.platform && { platform: config.platform }),
+    },
+    ...(artifactsDir && { artifactsDir }),
+    files: entries.map((entry) => ({
+      path: entry.path,
+      size: entry.content.length,
+      sha256: sha256(entry.content),
+    })),
+    redacted,
+  };
+
+  const manifestEntry: TarEntry = {
+    path: ARCHIVE_MANIFEST_FILE,
+    content: Buffer.from(JSON.stringify(manifest, null, 2) + "\n", "utf-8"),
+    mtime: now,
+  };
+
+  const archivePath = options.output ?? join(projectDir, defaultArchiveName(config.name, now));
+  await writeFile(archivePath, createTarGz([manifestEntry, ...entries]));
+
+  return { archivePath, manifest };
+}
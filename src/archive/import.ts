@@ -0,0 +1,187 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, posix } from "node:path";
+import {
+  getBundledVersions,
+  getPackageVersion,
+  installProject,
+  mergeInstructionsFile,
+} from "../installer.js";
+import { getPlatform } from "../platform/registry.js";
+import { readBmadConfig } from "../utils/config.js";
+import { BMAD_OUTPUT_DIR } from "../utils/constants.js";
+import { exists } from "../utils/file-system.js";
+import { parseTarGz, type TarEntry } from "../utils/tar.js";
+import {
+  ARCHIVE_FORMAT_VERSION,
+  ARCHIVE_MANIFEST_FILE,
+  checkArchiveCompatibility,
+  isArchivedPath,
+  isArtifactsDir,
+  sha256,
+  validateArchiveManifest,
+} from "./manifest.js";
+import type { ArchiveManifest } from "./types.js";
+
+export interface ImportOptions {
+  /** Overwrite existing files and accept a bmalph major version mismatch */
+  force?: boolean;
+}
+
+export interface ImportResult {
+  manifest: ArchiveManifest;
+  restoredFiles: string[];
+  warnings: string[];
+}
+
+export interface ProjectArchive {
+  manifest: ArchiveManifest;
+  files: TarEntry[];
+}
+
+function assertSafePath(path: string): void {
+  const normalized = posix.normalize(path);
+  if (
+    isAbsolute(path) ||
+    path.includes("\\") ||
+    normalized !== path ||
+    normalized.startsWith("../") ||
+    normalized === ".."
+  ) {
+    throw new Error(`Archive contains an unsafe path: ${path}`);
+  }
+}
+
+/**
+ * Reads an archive and verifies it against its manifest: every file is
+ * listed, no listed file is missing, and sizes and checksums match.
+ */
+export async function readProjectArchive(archivePath: string): Promise<ProjectArchive> {
+  const entries = parseTarGz(await readFile(archivePath));
+  const manifestEntry = entries.find((entry) => entry.path === ARCHIVE_MANIFEST_FILE);
+  if (!manifestEntry) {
+    throw new Error(`Not a bmalph archive: ${ARCHIVE_MANIFEST_FILE} is missing`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(manifestEntry.content.toString("utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid ${ARCHIVE_MANIFEST_FILE}`, { cause: err });
+  }
+  const manifest = validateArchiveManifest(data);
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(
+      `Archive format ${manifest.formatVersion} is newer than this bmalph supports (${ARCHIVE_FORMAT_VERSION}). Upgrade bmalph to import it.`
+    );
+  }
+
+  const files = entries.filter((entry) => entry.path !== ARCHIVE_MANIFEST_FILE);
+  const byPath = new Map(files.map((entry) => [entry.path, entry]));
+  const listed = new Set(manifest.files.map((file) => file.path));
+
+  for (const entry of files) {
+    if (!listed.has(entry.path)) {
+      throw new Error(`Archive file not listed in manifest: ${entry.path}`);
+    }
+  }
+  for (const file of manifest.files) {
+    assertSafePath(file.path);
+    if (!isArchivedPath(file.path, manifest.artifactsDir)) {
+      throw new Error(`Archive contains a path bmalph does not export: ${file.path}`);
+    }
+    const entry = byPath.get(file.path);
+    if (!entry) {
+      throw new Error(`Archive is missing ${file.path}`);
+    }
+    if (entry.content.length !== file.size || sha256(entry.content) !== file.sha256) {
+      throw new Error(`Checksum mismatch for ${file.path}`);
+    }
+  }
+
+  return { manifest, files };
+}
+
+const DEFAULT_ARTIFACTS_DIR = `${BMAD_OUTPUT_DIR}/planning-artifacts`;
+
+/** The target's configured planning artifacts directory, or BMAD's default */
+async function resolveTargetArtifactsDir(projectDir: string): Promise<string> {
+  const configured = (await readBmadConfig(projectDir))?.planning_artifacts?.trim();
+  if (!configured) return DEFAULT_ARTIFACTS_DIR;
+  const normalized = posix.normalize(configured.replace(/\\/g, "/")).replace(/\/$/, "");
+  return isArtifactsDir(normalized) ? normalized : DEFAULT_ARTIFACTS_DIR;
+}
+
+/**
+ * Moves files from the archive's artifacts directory into the target's. The
+ * archive's own directory is never trusted as a place to write to.
+ */
+function remapArtifacts(
+  files: TarEntry[],
+  archiveArtifactsDir: string | undefined,
+  targetArtifactsDir: string
+): TarEntry[] {
+  if (archiveArtifactsDir === undefined) return files;
+  return files.map((file) =>
+    isArchivedPath(file.path) || !file.path.startsWith(`${archiveArtifactsDir}/`)
+      ? file
+      : { ...file, path: `${targetArtifactsDir}${file.path.slice(archiveArtifactsDir.length)}` }
+  );
+}
+
+/**
+ * Restores an exported project into `projectDir`, then installs the bundled
+ * BMAD and Ralph assets for the archived platform. The target must not
+ * already hold any of the archived files unless `force` is set.
+ */
+export async function importProject(
+  archivePath: string,
+  projectDir: string,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const archive = await readProjectArchive(archivePath);
+  const { manifest } = archive;
+  const files = remapArtifacts(
+    archive.files,
+    manifest.artifactsDir,
+    await resolveTargetArtifactsDir(projectDir)
+  );
+
+  const compatibility = checkArchiveCompatibility(manifest, {
+    bmalphVersion: await getPackageVersion(),
+    bmadCommit: (await getBundledVersions()).bmadCommit,
+  });
+  if (compatibility.errors.length > 0 && !options.force) {
+    throw new Error(`${compatibility.errors.join("; ")}. Use --force to import anyway.`);
+  }
+
+  if (!options.force) {
+    const existing: string[] = [];
+    for (const file of files) {
+      if (await exists(join(projectDir, file.path))) {
+        existing.push(file.path);
+      }
+    }
+    if (existing.length > 0) {
+      throw new Error(
+        `Target directory already contains ${existing.slice(0, 3).join(", ")}${existing.length > 3 ? ` and ${existing.length - 3} more` : ""}. Import into a fresh directory or use --force.`
+      );
+    }
+  }
+
+  for (const file of files) {
+    const target = join(projectDir, file.path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, file.content);
+  }
+
+  const platform = getPlatform(manifest.project.platform ?? "claude-code");
+  await installProject(projectDir, platform);
+  await mergeInstructionsFile(projectDir, platform);
+
+  const warnings = [...compatibility.errors, ...compatibility.warnings];
+  for (const value of manifest.redacted) {
+    warnings.push(`${value.path}: ${value.key} was redacted on export; set it again if needed`);
+  }
+
+  return { manifest, restoredFiles: files.map((file) => file.path), warnings };
+}
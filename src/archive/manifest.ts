@@ -0,0 +1,186 @@
+import { createHash } from "node:crypto";
+import { RALPHRC_FILE } from "../config/ralphrc.js";
+import { isPlatformId } from "../platform/registry.js";
+import {
+  BMAD_DIR,
+  BMAD_OUTPUT_DIR,
+  CONFIG_FILE,
+  RALPH_DIR,
+  RALPH_FIX_PLAN_FILE,
+  RALPH_METRICS_FILE,
+  RALPH_STATUS_FILE,
+  STATE_DIR,
+} from "../utils/constants.js";
+import type { ArchiveFileEntry, ArchiveManifest, RedactedValue } from "./types.js";
+
+export const ARCHIVE_FORMAT_VERSION = 1;
+export const ARCHIVE_MANIFEST_FILE = "bmalph-archive.json";
+
+/** Project state worth handing over; scripts and _bmad/ are reinstalled on import */
+export const EXPORTED_PATHS = [
+  CONFIG_FILE,
+  STATE_DIR,
+  BMAD_OUTPUT_DIR,
+  `${RALPH_DIR}/${RALPH_FIX_PLAN_FILE}`,
+  `${RALPH_DIR}/specs`,
+  `${RALPH_DIR}/PROJECT_CONTEXT.md`,
+  `${RALPH_DIR}/SPECS_INDEX.md`,
+  `${RALPH_DIR}/SPECS_CHANGELOG.md`,
+  `${RALPH_DIR}/SPECS_CHANGELOG.json`,
+  RALPHRC_FILE,
+  RALPH_METRICS_FILE,
+];
+
+/** Exported with --include-logs */
+export const LOG_PATHS = [`${RALPH_DIR}/logs`, RALPH_STATUS_FILE];
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+const REDACTION_REASONS = new Set<RedactedValue["reason"]>(["secret", "env-expansion"]);
+
+export function sha256(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function assertObject(data: unknown, label: string): asserts data is Record<string, unknown> {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${label}: expected an object`);
+  }
+}
+
+function assertString(value: unknown, label: string): asserts value is string {
+  if (typeof value !== "string") {
+    throw new Error(`${label} must be a string`);
+  }
+}
+
+/**
+ * A plausible planning artifacts directory: a relative path that stays clear
+ * of hidden directories (.git, .ralph, ...) and of _bmad/.
+ */
+export function isArtifactsDir(path: string): boolean {
+  const segments = path.split("/");
+  return (
+    segments.every(
+      (segment) => segment !== "" && !segment.startsWith(".") && !segment.includes("\\")
+    ) && segments[0] !== BMAD_DIR
+  );
+}
+
+/** Whether `path` lies under one of the roots `bmalph export` writes */
+export function isArchivedPath(path: string, artifactsDir?: string): boolean {
+  const roots = [...EXPORTED_PATHS, ...LOG_PATHS, ...(artifactsDir ? [artifactsDir] : [])];
+  return roots.some((root) => path === root || path.startsWith(`${root}/`));
+}
+
+function validateFileEntry(data: unknown, index: number): ArchiveFileEntry {
+  const label = `manifest.files[${index}]`;
+  assertObject(data, label);
+  assertString(data.path, `${label}.path`);
+  if (typeof data.size !== "number" || !Number.isInteger(data.size) || data.size < 0) {
+    throw new Error(`${label}.size must be a non-negative integer`);
+  }
+  if (typeof data.sha256 !== "string" || !SHA256_PATTERN.test(data.sha256)) {
+    throw new Error(`${label}.sha256 must be a hex SHA-256 digest`);
+  }
+  return { path: data.path, size: data.size, sha256: data.sha256 };
+}
+
+function validateRedactedValue(data: unknown, index: number): RedactedValue {
+  const label = `manifest.redacted[${index}]`;
+  assertObject(data, label);
+  assertString(data.path, `${label}.path`);
+  assertString(data.key, `${label}.key`);
+  if (!REDACTION_REASONS.has(data.reason as RedactedValue["reason"])) {
+    throw new Error(`${label}.reason must be "secret" or "env-expansion"`);
+  }
+  return { path: data.path, key: data.key, reason: data.reason as RedactedValue["reason"] };
+}
+
+export function validateArchiveManifest(data: unknown): ArchiveManifest {
+  assertObject(data, "manifest");
+  if (typeof data.formatVersion !== "number" || !Number.isInteger(data.formatVersion)) {
+    throw new Error("manifest.formatVersion must be an integer");
+  }
+  assertString(data.createdAt, "manifest.createdAt");
+  assertString(data.bmalphVersion, "manifest.bmalphVersion");
+  assertString(data.bmadCommit, "manifest.bmadCommit");
+  assertObject(data.project, "manifest.project");
+  assertString(data.project.name, "manifest.project.name");
+  const platform = data.project.platform;
+  if (platform !== undefined && (typeof platform !== "string" || !isPlatformId(platform))) {
+    throw new Error("manifest.project.platform must be a known platform id");
+  }
+  const artifactsDir = data.artifactsDir;
+  if (
+    artifactsDir !== undefined &&
+    (typeof artifactsDir !== "string" || !isArtifactsDir(artifactsDir))
+  ) {
+    throw new Error(
+      "manifest.artifactsDir must be a relative directory outside hidden directories and _bmad/"
+    );
+  }
+  if (!Array.isArray(data.files)) {
+    throw new Error("manifest.files must be an array");
+  }
+  if (!Array.isArray(data.redacted)) {
+    throw new Error("manifest.redacted must be an array");
+  }
+
+  return {
+    formatVersion: data.formatVersion,
+    createdAt: data.createdAt,
+    bmalphVersion: data.bmalphVersion,
+    bmadCommit: data.bmadCommit,
+    project: {
+      name: data.project.name,
+      ...(platform !== undefined && { platform }),
+    },
+    ...(artifactsDir !== undefined && { artifactsDir }),
+    files: data.files.map(validateFileEntry),
+    redacted: data.redacted.map(validateRedactedValue),
+  };
+}
+
+export interface ArchiveCompatibility {
+  /** Reasons the archive cannot be imported without --force */
+  errors: string[];
+  warnings: string[];
+}
+
+function majorVersion(version: string): number | null {
+  const major = Number.parseInt(version.split(".")[0] ?? "", 10);
+  return Number.isNaN(major) ? null : major;
+}
+
+/**
+ * Compares an archive's versions with the running bmalph. A newer archive
+ * format can never be read; a different bmalph major version may have
+ * incompatible state files; a different BMAD commit only affects _bmad/.
+ */
+export function checkArchiveCompatibility(
+  manifest: ArchiveManifest,
+  current: { bmalphVersion: string; bmadCommit: string }
+): ArchiveCompatibility {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const archiveMajor = majorVersion(manifest.bmalphVersion);
+  const currentMajor = majorVersion(current.bmalphVersion);
+  if (archiveMajor === null || archiveMajor !== currentMajor) {
+    errors.push(
+      `Archive was exported by bmalph ${manifest.bmalphVersion}; this is bmalph ${current.bmalphVersion}`
+    );
+  } else if (manifest.bmalphVersion !== current.bmalphVersion) {
+    warnings.push(
+      `Archive was exported by bmalph ${manifest.bmalphVersion}; importing with ${current.bmalphVersion}`
+    );
+  }
+
+  if (manifest.bmadCommit !== current.bmadCommit) {
+    warnings.push(
+      `Archive used BMAD ${manifest.bmadCommit.slice(0, 8)}; bundled BMAD is ${current.bmadCommit.slice(0, 8)}`
+    );
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,33 @@
+import type { PlatformId } from "../platform/types.js";
+
+export interface ArchiveFileEntry {
+  /** Project-relative path using forward slashes */
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/** A .ralphrc assignment replaced before export */
+export interface RedactedValue {
+  path: string;
+  key: string;
+  reason: "secret" | "env-expansion";
+}
+
+export interface ArchiveManifest {
+  formatVersion: number;
+  createdAt: string;
+  bmalphVersion: string;
+  bmadCommit: string;
+  project: {
+    name: string;
+    platform?: PlatformId;
+  };
+  /**
+   * Project-relative planning artifacts directory, when one was exported.
+   * Import restores its files into the target's own artifacts directory.
+   */
+  artifactsDir?: string;
+  files: ArchiveFileEntry[];
+  redacted: RedactedValue[];
+}
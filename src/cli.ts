@@ -4,12 +4,34 @@ import { Command } from "commander";
 import { initCommand } from "./commands/init.js";
 import { upgradeCommand } from "./commands/upgrade.js";
 import { doctorCommand } from "./commands/doctor.js";
+import { platformSwitchCommand } from "./commands/platform.js";
+import { exportCommand } from "./commands/export.js";
+import { importCommand } from "./commands/import.js";
+import { completionCommand, completeValuesCommand } from "./commands/completion.js";
 import { checkUpdatesCommand } from "./commands/check-updates.js";
 import { statusCommand } from "./commands/status.js";
 import { implementCommand } from "./commands/implement.js";
 import { resetCommand } from "./commands/reset.js";
 import { watchCommand } from "./commands/watch.js";
 import { runCommand } from "./commands/run.js";
+import { attachCommand } from "./commands/attach.js";
+import { stopCommand } from "./commands/stop.js";
+import { metricsCommand } from "./commands/metrics.js";
+import { logsCommand } from "./commands/logs.js";
+import {
+  configGetCommand,
+  configSetCommand,
+  configUnsetCommand,
+  configListCommand,
+} from "./commands/config.js";
+import {
+  storyListCommand,
+  storyShowCommand,
+  storyDoneCommand,
+  storyReopenCommand,
+  storySkipCommand,
+  storyMoveCommand,
+} from "./commands/story.js";
 import { setVerbose, setQuiet } from "./utils/logger.js";
 import { getPackageVersion } from "./installer.js";
 import { isEnoent } from "./utils/errors.js";
@@ -86,7 +108,9 @@ program
   .command("doctor")
   .description("Check installation health")
   .option("--json", "Output as JSON")
-  .action(async (opts: { json?: boolean }) =>
+  .option("--fix", "Apply safe automatic fixes for failing checks")
+  .option("--dry-run", "With --fix, list the fixes without applying them")
+  .action(async (opts: { json?: boolean; fix?: boolean; dryRun?: boolean }) =>
     doctorCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
   );
 
@@ -108,8 +132,22 @@ program
   .command("implement")
   .description("Transition BMAD planning artifacts to Ralph implementation format")
   .option("--force", "Override pre-flight validation errors")
-  .action(async (opts: { force?: boolean }) =>
-    implementCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
+  .option("--dry-run", "Show diffs of every file the transition would write, without writing")
+  .option("--watch", "Re-run affected transition steps whenever BMAD artifacts change")
+  .option("--sync-back", "Write @fix_plan.md progress back to sprint-status.yaml")
+  .option("--test-scaffold", "Generate a failing test per acceptance criterion in specs/acceptance")
+  .option("--json", "Output as JSON")
+  .option("--sarif <file>", "Write pre-flight results to a SARIF file")
+  .action(
+    async (opts: {
+      force?: boolean;
+      dryRun?: boolean;
+      watch?: boolean;
+      syncBack?: boolean;
+      testScaffold?: boolean;
+      json?: boolean;
+      sarif?: string;
+    }) => implementCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
   );
 
 program
@@ -141,6 +179,13 @@ program
   .option("--review [mode]", "Quality review: enhanced (~10-14% tokens) or ultimate (~20-30%)")
   .option("--no-review", "Disable code review")
   .option("--swarm [count]", "Run N parallel workers in git worktrees (default: 2, max: 6)")
+  .option("--no-sync-back", "Don't write story progress back to sprint-status.yaml")
+  .option("--max-cost <usd>", "Stop Ralph once the run has cost this many US dollars")
+  .option("--max-tokens <n>", "Stop Ralph once the run has used this many tokens")
+  .option("--max-loops <n>", "Stop Ralph after this many loops")
+  .option("--max-duration <time>", "Stop Ralph after this long (e.g. 90m, 8h)")
+  .option("--events <format>", "Print run events to stdout (ndjson); implies --no-dashboard")
+  .option("--events-file <path>", "Write run events as NDJSON to a file; implies --no-dashboard")
   .action(
     async (opts: {
       driver?: string;
@@ -148,7 +193,216 @@ program
       dashboard: boolean;
       review?: boolean | string;
       swarm?: boolean | string;
+      syncBack: boolean;
+      maxCost?: string;
+      maxTokens?: string;
+      maxLoops?: string;
+      maxDuration?: string;
+      events?: string;
+      eventsFile?: string;
     }) => runCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
   );
 
+program
+  .command("attach")
+  .description("Reopen the live dashboard on a detached Ralph loop")
+  .option("--interval <ms>", "Dashboard refresh interval in milliseconds (default: 2000)")
+  .option("--no-sync-back", "Don't write story progress back to sprint-status.yaml")
+  .action(async (opts: { interval?: string; syncBack: boolean }) =>
+    attachCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+program
+  .command("stop")
+  .description("Stop the Ralph loop running in this project")
+  .option("--force", "Kill the loop immediately (SIGKILL)")
+  .option("--no-sync-back", "Don't write story progress back to sprint-status.yaml")
+  .action(async (opts: { force?: boolean; syncBack: boolean }) =>
+    stopCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+program
+  .command("metrics")
+  .description("Summarize Ralph loop metrics (tokens, cost, duration, outcomes)")
+  .option("--json", "Output as JSON")
+  .option("--csv", "Output as CSV")
+  .option("--run <id>", "Only include loops from the given run id")
+  .option("--since <time>", "Only include loops since a duration (e.g. 24h, 7d) or date")
+  .action(async (opts: { json?: boolean; csv?: boolean; run?: string; since?: string }) =>
+    metricsCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+program
+  .command("logs")
+  .description("Show, filter and follow the Ralph loop log")
+  .option("-f, --follow", "Keep printing new entries as Ralph writes them")
+  .option(
+    "--level <levels>",
+    "Only entries with these levels (comma-separated: info,warn,error,...)"
+  )
+  .option("--since <time>", "Only entries since a duration (e.g. 30m, 24h) or date")
+  .option("--until <time>", "Only entries until a duration ago or date")
+  .option(
+    "--loop <n>",
+    "Only entries from loop N (the most recent run's loop N for --driver-output)"
+  )
+  .option("--grep <pattern>", "Only entries whose message matches a regular expression")
+  .option("-n, --lines <count>", "Only the last N matching entries (default with --follow: 10)")
+  .option("--driver-output", "Show the driver output captured for --loop")
+  .option("--json", "Output as JSON (one object per line with --follow)")
+  .action(
+    async (opts: {
+      follow?: boolean;
+      level?: string;
+      since?: string;
+      until?: string;
+      loop?: string;
+      grep?: string;
+      lines?: string;
+      driverOutput?: boolean;
+      json?: boolean;
+    }) => logsCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+const configProgram = program
+  .command("config")
+  .description("Get and set bmalph/config.json and .ralph/.ralphrc settings");
+
+configProgram
+  .command("get <key>")
+  .description("Print the effective value of a setting")
+  .option("--json", "Output value, source and type as JSON")
+  .action(async (key: string, opts: { json?: boolean }) =>
+    configGetCommand({ ...opts, key, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+configProgram
+  .command("set <key> <value>")
+  .description("Validate and write a setting")
+  .action(async (key: string, value: string) =>
+    configSetCommand({ key, value, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+configProgram
+  .command("unset <key>")
+  .description("Remove a setting so its default applies")
+  .action(async (key: string) =>
+    configUnsetCommand({ key, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+configProgram
+  .command("list")
+  .description("List all settings with their source (env, file or default)")
+  .option("--json", "Output as JSON")
+  .action(async (opts: { json?: boolean }) =>
+    configListCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+const storyProgram = program
+  .command("story")
+  .description("List, inspect and edit stories in .ralph/@fix_plan.md");
+
+storyProgram
+  .command("list")
+  .description("List stories with their status")
+  .option("--epic <epic>", "Only stories in an epic (number or heading text)")
+  .option("--status <status>", "Only stories with a status (pending, done, skipped)")
+  .option("--json", "Output as JSON")
+  .action(async (opts: { epic?: string; status?: string; json?: boolean }) =>
+    storyListCommand({ ...opts, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+storyProgram
+  .command("show <id>")
+  .description("Show a story with its description and acceptance criteria")
+  .option("--json", "Output as JSON")
+  .action(async (id: string, opts: { json?: boolean }) =>
+    storyShowCommand({ ...opts, id, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+storyProgram
+  .command("done <id>")
+  .description("Mark a story as done")
+  .option("--force", "Edit even if Ralph appears to be running")
+  .action(async (id: string, opts: { force?: boolean }) =>
+    storyDoneCommand({ ...opts, id, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+storyProgram
+  .command("reopen <id>")
+  .description("Mark a done or skipped story as pending again")
+  .option("--force", "Edit even if Ralph appears to be running")
+  .action(async (id: string, opts: { force?: boolean }) =>
+    storyReopenCommand({ ...opts, id, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+storyProgram
+  .command("skip <id>")
+  .description("Skip a story so Ralph does not pick it up")
+  .option("--force", "Edit even if Ralph appears to be running")
+  .action(async (id: string, opts: { force?: boolean }) =>
+    storySkipCommand({ ...opts, id, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+storyProgram
+  .command("move <id>")
+  .description("Reorder a story in the queue")
+  .option("--before <id>", "Place the story before another story")
+  .option("--after <id>", "Place the story after another story")
+  .option("--top", "Place the story before the first pending story")
+  .option("--force", "Edit even if Ralph appears to be running")
+  .action(
+    async (id: string, opts: { before?: string; after?: string; top?: boolean; force?: boolean }) =>
+      storyMoveCommand({ ...opts, id, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+const platformProgram = program
+  .command("platform")
+  .description("Manage the AI platform this project targets");
+
+platformProgram
+  .command("switch <id>")
+  .description("Migrate the project to another platform, keeping Ralph state and BMAD output")
+  .option("--dry-run", "Preview changes without writing files")
+  .option("--force", "Skip confirmation prompt")
+  .action(async (id: string, opts: { dryRun?: boolean; force?: boolean }) =>
+    platformSwitchCommand({ ...opts, id, projectDir: await resolveAndValidateProjectDir() })
+  );
+
+program
+  .command("export")
+  .description("Write a project archive with planning artifacts, state and Ralph settings")
+  .option("-o, --output <file>", "Archive path (default: bmalph-<name>-<timestamp>.tar.gz)")
+  .option("--include-logs", "Include all of .ralph/logs/, not only the metrics log")
+  .option("--json", "Output as JSON")
+  .action(async (opts: { output?: string; includeLogs?: boolean; json?: boolean }) =>
+    exportCommand({
+      ...opts,
+      output: opts.output ? resolve(opts.output) : undefined,
+      projectDir: await resolveAndValidateProjectDir(),
+    })
+  );
+
+program
+  .command("import <archive>")
+  .description("Restore a project archive into a fresh directory")
+  .option("--force", "Overwrite existing files and ignore a bmalph major version mismatch")
+  .action(async (archive: string, opts: { force?: boolean }) =>
+    importCommand({
+      ...opts,
+      archive: resolve(archive),
+      projectDir: await resolveAndValidateProjectDir(),
+    })
+  );
+
+program
+  .command("completion <shell>")
+  .description("Print a shell completion script (bash, zsh, fish)")
+  .action((shell: string) => completionCommand({ shell, program }));
+
+program
+  .command("__complete <source>", { hidden: true })
+  .description("Print dynamic completion values for the completion scripts")
+  .action((source: string) => completeValuesCommand({ source, projectDir: resolveProjectDir() }));
+
 void program.parseAsync();
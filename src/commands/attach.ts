@@ -0,0 +1,71 @@
+import chalk from "chalk";
+import { readConfig } from "../utils/config.js";
+import { withErrorHandling } from "../utils/errors.js";
+import { parseInterval } from "../utils/validate.js";
+import { attachRalphLoop } from "../run/ralph-process.js";
+import { startRunDashboard } from "../run/run-dashboard.js";
+import { clearRunRegistry, findActiveRun } from "../run/run-registry.js";
+import { hasBudget, startBudgetSupervisor } from "../run/budget.js";
+import { startRunEventStream } from "../run/run-events.js";
+import { createHookSink, hasHooks } from "../run/hooks.js";
+import { getDashboardTerminalSupport } from "../watch/frame-writer.js";
+import { finishRunEventStream, reportRalphExit, syncSprintStatusAfterRun } from "./run.js";
+
+interface AttachCommandOptions {
+  projectDir: string;
+  interval?: string;
+  /** Write fix plan progress back to sprint-status.yaml when Ralph stops (default: true) */
+  syncBack?: boolean;
+}
+
+export async function attachCommand(options: AttachCommandOptions): Promise<void> {
+  await withErrorHandling(() => runAttach(options));
+}
+
+async function runAttach(options: AttachCommandOptions): Promise<void> {
+  const { projectDir } = options;
+  const interval = parseInterval(options.interval);
+
+  const run = await findActiveRun(projectDir);
+  if (!run) {
+    throw new Error("No running Ralph loop found in this project. Run: bmalph run");
+  }
+
+  const terminalSupport = getDashboardTerminalSupport();
+  if (!terminalSupport.supported) {
+    throw new Error(`Cannot attach: ${terminalSupport.reason}`);
+  }
+
+  const ralph = attachRalphLoop(run);
+  // The budget still counts from when `bmalph run` started the loop
+  const supervisor =
+    run.budget && hasBudget(run.budget)
+      ? startBudgetSupervisor(projectDir, ralph, run.budget, {
+          startedAt: new Date(run.startedAt),
+          intervalMs: interval,
+        })
+      : null;
+  const config = await readConfig(projectDir);
+  const hookSink = hasHooks(config?.hooks) ? createHookSink(config.hooks, { projectDir }) : null;
+  const stream = hookSink
+    ? startRunEventStream(projectDir, ralph, { run, interval, sink: hookSink })
+    : null;
+  await startRunDashboard({
+    projectDir,
+    interval,
+    ralph,
+    reviewMode: run.reviewMode,
+    budgetStatus: supervisor ? () => supervisor.describe() : undefined,
+  });
+  supervisor?.stop();
+  if (ralph.state !== "stopped") stream?.stop();
+  await finishRunEventStream(stream, hookSink, hookSink, (message) => console.log(message));
+
+  if (ralph.state === "stopped") {
+    await clearRunRegistry(projectDir, run.pid);
+    reportRalphExit(ralph, ralph.exitCode);
+    await syncSprintStatusAfterRun(projectDir, options.syncBack);
+  } else if (ralph.state === "detached") {
+    console.log(chalk.dim(`Ralph keeps running (PID ${run.pid}). Run: bmalph attach`));
+  }
+}
@@ -0,0 +1,73 @@
+import type { Command } from "commander";
+import { renderBashCompletion } from "../completion/bash.js";
+import { renderFishCompletion } from "../completion/fish.js";
+import { renderZshCompletion } from "../completion/zsh.js";
+import { buildCompletionSpec } from "../completion/spec.js";
+import {
+  COMPLETION_SHELLS,
+  DYNAMIC_COMPLETION_SOURCES,
+  type CompletionCommand,
+  type CompletionShell,
+  type DynamicCompletionSource,
+} from "../completion/types.js";
+import { resolveDynamicCompletions } from "../completion/values.js";
+import { withErrorHandling } from "../utils/errors.js";
+
+interface CompletionOptions {
+  shell: string;
+  program: Command;
+}
+
+interface CompleteValuesOptions {
+  source: string;
+  projectDir: string;
+}
+
+const RENDERERS: Record<CompletionShell, (spec: CompletionCommand) => string> = {
+  bash: renderBashCompletion,
+  zsh: renderZshCompletion,
+  fish: renderFishCompletion,
+};
+
+function isCompletionShell(value: string): value is CompletionShell {
+  return (COMPLETION_SHELLS as readonly string[]).includes(value);
+}
+
+function isDynamicSource(value: string): value is DynamicCompletionSource {
+  return (DYNAMIC_COMPLETION_SOURCES as readonly string[]).includes(value);
+}
+
+export async function completionCommand(options: CompletionOptions): Promise<void> {
+  await withErrorHandling(() => {
+    runCompletion(options);
+    return Promise.resolve();
+  });
+}
+
+function runCompletion(options: CompletionOptions): void {
+  if (!isCompletionShell(options.shell)) {
+    throw new Error(
+      `Unknown shell: "${options.shell}". Supported shells: ${COMPLETION_SHELLS.join(", ")}`
+    );
+  }
+
+  process.stdout.write(RENDERERS[options.shell](buildCompletionSpec(options.program)));
+}
+
+/**
+ * Prints dynamic completion candidates for the generated scripts. Prints
+ * nothing on any error so a broken project never garbles the shell prompt.
+ */
+export async function completeValuesCommand(options: CompleteValuesOptions): Promise<void> {
+  if (!isDynamicSource(options.source)) {
+    return;
+  }
+  try {
+    const values = await resolveDynamicCompletions(options.projectDir, options.source);
+    if (values.length > 0) {
+      process.stdout.write(values.join("\n") + "\n");
+    }
+  } catch {
+    // Completion must stay silent
+  }
+}
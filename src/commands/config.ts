@@ -0,0 +1,142 @@
+import chalk from "chalk";
+import { withErrorHandling } from "../utils/errors.js";
+import { isInitialized } from "../installer/project-files.js";
+import {
+  getSetting,
+  listSettings,
+  setSetting,
+  unsetSetting,
+  type ResolvedSetting,
+  type SettingSource,
+} from "../config/settings.js";
+
+interface ConfigBaseOptions {
+  projectDir: string;
+}
+
+interface ConfigGetOptions extends ConfigBaseOptions {
+  key: string;
+  json?: boolean;
+}
+
+interface ConfigSetOptions extends ConfigBaseOptions {
+  key: string;
+  value: string;
+}
+
+interface ConfigUnsetOptions extends ConfigBaseOptions {
+  key: string;
+}
+
+interface ConfigListOptions extends ConfigBaseOptions {
+  json?: boolean;
+}
+
+export async function configGetCommand(options: ConfigGetOptions): Promise<void> {
+  await withErrorHandling(() => runConfigGet(options));
+}
+
+export async function configSetCommand(options: ConfigSetOptions): Promise<void> {
+  await withErrorHandling(() => runConfigSet(options));
+}
+
+export async function configUnsetCommand(options: ConfigUnsetOptions): Promise<void> {
+  await withErrorHandling(() => runConfigUnset(options));
+}
+
+export async function configListCommand(options: ConfigListOptions): Promise<void> {
+  await withErrorHandling(() => runConfigList(options));
+}
+
+async function assertInitialized(projectDir: string): Promise<void> {
+  if (!(await isInitialized(projectDir))) {
+    throw new Error("Project not initialized. Run: bmalph init");
+  }
+}
+
+function formatSource(setting: ResolvedSetting): string {
+  const labels: Record<SettingSource, string> = {
+    env: `env ${setting.envVar ?? setting.key}`,
+    file: setting.file,
+    default: "template default",
+    unset: "not set",
+  };
+  return labels[setting.source];
+}
+
+export async function runConfigGet(options: ConfigGetOptions): Promise<void> {
+  await assertInitialized(options.projectDir);
+  const setting = await getSetting(options.projectDir, options.key);
+
+  if (options.json) {
+    console.log(JSON.stringify(setting, null, 2));
+    return;
+  }
+
+  console.log(setting.value ?? "");
+}
+
+export async function runConfigSet(options: ConfigSetOptions): Promise<void> {
+  const { projectDir, key, value } = options;
+  await assertInitialized(projectDir);
+
+  const written = await setSetting(projectDir, key, value);
+  const setting = await getSetting(projectDir, key);
+  console.log(chalk.green(`Set ${key}=${written} in ${setting.file}`));
+
+  if (setting.source === "env") {
+    console.log(
+      chalk.yellow(
+        `  ! Environment variable ${setting.envVar ?? key} overrides this value (currently "${setting.value ?? ""}")`
+      )
+    );
+  }
+}
+
+export async function runConfigUnset(options: ConfigUnsetOptions): Promise<void> {
+  const { projectDir, key } = options;
+  await assertInitialized(projectDir);
+
+  await unsetSetting(projectDir, key);
+  const setting = await getSetting(projectDir, key);
+  const fallback =
+    setting.value !== null ? ` (now ${setting.value} from ${formatSource(setting)})` : "";
+  console.log(chalk.green(`Unset ${key} in ${setting.file}`) + chalk.dim(fallback));
+}
+
+export async function runConfigList(options: ConfigListOptions): Promise<void> {
+  await assertInitialized(options.projectDir);
+  const report = await listSettings(options.projectDir);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(chalk.bold("bmalph config\n"));
+
+  for (const scope of ["bmalph", "ralph"] as const) {
+    const settings = report.settings.filter((setting) => setting.scope === scope);
+    const file = settings[0]?.file ?? "";
+    console.log(chalk.bold(`  ${file}`));
+
+    const keyWidth = Math.max(...settings.map((setting) => setting.key.length));
+    for (const setting of settings) {
+      const value = setting.value === null ? chalk.dim("(not set)") : setting.value;
+      const source = chalk.dim(`[${formatSource(setting)}]`);
+      console.log(`    ${setting.key.padEnd(keyWidth)}  ${value} ${source}`);
+      if (setting.invalid) {
+        console.log(chalk.red(`      ✗ ${setting.invalid}`));
+      }
+    }
+    console.log("");
+  }
+
+  if (report.ralphrcIssues.length > 0) {
+    console.log(chalk.yellow("  .ralphrc lines ignored by Ralph:"));
+    for (const issue of report.ralphrcIssues) {
+      console.log(chalk.yellow(`    line ${issue.line}: ${issue.message}`));
+    }
+    console.log("");
+  }
+}
@@ -4,6 +4,8 @@ import { resolveBashCommand, runBashCommand, detectBashVersion } from "../run/ra
 import { readJsonFile } from "../utils/json.js";
 import { isEnoent, formatError } from "../utils/errors.js";
 import { CONFIG_FILE } from "../utils/constants.js";
+import type { DoctorFix } from "../platform/types.js";
+import { reinstallRalphAssetsFix } from "./doctor-fixes.js";
 import type { CheckResult } from "./doctor.js";
 
 export async function checkCommandAvailable(command: string): Promise<boolean> {
@@ -112,21 +114,38 @@ export async function checkBmadDir(projectDir: string): Promise<CheckResult> {
 }
 
 export async function checkRalphLoop(projectDir: string): Promise<CheckResult> {
-  return checkFileHasContent(
-    join(projectDir, ".ralph/ralph_loop.sh"),
-    "ralph_loop.sh present and has content",
-    "Run: bmalph upgrade"
+  return withFix(
+    await checkFileHasContent(
+      join(projectDir, ".ralph/ralph_loop.sh"),
+      "ralph_loop.sh present and has content",
+      "Run: bmalph upgrade"
+    ),
+    reinstallRalphAssetsFix
   );
 }
 
 export async function checkRalphLib(projectDir: string): Promise<CheckResult> {
-  return checkDir(
-    join(projectDir, ".ralph/lib"),
-    ".ralph/lib/ directory present",
-    "Run: bmalph upgrade"
+  return withFix(
+    await checkDir(
+      join(projectDir, ".ralph/lib"),
+      ".ralph/lib/ directory present",
+      "Run: bmalph upgrade"
+    ),
+    reinstallRalphAssetsFix
   );
 }
 
+/**
+ * Attaches a fix to a failed result. Errors other than a missing or empty
+ * path (e.g. permissions) are left for the user to resolve.
+ */
+function withFix(result: CheckResult, fix: DoctorFix): CheckResult {
+  if (result.passed || result.detail?.startsWith("error:")) {
+    return result;
+  }
+  return { ...result, fix };
+}
+
 export async function checkConfig(projectDir: string): Promise<CheckResult> {
   const label = "bmalph/config.json exists and valid";
   const hint = "Run: bmalph init";
@@ -0,0 +1,63 @@
+import { rm } from "node:fs/promises";
+import { isRalphLoopRunning } from "../utils/ralph-runtime-state.js";
+import type { DoctorFix } from "../platform/types.js";
+
+async function assertRalphStopped(projectDir: string, action: string): Promise<void> {
+  if (await isRalphLoopRunning(projectDir)) {
+    throw new Error(`Ralph loop is running; stop it before ${action}`);
+  }
+}
+
+export const updateGitignoreFix: DoctorFix = {
+  kind: "update-gitignore",
+  description: "Append missing entries to .gitignore",
+  apply: async (projectDir) => {
+    const { updateGitignore } = await import("../installer.js");
+    await updateGitignore(projectDir);
+  },
+};
+
+/**
+ * Re-copies ralph_loop.sh, lib/ and drivers from the bundled version, the same
+ * way `bmalph upgrade` does. Customized templates are left untouched.
+ */
+export const reinstallRalphAssetsFix: DoctorFix = {
+  kind: "reinstall-ralph-assets",
+  description: "Reinstall bundled Ralph scripts and lib",
+  apply: async (projectDir) => {
+    const { isInitialized, getBundledRalphDir, getPackageVersion } =
+      await import("../installer.js");
+    if (!(await isInitialized(projectDir))) {
+      throw new Error("bmalph is not initialized in this project. Run: bmalph init");
+    }
+    await assertRalphStopped(projectDir, "reinstalling its scripts");
+
+    const { installRalphAssets } = await import("../installer/ralph-assets.js");
+    const { resolveProjectPlatform } = await import("../platform/resolve.js");
+    const platform = await resolveProjectPlatform(projectDir);
+    await installRalphAssets(projectDir, getBundledRalphDir(), platform, await getPackageVersion());
+  },
+};
+
+/** Ralph recreates a CLOSED circuit breaker when the state file is missing. */
+export function resetCircuitBreakerFix(statePath: string): DoctorFix {
+  return {
+    kind: "reset-circuit-breaker",
+    description: "Reset the circuit breaker to CLOSED",
+    apply: async (projectDir) => {
+      await assertRalphStopped(projectDir, "resetting the circuit breaker");
+      await rm(statePath, { force: true });
+    },
+  };
+}
+
+export function clearRalphSessionFix(sessionPath: string): DoctorFix {
+  return {
+    kind: "clear-ralph-session",
+    description: "Remove the stale Ralph session so the next run starts fresh",
+    apply: async (projectDir) => {
+      await assertRalphStopped(projectDir, "clearing its session");
+      await rm(sessionPath, { force: true });
+    },
+  };
+}
@@ -5,6 +5,7 @@ import { parseGitignoreLines } from "../utils/file-system.js";
 import { getBundledVersions } from "../installer.js";
 import { isEnoent, formatError } from "../utils/errors.js";
 import { GITIGNORE_ENTRIES } from "../utils/constants.js";
+import { reinstallRalphAssetsFix, updateGitignoreFix } from "./doctor-fixes.js";
 import type { CheckResult } from "./doctor.js";
 
 export async function checkGitignore(projectDir: string): Promise<CheckResult> {
@@ -22,6 +23,7 @@ export async function checkGitignore(projectDir: string): Promise<CheckResult> {
       passed: false,
       detail: `missing: ${missing.join(", ")}`,
       hint: `Add to .gitignore: ${missing.join(" ")}`,
+      fix: updateGitignoreFix,
     };
   } catch (err) {
     if (isEnoent(err)) {
@@ -30,6 +32,7 @@ export async function checkGitignore(projectDir: string): Promise<CheckResult> {
         passed: false,
         detail: ".gitignore not found",
         hint: "Create .gitignore with: .ralph/logs/ _bmad-output/",
+        fix: updateGitignoreFix,
       };
     }
     return {
@@ -60,6 +63,7 @@ export async function checkVersionMarker(projectDir: string): Promise<CheckResul
       passed: false,
       detail: `installed: ${match[1]!.trim()}, current: ${current}`,
       hint,
+      fix: reinstallRalphAssetsFix,
     };
   } catch (err) {
     if (isEnoent(err)) {
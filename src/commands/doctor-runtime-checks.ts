@@ -7,6 +7,7 @@ import {
   readRalphRuntimeStatus,
 } from "../utils/ralph-runtime-state.js";
 import { SESSION_AGE_WARNING_MS, API_USAGE_WARNING_PERCENT } from "../utils/constants.js";
+import { clearRalphSessionFix, resetCircuitBreakerFix } from "./doctor-fixes.js";
 import type { CheckResult } from "./doctor.js";
 
 export async function checkCircuitBreaker(projectDir: string): Promise<CheckResult> {
@@ -23,6 +24,7 @@ export async function checkCircuitBreaker(projectDir: string): Promise<CheckResu
       passed: false,
       detail: "corrupt state file",
       hint: "Delete .ralph/.circuit_breaker_state and restart Ralph",
+      fix: resetCircuitBreakerFix(result.path),
     };
   }
 
@@ -50,6 +52,7 @@ export async function checkCircuitBreaker(projectDir: string): Promise<CheckResu
     passed: false,
     detail,
     hint: "Ralph detected stagnation. Review logs with: bmalph status",
+    fix: resetCircuitBreakerFix(result.path),
   };
 }
 
@@ -67,6 +70,7 @@ export async function checkRalphSession(projectDir: string): Promise<CheckResult
       passed: false,
       detail: "corrupt session file",
       hint: "Delete .ralph/.ralph_session to reset",
+      fix: clearRalphSessionFix(result.path),
     };
   }
 
@@ -92,6 +96,7 @@ export async function checkRalphSession(projectDir: string): Promise<CheckResult
       passed: false,
       detail: "invalid timestamp",
       hint: "Delete .ralph/.ralph_session to reset",
+      fix: clearRalphSessionFix(result.path),
     };
   }
 
@@ -103,6 +108,7 @@ export async function checkRalphSession(projectDir: string): Promise<CheckResult
       passed: false,
       detail: "invalid timestamp (future)",
       hint: "Delete .ralph/.ralph_session to reset",
+      fix: clearRalphSessionFix(result.path),
     };
   }
 
@@ -117,6 +123,7 @@ export async function checkRalphSession(projectDir: string): Promise<CheckResult
       passed: false,
       detail: `${ageStr} old (max ${maxAgeHours}h)`,
       hint: "Session is stale. Start a fresh Ralph session",
+      fix: clearRalphSessionFix(result.path),
     };
   }
 
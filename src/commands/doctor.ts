@@ -1,7 +1,7 @@
 import chalk from "chalk";
-import { withErrorHandling } from "../utils/errors.js";
+import { formatError, withErrorHandling } from "../utils/errors.js";
 import { resolveProjectPlatform } from "../platform/resolve.js";
-import type { Platform } from "../platform/types.js";
+import type { DoctorFix, DoctorFixKind, Platform } from "../platform/types.js";
 import {
   checkNodeVersion,
   checkBash,
@@ -29,6 +29,8 @@ export interface CheckResult {
   passed: boolean;
   detail?: string;
   hint?: string;
+  /** Automatic repair offered when the check fails */
+  fix?: DoctorFix;
 }
 
 export type CheckFunction = (projectDir: string) => CheckResult | Promise<CheckResult>;
@@ -40,12 +42,31 @@ export interface CheckDefinition {
 
 interface DoctorOptions {
   json?: boolean;
+  /** Apply the fixes offered by failing checks */
+  fix?: boolean;
+  /** With fix: list the fixes without applying them */
+  dryRun?: boolean;
   projectDir: string;
 }
 
 interface DoctorResult {
   passed: number;
   failed: number;
+  fixed: number;
+}
+
+export type FixStatus = "fixed" | "planned" | "failed" | "unfixable";
+
+export interface FixReport {
+  status: FixStatus;
+  kind?: DoctorFixKind;
+  description?: string;
+  error?: string;
+}
+
+interface CheckOutcome {
+  result: CheckResult;
+  fix?: FixReport;
 }
 
 export async function doctorCommand(options: DoctorOptions): Promise<void> {
@@ -62,6 +83,10 @@ export async function runDoctor(
   checksOverride?: CheckDefinition[]
 ): Promise<DoctorResult> {
   const projectDir = options.projectDir;
+  if (options.dryRun && !options.fix) {
+    throw new Error("--dry-run requires --fix");
+  }
+
   let checks: CheckDefinition[];
   if (checksOverride) {
     checks = checksOverride;
@@ -69,38 +94,63 @@ export async function runDoctor(
     const platform = await resolveProjectPlatform(projectDir);
     checks = buildCheckRegistry(platform);
   }
-  const results: CheckResult[] = [];
+  const outcomes: CheckOutcome[] = [];
 
+  // Fixes run right after their check, so a repair (e.g. reinstalling Ralph
+  // assets) is already in place when later checks look at the same files
   for (const check of checks) {
-    results.push(await check.run(projectDir));
+    const result = await check.run(projectDir);
+    if (options.fix && !result.passed) {
+      outcomes.push(await applyFix(check, result, projectDir, options.dryRun === true));
+    } else {
+      outcomes.push({ result });
+    }
   }
 
+  const results = outcomes.map((o) => o.result);
   const passed = results.filter((r) => r.passed).length;
   const failed = results.filter((r) => !r.passed).length;
+  const countFixes = (status: FixStatus): number =>
+    outcomes.filter((o) => o.fix?.status === status).length;
+  const fixed = countFixes("fixed");
 
   if (options.json) {
     const output = {
-      results: results.map((r) => ({
+      results: outcomes.map(({ result: r, fix }) => ({
         label: r.label,
         passed: r.passed,
         ...(r.detail && { detail: r.detail }),
         ...(r.hint && { hint: r.hint }),
+        ...(fix && { fix }),
       })),
-      summary: { passed, failed, total: results.length },
+      summary: {
+        passed,
+        failed,
+        total: results.length,
+        ...(options.fix && {
+          fixed,
+          planned: countFixes("planned"),
+          fixFailed: countFixes("failed"),
+          unfixable: countFixes("unfixable"),
+        }),
+      },
     };
     console.log(JSON.stringify(output, null, 2));
-    return { passed, failed };
+    return { passed, failed, fixed };
   }
 
   console.log(chalk.bold("bmalph doctor\n"));
 
-  for (const r of results) {
+  for (const { result: r, fix } of outcomes) {
     const icon = r.passed ? chalk.green("\u2713") : chalk.red("\u2717");
     const detail = r.detail ? chalk.dim(` (${r.detail})`) : "";
     console.log(`  ${icon} ${r.label}${detail}`);
     if (!r.passed && r.hint) {
       console.log(chalk.yellow(`     → ${r.hint}`));
     }
+    if (fix) {
+      renderFixReport(fix);
+    }
   }
 
   console.log("");
@@ -111,7 +161,66 @@ export async function runDoctor(
     console.log(`${chalk.green(`${passed} passed`)}, ${chalk.red(`${failed} failed`)}`);
   }
 
-  return { passed, failed };
+  if (options.fix) {
+    const planned = countFixes("planned");
+    const manual = countFixes("unfixable") + countFixes("failed");
+    const applied = options.dryRun ? `${planned} would be fixed` : `${fixed} fixed`;
+    console.log(chalk.dim(`${applied}, ${manual} need manual action`));
+  }
+
+  return { passed, failed, fixed };
+}
+
+/**
+ * Applies the fix a failed check offers (or only reports it in dry-run mode),
+ * then re-runs the check so the outcome reflects the repaired state.
+ */
+async function applyFix(
+  check: CheckDefinition,
+  result: CheckResult,
+  projectDir: string,
+  dryRun: boolean
+): Promise<CheckOutcome> {
+  const fix = result.fix;
+  if (!fix) {
+    return { result, fix: { status: "unfixable" } };
+  }
+
+  const report = { kind: fix.kind, description: fix.description };
+  if (dryRun) {
+    return { result, fix: { status: "planned", ...report } };
+  }
+
+  try {
+    await fix.apply(projectDir);
+  } catch (err) {
+    return { result, fix: { status: "failed", ...report, error: formatError(err) } };
+  }
+
+  const recheck = await check.run(projectDir);
+  if (!recheck.passed) {
+    return {
+      result: recheck,
+      fix: { status: "failed", ...report, error: "check still fails after the fix" },
+    };
+  }
+  return { result: recheck, fix: { status: "fixed", ...report } };
+}
+
+function renderFixReport(fix: FixReport): void {
+  switch (fix.status) {
+    case "fixed":
+      console.log(chalk.green(`     fixed: ${fix.description ?? ""}`));
+      break;
+    case "planned":
+      console.log(chalk.cyan(`     would fix: ${fix.description ?? ""}`));
+      break;
+    case "failed":
+      console.log(chalk.red(`     fix failed: ${fix.error ?? ""}`));
+      break;
+    case "unfixable":
+      break;
+  }
 }
 
 const CORE_CHECKS: CheckDefinition[] = [
@@ -145,6 +254,7 @@ export function buildCheckRegistry(platform: Platform): CheckDefinition[] {
         passed: result.passed,
         detail: result.detail,
         hint: result.hint,
+        fix: result.fix,
       };
     },
   }));
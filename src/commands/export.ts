@@ -0,0 +1,44 @@
+import chalk from "chalk";
+import { relative } from "node:path";
+import { exportProject } from "../archive/export.js";
+import { withErrorHandling } from "../utils/errors.js";
+
+interface ExportOptions {
+  output?: string;
+  includeLogs?: boolean;
+  json?: boolean;
+  projectDir: string;
+}
+
+export async function exportCommand(options: ExportOptions): Promise<void> {
+  await withErrorHandling(() => runExport(options));
+}
+
+async function runExport(options: ExportOptions): Promise<void> {
+  const { archivePath, manifest } = await exportProject(options.projectDir, {
+    output: options.output,
+    includeLogs: options.includeLogs,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify({ archive: archivePath, manifest }, null, 2));
+    return;
+  }
+
+  const totalBytes = manifest.files.reduce((sum, file) => sum + file.size, 0);
+  console.log(chalk.bold("bmalph export\n"));
+  console.log(
+    `  ${chalk.cyan("Archive:")}  ${relative(process.cwd(), archivePath) || archivePath}`
+  );
+  console.log(`  ${chalk.cyan("Files:")}    ${manifest.files.length} (${totalBytes} bytes)`);
+  console.log(
+    `  ${chalk.cyan("Versions:")} bmalph ${manifest.bmalphVersion}, BMAD ${manifest.bmadCommit.slice(0, 8)}`
+  );
+
+  if (manifest.redacted.length > 0) {
+    console.log(chalk.yellow("\nRedacted:"));
+    for (const value of manifest.redacted) {
+      console.log(`  ${value.path}: ${value.key} (${value.reason})`);
+    }
+  }
+}
@@ -1,27 +1,93 @@
 import chalk from "chalk";
-import { join } from "node:path";
+import { join, resolve } from "node:path";
 import { runTransition } from "../transition/orchestration.js";
+import { previewTransition } from "../transition/dry-run.js";
+import { watchTransition } from "../transition/watch.js";
+import { syncSprintStatusBack } from "../transition/sprint-status-sync.js";
+import { describeSpecsChangeDetails } from "../transition/specs-changelog.js";
+import type { IncrementalTransitionResult } from "../transition/incremental.js";
 import { PreflightValidationError } from "../transition/preflight.js";
-import { withErrorHandling } from "../utils/errors.js";
-import { exists } from "../utils/file-system.js";
+import { formatPreflightSarif } from "../transition/preflight-sarif.js";
+import { withErrorHandling, formatError } from "../utils/errors.js";
+import { atomicWriteFile, exists } from "../utils/file-system.js";
+import { readConfig } from "../utils/config.js";
+import { setQuiet } from "../utils/logger.js";
+import { getPackageVersion } from "../installer/metadata.js";
+import { formatDryRunSummary } from "../utils/dryrun.js";
 import { resolveProjectPlatform } from "../platform/resolve.js";
 import { getFullTierPlatformNames } from "../platform/registry.js";
-import type { PreflightIssue } from "../transition/types.js";
+import type {
+  GeneratedFile,
+  PreflightIssue,
+  SpecsChange,
+  SuppressedPreflightIssue,
+  TransitionOptions,
+  TransitionResult,
+} from "../transition/types.js";
 
 interface ImplementOptions {
+  dryRun?: boolean;
+  watch?: boolean;
   force?: boolean;
+  syncBack?: boolean;
+  testScaffold?: boolean;
+  json?: boolean;
+  /** Path of a SARIF file to write pre-flight results to */
+  sarif?: string;
   projectDir: string;
 }
 
+/** How pre-flight results are reported besides the transition itself */
+interface PreflightReportOptions {
+  projectDir: string;
+  json?: boolean;
+  sarif?: string;
+}
+
 export async function implementCommand(options: ImplementOptions): Promise<void> {
   await withErrorHandling(() => runImplement(options));
 }
 
 async function runImplement(options: ImplementOptions): Promise<void> {
-  const { projectDir, force } = options;
+  const { projectDir, force, testScaffold } = options;
+
+  if (options.dryRun && options.watch) {
+    throw new Error("--dry-run and --watch cannot be used together");
+  }
+
+  if ((options.json || options.sarif) && (options.watch || options.syncBack)) {
+    throw new Error("--json and --sarif cannot be used with --watch or --sync-back");
+  }
+
+  const report: PreflightReportOptions = { projectDir, json: options.json, sarif: options.sarif };
+  if (options.json) {
+    // Progress logging would corrupt the JSON on stdout
+    setQuiet(true);
+  }
+
+  if (options.syncBack) {
+    if (options.dryRun || options.watch || testScaffold) {
+      throw new Error("--sync-back cannot be used with --dry-run, --watch or --test-scaffold");
+    }
+    await runImplementSyncBack(projectDir);
+    return;
+  }
+
+  if (options.dryRun) {
+    await runImplementDryRun(projectDir, { force, testScaffold }, report);
+    return;
+  }
+
+  if (options.watch) {
+    await runImplementWatch(projectDir, { force, testScaffold });
+    return;
+  }
 
   // Re-run protection: warn if implement was already run
   const alreadyRun = await exists(join(projectDir, ".ralph/@fix_plan.md"));
+  if (alreadyRun && !force && options.json) {
+    throw new Error("bmalph implement has already been run. Use --force to proceed anyway.");
+  }
   if (alreadyRun && !force) {
     console.log(chalk.yellow("Warning: bmalph implement has already been run."));
     console.log(
@@ -35,39 +101,18 @@ async function runImplement(options: ImplementOptions): Promise<void> {
 
   const platform = await resolveProjectPlatform(projectDir);
 
-  let result;
-  try {
-    result = await runTransition(projectDir, { force });
-  } catch (error) {
-    if (error instanceof PreflightValidationError) {
-      renderPreflightIssues(error.issues);
-    }
-    throw error;
-  }
-
-  // Print preflight issues with severity icons
-  renderPreflightIssues(result.preflightIssues);
-
-  // Print warnings
-  const preflightMessages = new Set(result.preflightIssues.map((issue) => issue.message));
-  const warnings = result.warnings.filter((warning) => !preflightMessages.has(warning));
-
-  if (warnings.length > 0) {
-    for (const warning of warnings) {
-      console.log(chalk.yellow(`  ! ${warning}`));
-    }
-    console.log("");
+  const result = await withPreflightReport(
+    () => runTransition(projectDir, { force, testScaffold }),
+    report
+  );
+  await reportPreflightResult(result, report);
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
   }
+  renderIssuesAndWarnings(result);
 
-  // Generated files summary
-  if (result.generatedFiles.length > 0) {
-    console.log(chalk.bold("\nGenerated files\n"));
-    for (const file of result.generatedFiles) {
-      const icon = file.action === "created" ? chalk.green("+") : chalk.cyan("~");
-      console.log(`  ${icon} ${file.path}`);
-    }
-    console.log("");
-  }
+  renderGeneratedFiles(result.generatedFiles);
 
   // Summary
   const preserved = result.fixPlanPreserved ? chalk.dim(" (progress preserved)") : "";
@@ -90,6 +135,255 @@ async function runImplement(options: ImplementOptions): Promise<void> {
   }
 }
 
+/**
+ * Writes fix plan progress back to sprint-status.yaml without running the
+ * transition, so the BMAD side sees the stories Ralph has finished.
+ */
+async function runImplementSyncBack(projectDir: string): Promise<void> {
+  const result = await syncSprintStatusBack(projectDir);
+  if (!result) {
+    throw new Error(
+      "No sprint-status.yaml found. Generate one with the BMAD sprint-planning workflow first."
+    );
+  }
+
+  for (const warning of result.warnings) {
+    console.log(chalk.yellow(`  ! ${warning}`));
+  }
+
+  if (result.changes.length === 0) {
+    console.log(chalk.dim(`${result.path} is already up to date`));
+    return;
+  }
+
+  console.log(chalk.bold(`\nUpdated ${result.path}\n`));
+  for (const change of result.changes) {
+    console.log(`  ${chalk.cyan("~")} ${change.key}: ${change.from} -> ${change.to}`);
+  }
+  console.log("");
+}
+
+/**
+ * Runs the transition against a temporary copy of the project and prints a
+ * unified diff for every .ralph/ file it would create, modify or delete.
+ */
+async function runImplementDryRun(
+  projectDir: string,
+  options: TransitionOptions,
+  report: PreflightReportOptions
+): Promise<void> {
+  const { result, changes } = await withPreflightReport(
+    () => previewTransition(projectDir, options),
+    report
+  );
+  await reportPreflightResult(result, report);
+  if (report.json) {
+    console.log(JSON.stringify({ ...result, changes }, null, 2));
+    return;
+  }
+  renderIssuesAndWarnings(result);
+
+  for (const change of changes) {
+    console.log(colorizeDiff(change.diff));
+  }
+
+  console.log(
+    formatDryRunSummary(changes.map((change) => ({ type: change.action, path: change.path })))
+  );
+  console.log(chalk.dim(`Transition would cover ${result.storiesCount} stories`));
+}
+
+/**
+ * Runs a full transition, then watches the artifacts directory and re-runs only
+ * the steps affected by each settled batch of changes until interrupted.
+ * Failed cycles (e.g. blocking preflight issues) are reported and watching continues.
+ */
+async function runImplementWatch(projectDir: string, options: TransitionOptions): Promise<void> {
+  try {
+    const result = await withPreflightReport(() => runTransition(projectDir, options));
+    renderIssuesAndWarnings(result);
+    renderGeneratedFiles(result.generatedFiles);
+    console.log(chalk.green(`Transition complete: ${result.storiesCount} stories`));
+  } catch (error) {
+    renderWatchError(error);
+  }
+
+  console.log(chalk.dim("\nWatching BMAD artifacts for changes (Ctrl+C to stop)..."));
+
+  await watchTransition({
+    projectDir,
+    ...options,
+    onCycle: renderWatchCycle,
+    onError: (error) => {
+      if (error instanceof PreflightValidationError) {
+        console.log(chalk.bold(`\n[${formatTime(new Date())}] Transition blocked`));
+        renderPreflightIssues(error.issues);
+        return;
+      }
+      renderWatchError(error);
+    },
+  });
+}
+
+function formatTime(date: Date): string {
+  return date.toTimeString().slice(0, 8);
+}
+
+function renderWatchError(error: unknown): void {
+  if (error instanceof PreflightValidationError) {
+    renderPreflightIssues(error.issues);
+  }
+  console.log(chalk.red(`Transition failed: ${formatError(error)}`));
+}
+
+function renderWatchCycle(changedFiles: string[], result: IncrementalTransitionResult): void {
+  const changed = changedFiles.length > 0 ? changedFiles.join(", ") : "retrying deferred fix plan";
+  console.log(chalk.bold(`\n[${formatTime(new Date())}] ${changed}`));
+  console.log(chalk.dim(`  Updating: ${result.targets.join(", ")}`));
+
+  renderIssuesAndWarnings(result);
+  renderSpecsChanges(result.specsChanges);
+  renderGeneratedFiles(result.generatedFiles);
+
+  if (result.fixPlanDeferred) {
+    console.log(chalk.yellow("  ! Ralph loop is running; fix plan sync deferred until it stops"));
+  }
+  const preserved = result.fixPlanPreserved ? chalk.dim(" (progress preserved)") : "";
+  console.log(chalk.green(`  Updated: ${result.storiesCount} stories`) + preserved);
+}
+
+function renderSpecsChanges(changes: SpecsChange[]): void {
+  if (changes.length === 0) {
+    return;
+  }
+
+  console.log(chalk.bold("\nSpecs changelog\n"));
+  for (const change of changes) {
+    const icon =
+      change.status === "added"
+        ? chalk.green("+")
+        : change.status === "removed"
+          ? chalk.red("-")
+          : chalk.cyan("~");
+    const summary = change.summary ? chalk.dim(` — ${change.summary}`) : "";
+    console.log(`  ${icon} ${change.file}${summary}`);
+    for (const detail of describeSpecsChangeDetails(change)) {
+      console.log(chalk.dim(`      ${detail}`));
+    }
+  }
+}
+
+function renderGeneratedFiles(files: GeneratedFile[]): void {
+  if (files.length === 0) {
+    return;
+  }
+
+  console.log(chalk.bold("\nGenerated files\n"));
+  for (const file of files) {
+    const icon = file.action === "created" ? chalk.green("+") : chalk.cyan("~");
+    console.log(`  ${icon} ${file.path}`);
+  }
+  console.log("");
+}
+
+/**
+ * Runs the transition and reports blocking pre-flight issues as text, or as
+ * JSON with --json. With --sarif they are also written to the SARIF file.
+ */
+async function withPreflightReport<T>(
+  run: () => Promise<T>,
+  report?: PreflightReportOptions
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof PreflightValidationError) {
+      if (report?.sarif) {
+        await writeSarifReport(report.projectDir, report.sarif, error.issues, error.suppressed);
+      }
+      if (report?.json) {
+        console.log(
+          JSON.stringify(
+            {
+              pass: false,
+              preflightIssues: error.issues,
+              suppressedPreflightIssues: error.suppressed,
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        renderPreflightIssues(error.issues, error.suppressed);
+      }
+    }
+    throw error;
+  }
+}
+
+/** Writes the SARIF file for a transition that passed pre-flight */
+async function reportPreflightResult(
+  result: Pick<TransitionResult, "preflightIssues" | "suppressedPreflightIssues">,
+  report: PreflightReportOptions
+): Promise<void> {
+  if (report.sarif) {
+    await writeSarifReport(
+      report.projectDir,
+      report.sarif,
+      result.preflightIssues,
+      result.suppressedPreflightIssues ?? []
+    );
+  }
+}
+
+async function writeSarifReport(
+  projectDir: string,
+  path: string,
+  issues: PreflightIssue[],
+  suppressed: SuppressedPreflightIssue[]
+): Promise<void> {
+  const config = await readConfig(projectDir);
+  const sarif = formatPreflightSarif(
+    issues,
+    suppressed,
+    await getPackageVersion(),
+    config?.preflight?.customRules
+  );
+  await atomicWriteFile(resolve(projectDir, path), `${JSON.stringify(sarif, null, 2)}\n`);
+}
+
+function renderIssuesAndWarnings(
+  result: Pick<TransitionResult, "preflightIssues" | "suppressedPreflightIssues" | "warnings">
+): void {
+  // Print preflight issues with severity icons
+  renderPreflightIssues(result.preflightIssues, result.suppressedPreflightIssues);
+
+  // Print warnings
+  const preflightMessages = new Set(result.preflightIssues.map((issue) => issue.message));
+  const warnings = result.warnings.filter((warning) => !preflightMessages.has(warning));
+
+  if (warnings.length > 0) {
+    for (const warning of warnings) {
+      console.log(chalk.yellow(`  ! ${warning}`));
+    }
+    console.log("");
+  }
+}
+
+function colorizeDiff(diff: string): string {
+  return diff
+    .trimEnd()
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) return chalk.bold(line);
+      if (line.startsWith("@@")) return chalk.cyan(line);
+      if (line.startsWith("+")) return chalk.green(line);
+      if (line.startsWith("-")) return chalk.red(line);
+      return line;
+    })
+    .join("\n");
+}
+
 function severityIcon(issue: PreflightIssue): string {
   switch (issue.severity) {
     case "error":
@@ -101,17 +395,23 @@ function severityIcon(issue: PreflightIssue): string {
   }
 }
 
-function renderPreflightIssues(issues: PreflightIssue[]): void {
-  if (issues.length === 0) {
+function renderPreflightIssues(
+  issues: PreflightIssue[],
+  suppressed: SuppressedPreflightIssue[] = []
+): void {
+  if (issues.length === 0 && suppressed.length === 0) {
     return;
   }
 
   console.log(chalk.bold("\nPre-flight checks\n"));
   for (const issue of issues) {
-    console.log(`  ${severityIcon(issue)} ${issue.message}`);
+    console.log(`  ${severityIcon(issue)} ${chalk.dim(`[${issue.id}]`)} ${issue.message}`);
     if (issue.suggestion) {
       console.log(chalk.dim(`     ${issue.suggestion}`));
     }
   }
+  if (suppressed.length > 0) {
+    console.log(chalk.dim(`  ${suppressed.length} suppressed in bmalph/config.json`));
+  }
   console.log("");
 }
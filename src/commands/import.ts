@@ -0,0 +1,39 @@
+import chalk from "chalk";
+import { importProject } from "../archive/import.js";
+import { withErrorHandling } from "../utils/errors.js";
+
+interface ImportOptions {
+  archive: string;
+  force?: boolean;
+  projectDir: string;
+}
+
+export async function importCommand(options: ImportOptions): Promise<void> {
+  await withErrorHandling(() => runImport(options));
+}
+
+async function runImport(options: ImportOptions): Promise<void> {
+  const result = await importProject(options.archive, options.projectDir, {
+    force: options.force,
+  });
+  const { manifest } = result;
+
+  console.log(chalk.bold("bmalph import\n"));
+  console.log(`  ${chalk.cyan("Project:")}  ${manifest.project.name}`);
+  console.log(`  ${chalk.cyan("Exported:")} ${manifest.createdAt}`);
+  console.log(
+    `  ${chalk.cyan("Versions:")} bmalph ${manifest.bmalphVersion}, BMAD ${manifest.bmadCommit.slice(0, 8)}`
+  );
+  console.log(`  ${chalk.cyan("Restored:")} ${result.restoredFiles.length} files`);
+
+  if (result.warnings.length > 0) {
+    console.log("");
+    for (const warning of result.warnings) {
+      console.log(chalk.yellow(`  ! ${warning}`));
+    }
+  }
+
+  console.log(
+    chalk.green("\nImport complete. BMAD and Ralph assets were installed for this version.")
+  );
+}
@@ -0,0 +1,192 @@
+import chalk from "chalk";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { matchesLogFilter } from "../logs/parser.js";
+import { findLoopOutputFiles, followRalphLog, readRalphLog } from "../logs/reader.js";
+import { RALPH_LOG_LEVELS, type LogFilter, type RalphLogEntry } from "../logs/types.js";
+import { RALPH_LOG_FILE } from "../utils/constants.js";
+import { withErrorHandling } from "../utils/errors.js";
+import { parseTimeFilter } from "../utils/validate.js";
+import { sanitizeExternalText } from "../watch/renderer.js";
+
+interface LogsOptions {
+  follow?: boolean;
+  level?: string;
+  since?: string;
+  until?: string;
+  loop?: string;
+  grep?: string;
+  lines?: string;
+  driverOutput?: boolean;
+  json?: boolean;
+  projectDir: string;
+}
+
+const DEFAULT_FOLLOW_LINES = 10;
+
+export async function logsCommand(options: LogsOptions): Promise<void> {
+  await withErrorHandling(() => runLogs(options));
+}
+
+function parsePositiveInteger(value: string, flag: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Invalid ${flag} value: ${value}. Must be a positive integer.`);
+  }
+  return n;
+}
+
+function parseLevels(value: string): string[] {
+  const levels = value
+    .split(",")
+    .map((level) => level.trim().toUpperCase())
+    .filter(Boolean);
+  for (const level of levels) {
+    if (!(RALPH_LOG_LEVELS as readonly string[]).includes(level)) {
+      throw new Error(
+        `Unknown log level: ${level.toLowerCase()}. Valid levels: ${RALPH_LOG_LEVELS.map((l) => l.toLowerCase()).join(", ")}`
+      );
+    }
+  }
+  return levels;
+}
+
+function parseGrep(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (err) {
+    throw new Error(`Invalid --grep pattern: ${pattern}`, { cause: err });
+  }
+}
+
+function buildFilter(options: LogsOptions): LogFilter {
+  return {
+    ...(options.level !== undefined && { levels: parseLevels(options.level) }),
+    ...(options.since !== undefined && { since: parseTimeFilter(options.since, "--since") }),
+    ...(options.until !== undefined && { until: parseTimeFilter(options.until, "--until") }),
+    ...(options.loop !== undefined && { loop: parsePositiveInteger(options.loop, "--loop") }),
+    ...(options.grep !== undefined && { grep: parseGrep(options.grep) }),
+  };
+}
+
+function colorLevel(level: string): string {
+  switch (level) {
+    case "ERROR":
+      return chalk.red(level);
+    case "WARN":
+      return chalk.yellow(level);
+    case "SUCCESS":
+      return chalk.green(level);
+    case "LOOP":
+      return chalk.cyan(level);
+    default:
+      return chalk.blue(level);
+  }
+}
+
+/** Strips terminal escapes from captured text, line by line */
+function sanitizeLines(text: string): string {
+  return text.trimEnd().split("\n").map(sanitizeExternalText).join("\n");
+}
+
+function formatEntry(entry: RalphLogEntry): string {
+  const level = colorLevel(sanitizeExternalText(entry.level));
+  return `${chalk.dim(`[${entry.timestamp}]`)} [${level}] ${sanitizeExternalText(entry.message)}`;
+}
+
+async function runLogs(options: LogsOptions): Promise<void> {
+  const filter = buildFilter(options);
+  const lines =
+    options.lines !== undefined ? parsePositiveInteger(options.lines, "--lines") : undefined;
+
+  if (options.driverOutput) {
+    if (filter.loop === undefined) {
+      throw new Error("--driver-output requires --loop <n>");
+    }
+    if (options.follow) {
+      throw new Error("--driver-output cannot be used with --follow");
+    }
+    await showDriverOutput(options.projectDir, filter.loop, options.json === true);
+    return;
+  }
+
+  const log = await readRalphLog(options.projectDir);
+  let entries = log.entries.filter((entry) => matchesLogFilter(entry, filter));
+  const limit = lines ?? (options.follow ? DEFAULT_FOLLOW_LINES : undefined);
+  if (limit !== undefined) {
+    entries = entries.slice(-limit);
+  }
+
+  if (options.json && !options.follow) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  // Following with --json streams one JSON object per line
+  const print = options.json
+    ? (entry: RalphLogEntry) => console.log(JSON.stringify(entry))
+    : (entry: RalphLogEntry) => console.log(formatEntry(entry));
+
+  if (!options.follow && log.size === 0) {
+    console.log(chalk.dim(`No Ralph log yet (${RALPH_LOG_FILE} not found or empty).`));
+    console.log(`Start the Ralph loop with: bmalph run`);
+    return;
+  }
+  if (!options.follow && entries.length === 0) {
+    console.log(chalk.dim("No log entries match the given filters."));
+    return;
+  }
+
+  entries.forEach(print);
+
+  if (options.follow) {
+    await followRalphLog({
+      projectDir: options.projectDir,
+      offset: log.size,
+      parser: log.parser,
+      onEntry: (entry) => {
+        if (matchesLogFilter(entry, filter)) print(entry);
+      },
+    });
+  }
+}
+
+async function readOptional(projectDir: string, path: string | null): Promise<string | null> {
+  return path === null ? null : readFile(join(projectDir, path), "utf-8");
+}
+
+async function showDriverOutput(projectDir: string, loop: number, json: boolean): Promise<void> {
+  const log = await readRalphLog(projectDir);
+  const files = await findLoopOutputFiles(projectDir, log.entries, loop);
+  if (!files) {
+    throw new Error(`Loop #${loop} not found in ${RALPH_LOG_FILE}`);
+  }
+
+  const output = await readOptional(projectDir, files.output);
+  const stderr = await readOptional(projectDir, files.stderr);
+
+  if (json) {
+    console.log(
+      JSON.stringify({ ...files, outputContent: output, stderrContent: stderr }, null, 2)
+    );
+    return;
+  }
+
+  if (files.output === null) {
+    console.log(chalk.dim(`No driver output captured for loop #${loop}.`));
+    return;
+  }
+
+  console.log(chalk.bold(`Loop #${loop} driver output\n`));
+  console.log(`  ${chalk.cyan("Output:")} ${files.output}`);
+  if (files.stderr) {
+    console.log(`  ${chalk.cyan("Stderr:")} ${files.stderr}`);
+  }
+  console.log("");
+  console.log(sanitizeLines(output ?? ""));
+
+  if (stderr?.trim()) {
+    console.log(chalk.bold("\nstderr\n"));
+    console.log(sanitizeLines(stderr));
+  }
+}
@@ -0,0 +1,66 @@
+import chalk from "chalk";
+import { withErrorHandling, formatError } from "../utils/errors.js";
+import { readRalphMetrics } from "../utils/ralph-metrics.js";
+import { parseTimeFilter } from "../utils/validate.js";
+import { warn } from "../utils/logger.js";
+import { RALPH_METRICS_FILE } from "../utils/constants.js";
+import { buildMetricsReport, filterMetrics } from "../metrics/report.js";
+import { renderMetricsCsv, renderMetricsReport } from "../metrics/render.js";
+import type { MetricsFilter } from "../metrics/types.js";
+
+interface MetricsOptions {
+  json?: boolean;
+  csv?: boolean;
+  run?: string;
+  since?: string;
+  projectDir: string;
+}
+
+export async function metricsCommand(options: MetricsOptions): Promise<void> {
+  await withErrorHandling(() => runMetrics(options));
+}
+
+export async function runMetrics(options: MetricsOptions): Promise<void> {
+  if (options.json && options.csv) {
+    throw new Error("--json and --csv cannot be used together");
+  }
+
+  const filter: MetricsFilter = {
+    ...(options.run !== undefined && { runId: options.run }),
+    ...(options.since !== undefined && { since: parseTimeFilter(options.since, "--since") }),
+  };
+
+  const result = await readRalphMetrics(options.projectDir);
+  if (result.kind === "unreadable" || result.kind === "invalid") {
+    throw new Error(`Cannot read ${RALPH_METRICS_FILE}`, { cause: result.error });
+  }
+
+  const log = result.kind === "ok" ? result.value : { records: [], skipped: [] };
+  const report = buildMetricsReport(filterMetrics(log.records, filter));
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...report, skippedLines: log.skipped.length }, null, 2));
+    return;
+  }
+
+  if (options.csv) {
+    console.log(renderMetricsCsv(report));
+    return;
+  }
+
+  for (const skipped of log.skipped) {
+    warn(`Skipping metrics line ${skipped.line}: ${formatError(skipped.error)}`);
+  }
+
+  if (report.totals.loops === 0) {
+    if (result.kind === "missing") {
+      console.log(chalk.dim(`No metrics recorded yet (${RALPH_METRICS_FILE} not found).`));
+      console.log(`Start the Ralph loop with: bmalph run`);
+    } else {
+      console.log(chalk.dim("No metrics match the given filters."));
+    }
+    return;
+  }
+
+  console.log(renderMetricsReport(report));
+}
@@ -0,0 +1,100 @@
+import chalk from "chalk";
+import confirm from "@inquirer/confirm";
+import { isInitialized } from "../installer.js";
+import { getPlatform, isPlatformId } from "../platform/registry.js";
+import { resolveProjectPlatform } from "../platform/resolve.js";
+import {
+  buildPlatformSwitchPlan,
+  executePlatformSwitchPlan,
+  switchPlanToDryRunActions,
+} from "../platform/switch.js";
+import { PLATFORM_IDS } from "../platform/types.js";
+import { formatDryRunSummary } from "../utils/dryrun.js";
+import { withErrorHandling } from "../utils/errors.js";
+import { isRalphLoopRunning } from "../utils/ralph-runtime-state.js";
+
+interface PlatformSwitchOptions {
+  id: string;
+  dryRun?: boolean;
+  force?: boolean;
+  projectDir: string;
+}
+
+export async function platformSwitchCommand(options: PlatformSwitchOptions): Promise<void> {
+  await withErrorHandling(() => runPlatformSwitch(options));
+}
+
+async function runPlatformSwitch(options: PlatformSwitchOptions): Promise<void> {
+  const projectDir = options.projectDir;
+
+  if (!(await isInitialized(projectDir))) {
+    console.log(chalk.red("bmalph is not initialized. Run 'bmalph init' first."));
+    return;
+  }
+
+  if (!isPlatformId(options.id)) {
+    throw new Error(
+      `Unknown platform: "${options.id}". Valid platforms: ${PLATFORM_IDS.join(", ")}`
+    );
+  }
+
+  const from = await resolveProjectPlatform(projectDir);
+  const to = getPlatform(options.id);
+  if (from.id === to.id) {
+    console.log(chalk.dim(`Project already uses ${to.displayName}. Nothing to switch.`));
+    return;
+  }
+
+  const plan = await buildPlatformSwitchPlan(projectDir, from, to);
+  const actions = switchPlanToDryRunActions(plan);
+
+  if (options.dryRun) {
+    console.log(chalk.bold(`Switch ${from.displayName} → ${to.displayName}`));
+    console.log(formatDryRunSummary(actions));
+    return;
+  }
+
+  if (await isRalphLoopRunning(projectDir)) {
+    throw new Error("Ralph loop is running. Stop it before switching platforms.");
+  }
+
+  for (const action of actions) {
+    if (action.type === "delete") {
+      console.log(`  ${chalk.red("delete")} ${action.path}`);
+    } else if (action.type === "create") {
+      console.log(`  ${chalk.green("create")} ${action.path}`);
+    } else if (action.type === "modify") {
+      console.log(`  ${chalk.yellow("modify")} ${action.path}`);
+    } else if (action.type === "warn") {
+      console.log(
+        `  ${chalk.yellow("warn")}   ${action.path}${action.reason ? ` (${action.reason})` : ""}`
+      );
+    }
+  }
+
+  // Confirm unless --force or non-interactive
+  if (!options.force) {
+    if (!process.stdin.isTTY) {
+      throw new Error("Non-interactive mode requires --force flag for platform switch");
+    }
+    const confirmed = await confirm({
+      message: `Switch this project from ${from.displayName} to ${to.displayName}?`,
+      default: false,
+    });
+    if (!confirmed) {
+      console.log("Aborted.");
+      return;
+    }
+  }
+
+  console.log(chalk.blue(`\nSwitching to ${to.displayName}...`));
+  await executePlatformSwitchPlan(projectDir, plan);
+
+  console.log(chalk.dim("\nPreserved:"));
+  console.log("  .ralph/ (fix plan progress, specs, logs)");
+  console.log("  bmalph/state/");
+  console.log("  _bmad/");
+  console.log("  _bmad-output/");
+
+  console.log(chalk.green(`\nPlatform switched: ${from.displayName} → ${to.displayName}`));
+}
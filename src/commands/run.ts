@@ -1,6 +1,6 @@
 import chalk from "chalk";
 import { readConfig } from "../utils/config.js";
-import { withErrorHandling } from "../utils/errors.js";
+import { withErrorHandling, formatError } from "../utils/errors.js";
 import { isInitialized } from "../installer/project-files.js";
 import { isPlatformId, getPlatform, getFullTierPlatformNames } from "../platform/registry.js";
 import { validateCursorRuntime } from "../platform/cursor-runtime-checks.js";
@@ -11,11 +11,35 @@ import {
   spawnRalphLoop,
 } from "../run/ralph-process.js";
 import { startRunDashboard } from "../run/run-dashboard.js";
-import { parseInterval } from "../utils/validate.js";
+import {
+  clearRunRegistry,
+  findActiveRun,
+  readProcessStartTime,
+  registerRun,
+  type RunRegistryEntry,
+} from "../run/run-registry.js";
+import { hasBudget, startBudgetSupervisor, type RunBudget } from "../run/budget.js";
+import {
+  RUN_EVENT_FORMATS,
+  combineRunEventSinks,
+  openRunEventSink,
+  startRunEventStream,
+  type CombinedRunEventSink,
+  type RunEventSink,
+  type RunEventStream,
+} from "../run/run-events.js";
+import { createHookSink, hasHooks, type HookSink } from "../run/hooks.js";
+import { parseDuration, parseInterval } from "../utils/validate.js";
 import { getDashboardTerminalSupport } from "../watch/frame-writer.js";
-import { SWARM_DEFAULT_WORKERS, SWARM_MAX_WORKERS } from "../utils/constants.js";
+import {
+  RALPH_LOG_FILE,
+  RALPH_METRICS_FILE,
+  SWARM_DEFAULT_WORKERS,
+  SWARM_MAX_WORKERS,
+} from "../utils/constants.js";
 import type { Platform, PlatformId } from "../platform/types.js";
-import type { ReviewMode } from "../run/types.js";
+import { REVIEW_MODES, type RalphProcess, type ReviewMode } from "../run/types.js";
+import { syncSprintStatusBack } from "../transition/sprint-status-sync.js";
 
 interface RunCommandOptions {
   projectDir: string;
@@ -24,8 +48,21 @@ interface RunCommandOptions {
   dashboard: boolean;
   review?: boolean | string;
   swarm?: boolean | string;
+  /** Write fix plan progress back to sprint-status.yaml when Ralph stops (default: true) */
+  syncBack?: boolean;
+  maxCost?: string;
+  maxTokens?: string;
+  maxLoops?: string;
+  maxDuration?: string;
+  /** Emit run events in this format on stdout (implies --no-dashboard) */
+  events?: string;
+  /** Write run events to this file instead of stdout (implies --no-dashboard) */
+  eventsFile?: string;
 }
 
+/** Where bmalph's own messages go; stderr while run events use stdout */
+type Print = (message: string) => void;
+
 export async function runCommand(options: RunCommandOptions): Promise<void> {
   await withErrorHandling(() => executeRun(options));
 }
@@ -41,6 +78,12 @@ async function executeRun(options: RunCommandOptions): Promise<void> {
     throw new Error("Project not initialized. Run: bmalph init");
   }
 
+  const events = parseRunEvents(options);
+  const eventsToStdout = events !== null && events.file === undefined;
+  const print: Print = eventsToStdout
+    ? (message) => console.error(message)
+    : (message) => console.log(message);
+
   const platform = resolvePlatform(options.driver, config.platform);
   if (platform.tier !== "full") {
     throw new Error(
@@ -50,18 +93,19 @@ async function executeRun(options: RunCommandOptions): Promise<void> {
   }
 
   if (platform.experimental) {
-    console.log(chalk.yellow(`Warning: ${platform.displayName} support is experimental`));
+    print(chalk.yellow(`Warning: ${platform.displayName} support is experimental`));
   }
 
   const reviewMode = await resolveReviewMode(options.review, platform);
   if (reviewMode === "enhanced") {
-    console.log(chalk.cyan("Enhanced mode: code review every 5 implementation loops"));
+    print(chalk.cyan("Enhanced mode: code review every 5 implementation loops"));
   } else if (reviewMode === "ultimate") {
-    console.log(chalk.cyan("Ultimate mode: code review after every completed story"));
+    print(chalk.cyan("Ultimate mode: code review after every completed story"));
   }
 
   const interval = parseInterval(options.interval);
-  let useDashboard = dashboard;
+  const budget = parseRunBudget(options);
+  let useDashboard = dashboard && events === null;
   if (useDashboard) {
     const terminalSupport = getDashboardTerminalSupport();
     if (!terminalSupport.supported) {
@@ -79,8 +123,24 @@ async function executeRun(options: RunCommandOptions): Promise<void> {
     await validateCursorRuntime(projectDir);
   }
 
+  const activeRun = await findActiveRun(projectDir);
+  if (activeRun) {
+    throw new Error(
+      `A Ralph loop is already running in this project (PID ${activeRun.pid}, started ${activeRun.startedAt}). ` +
+        "Run: bmalph attach, or bmalph stop"
+    );
+  }
+
   // Swarm mode: parallel workers in git worktrees
   if (options.swarm !== undefined && options.swarm !== false) {
+    if (hasBudget(budget)) {
+      throw new Error(
+        "Run budgets (--max-cost, --max-tokens, --max-loops, --max-duration) are not supported with --swarm"
+      );
+    }
+    if (events) {
+      throw new Error("Run events (--events, --events-file) are not supported with --swarm");
+    }
     const workerCount = parseSwarmCount(options.swarm);
     const { executeSwarmRun } = await import("../swarm/run.js");
     await executeSwarmRun({
@@ -90,26 +150,209 @@ async function executeRun(options: RunCommandOptions): Promise<void> {
       workerCount,
       dashboard: useDashboard,
       interval,
+      hooks: config.hooks,
     });
+    await syncSprintStatusAfterRun(projectDir, options.syncBack);
     return;
   }
 
+  // Opened before Ralph starts so an unwritable events file fails the run up front
+  const eventSink = events ? await openRunEventSink(projectDir, events.file) : null;
   const ralph = spawnRalphLoop(projectDir, platform.id, {
     inheritStdio: !useDashboard,
     reviewMode,
+    ...(eventsToStdout && { stdoutToStderr: true }),
   });
+  const pid = ralph.child.pid;
+  const startedAt = new Date();
+  const run = {
+    driver: platform.id,
+    reviewMode,
+    startedAt: startedAt.toISOString(),
+    ...(hasBudget(budget) && { budget }),
+  };
+  if (pid !== undefined) {
+    await registerRalphLoop(projectDir, pid, run, print);
+  }
+  const supervisor = hasBudget(budget)
+    ? startBudgetSupervisor(projectDir, ralph, budget, { startedAt, intervalMs: interval })
+    : null;
+  const hookSink = hasHooks(config.hooks) ? createHookSink(config.hooks, { projectDir }) : null;
+  const sinks = [eventSink, hookSink].filter((sink): sink is RunEventSink => sink !== null);
+  const combined = sinks.length > 1 ? combineRunEventSinks(sinks) : null;
+  const sink = combined ?? sinks[0] ?? null;
+  const stream = sink ? startRunEventStream(projectDir, ralph, { run, interval, sink }) : null;
 
   if (useDashboard) {
-    await startRunDashboard({ projectDir, interval, ralph, reviewMode });
+    await startRunDashboard({
+      projectDir,
+      interval,
+      ralph,
+      reviewMode,
+      budgetStatus: supervisor ? () => supervisor.describe() : undefined,
+    });
+    supervisor?.stop();
     if (ralph.state === "stopped") {
-      applyRalphExitCode(ralph.exitCode);
+      await finishRunEventStream(stream, sink, hookSink, print, combined);
+      await clearRunRegistry(projectDir, pid);
+      reportRalphExit(ralph, ralph.exitCode);
+      await syncSprintStatusAfterRun(projectDir, options.syncBack);
+    } else {
+      // Detached: hooks stop firing once this process exits
+      stream?.stop();
+      await finishRunEventStream(stream, sink, hookSink, print, combined);
     }
+  } else if (events) {
+    const exitCode = (await finishRunEventStream(stream, sink, hookSink, print, combined)) ?? 1;
+    await clearRunRegistry(projectDir, pid);
+    if (exitCode !== 0) {
+      process.exitCode = exitCode;
+    }
+    await syncSprintStatusAfterRun(projectDir, options.syncBack, print);
   } else {
     const exitCode = await new Promise<number | null>((resolve) => {
       ralph.onExit((code) => resolve(code));
     });
-    applyRalphExitCode(exitCode);
+    await finishRunEventStream(stream, sink, hookSink, print, combined);
+    await clearRunRegistry(projectDir, pid);
+    reportRalphExit(ralph, exitCode);
+    await syncSprintStatusAfterRun(projectDir, options.syncBack);
+  }
+}
+
+/**
+ * Waits for the event stream to end, closes its sinks and reports event
+ * output and hooks that failed. Neither changes the run's exit code.
+ */
+export async function finishRunEventStream(
+  stream: RunEventStream | null,
+  sink: RunEventSink | null,
+  hookSink: HookSink | null,
+  print: Print,
+  combined: CombinedRunEventSink | null = null
+): Promise<number | null> {
+  try {
+    return (await stream?.finished) ?? null;
+  } finally {
+    await sink?.close();
+    // Hook sinks record their own failures, so a failed sink here is the events output
+    const sinkFailures = [stream?.failure ?? null, ...(combined?.failures.values() ?? [])];
+    for (const failure of sinkFailures) {
+      if (failure !== null) {
+        print(chalk.yellow(`Warning: Run events could not be written: ${failure}`));
+      }
+    }
+    for (const failure of hookSink?.failures ?? []) {
+      print(chalk.yellow(`Warning: ${failure}`));
+    }
+  }
+}
+
+/** A loop bmalph stopped on purpose (e.g. a run budget) is not a failed run */
+export function reportRalphExit(ralph: RalphProcess, exitCode: number | null): void {
+  if (ralph.stopReason) {
+    console.log(chalk.yellow(`Ralph stopped: ${ralph.stopReason}`));
+    return;
+  }
+  applyRalphExitCode(exitCode);
+}
+
+/**
+ * Records the loop so `bmalph attach` and `bmalph stop` can find it after the
+ * dashboard detaches. The loop keeps running if this fails.
+ */
+async function registerRalphLoop(
+  projectDir: string,
+  pid: number,
+  run: Pick<RunRegistryEntry, "driver" | "reviewMode" | "startedAt" | "budget">,
+  print: Print
+): Promise<void> {
+  try {
+    const processStartTime = readProcessStartTime(pid);
+    await registerRun(projectDir, {
+      pid,
+      ...(processStartTime !== null && { processStartTime }),
+      // spawnRalphLoop starts the loop as the leader of its own process group
+      processGroup: process.platform === "win32" ? null : pid,
+      ...run,
+      logs: { ralph: RALPH_LOG_FILE, metrics: RALPH_METRICS_FILE },
+    });
+  } catch (err) {
+    print(chalk.yellow(`Warning: could not record the run: ${formatError(err)}`));
+  }
+}
+
+/** Sync-back failures are reported but never change the run's exit code */
+export async function syncSprintStatusAfterRun(
+  projectDir: string,
+  syncBack = true,
+  print: Print = (message) => console.log(message)
+): Promise<void> {
+  if (!syncBack) {
+    return;
+  }
+
+  try {
+    const result = await syncSprintStatusBack(projectDir);
+    if (!result) {
+      return;
+    }
+    for (const warning of result.warnings) {
+      print(chalk.yellow(`Warning: ${warning}`));
+    }
+    if (result.changes.length > 0) {
+      print(chalk.dim(`Updated ${result.path}: ${result.changes.length} status change(s)`));
+    }
+  } catch (err) {
+    print(chalk.yellow(`Warning: could not update sprint status: ${formatError(err)}`));
+  }
+}
+
+const VALID_EVENT_FORMATS = new Set<string>(RUN_EVENT_FORMATS);
+
+function parseRunEvents(options: RunCommandOptions): { file?: string } | null {
+  if (options.events !== undefined && !VALID_EVENT_FORMATS.has(options.events)) {
+    throw new Error(
+      `Unknown event format: ${options.events}. Valid formats: ${RUN_EVENT_FORMATS.join(", ")}`
+    );
+  }
+  if (options.events === undefined && options.eventsFile === undefined) {
+    return null;
+  }
+  return options.eventsFile !== undefined ? { file: options.eventsFile } : {};
+}
+
+function parseRunBudget(options: RunCommandOptions): RunBudget {
+  return {
+    ...(options.maxCost !== undefined && {
+      maxCostUsd: parsePositiveNumber(options.maxCost, "--max-cost"),
+    }),
+    ...(options.maxTokens !== undefined && {
+      maxTokens: parsePositiveInteger(options.maxTokens, "--max-tokens"),
+    }),
+    ...(options.maxLoops !== undefined && {
+      maxLoops: parsePositiveInteger(options.maxLoops, "--max-loops"),
+    }),
+    ...(options.maxDuration !== undefined && {
+      maxDurationMs: parseDuration(options.maxDuration, "--max-duration"),
+    }),
+  };
+}
+
+function parsePositiveNumber(value: string, flag: string): number {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n) || n <= 0) {
+    throw new Error(`Invalid ${flag} value: ${value}. Must be a positive number.`);
+  }
+  return n;
+}
+
+function parsePositiveInteger(value: string, flag: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Invalid ${flag} value: ${value}. Must be a positive integer.`);
   }
+  return n;
 }
 
 function parseSwarmCount(value: boolean | string): number {
@@ -138,7 +381,7 @@ function resolvePlatform(
   return getPlatform(id);
 }
 
-const VALID_REVIEW_MODES = new Set<string>(["enhanced", "ultimate"]);
+const VALID_REVIEW_MODES = new Set<string>(REVIEW_MODES);
 
 async function resolveReviewMode(
   reviewFlag: boolean | string | undefined,
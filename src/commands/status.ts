@@ -1,7 +1,10 @@
 import chalk from "chalk";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
 import { readConfig } from "../utils/config.js";
 import { readState, readRalphStatus, getPhaseLabel, getPhaseInfo } from "../utils/state.js";
-import { withErrorHandling } from "../utils/errors.js";
+import { withErrorHandling, isEnoent } from "../utils/errors.js";
+import { RALPH_DIR, RALPH_FIX_PLAN_FILE } from "../utils/constants.js";
 import { isInitialized } from "../installer/project-files.js";
 import { formatStatus } from "../utils/format-status.js";
 import { ARTIFACT_DEFINITIONS } from "../utils/artifact-definitions.js";
@@ -9,6 +12,8 @@ import { resolveProjectPlatform } from "../platform/resolve.js";
 import { getFullTierPlatformNames } from "../platform/registry.js";
 import { getPlatformAnalysisHint, getPlatformPrdHint } from "../platform/guidance.js";
 import { scanProjectArtifacts } from "../transition/artifact-scan.js";
+import { findBlockedStories, parseFixPlanStories } from "../story/fix-plan-editor.js";
+import type { BlockedStory } from "../story/types.js";
 import type { Platform } from "../platform/types.js";
 import type { ProjectArtifactScan, ScannedArtifact } from "../transition/artifact-scan.js";
 
@@ -33,6 +38,7 @@ interface StatusOutput {
     detectedPhase: number;
     missing: string[];
   };
+  blockedStories?: BlockedStory[];
   nextAction?: string;
   completionMismatch?: boolean;
 }
@@ -66,6 +72,8 @@ export async function runStatus(options: StatusOptions): Promise<void> {
     ralphStatus = await readRalphStatus(projectDir);
   }
 
+  const blockedStories = storedPhase === 4 ? await readBlockedStories(projectDir) : [];
+
   // Resolve platform for next action hints
   const platform = await resolveProjectPlatform(projectDir);
 
@@ -123,6 +131,10 @@ export async function runStatus(options: StatusOptions): Promise<void> {
       };
     }
 
+    if (blockedStories.length > 0) {
+      output.blockedStories = blockedStories;
+    }
+
     if (nextAction) {
       output.nextAction = nextAction;
     }
@@ -166,6 +178,17 @@ export async function runStatus(options: StatusOptions): Promise<void> {
     console.log(`    ${chalk.cyan("Status:")} ${chalk.dim("not started")}`);
   }
 
+  if (blockedStories.length > 0) {
+    console.log("");
+    console.log(chalk.bold("  Blocked Stories"));
+    for (const story of blockedStories) {
+      const waitingOn = story.waitingOn.map((id) => `Story ${id}`).join(", ");
+      console.log(
+        `    ${chalk.yellow("!")} Story ${story.id}: ${story.title} ${chalk.dim(`(waiting on ${waitingOn})`)}`
+      );
+    }
+  }
+
   if (completionMismatch) {
     console.log("");
     console.log(chalk.green("  Ralph has completed all tasks."));
@@ -176,6 +199,16 @@ export async function runStatus(options: StatusOptions): Promise<void> {
   }
 }
 
+async function readBlockedStories(projectDir: string): Promise<BlockedStory[]> {
+  try {
+    const content = await readFile(join(projectDir, RALPH_DIR, RALPH_FIX_PLAN_FILE), "utf-8");
+    return findBlockedStories(parseFixPlanStories(content));
+  } catch (err) {
+    if (isEnoent(err)) return [];
+    throw err;
+  }
+}
+
 function printArtifactChecklist(scan: ProjectArtifactScan): void {
   const foundByName = new Map<string, ScannedArtifact>();
   for (const artifacts of [scan.phases[1], scan.phases[2], scan.phases[3]]) {
@@ -0,0 +1,40 @@
+import chalk from "chalk";
+import { withErrorHandling } from "../utils/errors.js";
+import { terminateRalphLoop } from "../run/ralph-process.js";
+import { clearRunRegistry, findActiveRun, waitForProcessExit } from "../run/run-registry.js";
+import { syncSprintStatusAfterRun } from "./run.js";
+
+interface StopCommandOptions {
+  projectDir: string;
+  /** Kill the loop immediately instead of letting it finish the current step */
+  force?: boolean;
+  /** Write fix plan progress back to sprint-status.yaml (default: true) */
+  syncBack?: boolean;
+}
+
+const STOP_TIMEOUT_MS = 10_000;
+
+export async function stopCommand(options: StopCommandOptions): Promise<void> {
+  await withErrorHandling(() => runStop(options));
+}
+
+async function runStop(options: StopCommandOptions): Promise<void> {
+  const { projectDir } = options;
+
+  const run = await findActiveRun(projectDir);
+  if (!run) {
+    console.log(chalk.yellow("No running Ralph loop found in this project."));
+    return;
+  }
+
+  terminateRalphLoop(run, options.force ? "SIGKILL" : "SIGTERM");
+  if (!(await waitForProcessExit(run.pid, STOP_TIMEOUT_MS))) {
+    throw new Error(
+      `Ralph loop (PID ${run.pid}) did not stop within ${STOP_TIMEOUT_MS / 1000}s. Run: bmalph stop --force`
+    );
+  }
+
+  await clearRunRegistry(projectDir, run.pid);
+  console.log(chalk.green(`Stopped Ralph loop (PID ${run.pid}).`));
+  await syncSprintStatusAfterRun(projectDir, options.syncBack);
+}
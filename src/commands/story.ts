@@ -0,0 +1,251 @@
+import chalk from "chalk";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { withErrorHandling, isEnoent } from "../utils/errors.js";
+import { atomicWriteFile } from "../utils/file-system.js";
+import { isRalphLoopRunning } from "../utils/ralph-runtime-state.js";
+import { RALPH_DIR, RALPH_FIX_PLAN_FILE } from "../utils/constants.js";
+import {
+  filterStories,
+  findStory,
+  markStoryDone,
+  moveStory,
+  parseFixPlanStories,
+  reopenStory,
+  skipStory,
+} from "../story/fix-plan-editor.js";
+import {
+  STORY_STATUSES,
+  type FixPlanStory,
+  type StoryFilter,
+  type StoryMovePosition,
+  type StoryStatus,
+} from "../story/types.js";
+
+const FIX_PLAN_DISPLAY_PATH = `${RALPH_DIR}/${RALPH_FIX_PLAN_FILE}`;
+
+interface StoryBaseOptions {
+  projectDir: string;
+}
+
+interface StoryListOptions extends StoryBaseOptions {
+  json?: boolean;
+  epic?: string;
+  status?: string;
+}
+
+interface StoryShowOptions extends StoryBaseOptions {
+  id: string;
+  json?: boolean;
+}
+
+interface StoryEditOptions extends StoryBaseOptions {
+  id: string;
+  force?: boolean;
+}
+
+interface StoryMoveOptions extends StoryEditOptions {
+  before?: string;
+  after?: string;
+  top?: boolean;
+}
+
+export async function storyListCommand(options: StoryListOptions): Promise<void> {
+  await withErrorHandling(() => runStoryList(options));
+}
+
+export async function storyShowCommand(options: StoryShowOptions): Promise<void> {
+  await withErrorHandling(() => runStoryShow(options));
+}
+
+export async function storyDoneCommand(options: StoryEditOptions): Promise<void> {
+  await withErrorHandling(() => runStoryDone(options));
+}
+
+export async function storyReopenCommand(options: StoryEditOptions): Promise<void> {
+  await withErrorHandling(() => runStoryReopen(options));
+}
+
+export async function storySkipCommand(options: StoryEditOptions): Promise<void> {
+  await withErrorHandling(() => runStorySkip(options));
+}
+
+export async function storyMoveCommand(options: StoryMoveOptions): Promise<void> {
+  await withErrorHandling(() => runStoryMove(options));
+}
+
+async function readFixPlan(projectDir: string): Promise<string> {
+  try {
+    return await readFile(join(projectDir, RALPH_DIR, RALPH_FIX_PLAN_FILE), "utf-8");
+  } catch (err) {
+    if (isEnoent(err)) {
+      throw new Error(`No fix plan found at ${FIX_PLAN_DISPLAY_PATH}. Run: bmalph implement`, {
+        cause: err,
+      });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Applies an edit to @fix_plan.md. Refuses while Ralph is running because the
+ * loop rewrites the file between iterations and would silently drop the edit.
+ */
+async function editFixPlan(
+  options: StoryEditOptions,
+  edit: (content: string) => string
+): Promise<{ changed: boolean; original: string }> {
+  const { projectDir, force } = options;
+  if (!force && (await isRalphLoopRunning(projectDir))) {
+    throw new Error(
+      `Ralph loop is running. Stop it before editing ${FIX_PLAN_DISPLAY_PATH}, or pass --force if it is no longer running`
+    );
+  }
+
+  const content = await readFixPlan(projectDir);
+  const updated = edit(content);
+  if (updated === content) {
+    return { changed: false, original: content };
+  }
+
+  await atomicWriteFile(join(projectDir, RALPH_DIR, RALPH_FIX_PLAN_FILE), updated);
+  return { changed: true, original: content };
+}
+
+function parseStatusFilter(value: string | undefined): StoryStatus | undefined {
+  if (value === undefined) return undefined;
+  if (!(STORY_STATUSES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid --status value: ${value}. Expected ${STORY_STATUSES.join(" | ")}`);
+  }
+  return value as StoryStatus;
+}
+
+function formatStatusIcon(status: StoryStatus): string {
+  switch (status) {
+    case "done":
+      return chalk.green("✓");
+    case "skipped":
+      return chalk.yellow("-");
+    case "pending":
+      return chalk.dim("○");
+  }
+}
+
+export async function runStoryList(options: StoryListOptions): Promise<void> {
+  const status = parseStatusFilter(options.status);
+  const filter: StoryFilter = {
+    ...(options.epic !== undefined && { epic: options.epic }),
+    ...(status !== undefined && { status }),
+  };
+
+  const stories = filterStories(parseFixPlanStories(await readFixPlan(options.projectDir)), filter);
+
+  if (options.json) {
+    console.log(JSON.stringify(stories, null, 2));
+    return;
+  }
+
+  console.log(chalk.bold("bmalph story list\n"));
+
+  if (stories.length === 0) {
+    console.log(chalk.dim("  No stories match the given filters"));
+    return;
+  }
+
+  let currentEpic: string | null | undefined;
+  for (const story of stories) {
+    if (story.epic !== currentEpic) {
+      currentEpic = story.epic;
+      console.log(chalk.bold(`  ${story.epic ?? "Ungrouped"}`));
+    }
+    const title = story.status === "pending" ? story.title : chalk.dim(story.title);
+    console.log(`    ${formatStatusIcon(story.status)} ${chalk.cyan(story.id.padEnd(6))} ${title}`);
+  }
+
+  const counts = STORY_STATUSES.map(
+    (value) => `${stories.filter((story) => story.status === value).length} ${value}`
+  );
+  console.log(`\n  ${counts.join(", ")}`);
+}
+
+export async function runStoryShow(options: StoryShowOptions): Promise<void> {
+  const story = findStory(parseFixPlanStories(await readFixPlan(options.projectDir)), options.id);
+
+  if (options.json) {
+    console.log(JSON.stringify(story, null, 2));
+    return;
+  }
+
+  console.log(chalk.bold(`Story ${story.id}: ${story.title}\n`));
+  console.log(`  ${chalk.cyan("Status:")} ${formatStatusIcon(story.status)} ${story.status}`);
+  console.log(`  ${chalk.cyan("Epic:")}   ${story.epic ?? "Ungrouped"}`);
+
+  if (story.details.length > 0) {
+    console.log("");
+    for (const detail of story.details) {
+      console.log(`  ${detail}`);
+    }
+  } else if (story.status === "done") {
+    console.log(chalk.dim("\n  Details collapsed after completion"));
+  }
+}
+
+function reportEdit(changed: boolean, story: FixPlanStory, action: string): void {
+  if (changed) {
+    console.log(chalk.green(`Story ${story.id} ${action}: ${story.title}`));
+  } else {
+    console.log(chalk.dim(`Story ${story.id} already ${action}`));
+  }
+}
+
+async function runStatusEdit(
+  options: StoryEditOptions,
+  edit: (content: string, id: string) => string,
+  action: string
+): Promise<FixPlanStory> {
+  const { changed, original } = await editFixPlan(options, (content) => edit(content, options.id));
+  const story = findStory(parseFixPlanStories(original), options.id);
+  reportEdit(changed, story, action);
+  return story;
+}
+
+export async function runStoryDone(options: StoryEditOptions): Promise<void> {
+  await runStatusEdit(options, markStoryDone, "done");
+}
+
+export async function runStoryReopen(options: StoryEditOptions): Promise<void> {
+  const story = await runStatusEdit(options, reopenStory, "reopened");
+  if (story.status === "done" && story.details.length === 0) {
+    console.log(
+      chalk.dim("  Details were collapsed on completion. Run: bmalph implement to restore them")
+    );
+  }
+}
+
+export async function runStorySkip(options: StoryEditOptions): Promise<void> {
+  await runStatusEdit(options, skipStory, "skipped");
+}
+
+export async function runStoryMove(options: StoryMoveOptions): Promise<void> {
+  const positions: StoryMovePosition[] = [
+    ...(options.before !== undefined ? [{ kind: "before", target: options.before } as const] : []),
+    ...(options.after !== undefined ? [{ kind: "after", target: options.after } as const] : []),
+    ...(options.top ? [{ kind: "top" } as const] : []),
+  ];
+  const position = positions[0];
+  if (positions.length !== 1 || !position) {
+    throw new Error("Specify exactly one of --before <id>, --after <id> or --top");
+  }
+
+  const { changed } = await editFixPlan(options, (content) =>
+    moveStory(content, options.id, position)
+  );
+
+  if (changed) {
+    const where =
+      position.kind === "top" ? "to the top of the queue" : `${position.kind} ${position.target}`;
+    console.log(chalk.green(`Moved story ${options.id} ${where}`));
+  } else {
+    console.log(chalk.dim(`Story ${options.id} is already in place`));
+  }
+}
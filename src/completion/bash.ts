@@ -0,0 +1,163 @@
+import { flattenCommands, valueOptions } from "./spec.js";
+import type { CompletionCommand, CompletionValues } from "./types.js";
+
+function casePatterns(path: string, words: readonly string[]): string {
+  return words.map((word) => (path === "" ? `*"|${word}"` : `"${path}|${word}"`)).join(" | ");
+}
+
+function completeValues(values: CompletionValues): string {
+  switch (values.kind) {
+    case "static":
+      return `COMPREPLY=($(compgen -W "${values.values.join(" ")}" -- "$cur"))`;
+    case "dynamic":
+      return `COMPREPLY=($(compgen -W "$(_bmalph_dynamic "$project_dir" ${values.source})" -- "$cur"))`;
+    case "file":
+      return `compopt -o filenames 2>/dev/null; COMPREPLY=($(compgen -f -- "$cur"))`;
+    case "directory":
+      return `compopt -o filenames 2>/dev/null; COMPREPLY=($(compgen -d -- "$cur"))`;
+  }
+}
+
+function renderWalker(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const { command, option } of valueOptions(spec)) {
+    const pattern = casePatterns(command.path, option.flags);
+    if (option.flags.includes("--project-dir")) {
+      lines.push(`      ${pattern}) project_dir="\${COMP_WORDS[i+1]}"; skip=1 ;;`);
+    } else if (option.value === "required") {
+      lines.push(`      ${pattern}) skip=1 ;;`);
+    } else {
+      lines.push(`      ${pattern}) [[ \${COMP_WORDS[i+1]} != -* ]] && skip=1 ;;`);
+    }
+  }
+  const subcommands = flattenCommands(spec)
+    .flatMap((command) => command.subcommands)
+    .map((sub) => `"${sub.path.split(" ").slice(0, -1).join(" ")}|${sub.name}"`);
+  lines.push(`      ${subcommands.join(" | ")})`);
+  lines.push(`        cmd_path="\${cmd_path:+$cmd_path }$word"`);
+  lines.push(`        arg_index=0`);
+  lines.push(`        ;;`);
+  lines.push(`      *) [[ $word != -* ]] && arg_index=$((arg_index + 1)) ;;`);
+  return lines;
+}
+
+function renderOptionValues(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const { command, option } of valueOptions(spec)) {
+    const pattern = casePatterns(command.path, option.flags);
+    if (!option.values) {
+      lines.push(`    ${pattern}) return ;;`);
+    } else if (option.value === "required") {
+      lines.push(
+        `    ${pattern})`,
+        `      ${completeValues(option.values)}`,
+        `      return`,
+        `      ;;`
+      );
+    } else {
+      lines.push(
+        `    ${pattern})`,
+        `      if [[ $cur != -* ]]; then`,
+        `        ${completeValues(option.values)}`,
+        `        return`,
+        `      fi`,
+        `      ;;`
+      );
+    }
+  }
+  return lines;
+}
+
+function renderOptions(spec: CompletionCommand): string[] {
+  return flattenCommands(spec).map((command) => {
+    const flags = command.options.flatMap((option) => option.flags).join(" ");
+    return `      "${command.path}") COMPREPLY=($(compgen -W "${flags}" -- "$cur")) ;;`;
+  });
+}
+
+function renderArguments(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const command of flattenCommands(spec)) {
+    command.arguments.forEach((argument, index) => {
+      if (argument.values) {
+        lines.push(
+          `    "${command.path}|${index}")`,
+          `      ${completeValues(argument.values)}`,
+          `      return`,
+          `      ;;`
+        );
+      }
+    });
+  }
+  return lines;
+}
+
+function renderSubcommands(spec: CompletionCommand): string[] {
+  return flattenCommands(spec)
+    .filter((command) => command.subcommands.length > 0)
+    .map((command) => {
+      const names = command.subcommands.map((sub) => sub.name).join(" ");
+      return `    "${command.path}") COMPREPLY=($(compgen -W "${names}" -- "$cur")) ;;`;
+    });
+}
+
+/**
+ * Bash completion script. Commands, options and static values are baked in;
+ * story ids and epics come from `bmalph __complete` at completion time.
+ */
+export function renderBashCompletion(spec: CompletionCommand): string {
+  return [
+    `# bash completion for ${spec.name}`,
+    `# Generated by \`${spec.name} completion bash\`. Load it in the current shell with:`,
+    `#   source <(${spec.name} completion bash)`,
+    `# or add that line to ~/.bashrc.`,
+    ``,
+    `_bmalph_dynamic() {`,
+    `  local project_dir="$1" source="$2" line`,
+    `  local -a args=()`,
+    `  [[ -n $project_dir ]] && args=(-C "$project_dir")`,
+    `  while IFS= read -r line; do`,
+    `    printf '%s\\n' "\${line%%$'\\t'*}"`,
+    `  done < <(${spec.name} "\${args[@]}" __complete "$source" 2>/dev/null)`,
+    `}`,
+    ``,
+    `_bmalph() {`,
+    `  local cur="\${COMP_WORDS[COMP_CWORD]}" prev="\${COMP_WORDS[COMP_CWORD-1]}"`,
+    `  local cmd_path="" project_dir="" word skip=0 arg_index=0 i`,
+    `  COMPREPLY=()`,
+    ``,
+    `  for ((i = 1; i < COMP_CWORD; i++)); do`,
+    `    word="\${COMP_WORDS[i]}"`,
+    `    if ((skip)); then`,
+    `      skip=0`,
+    `      continue`,
+    `    fi`,
+    `    case "$cmd_path|$word" in`,
+    ...renderWalker(spec),
+    `    esac`,
+    `  done`,
+    ``,
+    `  case "$cmd_path|$prev" in`,
+    ...renderOptionValues(spec),
+    `  esac`,
+    ``,
+    `  if [[ $cur == -* ]]; then`,
+    `    case "$cmd_path" in`,
+    ...renderOptions(spec),
+    `    esac`,
+    `    return`,
+    `  fi`,
+    ``,
+    `  case "$cmd_path|$arg_index" in`,
+    ...renderArguments(spec),
+    `  esac`,
+    ``,
+    `  case "$cmd_path" in`,
+    ...renderSubcommands(spec),
+    `  esac`,
+    `}`,
+    ``,
+    `complete -F _bmalph ${spec.name}`,
+    ``,
+  ].join("\n");
+}
@@ -0,0 +1,154 @@
+import { flattenCommands, valueOptions } from "./spec.js";
+import type { CompletionCommand, CompletionOption, CompletionValues } from "./types.js";
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function flagArgs(option: CompletionOption): string {
+  return option.flags
+    .map((flag) => (flag.startsWith("--") ? `-l ${flag.slice(2)}` : `-s ${flag.slice(1)}`))
+    .join(" ");
+}
+
+function valueArgs(values: CompletionValues): string {
+  switch (values.kind) {
+    case "static":
+      return `-a ${quote(values.values.join(" "))}`;
+    case "dynamic":
+      return `-a '(__bmalph_dynamic ${values.source})'`;
+    case "file":
+      return "-F";
+    case "directory":
+      return "-a '(__fish_complete_directories)'";
+  }
+}
+
+function renderParser(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const { command, option } of valueOptions(spec)) {
+    const patterns = option.flags
+      .map((flag) => quote(command.path === "" ? `*|${flag}` : `${command.path}|${flag}`))
+      .join(" ");
+    lines.push(`            case ${patterns}`);
+    if (option.flags.includes("--project-dir")) {
+      lines.push(
+        `                set i (math $i + 1)`,
+        `                set -q tokens[$i]; and set __bmalph_project_dir $tokens[$i]`
+      );
+    } else if (option.value === "required") {
+      lines.push(`                set i (math $i + 1)`);
+    } else {
+      lines.push(
+        `                set -l next (math $i + 1)`,
+        `                if set -q tokens[$next]; and not string match -q -- '-*' $tokens[$next]`,
+        `                    set i $next`,
+        `                end`
+      );
+    }
+  }
+  const subcommands = flattenCommands(spec)
+    .flatMap((command) => command.subcommands)
+    .map((sub) => quote(`${sub.path.split(" ").slice(0, -1).join(" ")}|${sub.name}`));
+  lines.push(
+    `            case ${subcommands.join(" ")}`,
+    `                set __bmalph_path (string trim -- "$__bmalph_path $word")`,
+    `                set __bmalph_arg_index 0`,
+    `            case '*'`,
+    `                string match -q -- '-*' $word`,
+    `                or set __bmalph_arg_index (math $__bmalph_arg_index + 1)`
+  );
+  return lines;
+}
+
+function renderCompletions(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const command of flattenCommands(spec)) {
+    const using = `-n "__bmalph_using ${quote(command.path)}"`;
+
+    for (const sub of command.subcommands) {
+      lines.push(`complete -c ${spec.name} ${using} -a ${sub.name} -d ${quote(sub.description)}`);
+    }
+
+    for (const option of command.options) {
+      const base = `complete -c ${spec.name} ${using} ${flagArgs(option)} -d ${quote(option.description)}`;
+      if (option.value === "required") {
+        lines.push(
+          option.values?.kind === "file"
+            ? `${base} -r -F`
+            : `${base} -x${option.values ? ` ${valueArgs(option.values)}` : ""}`
+        );
+      } else {
+        lines.push(base);
+      }
+      if (option.value === "optional" && option.values) {
+        const after = `"__bmalph_after ${quote(command.path)} ${option.flags.join(" ")}"`;
+        lines.push(`complete -c ${spec.name} -n ${after} ${valueArgs(option.values)}`);
+      }
+    }
+
+    command.arguments.forEach((argument, index) => {
+      if (argument.values) {
+        const condition = `"__bmalph_argument ${quote(command.path)} ${index}"`;
+        lines.push(`complete -c ${spec.name} -n ${condition} ${valueArgs(argument.values)}`);
+      }
+    });
+  }
+  return lines;
+}
+
+/**
+ * Fish completion script. A small parser tracks the subcommand path and
+ * positional index so nested commands and story ids complete correctly.
+ */
+export function renderFishCompletion(spec: CompletionCommand): string {
+  return [
+    `# fish completion for ${spec.name}`,
+    `# Generated by \`${spec.name} completion fish\`. Load it in the current shell with:`,
+    `#   ${spec.name} completion fish | source`,
+    `# or save it as ~/.config/fish/completions/${spec.name}.fish`,
+    ``,
+    `function __bmalph_parse`,
+    `    set -l tokens (commandline -opc)`,
+    `    set -g __bmalph_path ''`,
+    `    set -g __bmalph_arg_index 0`,
+    `    set -g __bmalph_project_dir ''`,
+    `    set -l i 1`,
+    `    while test $i -lt (count $tokens)`,
+    `        set i (math $i + 1)`,
+    `        set -l word $tokens[$i]`,
+    `        switch "$__bmalph_path|$word"`,
+    ...renderParser(spec),
+    `        end`,
+    `    end`,
+    `end`,
+    ``,
+    `function __bmalph_using`,
+    `    __bmalph_parse`,
+    `    test "$__bmalph_path" = "$argv[1]"`,
+    `end`,
+    ``,
+    `function __bmalph_argument`,
+    `    __bmalph_using "$argv[1]"; and test "$__bmalph_arg_index" = "$argv[2]"`,
+    `end`,
+    ``,
+    `function __bmalph_after`,
+    `    __bmalph_using "$argv[1]"; or return 1`,
+    `    set -l tokens (commandline -opc)`,
+    `    contains -- "$tokens[-1]" $argv[2..-1]`,
+    `end`,
+    ``,
+    `function __bmalph_dynamic`,
+    `    __bmalph_parse`,
+    `    if test -n "$__bmalph_project_dir"`,
+    `        ${spec.name} -C "$__bmalph_project_dir" __complete $argv[1] 2>/dev/null`,
+    `    else`,
+    `        ${spec.name} __complete $argv[1] 2>/dev/null`,
+    `    end`,
+    `end`,
+    ``,
+    `complete -c ${spec.name} -f`,
+    ...renderCompletions(spec),
+    ``,
+  ].join("\n");
+}
@@ -0,0 +1,120 @@
+import type { Command } from "commander";
+import { getAllPlatforms } from "../platform/registry.js";
+import { PLATFORM_IDS } from "../platform/types.js";
+import { REVIEW_MODES } from "../run/types.js";
+import { STORY_STATUSES } from "../story/types.js";
+import { SWARM_DEFAULT_WORKERS, SWARM_MAX_WORKERS } from "../utils/constants.js";
+import {
+  COMPLETION_SHELLS,
+  type CompletionCommand,
+  type CompletionOption,
+  type CompletionValues,
+} from "./types.js";
+
+const STORIES: CompletionValues = { kind: "dynamic", source: "stories" };
+const PLATFORMS: CompletionValues = { kind: "static", values: PLATFORM_IDS };
+
+function swarmCounts(): string[] {
+  const counts: string[] = [];
+  for (let n = SWARM_DEFAULT_WORKERS; n <= SWARM_MAX_WORKERS; n++) {
+    counts.push(String(n));
+  }
+  return counts;
+}
+
+/** Option values keyed by "<command path> <long flag>" */
+function optionValues(): Record<string, CompletionValues> {
+  return {
+    "--project-dir": { kind: "directory" },
+    "init --platform": PLATFORMS,
+    "run --driver": {
+      kind: "static",
+      values: getAllPlatforms()
+        .filter((p) => p.tier === "full")
+        .map((p) => p.id),
+    },
+    "run --review": { kind: "static", values: REVIEW_MODES },
+    "run --swarm": { kind: "static", values: swarmCounts() },
+    "story list --epic": { kind: "dynamic", source: "epics" },
+    "story list --status": { kind: "static", values: STORY_STATUSES },
+    "story move --before": STORIES,
+    "story move --after": STORIES,
+    "export --output": { kind: "file" },
+  };
+}
+
+/** Positional argument values keyed by "<command path> <argument name>" */
+function argumentValues(): Record<string, CompletionValues> {
+  return {
+    "story show id": STORIES,
+    "story done id": STORIES,
+    "story reopen id": STORIES,
+    "story skip id": STORIES,
+    "story move id": STORIES,
+    "platform switch id": PLATFORMS,
+    "import archive": { kind: "file" },
+    "completion shell": { kind: "static", values: COMPLETION_SHELLS },
+  };
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path} ${name}` : name;
+}
+
+function describeCommand(
+  command: Command,
+  path: string,
+  options: Record<string, CompletionValues>,
+  args: Record<string, CompletionValues>
+): CompletionCommand {
+  const help = command.createHelp();
+
+  const completionOptions = help.visibleOptions(command).map((option): CompletionOption => {
+    const flags = [option.short, option.long].filter((flag): flag is string => !!flag);
+    const values = option.long ? options[joinPath(path, option.long)] : undefined;
+    return {
+      flags,
+      description: option.description,
+      value: option.required ? "required" : option.optional ? "optional" : "none",
+      ...(values && { values }),
+    };
+  });
+
+  return {
+    name: command.name(),
+    description: command.description(),
+    path,
+    options: completionOptions,
+    arguments: command.registeredArguments.map((argument) => {
+      const values = args[joinPath(path, argument.name())];
+      return { name: argument.name(), ...(values && { values }) };
+    }),
+    subcommands: help
+      .visibleCommands(command)
+      .map((sub) => describeCommand(sub, joinPath(path, sub.name()), options, args)),
+  };
+}
+
+/**
+ * Describes the visible Commander tree, with the values each option and
+ * argument accepts, for the shell completion script generators.
+ */
+export function buildCompletionSpec(program: Command): CompletionCommand {
+  return describeCommand(program, "", optionValues(), argumentValues());
+}
+
+/** The program and every visible subcommand, parents before children */
+export function flattenCommands(spec: CompletionCommand): CompletionCommand[] {
+  return [spec, ...spec.subcommands.flatMap(flattenCommands)];
+}
+
+/** Options that consume the next word, across all commands, for the shell word walkers */
+export function valueOptions(
+  spec: CompletionCommand
+): { command: CompletionCommand; option: CompletionOption }[] {
+  return flattenCommands(spec).flatMap((command) =>
+    command.options
+      .filter((option) => option.value !== "none")
+      .map((option) => ({ command, option }))
+  );
+}
@@ -0,0 +1,38 @@
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+/** Values looked up at completion time by `bmalph __complete <source>` */
+export const DYNAMIC_COMPLETION_SOURCES = ["stories", "epics"] as const;
+
+export type DynamicCompletionSource = (typeof DYNAMIC_COMPLETION_SOURCES)[number];
+
+export type CompletionValues =
+  | { kind: "static"; values: readonly string[] }
+  | { kind: "dynamic"; source: DynamicCompletionSource }
+  | { kind: "file" }
+  | { kind: "directory" };
+
+export interface CompletionOption {
+  /** Short and long flags, e.g. ["-o", "--output"] */
+  flags: string[];
+  description: string;
+  /** "required" for `<value>`, "optional" for `[value]` */
+  value: "none" | "required" | "optional";
+  values?: CompletionValues;
+}
+
+export interface CompletionArgument {
+  name: string;
+  values?: CompletionValues;
+}
+
+export interface CompletionCommand {
+  name: string;
+  description: string;
+  /** Space-separated subcommand path below the program, "" for the program itself */
+  path: string;
+  options: CompletionOption[];
+  arguments: CompletionArgument[];
+  subcommands: CompletionCommand[];
+}
@@ -0,0 +1,34 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseFixPlanStories } from "../story/fix-plan-editor.js";
+import { RALPH_DIR, RALPH_FIX_PLAN_FILE } from "../utils/constants.js";
+import { isEnoent } from "../utils/errors.js";
+import type { DynamicCompletionSource } from "./types.js";
+
+/** One completion candidate per entry: the value, optionally followed by a tab and a description */
+export async function resolveDynamicCompletions(
+  projectDir: string,
+  source: DynamicCompletionSource
+): Promise<string[]> {
+  let content: string;
+  try {
+    content = await readFile(join(projectDir, RALPH_DIR, RALPH_FIX_PLAN_FILE), "utf-8");
+  } catch (err) {
+    if (isEnoent(err)) return [];
+    throw err;
+  }
+
+  const stories = parseFixPlanStories(content);
+  if (source === "stories") {
+    return stories.map((story) => `${story.id}\t${story.title}`);
+  }
+
+  const epics = new Map<string, string>();
+  for (const story of stories) {
+    const epic = story.id.split(".")[0] ?? "";
+    if (epic && !epics.has(epic)) {
+      epics.set(epic, story.epic ?? "");
+    }
+  }
+  return [...epics].map(([epic, heading]) => (heading ? `${epic}\t${heading}` : epic));
+}
@@ -0,0 +1,190 @@
+import { flattenCommands, valueOptions } from "./spec.js";
+import type { CompletionCommand, CompletionValues } from "./types.js";
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/** `name:description` item for _describe; colons in the name must be escaped */
+function describeItem(name: string, description: string): string {
+  return quote(`${name.replace(/:/g, "\\:")}:${description}`);
+}
+
+function casePatterns(path: string, words: readonly string[]): string {
+  return words.map((word) => (path === "" ? `*"|${word}"` : `"${path}|${word}"`)).join(" | ");
+}
+
+function completeValues(values: CompletionValues): string[] {
+  switch (values.kind) {
+    case "static":
+      return [`compadd -- ${values.values.map(quote).join(" ")}`];
+    case "dynamic":
+      return [
+        `candidates=(\${(f)"$(_bmalph_dynamic "$project_dir" ${values.source})"})`,
+        `_describe -t ${values.source} ${values.source} candidates`,
+      ];
+    case "file":
+      return ["_files"];
+    case "directory":
+      return ["_files -/"];
+  }
+}
+
+function renderWalker(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const { command, option } of valueOptions(spec)) {
+    const pattern = casePatterns(command.path, option.flags);
+    if (option.flags.includes("--project-dir")) {
+      lines.push(`      ${pattern}) project_dir="\${words[i+1]}"; skip=1 ;;`);
+    } else if (option.value === "required") {
+      lines.push(`      ${pattern}) skip=1 ;;`);
+    } else {
+      lines.push(`      ${pattern}) [[ \${words[i+1]} != -* ]] && skip=1 ;;`);
+    }
+  }
+  const subcommands = flattenCommands(spec)
+    .flatMap((command) => command.subcommands)
+    .map((sub) => `"${sub.path.split(" ").slice(0, -1).join(" ")}|${sub.name}"`);
+  lines.push(`      ${subcommands.join(" | ")})`);
+  lines.push(`        cmd_path="\${cmd_path:+$cmd_path }$word"`);
+  lines.push(`        arg_index=0`);
+  lines.push(`        ;;`);
+  lines.push(`      *) [[ $word != -* ]] && (( arg_index++ )) ;;`);
+  return lines;
+}
+
+function renderOptionValues(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const { command, option } of valueOptions(spec)) {
+    const pattern = casePatterns(command.path, option.flags);
+    if (!option.values) {
+      lines.push(`    ${pattern}) return 1 ;;`);
+    } else if (option.value === "required") {
+      lines.push(
+        `    ${pattern})`,
+        ...completeValues(option.values).map((line) => `      ${line}`),
+        `      return`,
+        `      ;;`
+      );
+    } else {
+      lines.push(
+        `    ${pattern})`,
+        `      if [[ $cur != -* ]]; then`,
+        ...completeValues(option.values).map((line) => `        ${line}`),
+        `        return`,
+        `      fi`,
+        `      ;;`
+      );
+    }
+  }
+  return lines;
+}
+
+function renderOptions(spec: CompletionCommand): string[] {
+  return flattenCommands(spec).map((command) => {
+    const items = command.options.flatMap((option) =>
+      option.flags.map((flag) => describeItem(flag, option.description))
+    );
+    return `      "${command.path}") candidates=(${items.join(" ")}) ;;`;
+  });
+}
+
+function renderArguments(spec: CompletionCommand): string[] {
+  const lines: string[] = [];
+  for (const command of flattenCommands(spec)) {
+    command.arguments.forEach((argument, index) => {
+      if (argument.values) {
+        lines.push(
+          `    "${command.path}|${index}")`,
+          ...completeValues(argument.values).map((line) => `      ${line}`),
+          `      return`,
+          `      ;;`
+        );
+      }
+    });
+  }
+  return lines;
+}
+
+function renderSubcommands(spec: CompletionCommand): string[] {
+  return flattenCommands(spec)
+    .filter((command) => command.subcommands.length > 0)
+    .map((command) => {
+      const items = command.subcommands.map((sub) => describeItem(sub.name, sub.description));
+      return `    "${command.path}") candidates=(${items.join(" ")}) ;;`;
+    });
+}
+
+/**
+ * Zsh completion script with option and command descriptions. Works both
+ * sourced and autoloaded from $fpath as `_bmalph`.
+ */
+export function renderZshCompletion(spec: CompletionCommand): string {
+  return [
+    `#compdef ${spec.name}`,
+    `# zsh completion for ${spec.name}`,
+    `# Generated by \`${spec.name} completion zsh\`. Load it in the current shell with:`,
+    `#   source <(${spec.name} completion zsh)`,
+    `# or save it as _${spec.name} in a directory on your $fpath.`,
+    ``,
+    `_bmalph_dynamic() {`,
+    `  local project_dir="$1" source="$2" line value`,
+    `  local -a args`,
+    `  [[ -n $project_dir ]] && args=(-C "$project_dir")`,
+    `  ${spec.name} "\${args[@]}" __complete "$source" 2>/dev/null | while IFS= read -r line; do`,
+    `    value="\${line%%$'\\t'*}"`,
+    `    if [[ $line == *$'\\t'* ]]; then`,
+    `      print -r -- "\${value//:/\\\\:}:\${line#*$'\\t'}"`,
+    `    else`,
+    `      print -r -- "\${value//:/\\\\:}"`,
+    `    fi`,
+    `  done`,
+    `}`,
+    ``,
+    `_bmalph() {`,
+    `  local cur="\${words[CURRENT]}" prev="\${words[CURRENT-1]}"`,
+    `  local cmd_path="" project_dir="" word skip=0 arg_index=0 i`,
+    `  local -a candidates`,
+    ``,
+    `  for ((i = 2; i < CURRENT; i++)); do`,
+    `    word="\${words[i]}"`,
+    `    if ((skip)); then`,
+    `      skip=0`,
+    `      continue`,
+    `    fi`,
+    `    case "$cmd_path|$word" in`,
+    ...renderWalker(spec),
+    `    esac`,
+    `  done`,
+    ``,
+    `  case "$cmd_path|$prev" in`,
+    ...renderOptionValues(spec),
+    `  esac`,
+    ``,
+    `  if [[ $cur == -* ]]; then`,
+    `    case "$cmd_path" in`,
+    ...renderOptions(spec),
+    `    esac`,
+    `    _describe -t options option candidates`,
+    `    return`,
+    `  fi`,
+    ``,
+    `  case "$cmd_path|$arg_index" in`,
+    ...renderArguments(spec),
+    `  esac`,
+    ``,
+    `  case "$cmd_path" in`,
+    ...renderSubcommands(spec),
+    `    *) return 1 ;;`,
+    `  esac`,
+    `  _describe -t commands command candidates`,
+    `}`,
+    ``,
+    `if [[ \${zsh_eval_context[-1]} == loadautofunc ]]; then`,
+    `  _bmalph "$@"`,
+    `else`,
+    `  compdef _bmalph ${spec.name}`,
+    `fi`,
+    ``,
+  ].join("\n");
+}
@@ -0,0 +1,357 @@
+import { getAllPlatforms } from "../platform/registry.js";
+
+/**
+ * Type and range definitions for every key `ralph_loop.sh` accepts from .ralphrc.
+ *
+ * The key list mirrors RALPHRC_ALLOWED_KEYS in ralph/ralph_loop.sh; anything
+ * outside it is ignored by the loop, so bmalph refuses to write it.
+ */
+
+export type RalphrcValueType =
+  | { kind: "string"; allowEmpty?: boolean }
+  | { kind: "boolean" }
+  | { kind: "integer"; min: number; max?: number; unit?: string }
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "list"; separator: string; values: readonly string[] }
+  | { kind: "version" };
+
+export interface RalphrcKeyDefinition {
+  key: string;
+  type: RalphrcValueType;
+  description: string;
+  /** Value ralph_loop.sh uses when neither the file nor the environment sets the key */
+  fallback: string;
+  /** Environment value wins over the file (snapshot/restore in ralph_loop.sh) */
+  envOverride: boolean;
+}
+
+const FULL_TIER_DRIVERS = getAllPlatforms()
+  .filter((platform) => platform.tier === "full")
+  .map((platform) => platform.id);
+
+export const RALPHRC_KEYS: readonly RalphrcKeyDefinition[] = [
+  {
+    key: "PLATFORM_DRIVER",
+    type: { kind: "enum", values: FULL_TIER_DRIVERS },
+    description: "Platform driver for the Ralph loop",
+    fallback: "claude-code",
+    envOverride: false,
+  },
+  {
+    key: "PROJECT_NAME",
+    type: { kind: "string" },
+    description: "Project name used in prompts and logging",
+    fallback: "my-project",
+    envOverride: false,
+  },
+  {
+    key: "PROJECT_TYPE",
+    type: { kind: "string" },
+    description: "Project type (javascript, typescript, python, rust, go, unknown)",
+    fallback: "unknown",
+    envOverride: false,
+  },
+  {
+    key: "MAX_CALLS_PER_HOUR",
+    type: { kind: "integer", min: 1 },
+    description: "Maximum API calls per hour",
+    fallback: "100",
+    envOverride: true,
+  },
+  {
+    key: "CLAUDE_TIMEOUT_MINUTES",
+    type: { kind: "integer", min: 1, max: 120, unit: "minutes" },
+    description: "Timeout for each driver invocation",
+    fallback: "15",
+    envOverride: true,
+  },
+  {
+    key: "CLAUDE_OUTPUT_FORMAT",
+    type: { kind: "enum", values: ["json", "text"] },
+    description: "Driver output format",
+    fallback: "json",
+    envOverride: true,
+  },
+  {
+    key: "WRITE_TIMEOUT_MINUTES",
+    type: { kind: "integer", min: 0, unit: "minutes" },
+    description: "Kill the driver when no files change within this time (0 disables)",
+    fallback: "8",
+    envOverride: true,
+  },
+  {
+    key: "ALLOWED_TOOLS",
+    type: { kind: "string" },
+    description: "Comma-separated allowed tools (Claude Code only)",
+    fallback:
+      "Write,Read,Edit,MultiEdit,Glob,Grep,Task,TodoWrite,WebFetch,WebSearch,EnterPlanMode,ExitPlanMode,NotebookEdit,Bash",
+    envOverride: true,
+  },
+  {
+    key: "CLAUDE_PERMISSION_MODE",
+    type: {
+      kind: "enum",
+      values: ["auto", "acceptEdits", "bypassPermissions", "default", "dontAsk", "plan"],
+    },
+    description: "Permission mode for the Claude Code CLI",
+    fallback: "bypassPermissions",
+    envOverride: true,
+  },
+  {
+    key: "PERMISSION_DENIAL_MODE",
+    type: { kind: "enum", values: ["continue", "halt", "threshold"] },
+    description: "How Ralph responds to permission denials",
+    fallback: "continue",
+    envOverride: true,
+  },
+  {
+    key: "SESSION_CONTINUITY",
+    type: { kind: "boolean" },
+    description: "Maintain driver context across loops",
+    fallback: "true",
+    envOverride: true,
+  },
+  {
+    key: "SESSION_EXPIRY_HOURS",
+    type: { kind: "integer", min: 1, unit: "hours" },
+    description: "Start a fresh session after this many hours",
+    fallback: "24",
+    envOverride: true,
+  },
+  {
+    key: "TASK_SOURCES",
+    type: { kind: "list", separator: ",", values: ["local", "beads", "github"] },
+    description: "Where to import tasks from",
+    fallback: "local",
+    envOverride: false,
+  },
+  {
+    key: "GITHUB_TASK_LABEL",
+    type: { kind: "string" },
+    description: "GitHub label for task filtering",
+    fallback: "ralph-task",
+    envOverride: false,
+  },
+  {
+    key: "BEADS_FILTER",
+    type: { kind: "string" },
+    description: "Beads filter for task import",
+    fallback: "status:open",
+    envOverride: false,
+  },
+  {
+    key: "CB_NO_PROGRESS_THRESHOLD",
+    type: { kind: "integer", min: 1 },
+    description: "Open the circuit after N loops without file changes",
+    fallback: "3",
+    envOverride: false,
+  },
+  {
+    key: "CB_SAME_ERROR_THRESHOLD",
+    type: { kind: "integer", min: 1 },
+    description: "Open the circuit after N loops with the same error",
+    fallback: "5",
+    envOverride: false,
+  },
+  {
+    key: "CB_OUTPUT_DECLINE_THRESHOLD",
+    type: { kind: "integer", min: 0, max: 100, unit: "percent" },
+    description: "Open the circuit when output declines by more than N percent",
+    fallback: "70",
+    envOverride: false,
+  },
+  {
+    key: "CB_READ_ONLY_TIMEOUT_THRESHOLD",
+    type: { kind: "integer", min: 1 },
+    description: "Open the circuit after N consecutive read-only timeouts",
+    fallback: "2",
+    envOverride: true,
+  },
+  {
+    key: "CB_COOLDOWN_MINUTES",
+    type: { kind: "integer", min: 0, unit: "minutes" },
+    description: "Cooldown before an open circuit retries",
+    fallback: "30",
+    envOverride: true,
+  },
+  {
+    key: "CB_AUTO_RESET",
+    type: { kind: "boolean" },
+    description: "Reset the circuit breaker on startup",
+    fallback: "false",
+    envOverride: true,
+  },
+  {
+    key: "TEST_COMMAND",
+    type: { kind: "string", allowEmpty: true },
+    description: "Command that verifies the agent's test status",
+    fallback: "",
+    envOverride: true,
+  },
+  {
+    key: "QUALITY_GATES",
+    type: { kind: "string", allowEmpty: true },
+    description: "Semicolon-separated quality gate commands",
+    fallback: "",
+    envOverride: true,
+  },
+  {
+    key: "QUALITY_GATE_MODE",
+    type: { kind: "enum", values: ["warn", "block", "circuit-breaker"] },
+    description: "How quality gate failures are handled",
+    fallback: "warn",
+    envOverride: true,
+  },
+  {
+    key: "QUALITY_GATE_TIMEOUT",
+    type: { kind: "integer", min: 1, unit: "seconds" },
+    description: "Timeout for each gate command",
+    fallback: "120",
+    envOverride: true,
+  },
+  {
+    key: "QUALITY_GATE_ON_COMPLETION_ONLY",
+    type: { kind: "boolean" },
+    description: "Only run gates when the agent signals completion",
+    fallback: "false",
+    envOverride: true,
+  },
+  {
+    key: "REVIEW_MODE",
+    type: { kind: "enum", values: ["off", "enhanced", "ultimate"] },
+    description: "Periodic code review mode",
+    fallback: "off",
+    envOverride: true,
+  },
+  {
+    key: "REVIEW_ENABLED",
+    type: { kind: "boolean" },
+    description: "(Legacy) Enable code review; prefer REVIEW_MODE",
+    fallback: "false",
+    envOverride: true,
+  },
+  {
+    key: "REVIEW_INTERVAL",
+    type: { kind: "integer", min: 1 },
+    description: "Implementation loops between reviews (enhanced mode)",
+    fallback: "5",
+    envOverride: true,
+  },
+  {
+    key: "CLAUDE_MIN_VERSION",
+    type: { kind: "version" },
+    description: "Minimum Claude CLI version",
+    fallback: "2.0.76",
+    envOverride: false,
+  },
+  {
+    key: "RALPH_VERBOSE",
+    type: { kind: "boolean" },
+    description: "Enable verbose logging",
+    fallback: "false",
+    envOverride: true,
+  },
+  {
+    key: "PROMPT_FILE",
+    type: { kind: "string" },
+    description: "Prompt file (relative to .ralph/)",
+    fallback: "PROMPT.md",
+    envOverride: false,
+  },
+  {
+    key: "FIX_PLAN_FILE",
+    type: { kind: "string" },
+    description: "Fix plan file (relative to .ralph/)",
+    fallback: "@fix_plan.md",
+    envOverride: false,
+  },
+  {
+    key: "AGENT_FILE",
+    type: { kind: "string" },
+    description: "Agent file (relative to .ralph/)",
+    fallback: "@AGENT.md",
+    envOverride: false,
+  },
+];
+
+const KEYS_BY_NAME = new Map(RALPHRC_KEYS.map((definition) => [definition.key, definition]));
+
+const VERSION_PATTERN = /^\d+(\.\d+){0,2}$/;
+
+export function getRalphrcKeyDefinition(key: string): RalphrcKeyDefinition | undefined {
+  return KEYS_BY_NAME.get(key);
+}
+
+export function isRalphrcKey(key: string): boolean {
+  return KEYS_BY_NAME.has(key);
+}
+
+export function describeRalphrcType(type: RalphrcValueType): string {
+  switch (type.kind) {
+    case "string":
+      return "string";
+    case "boolean":
+      return "true | false";
+    case "integer": {
+      const range = type.max !== undefined ? `${type.min}-${type.max}` : `>= ${type.min}`;
+      return `integer ${range}${type.unit ? ` (${type.unit})` : ""}`;
+    }
+    case "enum":
+      return type.values.join(" | ");
+    case "list":
+      return `${type.separator}-separated list of ${type.values.join(", ")}`;
+    case "version":
+      return "version (e.g. 2.0.76)";
+  }
+}
+
+/**
+ * Validates and normalizes a value for a .ralphrc key.
+ *
+ * @throws Error when the key is unknown or the value is outside the key's type or range
+ */
+export function validateRalphrcValue(key: string, value: string): string {
+  const definition = KEYS_BY_NAME.get(key);
+  if (!definition) {
+    throw new Error(
+      `Unknown .ralphrc key: ${key}. ralph_loop.sh ignores keys outside its allowlist`
+    );
+  }
+
+  const { type } = definition;
+  const expected = describeRalphrcType(type);
+  const fail = (): never => {
+    throw new Error(`Invalid value for ${key}: "${value}". Expected ${expected}`);
+  };
+
+  switch (type.kind) {
+    case "string":
+      if (value.trim() === "" && !type.allowEmpty) fail();
+      return value;
+    case "boolean": {
+      const normalized = value.toLowerCase();
+      if (normalized !== "true" && normalized !== "false") fail();
+      return normalized;
+    }
+    case "integer": {
+      if (!/^\d+$/.test(value.trim())) fail();
+      const n = Number(value.trim());
+      if (n < type.min || (type.max !== undefined && n > type.max)) fail();
+      return String(n);
+    }
+    case "enum":
+      if (!type.values.includes(value)) fail();
+      return value;
+    case "list": {
+      const items = value
+        .split(type.separator)
+        .map((item) => item.trim())
+        .filter(Boolean);
+      if (items.length === 0 || items.some((item) => !type.values.includes(item))) fail();
+      return items.join(type.separator);
+    }
+    case "version":
+      if (!VERSION_PATTERN.test(value)) fail();
+      return value;
+  }
+}
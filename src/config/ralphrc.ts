@@ -0,0 +1,194 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { RALPH_DIR } from "../utils/constants.js";
+import { atomicWriteFile } from "../utils/file-system.js";
+import { isEnoent } from "../utils/errors.js";
+import { isRalphrcKey } from "./ralphrc-schema.js";
+
+export const RALPHRC_FILE = `${RALPH_DIR}/.ralphrc`;
+
+const KEY_VALUE_PATTERN = /^([A-Z_][A-Z0-9_]*)=(.*)$/;
+const ENV_DEFAULT_PATTERN = /^\$\{([A-Z_][A-Z0-9_]*):-([^}]*)\}$/;
+const COMMENTED_ASSIGNMENT_PATTERN = /^#\s*([A-Z_][A-Z0-9_]*)=/;
+
+export type RalphrcQuote = '"' | "'" | "";
+
+export interface RalphrcEntry {
+  key: string;
+  /** Value after quote stripping; for `${VAR:-default}` this is the default */
+  value: string;
+  /** Environment variable consulted first when the value uses `${VAR:-default}` */
+  envRef?: string;
+  quote: RalphrcQuote;
+  line: number;
+}
+
+export interface RalphrcIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedRalphrc {
+  lines: string[];
+  entries: Map<string, RalphrcEntry>;
+  issues: RalphrcIssue[];
+}
+
+/**
+ * Parses .ralphrc with the same rules as `parse_ralphrc` in ralph_loop.sh:
+ * KEY=VALUE lines only, command substitution rejected, allowlisted keys only,
+ * outer quotes stripped and `${VAR:-default}` recognized. Later assignments win.
+ */
+export function parseRalphrc(content: string): ParsedRalphrc {
+  const lines = content.split("\n");
+  const entries = new Map<string, RalphrcEntry>();
+  const issues: RalphrcIssue[] = [];
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) {
+      return;
+    }
+
+    if (line.includes("$(") || line.includes("`")) {
+      issues.push({ line: lineNumber, message: "rejected (command substitution)" });
+      return;
+    }
+
+    const match = KEY_VALUE_PATTERN.exec(line);
+    if (!match) {
+      issues.push({ line: lineNumber, message: "skipped (not KEY=VALUE)" });
+      return;
+    }
+
+    const key = match[1] ?? "";
+    if (!isRalphrcKey(key)) {
+      issues.push({ line: lineNumber, message: `unknown key ignored: ${key}` });
+      return;
+    }
+
+    entries.set(key, { key, line: lineNumber, ...parseRalphrcValue(match[2] ?? "") });
+  });
+
+  return { lines, entries, issues };
+}
+
+function parseRalphrcValue(rawValue: string): Omit<RalphrcEntry, "key" | "line"> {
+  let value = rawValue;
+  let quote: RalphrcQuote = "";
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1);
+    quote = '"';
+  } else if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    value = value.slice(1, -1);
+    quote = "'";
+  }
+
+  const envDefault = ENV_DEFAULT_PATTERN.exec(value);
+  if (envDefault) {
+    return { value: envDefault[2] ?? "", envRef: envDefault[1], quote };
+  }
+
+  return { value, quote };
+}
+
+function assertWritableValue(key: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Value for ${key} must be a single line`);
+  }
+  if (value.includes("$(") || value.includes("`")) {
+    throw new Error(`Value for ${key} cannot contain command substitution`);
+  }
+  if (value.includes('"')) {
+    throw new Error(`Value for ${key} cannot contain double quotes`);
+  }
+}
+
+function formatAssignment(
+  key: string,
+  value: string,
+  options: { envRef?: string; quote?: RalphrcQuote } = {}
+): string {
+  const { envRef } = options;
+  const inner = envRef ? `\${${envRef}:-${value}}` : value;
+  const safeBare = !envRef && /^[A-Za-z0-9_.,:/@+-]+$/.test(value);
+  // Keep an existing line's quoting; new lines quote everything but numbers and booleans
+  const bare =
+    options.quote !== undefined
+      ? options.quote === "" && safeBare
+      : safeBare && /^(\d+|true|false)$/.test(value);
+  if (bare) {
+    return `${key}=${inner}`;
+  }
+  return options.quote === "'" && !value.includes("'") ? `${key}='${inner}'` : `${key}="${inner}"`;
+}
+
+/**
+ * Returns new .ralphrc content with `key` set to `value`, keeping every other
+ * line untouched. An existing `${KEY:-default}` form keeps its env fallback;
+ * a commented-out assignment is activated in place; otherwise the key is appended.
+ */
+export function setRalphrcValue(content: string, key: string, value: string): string {
+  assertWritableValue(key, value);
+  const parsed = parseRalphrc(content);
+  const lines = [...parsed.lines];
+  const existing = parsed.entries.get(key);
+
+  if (existing) {
+    const indent = /^\s*/.exec(lines[existing.line - 1] ?? "")?.[0] ?? "";
+    lines[existing.line - 1] =
+      indent +
+      formatAssignment(key, value, {
+        envRef: existing.envRef,
+        quote: existing.quote,
+      });
+    return lines.join("\n");
+  }
+
+  const commentedIndex = lines.findIndex(
+    (line) => COMMENTED_ASSIGNMENT_PATTERN.exec(line.trim())?.[1] === key
+  );
+  if (commentedIndex !== -1) {
+    lines[commentedIndex] = formatAssignment(key, value);
+    return lines.join("\n");
+  }
+
+  const trailingNewline = content.endsWith("\n");
+  const body = trailingNewline ? content.slice(0, -1) : content;
+  const separator = body === "" ? "" : "\n";
+  return `${body}${separator}${formatAssignment(key, value)}\n`;
+}
+
+/**
+ * Returns new .ralphrc content with every active assignment of `key`
+ * commented out, so the documented layout survives and Ralph falls back
+ * to its defaults.
+ */
+export function unsetRalphrcValue(content: string, key: string): string {
+  const lines = content.split("\n").map((line) => {
+    const trimmed = line.trim();
+    const match = KEY_VALUE_PATTERN.exec(trimmed);
+    if (match?.[1] !== key) {
+      return line;
+    }
+    const indent = /^\s*/.exec(line)?.[0] ?? "";
+    return `${indent}# ${trimmed}`;
+  });
+  return lines.join("\n");
+}
+
+export async function readRalphrc(projectDir: string): Promise<string | null> {
+  try {
+    return await readFile(join(projectDir, RALPHRC_FILE), "utf-8");
+  } catch (err) {
+    if (isEnoent(err)) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export async function writeRalphrc(projectDir: string, content: string): Promise<void> {
+  await atomicWriteFile(join(projectDir, RALPHRC_FILE), content);
+}
@@ -0,0 +1,346 @@
+import { join } from "node:path";
+import { readJsonFile } from "../utils/json.js";
+import { writeConfig } from "../utils/config.js";
+import { validateConfig, validateProjectName } from "../utils/validate.js";
+import { CONFIG_FILE, DEFAULT_CONTEXT_TOKEN_BUDGET } from "../utils/constants.js";
+import { renderRalphrcTemplate } from "../installer/template-files.js";
+import { PLATFORM_IDS } from "../platform/types.js";
+import {
+  RALPHRC_FILE,
+  parseRalphrc,
+  readRalphrc,
+  setRalphrcValue,
+  unsetRalphrcValue,
+  writeRalphrc,
+  type RalphrcIssue,
+} from "./ralphrc.js";
+import {
+  RALPHRC_KEYS,
+  describeRalphrcType,
+  getRalphrcKeyDefinition,
+  validateRalphrcValue,
+} from "./ralphrc-schema.js";
+
+export type SettingScope = "bmalph" | "ralph";
+
+/** Where the effective value comes from, in Ralph's precedence order */
+export type SettingSource = "env" | "file" | "default" | "unset";
+
+export interface ResolvedSetting {
+  key: string;
+  scope: SettingScope;
+  file: string;
+  value: string | null;
+  source: SettingSource;
+  fileValue: string | null;
+  defaultValue: string | null;
+  envVar?: string;
+  type: string;
+  description: string;
+  writable: boolean;
+  /** Set when the value stored in the file violates the key's type or range */
+  invalid?: string;
+}
+
+export interface SettingsReport {
+  settings: ResolvedSetting[];
+  ralphrcIssues: RalphrcIssue[];
+}
+
+interface BmalphConfigKey {
+  key: string;
+  description: string;
+  type: string;
+  writable: boolean;
+  required: boolean;
+  read(config: Record<string, unknown>): string | null;
+  validate?(value: string): string;
+  /** Converts the validated string to the JSON value stored in the config */
+  toConfigValue?(value: string): unknown;
+}
+
+const BMALPH_CONFIG_KEYS: readonly BmalphConfigKey[] = [
+  {
+    key: "name",
+    description: "Project name",
+    type: "string",
+    writable: true,
+    required: true,
+    read: (config) => (typeof config.name === "string" ? config.name : null),
+    validate: validateProjectName,
+  },
+  {
+    key: "description",
+    description: "Project description",
+    type: "string",
+    writable: true,
+    required: true,
+    read: (config) => (typeof config.description === "string" ? config.description : null),
+  },
+  {
+    key: "platform",
+    description: "Target AI platform",
+    type: PLATFORM_IDS.join(" | "),
+    writable: true,
+    required: false,
+    read: (config) => (typeof config.platform === "string" ? config.platform : null),
+    validate: (value) => {
+      if (!(PLATFORM_IDS as readonly string[]).includes(value)) {
+        throw new Error(
+          `Invalid value for platform: "${value}". Expected ${PLATFORM_IDS.join(" | ")}`
+        );
+      }
+      return value;
+    },
+  },
+  {
+    key: "contextTokenBudget",
+    description: `Estimated-token budget for PROJECT_CONTEXT.md (default ${DEFAULT_CONTEXT_TOKEN_BUDGET})`,
+    type: "integer >= 1 (tokens)",
+    writable: true,
+    required: false,
+    read: (config) =>
+      typeof config.contextTokenBudget === "number" ? String(config.contextTokenBudget) : null,
+    validate: (value) => {
+      if (!/^\d+$/.test(value) || Number(value) < 1) {
+        throw new Error(
+          `Invalid value for contextTokenBudget: "${value}". Expected a positive integer`
+        );
+      }
+      return String(Number(value));
+    },
+    toConfigValue: Number,
+  },
+  {
+    key: "createdAt",
+    description: "Initialization timestamp",
+    type: "timestamp",
+    writable: false,
+    required: true,
+    read: (config) => (typeof config.createdAt === "string" ? config.createdAt : null),
+  },
+  {
+    key: "upstreamVersions.bmadCommit",
+    description: "Bundled BMAD-METHOD commit",
+    type: "string",
+    writable: false,
+    required: false,
+    read: (config) => {
+      const upstream = config.upstreamVersions;
+      if (upstream === null || typeof upstream !== "object") return null;
+      const commit = (upstream as Record<string, unknown>).bmadCommit;
+      return typeof commit === "string" ? commit : null;
+    },
+  },
+];
+
+function findBmalphKey(key: string): BmalphConfigKey | undefined {
+  return BMALPH_CONFIG_KEYS.find((definition) => definition.key === key);
+}
+
+function unknownKeyError(key: string): Error {
+  return new Error(
+    `Unknown setting: ${key}. Run: bmalph config list to see bmalph/config.json and .ralphrc keys`
+  );
+}
+
+async function readRawConfig(projectDir: string): Promise<Record<string, unknown> | null> {
+  const data = await readJsonFile<unknown>(join(projectDir, CONFIG_FILE));
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return null;
+  }
+  return data as Record<string, unknown>;
+}
+
+async function readTemplateDefaults(platformId: string): Promise<Map<string, string>> {
+  const template = parseRalphrc(await renderRalphrcTemplate(platformId));
+  return new Map([...template.entries].map(([key, entry]) => [key, entry.value]));
+}
+
+function resolveBmalphSettings(config: Record<string, unknown> | null): ResolvedSetting[] {
+  return BMALPH_CONFIG_KEYS.map((definition) => {
+    const fileValue = config ? definition.read(config) : null;
+    return {
+      key: definition.key,
+      scope: "bmalph",
+      file: CONFIG_FILE,
+      value: fileValue,
+      source: fileValue !== null ? "file" : "unset",
+      fileValue,
+      defaultValue: null,
+      type: definition.type,
+      description: definition.description,
+      writable: definition.writable,
+    };
+  });
+}
+
+function resolveRalphSettings(
+  ralphrc: string | null,
+  templateDefaults: Map<string, string>,
+  env: NodeJS.ProcessEnv
+): { settings: ResolvedSetting[]; issues: RalphrcIssue[] } {
+  const parsed = ralphrc !== null ? parseRalphrc(ralphrc) : null;
+
+  const settings = RALPHRC_KEYS.map((definition): ResolvedSetting => {
+    const entry = parsed?.entries.get(definition.key);
+    const defaultValue = templateDefaults.get(definition.key) ?? definition.fallback;
+    const fileValue = entry?.value ?? null;
+
+    // Mirrors ralph_loop.sh: "${VAR:-default}" reads VAR first, snapshotted keys
+    // restore their environment value after .ralphrc loads, and keys absent
+    // from the file fall back to the environment before the built-in default.
+    let source: SettingSource = "default";
+    let value: string = defaultValue;
+    let envVar: string | undefined;
+    const refValue = entry?.envRef ? env[entry.envRef] : undefined;
+    const ownValue = env[definition.key];
+
+    if (entry?.envRef && refValue) {
+      source = "env";
+      value = refValue;
+      envVar = entry.envRef;
+    } else if (ownValue && (definition.envOverride || !entry)) {
+      source = "env";
+      value = ownValue;
+      envVar = definition.key;
+    } else if (entry) {
+      source = "file";
+      value = entry.value;
+    }
+
+    let invalid: string | undefined;
+    if (fileValue !== null) {
+      try {
+        validateRalphrcValue(definition.key, fileValue);
+      } catch (err) {
+        invalid = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    return {
+      key: definition.key,
+      scope: "ralph",
+      file: RALPHRC_FILE,
+      value,
+      source,
+      fileValue,
+      defaultValue,
+      ...(envVar !== undefined && { envVar }),
+      type: describeRalphrcType(definition.type),
+      description: definition.description,
+      writable: true,
+      ...(invalid !== undefined && { invalid }),
+    };
+  });
+
+  return { settings, issues: parsed?.issues ?? [] };
+}
+
+/**
+ * Resolves every bmalph/config.json and .ralphrc setting, reporting where each
+ * effective value comes from (environment, file or template default).
+ */
+export async function listSettings(
+  projectDir: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<SettingsReport> {
+  const config = await readRawConfig(projectDir);
+  const platformId = typeof config?.platform === "string" ? config.platform : "claude-code";
+  const [ralphrc, templateDefaults] = await Promise.all([
+    readRalphrc(projectDir),
+    readTemplateDefaults(platformId),
+  ]);
+
+  const ralph = resolveRalphSettings(ralphrc, templateDefaults, env);
+  return {
+    settings: [...resolveBmalphSettings(config), ...ralph.settings],
+    ralphrcIssues: ralph.issues,
+  };
+}
+
+export async function getSetting(
+  projectDir: string,
+  key: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ResolvedSetting> {
+  if (!findBmalphKey(key) && !getRalphrcKeyDefinition(key)) {
+    throw unknownKeyError(key);
+  }
+
+  const { settings } = await listSettings(projectDir, env);
+  const setting = settings.find((candidate) => candidate.key === key);
+  if (!setting) {
+    throw unknownKeyError(key);
+  }
+  return setting;
+}
+
+/**
+ * Validates and writes a single setting. bmalph keys go to bmalph/config.json
+ * (re-validated as a whole), .ralphrc keys are edited in place.
+ *
+ * @returns The normalized value that was written
+ */
+export async function setSetting(projectDir: string, key: string, value: string): Promise<string> {
+  const bmalphKey = findBmalphKey(key);
+  if (bmalphKey) {
+    if (!bmalphKey.writable) {
+      throw new Error(`${key} is managed by bmalph and cannot be changed`);
+    }
+    const normalized = bmalphKey.validate ? bmalphKey.validate(value) : value;
+    const configValue = bmalphKey.toConfigValue ? bmalphKey.toConfigValue(normalized) : normalized;
+    await updateBmalphConfig(projectDir, (config) => ({ ...config, [key]: configValue }));
+    return normalized;
+  }
+
+  if (!getRalphrcKeyDefinition(key)) {
+    throw unknownKeyError(key);
+  }
+
+  const normalized = validateRalphrcValue(key, value);
+  const content = await requireRalphrc(projectDir);
+  await writeRalphrc(projectDir, setRalphrcValue(content, key, normalized));
+  return normalized;
+}
+
+export async function unsetSetting(projectDir: string, key: string): Promise<void> {
+  const bmalphKey = findBmalphKey(key);
+  if (bmalphKey) {
+    if (!bmalphKey.writable || bmalphKey.required) {
+      throw new Error(`${key} is required and cannot be unset`);
+    }
+    await updateBmalphConfig(projectDir, (config) =>
+      Object.fromEntries(Object.entries(config).filter(([name]) => name !== key))
+    );
+    return;
+  }
+
+  if (!getRalphrcKeyDefinition(key)) {
+    throw unknownKeyError(key);
+  }
+
+  const content = await requireRalphrc(projectDir);
+  await writeRalphrc(projectDir, unsetRalphrcValue(content, key));
+}
+
+async function requireRalphrc(projectDir: string): Promise<string> {
+  const content = await readRalphrc(projectDir);
+  if (content === null) {
+    throw new Error(`${RALPHRC_FILE} not found. Run: bmalph init`);
+  }
+  return content;
+}
+
+async function updateBmalphConfig(
+  projectDir: string,
+  update: (config: Record<string, unknown>) => Record<string, unknown>
+): Promise<void> {
+  const config = await readRawConfig(projectDir);
+  if (!config) {
+    throw new Error("Project not initialized. Run: bmalph init");
+  }
+
+  // Validate the whole document so a write can never produce a config readConfig rejects
+  await writeConfig(projectDir, validateConfig(update(config)));
+}
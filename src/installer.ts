@@ -19,6 +19,7 @@ export { classifyCommands, generateCommandIndex, generateSkills } from "./instal
 export { generateManifests } from "./installer/bmad-assets.js";
 
 export {
+  updateGitignore,
   mergeInstructionsFile,
   isInitialized,
   previewInstall,
@@ -0,0 +1,90 @@
+import type { LogFilter, RalphLogEntry } from "./types.js";
+
+export const LOG_LINE_PATTERN = /^\[(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\] \[(\w+)\] (.+)$/;
+
+const LOOP_START_PATTERN = /^=== Starting Loop #(\d+) ===$/;
+const LOOP_END_PATTERN = /^=== Completed Loop #(\d+) ===$/;
+const LOG_TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+
+/** Ralph writes timestamps with `date '+%Y-%m-%d %H:%M:%S'`, i.e. in local time */
+export function parseLogTimestamp(timestamp: string): Date | null {
+  const match = LOG_TIMESTAMP_PATTERN.exec(timestamp);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year ?? 0, (month ?? 1) - 1, day ?? 1, hours ?? 0, minutes ?? 0, seconds ?? 0);
+}
+
+/**
+ * Line-by-line ralph.log parser that tracks the current loop across calls,
+ * so it works the same on a whole file and on lines appended while following.
+ * Lines without the `[timestamp] [LEVEL]` prefix (multi-line messages)
+ * inherit the timestamp, level and loop of the entry before them.
+ */
+export class RalphLogParser {
+  private loop: number | null = null;
+  private previous: RalphLogEntry | null = null;
+  private lineNumber = 0;
+
+  parseLine(line: string): RalphLogEntry | null {
+    this.lineNumber++;
+    const text = line.replace(/\r$/, "");
+    if (text.trim() === "") {
+      return null;
+    }
+
+    const match = LOG_LINE_PATTERN.exec(text);
+    if (!match) {
+      if (!this.previous) return null;
+      return { ...this.previous, message: text, line: this.lineNumber };
+    }
+
+    const message = match[3] ?? "";
+    const start = LOOP_START_PATTERN.exec(message);
+    if (start) {
+      this.loop = Number(start[1]);
+    }
+
+    const entry: RalphLogEntry = {
+      timestamp: match[1] ?? "",
+      level: match[2] ?? "",
+      message,
+      loop: this.loop,
+      line: this.lineNumber,
+    };
+    this.previous = entry;
+
+    if (LOOP_END_PATTERN.test(message)) {
+      this.loop = null;
+    }
+    return entry;
+  }
+}
+
+export function parseRalphLog(content: string): RalphLogEntry[] {
+  const parser = new RalphLogParser();
+  const entries: RalphLogEntry[] = [];
+  for (const line of content.split("\n")) {
+    const entry = parser.parseLine(line);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+export function matchesLogFilter(entry: RalphLogEntry, filter: LogFilter): boolean {
+  if (filter.levels && !filter.levels.includes(entry.level.toUpperCase())) {
+    return false;
+  }
+  if (filter.loop !== undefined && entry.loop !== filter.loop) {
+    return false;
+  }
+  if (filter.since || filter.until) {
+    const time = parseLogTimestamp(entry.timestamp)?.getTime();
+    if (time === undefined) return false;
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+  }
+  if (filter.grep && !filter.grep.test(entry.message)) {
+    return false;
+  }
+  return true;
+}
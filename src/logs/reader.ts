@@ -0,0 +1,163 @@
+import { open, readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { RALPH_LOG_FILE, RALPH_LOGS_DIR } from "../utils/constants.js";
+import { isEnoent } from "../utils/errors.js";
+import { FileWatcher } from "../watch/file-watcher.js";
+import { parseLogTimestamp, RalphLogParser } from "./parser.js";
+import type { LoopOutputFiles, RalphLogEntry } from "./types.js";
+
+const DRIVER_OUTPUT_PATTERN = /^claude_output_(\d{4}-\d{2}-\d{2})_(\d{2})-(\d{2})-(\d{2})\.log$/;
+const DEFAULT_FOLLOW_INTERVAL_MS = 500;
+
+export interface RalphLog {
+  entries: RalphLogEntry[];
+  /** Bytes read, where following resumes */
+  size: number;
+  /** Parser positioned at the end of the file, for following */
+  parser: RalphLogParser;
+}
+
+export interface FollowOptions {
+  projectDir: string;
+  /** Byte offset to start from, usually RalphLog.size */
+  offset: number;
+  parser: RalphLogParser;
+  intervalMs?: number;
+  /** Stops following, in addition to SIGINT/SIGTERM */
+  signal?: AbortSignal;
+  onEntry: (entry: RalphLogEntry) => void;
+}
+
+export async function readRalphLog(projectDir: string): Promise<RalphLog> {
+  const parser = new RalphLogParser();
+  let content: Buffer;
+  try {
+    content = await readFile(join(projectDir, RALPH_LOG_FILE));
+  } catch (err) {
+    if (isEnoent(err)) return { entries: [], size: 0, parser };
+    throw err;
+  }
+
+  const entries: RalphLogEntry[] = [];
+  for (const line of content.toString("utf-8").split("\n")) {
+    const entry = parser.parseLine(line);
+    if (entry) entries.push(entry);
+  }
+  return { entries, size: content.length, parser };
+}
+
+/**
+ * Polls ralph.log for appended lines and reports each new entry. Starts over
+ * from the beginning if the file shrinks. Resolves on SIGINT/SIGTERM or abort.
+ */
+export async function followRalphLog(options: FollowOptions): Promise<void> {
+  const { projectDir, parser, onEntry } = options;
+  const logPath = join(projectDir, RALPH_LOG_FILE);
+  let offset = options.offset;
+  let pending = "";
+  let busy = false;
+
+  const tick = async (): Promise<void> => {
+    if (busy) return;
+    busy = true;
+    try {
+      const fh = await open(logPath, "r");
+      try {
+        const { size } = await fh.stat();
+        if (size < offset) {
+          offset = 0;
+          pending = "";
+        }
+        if (size === offset) return;
+
+        const buffer = Buffer.alloc(size - offset);
+        const { bytesRead } = await fh.read(buffer, 0, buffer.length, offset);
+        offset += bytesRead;
+        const lines = (pending + buffer.toString("utf-8", 0, bytesRead)).split("\n");
+        pending = lines.pop() ?? "";
+        for (const line of lines) {
+          const entry = parser.parseLine(line);
+          if (entry) onEntry(entry);
+        }
+      } finally {
+        await fh.close();
+      }
+    } catch (err) {
+      if (!isEnoent(err)) throw err;
+    } finally {
+      busy = false;
+    }
+  };
+
+  const watcher = new FileWatcher(tick, options.intervalMs ?? DEFAULT_FOLLOW_INTERVAL_MS);
+
+  return new Promise<void>((resolve) => {
+    const onSignal = (): void => {
+      watcher.stop();
+      process.removeListener("SIGINT", onSignal);
+      process.removeListener("SIGTERM", onSignal);
+      options.signal?.removeEventListener("abort", onSignal);
+      resolve();
+    };
+
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+    options.signal?.addEventListener("abort", onSignal);
+    watcher.start();
+  });
+}
+
+/**
+ * Finds the driver stdout/stderr captures for a loop. Ralph names them by the
+ * time the driver started, so the capture is the first one between the loop's
+ * `Starting Loop #N` line and the next loop's. Loop numbers restart with every
+ * run; the most recent loop with that number is used.
+ */
+export async function findLoopOutputFiles(
+  projectDir: string,
+  entries: RalphLogEntry[],
+  loop: number
+): Promise<LoopOutputFiles | null> {
+  const starts = entries.filter((entry) => /^=== Starting Loop #\d+ ===$/.test(entry.message));
+  let index = -1;
+  starts.forEach((entry, i) => {
+    if (entry.loop === loop) index = i;
+  });
+  const start = starts[index];
+  if (!start) {
+    return null;
+  }
+  const from = parseLogTimestamp(start.timestamp)?.getTime() ?? 0;
+  const nextStart = starts[index + 1];
+  const to = nextStart ? (parseLogTimestamp(nextStart.timestamp)?.getTime() ?? Infinity) : Infinity;
+
+  let names: string[];
+  try {
+    names = await readdir(join(projectDir, RALPH_LOGS_DIR));
+  } catch (err) {
+    if (isEnoent(err)) return { loop, output: null, stderr: null };
+    throw err;
+  }
+
+  const captures = names
+    .map((name) => {
+      const match = DRIVER_OUTPUT_PATTERN.exec(name);
+      if (!match) return null;
+      const time = parseLogTimestamp(`${match[1]} ${match[2]}:${match[3]}:${match[4]}`);
+      return time ? { name, time: time.getTime() } : null;
+    })
+    .filter((capture): capture is { name: string; time: number } => capture !== null)
+    .filter((capture) => capture.time >= from && capture.time < to)
+    .sort((a, b) => a.time - b.time);
+
+  const capture = captures[0];
+  if (!capture) {
+    return { loop, output: null, stderr: null };
+  }
+  const stderrName = capture.name.replace("claude_output_", "claude_stderr_");
+  return {
+    loop,
+    output: `${RALPH_LOGS_DIR}/${capture.name}`,
+    stderr: names.includes(stderrName) ? `${RALPH_LOGS_DIR}/${stderrName}` : null,
+  };
+}
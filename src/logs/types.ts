@@ -0,0 +1,30 @@
+/** Levels written by ralph_loop.sh log_status */
+export const RALPH_LOG_LEVELS = ["INFO", "WARN", "ERROR", "SUCCESS", "LOOP"] as const;
+
+export interface RalphLogEntry {
+  /** Local time as written by Ralph: `YYYY-MM-DD HH:MM:SS` */
+  timestamp: string;
+  level: string;
+  message: string;
+  /** Loop the entry was logged in, from the `=== Starting Loop #N ===` markers */
+  loop: number | null;
+  /** 1-based line number in ralph.log */
+  line: number;
+}
+
+export interface LogFilter {
+  /** Upper-case levels to keep */
+  levels?: string[];
+  since?: Date;
+  until?: Date;
+  loop?: number;
+  grep?: RegExp;
+}
+
+export interface LoopOutputFiles {
+  loop: number;
+  /** Project-relative driver stdout capture */
+  output: string | null;
+  /** Project-relative driver stderr capture */
+  stderr: string | null;
+}
@@ -0,0 +1,177 @@
+import chalk from "chalk";
+import { LOOP_OUTCOMES } from "../utils/ralph-metrics.js";
+import type { MetricsReport, MetricsSummary } from "./types.js";
+
+const CSV_COLUMNS = [
+  "scope",
+  "id",
+  "loops",
+  ...LOOP_OUTCOMES,
+  "input_tokens",
+  "output_tokens",
+  "cache_read_tokens",
+  "cache_creation_tokens",
+  "cost_usd",
+  "avg_cost_usd",
+  "duration_ms",
+  "avg_duration_ms",
+  "files_changed",
+  "quality_gate_failures",
+] as const;
+
+export function formatCost(value: number | null): string {
+  return value === null ? "-" : `$${value.toFixed(value !== 0 && Math.abs(value) < 1 ? 4 : 2)}`;
+}
+
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return "-";
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h${String(minutes).padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m${String(seconds).padStart(2, "0")}s`;
+  return `${seconds}s`;
+}
+
+export function formatTokens(value: number | null): string {
+  if (value === null) return "-";
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(Math.round(value));
+}
+
+function formatOutcomes(summary: MetricsSummary): string {
+  const parts = LOOP_OUTCOMES.filter((o) => summary.outcomes[o] > 0).map(
+    (o) => `${o}=${summary.outcomes[o]}`
+  );
+  return parts.length > 0 ? parts.join(" ") : "-";
+}
+
+function renderTable(headers: string[], rows: string[][]): string[] {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? "").length))
+  );
+  const formatRow = (cells: string[]): string =>
+    cells
+      .map((cell, i) => (i === 0 ? cell.padEnd(widths[i] ?? 0) : cell.padStart(widths[i] ?? 0)))
+      .join("  ")
+      .trimEnd();
+
+  return [`  ${chalk.dim(formatRow(headers))}`, ...rows.map((row) => `  ${formatRow(row)}`)];
+}
+
+function summaryCells(summary: MetricsSummary): string[] {
+  return [
+    String(summary.loops),
+    formatTokens(summary.inputTokens + summary.outputTokens),
+    formatTokens(summary.avgTokens),
+    formatCost(summary.costUsd),
+    formatCost(summary.avgCostUsd),
+    formatDuration(summary.durationMs),
+    formatDuration(summary.avgDurationMs),
+  ];
+}
+
+const SUMMARY_HEADERS = ["Loops", "Tokens", "Avg tok", "Cost", "Avg cost", "Time", "Avg time"];
+
+export function renderMetricsReport(report: MetricsReport): string {
+  const lines: string[] = [];
+  const { totals } = report;
+
+  lines.push(chalk.bold("bmalph metrics\n"));
+  lines.push(`  ${chalk.cyan("Loops:")} ${totals.loops} across ${report.runs.length} run(s)`);
+  lines.push(
+    `  ${chalk.cyan("Tokens:")} ${formatTokens(totals.inputTokens)} in, ` +
+      `${formatTokens(totals.outputTokens)} out, ` +
+      `${formatTokens(totals.cacheReadTokens)} cache read, ` +
+      `${formatTokens(totals.cacheCreationTokens)} cache write`
+  );
+  lines.push(
+    `  ${chalk.cyan("Cost:")} ${formatCost(totals.costUsd)} (avg ${formatCost(totals.avgCostUsd)}/loop)`
+  );
+  lines.push(
+    `  ${chalk.cyan("Time:")} ${formatDuration(totals.durationMs)} ` +
+      `(avg ${formatDuration(totals.avgDurationMs)}/loop)`
+  );
+  lines.push(`  ${chalk.cyan("Files changed:")} ${totals.filesChanged}`);
+  lines.push(`  ${chalk.cyan("Outcomes:")} ${formatOutcomes(totals)}`);
+  if (totals.qualityGateFailures > 0) {
+    lines.push(`  ${chalk.cyan("Quality gate failures:")} ${totals.qualityGateFailures}`);
+  }
+
+  lines.push("");
+  lines.push(chalk.bold("  Runs"));
+  lines.push(
+    ...renderTable(
+      ["Run", "Driver", ...SUMMARY_HEADERS, "Outcomes"],
+      report.runs.map((run) => [
+        run.runId,
+        run.drivers.join(","),
+        ...summaryCells(run),
+        formatOutcomes(run),
+      ])
+    )
+  );
+
+  lines.push("");
+  lines.push(chalk.bold("  Drivers"));
+  lines.push(
+    ...renderTable(
+      ["Driver", ...SUMMARY_HEADERS, "Outcomes"],
+      report.drivers.map((driver) => [
+        driver.driver,
+        ...summaryCells(driver),
+        formatOutcomes(driver),
+      ])
+    )
+  );
+
+  lines.push("");
+  lines.push(chalk.bold("  Cost by day"));
+  lines.push(
+    ...renderTable(
+      ["Date", "Loops", "Cost"],
+      report.costTrend.map((point) => [point.date, String(point.loops), formatCost(point.costUsd)])
+    )
+  );
+
+  return lines.join("\n");
+}
+
+function csvRow(scope: string, id: string, summary: MetricsSummary): string[] {
+  return [
+    scope,
+    id,
+    String(summary.loops),
+    ...LOOP_OUTCOMES.map((o) => String(summary.outcomes[o])),
+    String(summary.inputTokens),
+    String(summary.outputTokens),
+    String(summary.cacheReadTokens),
+    String(summary.cacheCreationTokens),
+    String(summary.costUsd),
+    summary.avgCostUsd === null ? "" : String(summary.avgCostUsd),
+    String(summary.durationMs),
+    summary.avgDurationMs === null ? "" : String(summary.avgDurationMs),
+    String(summary.filesChanged),
+    String(summary.qualityGateFailures),
+  ];
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Renders the report as CSV with one row per run, per driver and a total row.
+ * The `scope` column (run, driver, total) tells the rows apart.
+ */
+export function renderMetricsCsv(report: MetricsReport): string {
+  const rows: string[][] = [
+    [...CSV_COLUMNS],
+    ...report.runs.map((run) => csvRow("run", run.runId, run)),
+    ...report.drivers.map((driver) => csvRow("driver", driver.driver, driver)),
+    csvRow("total", "", report.totals),
+  ];
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+}
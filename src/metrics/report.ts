@@ -0,0 +1,145 @@
+import { LOOP_OUTCOMES, type RalphLoopMetrics } from "../utils/ralph-metrics.js";
+import type {
+  CostTrendPoint,
+  DriverMetricsSummary,
+  MetricsFilter,
+  MetricsReport,
+  MetricsSummary,
+  OutcomeCounts,
+  RunMetricsSummary,
+} from "./types.js";
+
+export function filterMetrics(
+  records: RalphLoopMetrics[],
+  filter: MetricsFilter
+): RalphLoopMetrics[] {
+  const sinceMs = filter.since?.getTime();
+  return records.filter((record) => {
+    if (filter.runId !== undefined && record.runId !== filter.runId) {
+      return false;
+    }
+    if (sinceMs !== undefined && Date.parse(record.timestamp) < sinceMs) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function summarizeMetrics(records: RalphLoopMetrics[]): MetricsSummary {
+  const outcomes = Object.fromEntries(LOOP_OUTCOMES.map((o) => [o, 0])) as OutcomeCounts;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cacheReadTokens = 0;
+  let cacheCreationTokens = 0;
+  let costUsd = 0;
+  let durationMs = 0;
+  let filesChanged = 0;
+  let qualityGateFailures = 0;
+  let costedLoops = 0;
+  let timedLoops = 0;
+  let tokenLoops = 0;
+
+  for (const record of records) {
+    outcomes[record.loopOutcome] += 1;
+    filesChanged += record.filesChanged;
+
+    if (record.inputTokens !== null || record.outputTokens !== null) {
+      inputTokens += record.inputTokens ?? 0;
+      outputTokens += record.outputTokens ?? 0;
+      tokenLoops += 1;
+    }
+    cacheReadTokens += record.cacheReadTokens ?? 0;
+    cacheCreationTokens += record.cacheCreationTokens ?? 0;
+
+    if (record.totalCostUsd !== null) {
+      costUsd += record.totalCostUsd;
+      costedLoops += 1;
+    }
+
+    if (record.durationMs !== null) {
+      durationMs += record.durationMs;
+      timedLoops += 1;
+    }
+
+    if (record.qualityGateResult !== null && record.qualityGateResult !== 0) {
+      qualityGateFailures += 1;
+    }
+  }
+
+  return {
+    loops: records.length,
+    outcomes,
+    inputTokens,
+    outputTokens,
+    cacheReadTokens,
+    cacheCreationTokens,
+    costUsd,
+    durationMs,
+    filesChanged,
+    qualityGateFailures,
+    avgCostUsd: costedLoops > 0 ? costUsd / costedLoops : null,
+    avgDurationMs: timedLoops > 0 ? durationMs / timedLoops : null,
+    avgTokens: tokenLoops > 0 ? (inputTokens + outputTokens) / tokenLoops : null,
+  };
+}
+
+/**
+ * Aggregates loop records into per-run, per-driver and per-day views.
+ * Runs are ordered by start time so consecutive rows show the cost trend.
+ */
+export function buildMetricsReport(records: RalphLoopMetrics[]): MetricsReport {
+  const ordered = [...records].sort(
+    (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp) || a.loop - b.loop
+  );
+
+  const runs: RunMetricsSummary[] = [];
+  for (const [runId, runRecords] of groupBy(ordered, (r) => r.runId)) {
+    runs.push({
+      runId,
+      drivers: [...new Set(runRecords.map((r) => r.driver))],
+      startedAt: runRecords[0]?.timestamp ?? "",
+      endedAt: runRecords[runRecords.length - 1]?.timestamp ?? "",
+      ...summarizeMetrics(runRecords),
+    });
+  }
+
+  const drivers: DriverMetricsSummary[] = [];
+  for (const [driver, driverRecords] of groupBy(ordered, (r) => r.driver)) {
+    drivers.push({ driver, ...summarizeMetrics(driverRecords) });
+  }
+  drivers.sort((a, b) => a.driver.localeCompare(b.driver));
+
+  const costTrend: CostTrendPoint[] = [];
+  for (const [date, dayRecords] of groupBy(ordered, (r) => toUtcDate(r.timestamp))) {
+    costTrend.push({
+      date,
+      loops: dayRecords.length,
+      costUsd: dayRecords.reduce((sum, r) => sum + (r.totalCostUsd ?? 0), 0),
+    });
+  }
+
+  return {
+    totals: summarizeMetrics(ordered),
+    runs,
+    drivers,
+    costTrend,
+  };
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+function toUtcDate(timestamp: string): string {
+  return new Date(Date.parse(timestamp)).toISOString().slice(0, 10);
+}
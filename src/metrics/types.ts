@@ -0,0 +1,50 @@
+import type { LoopOutcome } from "../utils/ralph-metrics.js";
+
+export type OutcomeCounts = Record<LoopOutcome, number>;
+
+export interface MetricsSummary {
+  loops: number;
+  outcomes: OutcomeCounts;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs: number;
+  filesChanged: number;
+  qualityGateFailures: number;
+  /** Averages are taken over loops that reported the value; null when none did */
+  avgCostUsd: number | null;
+  avgDurationMs: number | null;
+  avgTokens: number | null;
+}
+
+export interface RunMetricsSummary extends MetricsSummary {
+  runId: string;
+  drivers: string[];
+  startedAt: string;
+  endedAt: string;
+}
+
+export interface DriverMetricsSummary extends MetricsSummary {
+  driver: string;
+}
+
+export interface CostTrendPoint {
+  /** UTC calendar day (YYYY-MM-DD) */
+  date: string;
+  loops: number;
+  costUsd: number;
+}
+
+export interface MetricsReport {
+  totals: MetricsSummary;
+  runs: RunMetricsSummary[];
+  drivers: DriverMetricsSummary[];
+  costTrend: CostTrendPoint[];
+}
+
+export interface MetricsFilter {
+  runId?: string;
+  since?: Date;
+}
@@ -3,13 +3,22 @@ import { join } from "node:path";
 import { exists } from "../utils/file-system.js";
 import { SKILLS_PREFIX } from "../utils/constants.js";
 import { isEnoent, formatError } from "../utils/errors.js";
-import type { Platform, PlatformDoctorCheck } from "./types.js";
+import type { DoctorFix, Platform, PlatformDoctorCheck } from "./types.js";
 
 /**
  * Creates the standard instructions-file doctor check for a platform.
  */
 export function createInstructionsFileCheck(platform: Platform): PlatformDoctorCheck {
   const file = platform.instructionsFile;
+  const fix: DoctorFix = {
+    kind: "merge-instructions-file",
+    description: `Add the BMAD section to ${file}`,
+    apply: async (projectDir) => {
+      // Lazy import: the installer depends on the platform registry
+      const { mergeInstructionsFile } = await import("../installer.js");
+      await mergeInstructionsFile(projectDir, platform);
+    },
+  };
   return {
     id: "instructions-file",
     label: `${file} contains BMAD snippet`,
@@ -23,10 +32,11 @@ export function createInstructionsFileCheck(platform: Platform): PlatformDoctorC
           passed: false,
           detail: `missing ${platform.instructionsSectionMarker} section`,
           hint: "Run: bmalph init",
+          fix,
         };
       } catch (err) {
         if (isEnoent(err)) {
-          return { passed: false, detail: `${file} not found`, hint: "Run: bmalph init" };
+          return { passed: false, detail: `${file} not found`, hint: "Run: bmalph init", fix };
         }
         return { passed: false, detail: formatError(err), hint: "Check file permissions" };
       }
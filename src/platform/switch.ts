@@ -0,0 +1,168 @@
+import { readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  classifyCommands,
+  generateCommandIndex,
+  generateSkills,
+  getSlashCommandsDir,
+  mergeInstructionsFile,
+} from "../installer.js";
+import { deliverCommands } from "../installer/commands.js";
+import { findDeliveredCommands, removeInstructionsSections } from "../reset.js";
+import { readRalphrc, RALPHRC_FILE, setRalphrcValue, writeRalphrc } from "../config/ralphrc.js";
+import { readConfig, writeConfig } from "../utils/config.js";
+import { exists } from "../utils/file-system.js";
+import { isEnoent } from "../utils/errors.js";
+import { BMAD_OUTPUT_DIR, CONFIG_FILE, RALPH_DIR } from "../utils/constants.js";
+import type { DryRunAction } from "../utils/dryrun.js";
+import type { Platform } from "./types.js";
+
+export interface PlatformSwitchPlan {
+  from: Platform;
+  to: Platform;
+  /** Old platform's command files or skill directories, project-relative */
+  commandFilesToRemove: string[];
+  /** Old instructions file holding a BMAD section, or null when there is none */
+  instructionsCleanup: { path: string; marker: string } | null;
+  /** New platform's command directory or skills directory; null for index delivery */
+  commandsTarget: string | null;
+  instructionsFile: { path: string; exists: boolean };
+  /** New PLATFORM_DRIVER for .ralphrc; null when the file is missing or the platform has no driver */
+  ralphDriver: string | null;
+  warnings: Array<{ path: string; message: string }>;
+}
+
+/**
+ * Works out what moving a project from one platform to another touches.
+ * Only platform-owned files change; .ralph/ state, fix plan progress and
+ * BMAD output are left alone.
+ */
+export async function buildPlatformSwitchPlan(
+  projectDir: string,
+  from: Platform,
+  to: Platform
+): Promise<PlatformSwitchPlan> {
+  const plan: PlatformSwitchPlan = {
+    from,
+    to,
+    commandFilesToRemove: await findDeliveredCommands(projectDir, from),
+    instructionsCleanup: null,
+    commandsTarget: to.commandDelivery.kind === "index" ? null : to.commandDelivery.dir,
+    instructionsFile: {
+      path: to.instructionsFile,
+      exists: await exists(join(projectDir, to.instructionsFile)),
+    },
+    ralphDriver: null,
+    warnings: [],
+  };
+
+  try {
+    const content = await readFile(join(projectDir, from.instructionsFile), "utf-8");
+    if (content.includes(from.instructionsSectionMarker)) {
+      plan.instructionsCleanup = {
+        path: from.instructionsFile,
+        marker: from.instructionsSectionMarker,
+      };
+    }
+  } catch (err) {
+    if (!isEnoent(err)) throw err;
+  }
+
+  if (to.tier === "full") {
+    if (await exists(join(projectDir, RALPHRC_FILE))) {
+      plan.ralphDriver = to.id;
+    }
+  } else {
+    plan.warnings.push({
+      path: `${RALPH_DIR}/`,
+      message: `${to.displayName} supports planning phases only; bmalph run is unavailable until you switch back to a full-tier platform`,
+    });
+  }
+
+  if (await exists(join(projectDir, BMAD_OUTPUT_DIR))) {
+    plan.warnings.push({
+      path: `${BMAD_OUTPUT_DIR}/`,
+      message: "Contains user planning artifacts — kept as is",
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Applies a switch plan: removes the old platform's commands and instructions
+ * section, installs the new platform's, then points .ralphrc and the config at it.
+ */
+export async function executePlatformSwitchPlan(
+  projectDir: string,
+  plan: PlatformSwitchPlan
+): Promise<void> {
+  for (const file of plan.commandFilesToRemove) {
+    await rm(join(projectDir, file), { recursive: true, force: true });
+  }
+
+  if (plan.instructionsCleanup) {
+    await removeInstructionsSections(projectDir, plan.instructionsCleanup.path, [
+      plan.instructionsCleanup.marker,
+    ]);
+  }
+
+  const slashCommandsDir = getSlashCommandsDir();
+  if (plan.to.commandDelivery.kind === "directory") {
+    await deliverCommands(projectDir, plan.to, slashCommandsDir);
+  } else {
+    const classified = await classifyCommands(projectDir, slashCommandsDir);
+    await generateCommandIndex(projectDir, classified);
+    if (plan.to.commandDelivery.kind === "skills") {
+      await generateSkills(projectDir, classified, plan.to);
+    }
+  }
+
+  await mergeInstructionsFile(projectDir, plan.to);
+
+  if (plan.ralphDriver) {
+    const content = await readRalphrc(projectDir);
+    if (content !== null) {
+      await writeRalphrc(projectDir, setRalphrcValue(content, "PLATFORM_DRIVER", plan.ralphDriver));
+    }
+  }
+
+  const config = await readConfig(projectDir);
+  if (config) {
+    config.platform = plan.to.id;
+    await writeConfig(projectDir, config);
+  }
+}
+
+export function switchPlanToDryRunActions(plan: PlatformSwitchPlan): DryRunAction[] {
+  const actions: DryRunAction[] = [];
+
+  for (const file of plan.commandFilesToRemove) {
+    actions.push({ type: "delete", path: file });
+  }
+
+  if (plan.instructionsCleanup && plan.instructionsCleanup.path !== plan.instructionsFile.path) {
+    actions.push({ type: "modify", path: plan.instructionsCleanup.path });
+  }
+
+  if (plan.commandsTarget) {
+    actions.push({ type: "create", path: `${plan.commandsTarget}/` });
+  }
+
+  actions.push({
+    type: plan.instructionsFile.exists ? "modify" : "create",
+    path: plan.instructionsFile.path,
+  });
+
+  if (plan.ralphDriver) {
+    actions.push({ type: "modify", path: RALPHRC_FILE });
+  }
+
+  actions.push({ type: "modify", path: CONFIG_FILE });
+
+  for (const warning of plan.warnings) {
+    actions.push({ type: "warn", path: warning.path, reason: warning.message });
+  }
+
+  return actions;
+}
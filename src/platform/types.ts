@@ -27,11 +27,28 @@ export type CommandDelivery =
   | { kind: "index" }
   | { kind: "skills"; dir: string; frontmatterName: "command" | "directory" };
 
+/** Remediations `bmalph doctor --fix` knows how to apply. */
+export type DoctorFixKind =
+  | "update-gitignore"
+  | "reinstall-ralph-assets"
+  | "reset-circuit-breaker"
+  | "clear-ralph-session"
+  | "merge-instructions-file";
+
+/** Safe, idempotent repair a failing doctor check can offer. */
+export interface DoctorFix {
+  kind: DoctorFixKind;
+  description: string;
+  apply: (projectDir: string) => Promise<void>;
+}
+
 /** Result of a single platform-specific doctor check. */
 export interface PlatformDoctorCheck {
   id: string;
   label: string;
-  check: (projectDir: string) => Promise<{ passed: boolean; detail?: string; hint?: string }>;
+  check: (
+    projectDir: string
+  ) => Promise<{ passed: boolean; detail?: string; hint?: string; fix?: DoctorFix }>;
 }
 
 /** Platform definition controlling install, upgrade, and doctor behavior. */
@@ -46,37 +46,7 @@ export async function buildResetPlan(projectDir: string, platform: Platform): Pr
     }
   }
 
-  // Check for slash commands to remove (directory delivery only)
-  if (platform.commandDelivery.kind === "directory") {
-    const commandsDir = join(projectDir, platform.commandDelivery.dir);
-    if (await exists(commandsDir)) {
-      const bundledNames = await getBundledCommandNames();
-      try {
-        const existingFiles = await readdir(commandsDir);
-        for (const file of existingFiles) {
-          if (file.endsWith(".md") && bundledNames.has(file)) {
-            plan.commandFiles.push(posix.join(platform.commandDelivery.dir, file));
-          }
-        }
-      } catch (err) {
-        if (!isEnoent(err)) throw err;
-      }
-    }
-  }
-
-  // Check for skills to remove (skills delivery only)
-  if (platform.commandDelivery.kind === "skills") {
-    try {
-      const existingDirs = await readdir(join(projectDir, platform.commandDelivery.dir));
-      for (const dir of existingDirs) {
-        if (dir.startsWith(SKILLS_PREFIX)) {
-          plan.commandFiles.push(posix.join(platform.commandDelivery.dir, dir));
-        }
-      }
-    } catch (err) {
-      if (!isEnoent(err)) throw err;
-    }
-  }
+  plan.commandFiles.push(...(await findDeliveredCommands(projectDir, platform)));
 
   // Check instructions file for BMAD sections
   try {
@@ -121,6 +91,51 @@ export async function buildResetPlan(projectDir: string, platform: Platform): Pr
   return plan;
 }
 
+/**
+ * Lists the bmalph-owned command files (directory delivery) or skill
+ * directories (skills delivery) a platform has in the project, relative to it.
+ * Index delivery has nothing of its own: _bmad/COMMANDS.md is shared.
+ */
+export async function findDeliveredCommands(
+  projectDir: string,
+  platform: Platform
+): Promise<string[]> {
+  const delivery = platform.commandDelivery;
+  const paths: string[] = [];
+
+  if (delivery.kind === "directory") {
+    const commandsDir = join(projectDir, delivery.dir);
+    if (await exists(commandsDir)) {
+      const bundledNames = await getBundledCommandNames();
+      try {
+        const existingFiles = await readdir(commandsDir);
+        for (const file of existingFiles) {
+          if (file.endsWith(".md") && bundledNames.has(file)) {
+            paths.push(posix.join(delivery.dir, file));
+          }
+        }
+      } catch (err) {
+        if (!isEnoent(err)) throw err;
+      }
+    }
+  }
+
+  if (delivery.kind === "skills") {
+    try {
+      const existingDirs = await readdir(join(projectDir, delivery.dir));
+      for (const dir of existingDirs) {
+        if (dir.startsWith(SKILLS_PREFIX)) {
+          paths.push(posix.join(delivery.dir, dir));
+        }
+      }
+    } catch (err) {
+      if (!isEnoent(err)) throw err;
+    }
+  }
+
+  return paths;
+}
+
 async function getBundledCommandNames(): Promise<Set<string>> {
   const slashCommandsDir = getSlashCommandsDir();
   try {
@@ -145,24 +160,11 @@ export async function executeResetPlan(projectDir: string, plan: ResetPlan): Pro
 
   // Clean instructions file
   if (plan.instructionsCleanup) {
-    const filePath = join(projectDir, plan.instructionsCleanup.path);
-    try {
-      let content = await readFile(filePath, "utf-8");
-
-      for (const marker of plan.instructionsCleanup.sectionsToRemove) {
-        content = replaceSection(content, marker, "");
-      }
-
-      content = content.trim();
-
-      if (content.length === 0) {
-        await rm(filePath, { force: true });
-      } else {
-        await atomicWriteFile(filePath, content + "\n");
-      }
-    } catch (err) {
-      if (!isEnoent(err)) throw err;
-    }
+    await removeInstructionsSections(
+      projectDir,
+      plan.instructionsCleanup.path,
+      plan.instructionsCleanup.sectionsToRemove
+    );
   }
 
   // Clean .gitignore
@@ -178,6 +180,35 @@ export async function executeResetPlan(projectDir: string, plan: ResetPlan): Pro
   }
 }
 
+/**
+ * Removes the given BMAD sections from an instructions file, deleting the
+ * file when nothing else is left in it.
+ */
+export async function removeInstructionsSections(
+  projectDir: string,
+  path: string,
+  markers: string[]
+): Promise<void> {
+  const filePath = join(projectDir, path);
+  try {
+    let content = await readFile(filePath, "utf-8");
+
+    for (const marker of markers) {
+      content = replaceSection(content, marker, "");
+    }
+
+    content = content.trim();
+
+    if (content.length === 0) {
+      await rm(filePath, { force: true });
+    } else {
+      await atomicWriteFile(filePath, content + "\n");
+    }
+  } catch (err) {
+    if (!isEnoent(err)) throw err;
+  }
+}
+
 export function removeGitignoreLines(content: string, linesToRemove: string[]): string {
   const removeSet = new Set(linesToRemove);
   const eol = content.includes("\r\n") ? "\r\n" : "\n";
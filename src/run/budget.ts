@@ -0,0 +1,188 @@
+import { filterMetrics, summarizeMetrics } from "../metrics/report.js";
+import { formatCost, formatDuration, formatTokens } from "../metrics/render.js";
+import { readRalphMetrics } from "../utils/ralph-metrics.js";
+import { readRalphRuntimeStatus } from "../utils/ralph-runtime-state.js";
+import { debug } from "../utils/logger.js";
+import { formatError } from "../utils/errors.js";
+import { readLoopControl, writeLoopControl } from "./loop-control.js";
+import type { RalphProcess } from "./types.js";
+
+/**
+ * Limits for one `bmalph run`; omitted limits are not enforced. `maxLoops`
+ * counts every loop that called the driver, failed ones included; loops that
+ * only hit the API limit are retried after the wait and don't count.
+ */
+export interface RunBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+  maxLoops?: number;
+  maxDurationMs?: number;
+}
+
+export interface BudgetUsage {
+  costUsd: number;
+  /** Input plus output tokens */
+  tokens: number;
+  loops: number;
+  elapsedMs: number;
+}
+
+export type BudgetLimit = "cost" | "tokens" | "loops" | "duration";
+
+export function hasBudget(budget: RunBudget): boolean {
+  return Object.values(budget).some((limit) => limit !== undefined);
+}
+
+/** The first limit the usage has reached, in cost, tokens, loops, duration order */
+export function findExceededLimit(budget: RunBudget, usage: BudgetUsage): BudgetLimit | null {
+  if (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd) return "cost";
+  if (budget.maxTokens !== undefined && usage.tokens >= budget.maxTokens) return "tokens";
+  if (budget.maxLoops !== undefined && usage.loops >= budget.maxLoops) return "loops";
+  if (budget.maxDurationMs !== undefined && usage.elapsedMs >= budget.maxDurationMs) {
+    return "duration";
+  }
+  return null;
+}
+
+export function formatBudgetStopReason(
+  limit: BudgetLimit,
+  budget: RunBudget,
+  usage: BudgetUsage
+): string {
+  switch (limit) {
+    case "cost":
+      return `cost budget reached (${formatCost(usage.costUsd)} of ${formatCost(budget.maxCostUsd ?? 0)})`;
+    case "tokens":
+      return `token budget reached (${formatTokens(usage.tokens)} of ${formatTokens(budget.maxTokens ?? 0)})`;
+    case "loops":
+      return `loop budget reached (${usage.loops} of ${budget.maxLoops ?? 0})`;
+    case "duration":
+      return `time budget reached (${formatDuration(budget.maxDurationMs ?? 0)})`;
+  }
+}
+
+/** Remaining budget for the dashboard footer, e.g. `$3.80 · 12 loops · 1h20m left` */
+export function formatRemainingBudget(budget: RunBudget, usage: BudgetUsage): string {
+  const parts: string[] = [];
+  if (budget.maxCostUsd !== undefined) {
+    parts.push(formatCost(Math.max(0, budget.maxCostUsd - usage.costUsd)));
+  }
+  if (budget.maxTokens !== undefined) {
+    parts.push(`${formatTokens(Math.max(0, budget.maxTokens - usage.tokens))} tokens`);
+  }
+  if (budget.maxLoops !== undefined) {
+    parts.push(`${Math.max(0, budget.maxLoops - usage.loops)} loops`);
+  }
+  if (budget.maxDurationMs !== undefined) {
+    parts.push(formatDuration(Math.max(0, budget.maxDurationMs - usage.elapsedMs)));
+  }
+  return `${parts.join(" · ")} left`;
+}
+
+export interface BudgetSupervisorOptions {
+  /** When the run started; loops recorded before it don't count */
+  startedAt: Date;
+  intervalMs: number;
+}
+
+export interface BudgetSupervisor {
+  readonly usage: BudgetUsage;
+  /** The limit that was reached; Ralph is stopped once its current loop finishes */
+  readonly exceeded: BudgetLimit | null;
+  /** One-line budget state for the dashboard footer */
+  describe(): string;
+  stop(): void;
+}
+
+/**
+ * Watches .ralph/logs/metrics.jsonl and .ralph/status.json while Ralph runs.
+ * When a limit is reached, Ralph is asked to stop through the loop control
+ * file, which ralph_loop.sh checks between loops, so the loop in flight is
+ * never cut short. Ralph is killed only when the request can't be written or
+ * the loop ignores it and finishes another loop.
+ */
+export function startBudgetSupervisor(
+  projectDir: string,
+  ralph: RalphProcess,
+  budget: RunBudget,
+  options: BudgetSupervisorOptions
+): BudgetSupervisor {
+  const since = options.startedAt;
+  let usage: BudgetUsage = { costUsd: 0, tokens: 0, loops: 0, elapsedMs: 0 };
+  let exceeded: BudgetLimit | null = null;
+  let checking = false;
+  /** Loop count reported when the stop was requested */
+  let stopRequestedAtLoop: number | undefined;
+
+  const kill = (): void => {
+    ralph.kill();
+    clearInterval(timer);
+  };
+
+  const requestStop = async (loop: number): Promise<void> => {
+    // Re-written on every check so a pause from the dashboard can't override it
+    if ((await readLoopControl(projectDir)) !== "stop") {
+      await writeLoopControl(projectDir, "stop");
+    }
+    stopRequestedAtLoop ??= loop;
+  };
+
+  const check = async (): Promise<void> => {
+    if (checking) return;
+    checking = true;
+    try {
+      const metrics = await readRalphMetrics(projectDir);
+      const records = metrics.kind === "ok" ? filterMetrics(metrics.value.records, { since }) : [];
+      const summary = summarizeMetrics(records);
+      usage = {
+        costUsd: summary.costUsd,
+        tokens: summary.inputTokens + summary.outputTokens,
+        loops: summary.loops - summary.outcomes.api_limit,
+        elapsedMs: Date.now() - since.getTime(),
+      };
+      exceeded ??= findExceededLimit(budget, usage);
+      if (exceeded === null || ralph.state !== "running") return;
+
+      ralph.stopReason ??= formatBudgetStopReason(exceeded, budget, usage);
+      const status = await readRalphRuntimeStatus(projectDir);
+      const loop = status.kind === "ok" ? status.value.loopCount : 0;
+      const executing = status.kind === "ok" && status.value.lastAction === "executing";
+      if (stopRequestedAtLoop !== undefined && loop > stopRequestedAtLoop && !executing) {
+        // Another loop ran to the end: an older ralph_loop.sh without stop requests
+        kill();
+        return;
+      }
+      try {
+        await requestStop(loop);
+      } catch (err) {
+        debug(`Failed to request a budget stop: ${formatError(err)}`);
+        if (!executing) kill();
+      }
+    } catch (err) {
+      debug(`Budget check failed: ${formatError(err)}`);
+    } finally {
+      checking = false;
+    }
+  };
+
+  const timer = setInterval(() => void check(), options.intervalMs);
+  ralph.onExit(() => clearInterval(timer));
+  void check();
+
+  return {
+    get usage() {
+      return usage;
+    },
+    get exceeded() {
+      return exceeded;
+    },
+    describe() {
+      return exceeded
+        ? `${exceeded} budget reached, stopping after the current loop`
+        : `Budget: ${formatRemainingBudget(budget, usage)}`;
+    },
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
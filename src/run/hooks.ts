@@ -0,0 +1,188 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { formatError } from "../utils/errors.js";
+import type { HookTarget, HooksConfig } from "../utils/config.js";
+import type { RunEvent, RunEventSink } from "./run-events.js";
+import type { HookEvent } from "./types.js";
+
+const DEFAULT_HOOK_TIMEOUT_MS = 10_000;
+
+/** What a hook receives, as JSON on stdin or as the POST body */
+export interface HookPayload {
+  event: HookEvent;
+  projectDir: string;
+  /** Swarm worker that emitted the event; null for a single run */
+  worker: number | null;
+  timestamp: string;
+  /** The run event that triggered the hook (see `bmalph run --events`) */
+  data: RunEvent;
+}
+
+export interface HookContext {
+  projectDir: string;
+  worker?: number;
+}
+
+export function hasHooks(hooks: HooksConfig | undefined): hooks is HooksConfig {
+  return hooks !== undefined && Object.values(hooks).some((targets) => targets.length > 0);
+}
+
+/** The hook event a run event triggers, if any */
+export function toHookEvent(event: RunEvent): HookEvent | null {
+  switch (event.type) {
+    case "story_completed":
+    case "permission_denied":
+    case "review_findings":
+    case "run_finished":
+      return event.type;
+    case "circuit_breaker_changed":
+      return event.to === "OPEN" ? "circuit_open" : null;
+    case "loop_finished":
+      return event.outcome === "error" ? "loop_error" : null;
+    default:
+      return null;
+  }
+}
+
+function describeTarget(target: HookTarget): string {
+  return "command" in target ? `"${target.command}"` : target.url;
+}
+
+function killCommandHook(child: ChildProcess): void {
+  if (process.platform !== "win32" && child.pid !== undefined) {
+    try {
+      process.kill(-child.pid, "SIGKILL");
+      return;
+    } catch {
+      // Fall back to the shell if the process group no longer exists.
+    }
+  }
+  child.kill("SIGKILL");
+}
+
+function runCommandHook(
+  command: string,
+  payload: HookPayload,
+  json: string,
+  timeoutMs: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      cwd: payload.projectDir,
+      env: {
+        ...process.env,
+        BMALPH_EVENT: payload.event,
+        BMALPH_EVENT_JSON: json,
+        BMALPH_PROJECT_DIR: payload.projectDir,
+        ...(payload.worker !== null && { BMALPH_WORKER: String(payload.worker) }),
+      },
+      stdio: ["pipe", "ignore", "ignore"],
+      // Own process group, so a timeout reaches the command and not just its shell
+      detached: process.platform !== "win32",
+      windowsHide: true,
+    });
+
+    const timer = setTimeout(() => {
+      killCommandHook(child);
+      reject(new Error(`timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`exited with code ${code ?? "null"}`));
+      }
+    });
+
+    // Commands that don't read stdin close it early
+    child.stdin.on("error", () => {});
+    child.stdin.end(json);
+  });
+}
+
+async function postHttpHook(
+  url: string,
+  headers: Record<string, string> | undefined,
+  json: string,
+  timeoutMs: number
+): Promise<void> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: json,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`responded with HTTP ${response.status}`);
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error(`timed out after ${timeoutMs}ms`, { cause: err });
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export async function fireHook(target: HookTarget, payload: HookPayload): Promise<void> {
+  const json = JSON.stringify(payload);
+  const timeoutMs = target.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS;
+  if ("command" in target) {
+    await runCommandHook(target.command, payload, json, timeoutMs);
+  } else {
+    await postHttpHook(target.url, target.headers, json, timeoutMs);
+  }
+}
+
+export interface HookSink extends RunEventSink {
+  /** One message per hook that failed or timed out */
+  readonly failures: string[];
+}
+
+/**
+ * Fires the configured hooks for each run event. Hooks run in the background
+ * so a slow target never delays the event stream; a failing hook is recorded
+ * in `failures` and never affects the run. `close` waits for running hooks.
+ */
+export function createHookSink(hooks: HooksConfig, context: HookContext): HookSink {
+  const failures: string[] = [];
+  const running = new Set<Promise<void>>();
+
+  return {
+    failures,
+    write(event) {
+      const hookEvent = toHookEvent(event);
+      if (!hookEvent) return Promise.resolve();
+
+      const payload: HookPayload = {
+        event: hookEvent,
+        projectDir: context.projectDir,
+        worker: context.worker ?? null,
+        timestamp: event.timestamp,
+        data: event,
+      };
+      for (const target of hooks[hookEvent] ?? []) {
+        const hook = fireHook(target, payload)
+          .catch((err: unknown) => {
+            failures.push(`${hookEvent} hook ${describeTarget(target)} ${formatError(err)}`);
+          })
+          .finally(() => running.delete(hook));
+        running.add(hook);
+      }
+      return Promise.resolve();
+    },
+    async close() {
+      await Promise.all(running);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { atomicWriteFile } from "../utils/file-system.js";
+import { debug } from "../utils/logger.js";
+import { formatError, isEnoent } from "../utils/errors.js";
+import { LOOP_CONTROL_FILE, RALPH_DIR } from "../utils/constants.js";
+
+/**
+ * Requests ralph_loop.sh honours between loops: `pause` holds the loop until
+ * the file is removed, `step` runs one more loop and then turns into `pause`,
+ * `stop` ends the loop. The file is cleared when ralph_loop.sh starts.
+ */
+export const LOOP_CONTROLS = ["pause", "step", "stop"] as const;
+export type LoopControl = (typeof LOOP_CONTROLS)[number];
+
+function isLoopControl(value: string): value is LoopControl {
+  return (LOOP_CONTROLS as readonly string[]).includes(value);
+}
+
+function loopControlPath(projectDir: string): string {
+  return join(projectDir, RALPH_DIR, LOOP_CONTROL_FILE);
+}
+
+export async function readLoopControl(projectDir: string): Promise<LoopControl | null> {
+  try {
+    const value = (await readFile(loopControlPath(projectDir), "utf-8")).trim();
+    return isLoopControl(value) ? value : null;
+  } catch (err) {
+    if (!isEnoent(err)) debug(`Failed to read loop control: ${formatError(err)}`);
+    return null;
+  }
+}
+
+/** Writes a request for Ralph, or clears it (resume) when `control` is null */
+export async function writeLoopControl(
+  projectDir: string,
+  control: LoopControl | null
+): Promise<void> {
+  if (control === null) {
+    await rm(loopControlPath(projectDir), { force: true });
+  } else {
+    await atomicWriteFile(loopControlPath(projectDir), `${control}\n`);
+  }
+}
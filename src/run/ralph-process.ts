@@ -1,13 +1,15 @@
-import { execFileSync, spawn, type ChildProcess } from "node:child_process";
+import { execFileSync, spawn, type ChildProcess, type StdioOptions } from "node:child_process";
 import { join } from "node:path";
 import { RALPH_DIR } from "../utils/constants.js";
 import { exists } from "../utils/file-system.js";
+import { isProcessAlive, matchesRegisteredProcess, type RunRegistryEntry } from "./run-registry.js";
 import type { RalphProcess, RalphProcessState, ReviewMode } from "./types.js";
 
 const RALPH_LOOP_PATH = `${RALPH_DIR}/ralph_loop.sh`;
 const BASH_RALPH_LOOP_PATH = `./${RALPH_LOOP_PATH}`;
 const BASH_VALIDATION_TIMEOUT_MS = 3000;
 const BASH_COMMAND_TIMEOUT_MS = 15000;
+const ATTACH_POLL_INTERVAL_MS = 1000;
 const DEFAULT_WINDOWS_GIT_BASH_PATHS = [
   "C:\\Program Files\\Git\\bin\\bash.exe",
   "C:\\Program Files\\Git\\usr\\bin\\bash.exe",
@@ -189,11 +191,18 @@ export async function validateGitRepo(projectDir: string): Promise<void> {
 
 export interface SpawnOptions {
   inheritStdio: boolean;
+  /** With inheritStdio, send Ralph's output to stderr so stdout carries only bmalph's own output */
+  stdoutToStderr?: boolean;
   reviewMode?: ReviewMode;
   /** Additional environment variables merged into the spawn env (takes precedence over defaults). */
   env?: Record<string, string>;
 }
 
+function resolveStdio(options: SpawnOptions): StdioOptions {
+  if (!options.inheritStdio) return ["ignore", "pipe", "pipe"];
+  return options.stdoutToStderr ? ["inherit", process.stderr, "inherit"] : "inherit";
+}
+
 export function spawnRalphLoop(
   projectDir: string,
   platformId: string,
@@ -213,7 +222,7 @@ export function spawnRalphLoop(
   const child = spawn(cachedBashCommand ?? "bash", [BASH_RALPH_LOOP_PATH], {
     cwd: projectDir,
     env,
-    stdio: options.inheritStdio ? "inherit" : ["ignore", "pipe", "pipe"],
+    stdio: resolveStdio(options),
     detached: process.platform !== "win32",
     windowsHide: true,
   });
@@ -275,6 +284,96 @@ export function spawnRalphLoop(
   };
 }
 
+/**
+ * Handle on a detached loop from an earlier `bmalph run`. The loop is not a
+ * child of this process, so its exit is noticed by polling the PID and its
+ * exit code is unknown.
+ */
+export function attachRalphLoop(entry: RunRegistryEntry): RalphProcess {
+  let state: RalphProcessState = "running";
+  let exitCallbacks: Array<(code: number | null) => void> = [];
+  let exited = false;
+
+  const handleExit = (): void => {
+    if (exited) return;
+    clearInterval(poll);
+    state = "stopped";
+    exited = true;
+    for (const cb of exitCallbacks) cb(null);
+    exitCallbacks = [];
+  };
+
+  const isLoopAlive = (): boolean => isProcessAlive(entry.pid) && matchesRegisteredProcess(entry);
+  const poll = setInterval(() => {
+    if (!isLoopAlive()) handleExit();
+  }, ATTACH_POLL_INTERVAL_MS);
+  if (!isLoopAlive()) handleExit();
+
+  return {
+    child: { pid: entry.pid },
+    get state() {
+      return state;
+    },
+    set state(s: RalphProcessState) {
+      state = s;
+    },
+    exitCode: null,
+    kill() {
+      terminateRalphLoop(entry);
+    },
+    detach() {
+      clearInterval(poll);
+      state = "detached";
+    },
+    onExit(callback) {
+      if (exited) {
+        callback(null);
+      } else {
+        exitCallbacks.push(callback);
+      }
+    },
+  };
+}
+
+/**
+ * Terminates a registered loop together with the processes it started: its
+ * process group on Unix, its process tree on Windows. Does nothing when the
+ * PID now belongs to another process.
+ */
+export function terminateRalphLoop(
+  entry: Pick<RunRegistryEntry, "pid" | "processGroup" | "processStartTime">,
+  signal: NodeJS.Signals = "SIGTERM"
+): void {
+  if (!matchesRegisteredProcess(entry)) return;
+
+  if (process.platform === "win32") {
+    try {
+      execFileSync("taskkill.exe", ["/PID", String(entry.pid), "/T", "/F"], {
+        stdio: "ignore",
+        windowsHide: true,
+      });
+    } catch {
+      // The process has already exited.
+    }
+    return;
+  }
+
+  if (entry.processGroup !== null) {
+    try {
+      process.kill(-entry.processGroup, signal);
+      return;
+    } catch {
+      // Fall back to the loop itself if the process group no longer exists.
+    }
+  }
+
+  try {
+    process.kill(entry.pid, signal);
+  } catch {
+    // The process has already exited.
+  }
+}
+
 function getWindowsBashCandidates(): string[] {
   const discoveredPaths: string[] = [];
 
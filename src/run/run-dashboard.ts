@@ -2,7 +2,10 @@ import { formatExitReason } from "../utils/format-status.js";
 import { createRefreshCallback } from "../watch/dashboard.js";
 import { createTerminalFrameWriter } from "../watch/frame-writer.js";
 import { FileWatcher } from "../watch/file-watcher.js";
-import { renderFooterLine } from "../watch/renderer.js";
+import { isLoopPaused, renderFooterLine, type FooterRenderer } from "../watch/renderer.js";
+import { debug } from "../utils/logger.js";
+import { formatError } from "../utils/errors.js";
+import { readLoopControl, writeLoopControl, type LoopControl } from "./loop-control.js";
 import type { RalphProcess, ReviewMode } from "./types.js";
 
 export interface RunDashboardOptions {
@@ -10,17 +13,52 @@ export interface RunDashboardOptions {
   interval: number;
   ralph: RalphProcess;
   reviewMode?: ReviewMode;
+  /** Remaining run budget, shown in the status bar while Ralph runs */
+  budgetStatus?: () => string;
 }
 
-export function renderStatusBar(ralph: RalphProcess, reviewMode?: ReviewMode): string {
+/** Where a pause or step request stands: requested, honoured, or a step still to start */
+export type PauseState = "pausing" | "paused" | "stepping";
+
+export function resolvePauseState(
+  control: LoopControl | null,
+  loopPaused: boolean
+): PauseState | null {
+  if (control === "step") return "stepping";
+  if (control === "pause") return loopPaused ? "paused" : "pausing";
+  return null;
+}
+
+function renderRunningState(pause: PauseState | null): { label: string; keys: string } {
+  switch (pause) {
+    case "pausing":
+      return { label: "pausing after this loop", keys: "p: resume" };
+    case "paused":
+      return { label: "paused", keys: "p: resume | n: step" };
+    case "stepping":
+      return { label: "running one more loop, then pausing", keys: "p: pause" };
+    case null:
+      return { label: "running", keys: "p: pause | n: step" };
+  }
+}
+
+export function renderStatusBar(
+  ralph: RalphProcess,
+  reviewMode?: ReviewMode,
+  budgetStatus?: string,
+  pause: PauseState | null = null
+): string {
   const pid = ralph.child.pid ?? "?";
   const badge =
     reviewMode === "ultimate" ? " [ultimate]" : reviewMode === "enhanced" ? " [review]" : "";
+  const budget = budgetStatus ? ` | ${budgetStatus}` : "";
   switch (ralph.state) {
-    case "running":
-      return `Ralph: running (PID ${pid})${badge} | q: stop/detach`;
+    case "running": {
+      const { label, keys } = renderRunningState(pause);
+      return `Ralph: ${label} (PID ${pid})${badge}${budget} | ${keys} | q: stop/detach`;
+    }
     case "stopped":
-      return `Ralph: stopped — ${formatExitReason(ralph.exitCode)} | q: quit`;
+      return `Ralph: stopped — ${formatExitReason(ralph.exitCode, ralph.stopReason)} | q: quit`;
     case "detached":
       return `Ralph: detached (PID ${pid})`;
   }
@@ -31,17 +69,25 @@ export function renderQuitPrompt(): string {
 }
 
 export async function startRunDashboard(options: RunDashboardOptions): Promise<void> {
-  const { projectDir, interval, ralph, reviewMode } = options;
+  const { projectDir, interval, ralph, reviewMode, budgetStatus } = options;
 
   const frameWriter = createTerminalFrameWriter();
   let showingPrompt = false;
   let stopped = false;
-  const footerRenderer = (lastUpdated: Date, cols: number): string => {
-    const leftText = showingPrompt ? renderQuitPrompt() : renderStatusBar(ralph, reviewMode);
+  let control: LoopControl | null = null;
+  const footerRenderer: FooterRenderer = (lastUpdated, cols, state) => {
+    const leftText = showingPrompt
+      ? renderQuitPrompt()
+      : renderStatusBar(
+          ralph,
+          reviewMode,
+          budgetStatus?.(),
+          resolvePauseState(control, isLoopPaused(state.loop))
+        );
     return renderFooterLine(leftText, `Updated: ${lastUpdated.toISOString().slice(11, 19)}`, cols);
   };
 
-  const refresh = createRefreshCallback(
+  const render = createRefreshCallback(
     projectDir,
     (frame) => {
       if (stopped) {
@@ -51,8 +97,22 @@ export async function startRunDashboard(options: RunDashboardOptions): Promise<v
     },
     { footerRenderer }
   );
+  // Ralph rewrites a step request once it starts the loop, so re-read it on every refresh
+  const refresh = async (): Promise<void> => {
+    control = await readLoopControl(projectDir);
+    await render();
+  };
   const watcher = new FileWatcher(refresh, interval);
 
+  const requestLoopControl = async (next: LoopControl | null): Promise<void> => {
+    try {
+      await writeLoopControl(projectDir, next);
+    } catch (err) {
+      debug(`Failed to write loop control: ${formatError(err)}`);
+    }
+    await refresh();
+  };
+
   ralph.onExit(() => {
     if (stopped) {
       return;
@@ -88,6 +148,10 @@ export async function startRunDashboard(options: RunDashboardOptions): Promise<v
         } else {
           stop();
         }
+      } else if (data === "p" && ralph.state === "running") {
+        void requestLoopControl(control === "pause" ? null : "pause");
+      } else if (data === "n" && ralph.state === "running") {
+        void requestLoopControl("step");
       }
     };
 
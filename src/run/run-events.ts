@@ -0,0 +1,404 @@
+import { open, readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { parseFixPlan } from "../transition/fix-plan.js";
+import { filterMetrics } from "../metrics/report.js";
+import {
+  readRalphMetrics,
+  type LoopOutcome,
+  type RalphLoopMetrics,
+} from "../utils/ralph-metrics.js";
+import {
+  readAnalysisInfo,
+  readCircuitBreakerInfo,
+  readLoopInfo,
+  readReviewInfo,
+} from "../watch/state-reader.js";
+import { FileWatcher } from "../watch/file-watcher.js";
+import { debug } from "../utils/logger.js";
+import { formatError, isEnoent } from "../utils/errors.js";
+import { RALPH_DIR } from "../utils/constants.js";
+import type { AnalysisInfo, CircuitBreakerInfo, LoopInfo, ReviewInfo } from "../watch/types.js";
+import type { FixPlanItemWithTitle } from "../transition/types.js";
+import type { RunRegistryEntry } from "./run-registry.js";
+import type { RalphProcess } from "./types.js";
+
+export const RUN_EVENT_FORMATS = ["ndjson"] as const;
+export type RunEventFormat = (typeof RUN_EVENT_FORMATS)[number];
+
+/** Exit code of `bmalph run --events` when Ralph halted without finishing (circuit breaker, API limit) */
+export const BLOCKED_RUN_EXIT_CODE = 2;
+
+type CircuitBreakerState = CircuitBreakerInfo["state"];
+
+/** One line of the `bmalph run --events ndjson` stream */
+export type RunEvent =
+  | {
+      type: "run_started";
+      timestamp: string;
+      pid: number | null;
+      driver: string;
+      reviewMode: RunRegistryEntry["reviewMode"];
+      budget: RunRegistryEntry["budget"] | null;
+    }
+  | { type: "loop_started"; timestamp: string; loop: number }
+  | {
+      type: "loop_finished";
+      timestamp: string;
+      loop: number;
+      outcome: LoopOutcome;
+      analysis: AnalysisInfo | null;
+      metrics: RalphLoopMetrics;
+    }
+  | {
+      type: "story_completed";
+      timestamp: string;
+      storyId: string;
+      title: string | null;
+      completed: number;
+      total: number;
+    }
+  | {
+      type: "circuit_breaker_changed";
+      timestamp: string;
+      from: CircuitBreakerState | null;
+      to: CircuitBreakerState;
+      reason: string | null;
+    }
+  | ({ type: "review_findings"; timestamp: string } & ReviewInfo)
+  | {
+      type: "quality_gate_result";
+      timestamp: string;
+      loop: number;
+      passed: boolean;
+      exitCode: number;
+    }
+  | { type: "permission_denied"; timestamp: string; loop: number; count: number }
+  | {
+      type: "run_finished";
+      timestamp: string;
+      status: string | null;
+      exitCode: number;
+      ralphExitCode: number | null;
+      stopReason: string | null;
+      loops: number;
+      storiesCompleted: number;
+      storiesTotal: number;
+    };
+
+/** What the event stream knows about the runtime files at one poll */
+export interface RunEventSnapshot {
+  loop: LoopInfo | null;
+  circuitBreaker: CircuitBreakerInfo | null;
+  analysis: AnalysisInfo | null;
+  review: ReviewInfo | null;
+  stories: FixPlanItemWithTitle[];
+  /** Loops recorded since the run started */
+  metrics: RalphLoopMetrics[];
+}
+
+export async function readRunEventSnapshot(
+  projectDir: string,
+  since: Date
+): Promise<RunEventSnapshot> {
+  const [loop, circuitBreaker, analysis, review, stories, metrics] = await Promise.all([
+    readLoopInfo(projectDir),
+    readCircuitBreakerInfo(projectDir),
+    readAnalysisInfo(projectDir),
+    readReviewInfo(projectDir),
+    readFixPlanItems(projectDir),
+    readRalphMetrics(projectDir),
+  ]);
+
+  return {
+    loop,
+    circuitBreaker,
+    analysis,
+    review,
+    stories,
+    metrics: metrics.kind === "ok" ? filterMetrics(metrics.value.records, { since }) : [],
+  };
+}
+
+async function readFixPlanItems(projectDir: string): Promise<FixPlanItemWithTitle[]> {
+  try {
+    return parseFixPlan(await readFile(join(projectDir, RALPH_DIR, "@fix_plan.md"), "utf-8"));
+  } catch (err) {
+    if (!isEnoent(err)) debug(`Failed to read fix plan: ${formatError(err)}`);
+    return [];
+  }
+}
+
+/** Events for everything that changed between two snapshots of the same run */
+export function diffRunEvents(
+  previous: RunEventSnapshot,
+  current: RunEventSnapshot,
+  timestamp: string
+): RunEvent[] {
+  const events: RunEvent[] = [];
+
+  const loop = current.loop;
+  if (
+    loop?.lastAction === "executing" &&
+    (previous.loop?.lastAction !== "executing" || previous.loop.loopCount !== loop.loopCount)
+  ) {
+    events.push({ type: "loop_started", timestamp, loop: loop.loopCount });
+  }
+
+  for (const record of current.metrics.slice(previous.metrics.length)) {
+    events.push({
+      type: "loop_finished",
+      timestamp,
+      loop: record.loop,
+      outcome: record.loopOutcome,
+      analysis: current.analysis,
+      metrics: record,
+    });
+    if (record.qualityGateResult !== null) {
+      events.push({
+        type: "quality_gate_result",
+        timestamp,
+        loop: record.loop,
+        passed: record.qualityGateResult === 0,
+        exitCode: record.qualityGateResult,
+      });
+    }
+    if (record.hasPermissionDenials) {
+      events.push({
+        type: "permission_denied",
+        timestamp,
+        loop: record.loop,
+        count: current.analysis?.permissionDenialCount ?? 0,
+      });
+    }
+  }
+
+  const wasCompleted = new Set(previous.stories.filter((s) => s.completed).map((s) => s.id));
+  const completed = current.stories.filter((story) => story.completed).length;
+  for (const story of current.stories) {
+    if (!story.completed || wasCompleted.has(story.id)) continue;
+    if (!previous.stories.some((s) => s.id === story.id)) continue;
+    events.push({
+      type: "story_completed",
+      timestamp,
+      storyId: story.id,
+      title: story.title ?? null,
+      completed,
+      total: current.stories.length,
+    });
+  }
+
+  const breaker = current.circuitBreaker;
+  const previousState = previous.circuitBreaker?.state ?? null;
+  if (breaker && breaker.state !== (previousState ?? "CLOSED")) {
+    events.push({
+      type: "circuit_breaker_changed",
+      timestamp,
+      from: previousState,
+      to: breaker.state,
+      reason: breaker.reason ?? null,
+    });
+  }
+
+  const review = current.review;
+  if (review && JSON.stringify(review) !== JSON.stringify(previous.review)) {
+    events.push({ type: "review_findings", timestamp, ...review });
+  }
+
+  return events;
+}
+
+/**
+ * Exit code for a run driven through `--events`: Ralph's own failure code,
+ * otherwise BLOCKED_RUN_EXIT_CODE when the loop halted without finishing.
+ * A loop bmalph stopped on purpose (e.g. a run budget) is a success.
+ */
+export function resolveRunExitCode(
+  ralphExitCode: number | null,
+  status: string | null,
+  stopReason?: string
+): number {
+  if (stopReason) return 0;
+  if (ralphExitCode === null) return 1;
+  if (ralphExitCode !== 0) return ralphExitCode;
+  return status === "blocked" ? BLOCKED_RUN_EXIT_CODE : 0;
+}
+
+export interface RunEventSink {
+  write(event: RunEvent): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** NDJSON to stdout, or to a file (relative to the project) when one is given */
+export async function openRunEventSink(projectDir: string, file?: string): Promise<RunEventSink> {
+  if (file === undefined) {
+    // EPIPE reaches write()'s callback; without a listener it would also crash the process
+    const ignoreError = (): void => {};
+    process.stdout.on("error", ignoreError);
+    return {
+      write(event) {
+        return new Promise((resolveWrite, rejectWrite) => {
+          process.stdout.write(`${JSON.stringify(event)}\n`, (err) =>
+            err ? rejectWrite(err) : resolveWrite()
+          );
+        });
+      },
+      close() {
+        process.stdout.off("error", ignoreError);
+        return Promise.resolve();
+      },
+    };
+  }
+
+  const handle = await open(resolve(projectDir, file), "w");
+  return {
+    async write(event) {
+      await handle.write(`${JSON.stringify(event)}\n`);
+    },
+    async close() {
+      await handle.close();
+    },
+  };
+}
+
+export interface RunEventStreamOptions {
+  run: Pick<RunRegistryEntry, "driver" | "reviewMode" | "startedAt" | "budget">;
+  interval: number;
+  sink: RunEventSink;
+}
+
+export interface RunEventStream {
+  /** Exit code the run should end with, once Ralph exits; null when stopped first */
+  finished: Promise<number | null>;
+  /** Why writing to the sink failed; no events are written after a failure */
+  readonly failure: string | null;
+  /** Stops polling without run_finished, e.g. when the dashboard detaches */
+  stop(): void;
+}
+
+/**
+ * Emits run_started, then polls the runtime files `readDashboardState` reads
+ * and emits an event for each change until Ralph exits or the stream is
+ * stopped. A sink failure (e.g. EPIPE once the reader of stdout is gone) ends
+ * the event output but not the stream, so the caller keeps supervising Ralph.
+ */
+export function startRunEventStream(
+  projectDir: string,
+  ralph: RalphProcess,
+  options: RunEventStreamOptions
+): RunEventStream {
+  let stop = (): void => {};
+  const stopped = new Promise<void>((resolveStop) => {
+    stop = resolveStop;
+  });
+  let failure: string | null = null;
+  const write = async (event: RunEvent): Promise<void> => {
+    if (failure !== null) return;
+    try {
+      await options.sink.write(event);
+    } catch (err) {
+      failure = formatError(err);
+      debug(`Run events stopped: ${failure}`);
+    }
+  };
+  return {
+    finished: streamRunEvents(projectDir, ralph, options, write, stopped),
+    get failure() {
+      return failure;
+    },
+    stop,
+  };
+}
+
+async function streamRunEvents(
+  projectDir: string,
+  ralph: RalphProcess,
+  options: RunEventStreamOptions,
+  write: (event: RunEvent) => Promise<void>,
+  stopped: Promise<void>
+): Promise<number | null> {
+  const { run } = options;
+  const since = new Date(run.startedAt);
+  const now = (): string => new Date().toISOString();
+
+  await write({
+    type: "run_started",
+    timestamp: now(),
+    pid: ralph.child.pid ?? null,
+    driver: run.driver,
+    reviewMode: run.reviewMode,
+    budget: run.budget ?? null,
+  });
+
+  let snapshot = await readRunEventSnapshot(projectDir, since);
+  let pending = Promise.resolve();
+  const poll = (): Promise<void> => {
+    pending = pending.then(async () => {
+      const next = await readRunEventSnapshot(projectDir, since);
+      for (const event of diffRunEvents(snapshot, next, now())) {
+        await write(event);
+      }
+      snapshot = next;
+    });
+    return pending;
+  };
+
+  const watcher = new FileWatcher(poll, options.interval);
+  const exited = new Promise<{ code: number | null }>((resolveExit) => {
+    ralph.onExit((code) => resolveExit({ code }));
+  });
+  watcher.start();
+  const outcome = await Promise.race([exited, stopped]);
+  watcher.stop();
+
+  if (!outcome) {
+    await pending;
+    return null;
+  }
+
+  await poll();
+  const ralphExitCode = outcome.code;
+  const status = snapshot.loop?.status ?? null;
+  const exitCode = resolveRunExitCode(ralphExitCode, status, ralph.stopReason);
+  await write({
+    type: "run_finished",
+    timestamp: now(),
+    status,
+    exitCode,
+    ralphExitCode,
+    stopReason: ralph.stopReason ?? null,
+    loops: snapshot.metrics.length,
+    storiesCompleted: snapshot.stories.filter((story) => story.completed).length,
+    storiesTotal: snapshot.stories.length,
+  });
+  return exitCode;
+}
+
+export interface CombinedRunEventSink extends RunEventSink {
+  /** Why each failed sink failed; a failed sink receives no further events */
+  readonly failures: ReadonlyMap<RunEventSink, string>;
+}
+
+/**
+ * Sends every event to each sink in turn. A sink that fails is skipped from
+ * then on and never throws here, so the others keep receiving every event.
+ */
+export function combineRunEventSinks(sinks: RunEventSink[]): CombinedRunEventSink {
+  const failures = new Map<RunEventSink, string>();
+  return {
+    failures,
+    async write(event) {
+      for (const sink of sinks) {
+        if (failures.has(sink)) continue;
+        try {
+          await sink.write(event);
+        } catch (err) {
+          failures.set(sink, formatError(err));
+          debug(`Run event sink failed: ${formatError(err)}`);
+        }
+      }
+    },
+    async close() {
+      for (const sink of sinks) await sink.close();
+    },
+  };
+}
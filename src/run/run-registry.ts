@@ -0,0 +1,142 @@
+import { execFileSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { mkdir, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { readJsonFile } from "../utils/json.js";
+import { atomicWriteFile } from "../utils/file-system.js";
+import { debug, warn } from "../utils/logger.js";
+import { formatError, isEnoent } from "../utils/errors.js";
+import { validateRunRegistryEntry } from "../utils/validate.js";
+import { RUN_REGISTRY_FILE, STATE_DIR } from "../utils/constants.js";
+import type { ReviewMode } from "./types.js";
+import type { RunBudget } from "./budget.js";
+
+/** The Ralph loop `bmalph run` started in a project, kept while it may still be running */
+export interface RunRegistryEntry {
+  pid: number;
+  /**
+   * When `pid` started, as reported by the OS (see readProcessStartTime).
+   * Tells the loop apart from an unrelated process that reused its PID.
+   * Absent when it could not be read, e.g. on Windows.
+   */
+  processStartTime?: string;
+  /** Process group the loop leads (see spawnRalphLoop); null on Windows */
+  processGroup: number | null;
+  driver: string;
+  reviewMode: ReviewMode;
+  startedAt: string;
+  /** Project-relative log paths the loop writes */
+  logs: { ralph: string; metrics: string };
+  /** Limits from `bmalph run --max-*`, enforced again by `bmalph attach` */
+  budget?: RunBudget;
+}
+
+function registryPath(projectDir: string): string {
+  return join(projectDir, STATE_DIR, RUN_REGISTRY_FILE);
+}
+
+export async function readRunRegistry(projectDir: string): Promise<RunRegistryEntry | null> {
+  try {
+    const data = await readJsonFile<unknown>(registryPath(projectDir));
+    return data === null ? null : validateRunRegistryEntry(data);
+  } catch (err) {
+    warn(`Run registry is corrupted, ignoring it: ${formatError(err)}`);
+    return null;
+  }
+}
+
+export async function registerRun(projectDir: string, entry: RunRegistryEntry): Promise<void> {
+  await mkdir(join(projectDir, STATE_DIR), { recursive: true });
+  await atomicWriteFile(registryPath(projectDir), JSON.stringify(entry, null, 2) + "\n");
+}
+
+/**
+ * Removes the registry entry. With a PID, only that run's entry is removed,
+ * so a loop that exits late never unregisters its successor.
+ */
+export async function clearRunRegistry(projectDir: string, pid?: number): Promise<void> {
+  if (pid !== undefined) {
+    const entry = await readRunRegistry(projectDir);
+    if (entry && entry.pid !== pid) return;
+  }
+  try {
+    await unlink(registryPath(projectDir));
+  } catch (err) {
+    if (!isEnoent(err)) throw err;
+  }
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Start time of a process: the `starttime` field of /proc/<pid>/stat on Linux,
+ * `ps -o lstart` elsewhere on Unix. Null when it can't be read and on Windows.
+ */
+export function readProcessStartTime(pid: number): string | null {
+  if (process.platform === "win32") return null;
+  try {
+    if (process.platform === "linux") {
+      const stat = readFileSync(`/proc/${pid}/stat`, "utf-8");
+      // The command name in parentheses may contain spaces; fields after it start at field 3
+      const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+      return fields[19] ?? null;
+    }
+    const lstart = execFileSync("ps", ["-o", "lstart=", "-p", String(pid)], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+    return lstart === "" ? null : lstart;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * False when the entry recorded a start time and its PID now belongs to a
+ * different process, e.g. after a reboot. Such an entry must never be signalled.
+ */
+export function matchesRegisteredProcess(
+  entry: Pick<RunRegistryEntry, "pid" | "processStartTime">
+): boolean {
+  return (
+    entry.processStartTime === undefined ||
+    readProcessStartTime(entry.pid) === entry.processStartTime
+  );
+}
+
+/**
+ * The registered run if its loop is still alive. Entries left behind by a
+ * loop that exited while no bmalph process was watching, or whose PID was
+ * reused by another process, are removed.
+ */
+export async function findActiveRun(projectDir: string): Promise<RunRegistryEntry | null> {
+  const entry = await readRunRegistry(projectDir);
+  if (!entry) return null;
+  if (isProcessAlive(entry.pid) && matchesRegisteredProcess(entry)) return entry;
+
+  debug(`Removing stale run registry entry for PID ${entry.pid}`);
+  await clearRunRegistry(projectDir, entry.pid);
+  return null;
+}
+
+/** Polls until the process is gone; false if it is still alive after the timeout */
+export async function waitForProcessExit(
+  pid: number,
+  timeoutMs: number,
+  pollMs = 200
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (isProcessAlive(pid)) {
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+  }
+  return true;
+}
@@ -4,11 +4,29 @@ export type RalphProcessState = "running" | "stopped" | "detached";
 
 export type ReviewMode = "off" | "enhanced" | "ultimate";
 
+/** Modes accepted by `run --review <mode>` */
+export const REVIEW_MODES = ["enhanced", "ultimate"] as const satisfies readonly ReviewMode[];
+
 export interface RalphProcess {
-  readonly child: ChildProcess;
+  /** The spawned loop, or only its PID for a loop attached by `bmalph attach` */
+  readonly child: Pick<ChildProcess, "pid">;
   state: RalphProcessState;
   exitCode: number | null;
+  /** Why bmalph stopped the loop, e.g. a run budget; unset when Ralph exited by itself */
+  stopReason?: string;
   kill(): void;
   detach(): void;
   onExit(callback: (code: number | null) => void): void;
 }
+
+/** Run lifecycle events that can trigger hooks from `bmalph/config.json` */
+export const HOOK_EVENTS = [
+  "story_completed",
+  "circuit_open",
+  "permission_denied",
+  "loop_error",
+  "review_findings",
+  "run_finished",
+] as const;
+
+export type HookEvent = (typeof HOOK_EVENTS)[number];
@@ -0,0 +1,198 @@
+import {
+  collapseCompletedStories,
+  mergeFixPlanProgress,
+  parseFixPlan,
+} from "../transition/fix-plan.js";
+import { parseFixPlanDependsOn } from "../transition/story-dependencies.js";
+import { parseCanonicalStoryId } from "../transition/story-id.js";
+import type {
+  BlockedStory,
+  FixPlanStory,
+  StoryFilter,
+  StoryMovePosition,
+  StoryStatus,
+} from "./types.js";
+
+/** Single-line story matcher that also recognizes the `[-]` skipped marker */
+const STORY_ENTRY_PATTERN = /^(\s*-\s*)\[([ xX-])\](\s*Story\s+([\d.]+):\s*(.*?))\s*$/;
+const DETAIL_LINE_PATTERN = /^\s+>\s?(.*)$/;
+const EPIC_HEADING_PATTERN = /^###\s+(.+?)\s*$/;
+const SECTION_HEADING_PATTERN = /^##\s+/;
+
+const STATUS_MARKERS: Record<StoryStatus, string> = {
+  pending: " ",
+  done: "x",
+  skipped: "-",
+};
+
+function toStatus(marker: string): StoryStatus {
+  if (marker === "-") return "skipped";
+  return marker.toLowerCase() === "x" ? "done" : "pending";
+}
+
+/**
+ * Parses every story line in a fix plan together with its epic heading and
+ * detail lines. Unlike parseFixPlan, skipped (`[-]`) stories are included.
+ */
+export function parseFixPlanStories(content: string): FixPlanStory[] {
+  const lines = content.split("\n");
+  const stories: FixPlanStory[] = [];
+  let epic: string | null = null;
+  let current: FixPlanStory | null = null;
+
+  lines.forEach((line, index) => {
+    const heading = EPIC_HEADING_PATTERN.exec(line);
+    if (heading) {
+      epic = heading[1] ?? null;
+      current = null;
+      return;
+    }
+
+    if (SECTION_HEADING_PATTERN.test(line)) {
+      epic = null;
+      current = null;
+      return;
+    }
+
+    const match = STORY_ENTRY_PATTERN.exec(line);
+    if (match) {
+      current = {
+        id: match[4] ?? "",
+        title: match[5] ?? "",
+        status: toStatus(match[2] ?? " "),
+        epic,
+        details: [],
+        line: index + 1,
+      };
+      stories.push(current);
+      return;
+    }
+
+    const detail = DETAIL_LINE_PATTERN.exec(line);
+    if (current && detail) {
+      current.details.push(detail[1] ?? "");
+      return;
+    }
+
+    current = null;
+  });
+
+  return stories;
+}
+
+export function filterStories(stories: FixPlanStory[], filter: StoryFilter): FixPlanStory[] {
+  return stories.filter((story) => {
+    if (filter.status && story.status !== filter.status) {
+      return false;
+    }
+    if (filter.epic !== undefined) {
+      const wanted = filter.epic.trim().toLowerCase();
+      const epicNumber = parseCanonicalStoryId(story.id)?.epic;
+      const matchesNumber = epicNumber !== undefined && String(epicNumber) === wanted;
+      const matchesHeading = story.epic?.toLowerCase().includes(wanted) ?? false;
+      if (!matchesNumber && !matchesHeading) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Pending stories whose `Depends on:` stories are not all done. Dependencies
+ * missing from the fix plan are ignored, as in the generated ordering.
+ */
+export function findBlockedStories(stories: FixPlanStory[]): BlockedStory[] {
+  const statusById = new Map(stories.map((story) => [story.id, story.status]));
+  return stories
+    .filter((story) => story.status === "pending")
+    .map((story) => ({
+      id: story.id,
+      title: story.title,
+      waitingOn: story.details
+        .flatMap(parseFixPlanDependsOn)
+        .filter((id) => statusById.has(id) && statusById.get(id) !== "done"),
+    }))
+    .filter((story) => story.waitingOn.length > 0);
+}
+
+export function findStory(stories: FixPlanStory[], id: string): FixPlanStory {
+  const story = stories.find((candidate) => candidate.id === id);
+  if (!story) {
+    throw new Error(`Story ${id} not found in @fix_plan.md`);
+  }
+  return story;
+}
+
+function setStoryMarker(content: string, story: FixPlanStory, status: StoryStatus): string {
+  const lines = content.split("\n");
+  const index = story.line - 1;
+  lines[index] = (lines[index] ?? "").replace(
+    STORY_ENTRY_PATTERN,
+    (_match, prefix: string, _marker: string, rest: string) =>
+      `${prefix}[${STATUS_MARKERS[status]}]${rest}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Marks a story done the same way the transition does: checkbox via
+ * mergeFixPlanProgress, then completed story details collapsed like Ralph does.
+ */
+export function markStoryDone(content: string, id: string): string {
+  const story = findStory(parseFixPlanStories(content), id);
+  const pending = story.status === "skipped" ? setStoryMarker(content, story, "pending") : content;
+  const merged = mergeFixPlanProgress(pending, new Set([id]));
+
+  if (!parseFixPlan(merged).some((item) => item.id === id && item.completed)) {
+    throw new Error(`Could not mark story ${id} as done`);
+  }
+
+  return collapseCompletedStories(merged);
+}
+
+export function reopenStory(content: string, id: string): string {
+  const story = findStory(parseFixPlanStories(content), id);
+  return setStoryMarker(content, story, "pending");
+}
+
+export function skipStory(content: string, id: string): string {
+  const story = findStory(parseFixPlanStories(content), id);
+  return setStoryMarker(content, story, "skipped");
+}
+
+/**
+ * Moves a story line and its detail lines before or after another story,
+ * or to the top of the queue (before the first pending story).
+ */
+export function moveStory(content: string, id: string, position: StoryMovePosition): string {
+  const stories = parseFixPlanStories(content);
+  const story = findStory(stories, id);
+
+  let target: FixPlanStory | undefined;
+  let placeAfter = false;
+  if (position.kind === "top") {
+    target = stories.find((candidate) => candidate.status === "pending");
+  } else {
+    if (position.target === id) {
+      throw new Error(`Cannot move story ${id} relative to itself`);
+    }
+    target = findStory(stories, position.target);
+    placeAfter = position.kind === "after";
+  }
+
+  if (!target || target.id === id) {
+    return content;
+  }
+
+  const lines = content.split("\n");
+  const blockStart = story.line - 1;
+  const block = lines.splice(blockStart, 1 + story.details.length);
+
+  const targetStart = target.line - 1;
+  const shiftedStart = targetStart > blockStart ? targetStart - block.length : targetStart;
+  const insertAt = placeAfter ? shiftedStart + 1 + target.details.length : shiftedStart;
+  lines.splice(insertAt, 0, ...block);
+
+  return lines.join("\n");
+}
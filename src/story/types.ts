@@ -0,0 +1,34 @@
+export const STORY_STATUSES = ["pending", "done", "skipped"] as const;
+
+/** pending = `[ ]`, done = `[x]`, skipped = `[-]` (ignored by the Ralph loop) */
+export type StoryStatus = (typeof STORY_STATUSES)[number];
+
+export interface FixPlanStory {
+  id: string;
+  title: string;
+  status: StoryStatus;
+  /** Epic heading text without the leading `###`, or null for ungrouped stories */
+  epic: string | null;
+  /** Indented `>` detail lines (description, ACs, spec link) with the marker stripped */
+  details: string[];
+  /** 1-based line number of the story checkbox line */
+  line: number;
+}
+
+export interface BlockedStory {
+  id: string;
+  title: string;
+  /** Dependencies in the fix plan that are not done yet */
+  waitingOn: string[];
+}
+
+export interface StoryFilter {
+  /** Epic number (matched against the story id) or text contained in the epic heading */
+  epic?: string;
+  status?: StoryStatus;
+}
+
+export type StoryMovePosition =
+  | { kind: "before"; target: string }
+  | { kind: "after"; target: string }
+  | { kind: "top" };
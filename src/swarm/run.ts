@@ -2,6 +2,8 @@ import chalk from "chalk";
 import { writeFile, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { spawnRalphLoop } from "../run/ralph-process.js";
+import { startRunEventStream, type RunEventStream } from "../run/run-events.js";
+import { createHookSink, hasHooks, type HookSink } from "../run/hooks.js";
 import {
   RALPH_DIR,
   RALPH_FIX_PLAN_FILE,
@@ -20,7 +22,7 @@ import type { SwarmWorker, SwarmRunOptions, MergeResult } from "./types.js";
  * Runs the Ralph loop in swarm mode: N parallel workers in git worktrees.
  */
 export async function executeSwarmRun(options: SwarmRunOptions): Promise<void> {
-  const { projectDir, platformId, reviewMode, workerCount, dashboard, interval } = options;
+  const { projectDir, platformId, reviewMode, workerCount, dashboard, interval, hooks } = options;
 
   // --- Validate ---
   const startBranch = resolveStartBranch(projectDir);
@@ -65,6 +67,9 @@ export async function executeSwarmRun(options: SwarmRunOptions): Promise<void> {
     await cleanupOrphanedWorktrees(projectDir);
     await setupWorkers(projectDir, prereqs, workers);
     await spawnWorkers(workers, platformId, reviewMode, prereqs.workerCount);
+    const hookStreams = hasHooks(hooks)
+      ? startWorkerHookStreams(workers, hooks, { driver: platformId, reviewMode, interval })
+      : [];
 
     // Wait for all workers to finish
     if (dashboard) {
@@ -79,6 +84,7 @@ export async function executeSwarmRun(options: SwarmRunOptions): Promise<void> {
             for (const w of workers) {
               if (w.ralph?.state === "running") w.ralph.detach();
             }
+            for (const { stream } of hookStreams) stream.stop();
           }
         },
       });
@@ -102,6 +108,8 @@ export async function executeSwarmRun(options: SwarmRunOptions): Promise<void> {
       );
     }
 
+    await finishWorkerHookStreams(hookStreams);
+
     // --- Merge only successful workers ---
     console.log(chalk.cyan("\nMerging worker branches..."));
     const successfulWorkers = workers.filter((w) => w.status === "done");
@@ -197,6 +205,44 @@ async function spawnWorkers(
   }
 }
 
+interface WorkerHookStream {
+  stream: RunEventStream;
+  sink: HookSink;
+}
+
+function startWorkerHookStreams(
+  workers: SwarmWorker[],
+  hooks: NonNullable<SwarmRunOptions["hooks"]>,
+  options: Pick<SwarmRunOptions, "reviewMode" | "interval"> & { driver: string }
+): WorkerHookStream[] {
+  const startedAt = new Date().toISOString();
+  return workers.flatMap((worker) => {
+    if (!worker.ralph) return [];
+    const sink = createHookSink(hooks, { projectDir: worker.worktreePath, worker: worker.id });
+    const stream = startRunEventStream(worker.worktreePath, worker.ralph, {
+      run: { driver: options.driver, reviewMode: options.reviewMode, startedAt },
+      interval: options.interval,
+      sink,
+    });
+    return [{ stream, sink }];
+  });
+}
+
+/** Hook failures are reported but never fail the swarm */
+async function finishWorkerHookStreams(hookStreams: WorkerHookStream[]): Promise<void> {
+  await Promise.all(
+    hookStreams.map(async ({ stream, sink }) => {
+      await stream.finished;
+      await sink.close();
+    })
+  );
+  for (const { sink } of hookStreams) {
+    for (const failure of sink.failures) {
+      console.log(chalk.yellow(`Warning: ${failure}`));
+    }
+  }
+}
+
 function reportResults(results: MergeResult[]): void {
   for (const result of results) {
     if (result.status === "merged") {
@@ -1,5 +1,6 @@
 import type { FixPlanItemWithTitle } from "../transition/types.js";
 import type { RalphProcess, ReviewMode } from "../run/types.js";
+import type { HooksConfig } from "../utils/config.js";
 
 // =============================================================================
 // Fix plan epic grouping (used by parser and partitioner)
@@ -52,4 +53,6 @@ export interface SwarmRunOptions {
   workerCount: number;
   dashboard: boolean;
   interval: number;
+  /** Fired for every worker's events, with the worker id in the payload */
+  hooks?: HooksConfig;
 }
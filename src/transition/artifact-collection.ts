@@ -10,6 +10,10 @@ export interface CollectedTransitionArtifacts {
   architectureFiles: string[];
   readinessFiles: string[];
   storyFiles: string[];
+  /** `index.md` tables of contents of sharded epics/stories directories */
+  storyIndexFiles: string[];
+  /** Whole epics/stories documents ignored because a sharded copy exists */
+  supersededStoryFiles: string[];
   sprintStatusFile: string | null;
 }
 
@@ -17,6 +21,16 @@ function sortFiles(files: string[]): string[] {
   return [...files].sort((left, right) => left.localeCompare(right));
 }
 
+/** Numeric-aware ordering so `epic-2.md` sorts before `epic-10.md` */
+export function compareShardPaths(left: string, right: string): number {
+  return left.localeCompare(right, "en", { numeric: true });
+}
+
+export function parentDirectory(file: string): string {
+  const index = file.lastIndexOf("/");
+  return index === -1 ? "" : file.slice(0, index);
+}
+
 function isMarkdownFile(file: string): boolean {
   return /\.md$/i.test(file);
 }
@@ -52,6 +66,34 @@ function isStoryFile(file: string): boolean {
   );
 }
 
+function isShardIndexFile(file: string): boolean {
+  return /\/index\.md$/i.test(file);
+}
+
+interface StoryFileSelection {
+  storyFiles: string[];
+  storyIndexFiles: string[];
+  supersededStoryFiles: string[];
+}
+
+/**
+ * Splits story files into content files and shard indexes. A directory with
+ * an `index.md` is a BMAD shard-doc output; the whole document it was split
+ * from (`epics.md` next to `epics/`) is left out so stories aren't read twice.
+ */
+function selectStoryFiles(candidates: string[]): StoryFileSelection {
+  const storyIndexFiles = candidates.filter(isShardIndexFile);
+  const shardDirectories = new Set(storyIndexFiles.map(parentDirectory));
+  const supersededStoryFiles = candidates.filter(
+    (file) => !isShardIndexFile(file) && shardDirectories.has(file.replace(/\.md$/i, ""))
+  );
+  const storyFiles = candidates
+    .filter((file) => !isShardIndexFile(file) && !supersededStoryFiles.includes(file))
+    .sort(compareShardPaths);
+
+  return { storyFiles, storyIndexFiles, supersededStoryFiles };
+}
+
 function isSprintStatusFile(file: string): boolean {
   return /(?:^|\/)sprint[-_]status\.ya?ml$/i.test(file);
 }
@@ -98,7 +140,7 @@ export function collectTransitionArtifacts(files: string[]): CollectedTransition
     prdDocuments: buildArtifactGroups(prdFiles, isPrdDocumentDirectory),
     architectureFiles: sortedFiles.filter(isArchitectureFile),
     readinessFiles: sortedFiles.filter(isReadinessFile),
-    storyFiles: sortedFiles.filter(isStoryFile),
+    ...selectStoryFiles(sortedFiles.filter(isStoryFile)),
     sprintStatusFile: sprintStatusFiles[0] ?? null,
   };
 }
@@ -1,7 +1,8 @@
 import { readFile } from "node:fs/promises";
-import { join } from "node:path";
+import { join, relative, sep } from "node:path";
 import { debug, info, warn } from "../utils/logger.js";
 import { formatError } from "../utils/errors.js";
+import { readConfig } from "../utils/config.js";
 import { getFilesRecursive } from "../utils/file-system.js";
 import {
   collectTransitionArtifacts,
@@ -10,8 +11,14 @@ import {
 import { findArtifactsDir, resolvePlanningSpecsSubpath } from "./artifacts.js";
 import { runPreflight, PreflightValidationError } from "./preflight.js";
 import { compareStoryIds } from "./story-id.js";
-import { parseStoriesWithWarnings } from "./story-parsing.js";
-import type { Story, PreflightIssue, TransitionOptions } from "./types.js";
+import { parseStoriesWithWarnings, type ParsedEpic } from "./story-parsing.js";
+import { attachShardedStoriesToEpics, orderStoryFiles } from "./story-shards.js";
+import type {
+  Story,
+  PreflightIssue,
+  SuppressedPreflightIssue,
+  TransitionOptions,
+} from "./types.js";
 
 export interface LoadedTransitionInputs {
   projectDir: string;
@@ -21,6 +28,7 @@ export interface LoadedTransitionInputs {
   stories: Story[];
   parseWarnings: string[];
   preflightIssues: PreflightIssue[];
+  suppressedPreflightIssues: SuppressedPreflightIssue[];
   planningSpecsSubpath: string;
 }
 
@@ -59,22 +67,38 @@ export async function loadTransitionInputs(
       `No epics/stories file found in ${artifactsDir}. Available files: ${collectedArtifacts.files.join(", ")}. Run 'CE' (Create Epics and Stories) first.`
     );
   }
-  debug(`Using stories files: ${collectedArtifacts.storyFiles.join(", ")}`);
+
+  const storyFiles = orderStoryFiles(
+    collectedArtifacts.storyFiles,
+    collectedArtifacts.storyIndexFiles,
+    artifactContents
+  );
+  debug(`Using stories files: ${storyFiles.join(", ")}`);
+  for (const supersededFile of collectedArtifacts.supersededStoryFiles) {
+    warn(`Ignoring ${supersededFile}: using its sharded copy instead`);
+  }
 
   info("Parsing stories...");
-  const stories: Story[] = [];
-  const parseWarnings: string[] = [];
-  for (const storyFile of collectedArtifacts.storyFiles) {
+  const parsedStories: Story[] = [];
+  const rawParseWarnings: string[] = [];
+  const parsedEpics: ParsedEpic[] = [];
+  for (const storyFile of storyFiles) {
     const storiesContent = artifactContents.get(storyFile);
     if (!storiesContent) {
       warn(`Could not read stories artifact ${storyFile}`);
       continue;
     }
 
-    const parsedStories = parseStoriesWithWarnings(storiesContent, storyFile);
-    stories.push(...parsedStories.stories);
-    parseWarnings.push(...parsedStories.warnings);
+    const parsed = parseStoriesWithWarnings(storiesContent, storyFile);
+    parsedStories.push(...parsed.stories);
+    rawParseWarnings.push(...parsed.warnings);
+    parsedEpics.push(...parsed.epics);
   }
+  const { stories, warnings: parseWarnings } = attachShardedStoriesToEpics(
+    parsedStories,
+    rawParseWarnings,
+    parsedEpics
+  );
 
   ensureUniqueStoryIds(stories);
   stories.sort(
@@ -91,11 +115,16 @@ export async function loadTransitionInputs(
   }
 
   info("Pre-flight validation...");
+  const config = await readConfig(projectDir);
   const preflightResult = runPreflight(
     artifactContents,
     collectedArtifacts.files,
     stories,
-    parseWarnings
+    parseWarnings,
+    {
+      config: config?.preflight,
+      artifactsPath: relative(projectDir, artifactsDir).split(sep).join("/"),
+    }
   );
   const preflightIssues = options?.force
     ? preflightResult.issues.map((issue) =>
@@ -107,7 +136,7 @@ export async function loadTransitionInputs(
     if (options?.force) {
       warn("Pre-flight validation has errors but --force was used, continuing...");
     } else {
-      throw new PreflightValidationError(preflightResult.issues);
+      throw new PreflightValidationError(preflightResult.issues, preflightResult.suppressed);
     }
   }
 
@@ -119,6 +148,7 @@ export async function loadTransitionInputs(
     stories,
     parseWarnings,
     preflightIssues,
+    suppressedPreflightIssues: preflightResult.suppressed,
     planningSpecsSubpath: resolvePlanningSpecsSubpath(projectDir, artifactsDir),
   };
 }
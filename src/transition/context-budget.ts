@@ -0,0 +1,230 @@
+const TOKEN_PIECE_PATTERN = /\p{L}+|\p{N}+|[^\s\p{L}\p{N}]/gu;
+const HEADING_LINE_PATTERN = /^#{1,6}\s/;
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+const REQUIREMENT_ID_PATTERN = /\bN?FR[-_]?\d+\b/;
+const FIRST_SENTENCE_PATTERN = /^(.+?[.!?])(?=\s|$)/;
+
+/**
+ * Local token estimate, no tokenizer download: words cost one token per five
+ * letters, numbers one per three digits, and each symbol one token. Close
+ * enough to BPE tokenizers for budgeting prose and markdown.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECE_PATTERN)) {
+    if (/^\p{L}/u.test(piece)) tokens += Math.ceil(piece.length / 5);
+    else if (/^\p{N}/u.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else tokens += 1;
+  }
+  return tokens;
+}
+
+export interface BudgetRequest<K extends string> {
+  key: K;
+  tokens: number;
+  /** Relative share of the budget when sections compete for space */
+  weight: number;
+}
+
+/**
+ * Splits a token budget across sections by weight. Sections that need less
+ * than their share keep everything, and the space they leave is shared again
+ * among the rest, so only genuinely large sections get summarized.
+ */
+export function allocateTokenBudget<K extends string>(
+  requests: BudgetRequest<K>[],
+  budget: number
+): Map<K, number> {
+  const allocation = new Map<K, number>();
+  let remaining = budget;
+  let pending = requests.filter((request) => request.tokens > 0);
+
+  for (const request of requests) {
+    allocation.set(request.key, 0);
+  }
+
+  while (pending.length > 0) {
+    const totalWeight = pending.reduce((sum, request) => sum + request.weight, 0);
+    const share = (request: BudgetRequest<K>): number =>
+      Math.floor((remaining * request.weight) / totalWeight);
+    const satisfied = pending.filter((request) => request.tokens <= share(request));
+
+    if (satisfied.length === 0) {
+      for (const request of pending) {
+        allocation.set(request.key, share(request));
+      }
+      break;
+    }
+
+    for (const request of satisfied) {
+      allocation.set(request.key, request.tokens);
+      remaining -= request.tokens;
+    }
+    pending = pending.filter((request) => !satisfied.includes(request));
+  }
+
+  return allocation;
+}
+
+type LineKind = "heading" | "list" | "nested-list" | "table" | "code" | "text" | "blank";
+
+interface SectionLine {
+  kind: LineKind;
+  text: string;
+  requirement: boolean;
+}
+
+function classifyLines(content: string): SectionLine[] {
+  const lines: SectionLine[] = [];
+  let inCode = false;
+
+  for (const text of content.split(/\r?\n/)) {
+    let kind: LineKind;
+    if (CODE_FENCE_PATTERN.test(text)) {
+      kind = "code";
+      inCode = !inCode;
+    } else if (inCode) {
+      kind = "code";
+    } else if (!text.trim()) {
+      kind = "blank";
+    } else if (HEADING_LINE_PATTERN.test(text)) {
+      kind = "heading";
+    } else if (LIST_ITEM_PATTERN.test(text)) {
+      kind = (LIST_ITEM_PATTERN.exec(text)?.[1] ?? "").length > 0 ? "nested-list" : "list";
+    } else if (TABLE_ROW_PATTERN.test(text)) {
+      kind = "table";
+    } else {
+      kind = "text";
+    }
+
+    // Hard-wrapped paragraph lines are joined so sentences stay whole
+    const previous = lines.at(-1);
+    if (kind === "text" && previous?.kind === "text") {
+      previous.text = `${previous.text} ${text.trim()}`;
+      previous.requirement ||= REQUIREMENT_ID_PATTERN.test(text);
+      continue;
+    }
+    lines.push({ kind, text, requirement: kind !== "code" && REQUIREMENT_ID_PATTERN.test(text) });
+  }
+
+  return lines;
+}
+
+function firstSentence(text: string): string {
+  const match = FIRST_SENTENCE_PATTERN.exec(text.trim());
+  const prefix = /^\s*/.exec(text)?.[0] ?? "";
+  return match ? `${prefix}${match[1] ?? ""}` : text;
+}
+
+interface SummaryLevel {
+  /** What this level leaves out, on top of the previous levels */
+  dropped: string;
+  keep(line: SectionLine): string | null;
+}
+
+const SUMMARY_LEVELS: SummaryLevel[] = [
+  {
+    dropped: "code blocks and paragraph detail after the first sentence",
+    keep: (line) => {
+      if (line.kind === "code") return null;
+      return line.kind === "text" ? firstSentence(line.text) : line.text;
+    },
+  },
+  {
+    dropped: "tables, nested list items and list detail after the first sentence",
+    keep: (line) => {
+      if (line.kind === "heading" || line.kind === "blank") return line.text;
+      if (line.requirement || line.kind === "list" || line.kind === "text") {
+        return firstSentence(line.text);
+      }
+      return null;
+    },
+  },
+  {
+    dropped: "all body text except requirement ids",
+    keep: (line) => {
+      if (line.kind === "heading" || line.kind === "blank") return line.text;
+      return line.requirement ? firstSentence(line.text) : null;
+    },
+  },
+  {
+    dropped: "everything except sub-headings",
+    keep: (line) => (line.kind === "heading" ? line.text : null),
+  },
+];
+
+function renderLevel(lines: SectionLine[], level: SummaryLevel): string[] {
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    const text = level.keep(line);
+    if (text === null) continue;
+    // Collapse the blank lines left behind by dropped blocks
+    if (!text.trim() && (kept.length === 0 || !kept.at(-1)?.trim())) continue;
+    kept.push(text);
+  }
+
+  while (kept.length > 0 && !kept.at(-1)?.trim()) {
+    kept.pop();
+  }
+  return kept;
+}
+
+function cutAtWordBoundary(text: string, maxTokens: number): string {
+  const words = text.split(/(\s+)/);
+  let result = "";
+  for (const word of words) {
+    if (estimateTokens(`${result}${word}…`) > maxTokens) break;
+    result += word;
+  }
+  // No whitespace to break at: a character never costs more than one token
+  return `${result.trimEnd() || text.slice(0, Math.max(maxTokens - 1, 0))}…`;
+}
+
+export interface SectionSummary {
+  content: string;
+  /** What was left out, in the order the summary levels were applied */
+  dropped: string[];
+}
+
+/**
+ * Shrinks a markdown section to a token budget by structure rather than by
+ * cutting mid-sentence: first code blocks and paragraph detail go, then list
+ * detail and tables, then everything but requirement ids, then everything but
+ * headings. Whole trailing lines are dropped only as a last resort.
+ */
+export function summarizeSection(content: string, maxTokens: number): SectionSummary {
+  if (estimateTokens(content) <= maxTokens) {
+    return { content, dropped: [] };
+  }
+
+  const lines = classifyLines(content);
+  const dropped: string[] = [];
+  let kept = content.split(/\r?\n/).filter((line) => line.trim());
+
+  for (const level of SUMMARY_LEVELS) {
+    const levelLines = renderLevel(lines, level);
+    if (levelLines.length === 0) break;
+    dropped.push(level.dropped);
+    kept = levelLines;
+    if (estimateTokens(kept.join("\n")) <= maxTokens) {
+      return { content: kept.join("\n"), dropped };
+    }
+  }
+
+  // Even the shortest outline is too long: keep leading whole lines, cutting
+  // the first one at a word boundary if nothing else fits
+  const result: string[] = [];
+  for (const line of kept) {
+    if (estimateTokens([...result, line].join("\n")) > maxTokens) break;
+    result.push(line);
+  }
+  if (result.length === 0 && kept[0] !== undefined && maxTokens > 0) {
+    result.push(cutAtWordBoundary(kept[0], maxTokens));
+  }
+  dropped.push("trailing lines");
+
+  return { content: result.join("\n"), dropped };
+}
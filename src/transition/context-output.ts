@@ -4,6 +4,7 @@ import { debug, info, warn } from "../utils/logger.js";
 import { isEnoent, formatError } from "../utils/errors.js";
 import { atomicWriteFile, exists } from "../utils/file-system.js";
 import { readConfig } from "../utils/config.js";
+import { DEFAULT_CONTEXT_TOKEN_BUDGET } from "../utils/constants.js";
 import { combineArtifactContents } from "./artifact-collection.js";
 import {
   extractProjectContext,
@@ -12,7 +13,9 @@ import {
   detectTruncation,
 } from "./context.js";
 import { detectTechStack, customizeAgentMd } from "./tech-stack.js";
-import type { GeneratedFile } from "./types.js";
+import { fillRalphrcStackDefaults, mergeTechStacks, scanRepositoryStack } from "./repo-stack.js";
+import { readRalphrc, writeRalphrc } from "../config/ralphrc.js";
+import type { GeneratedFile, ProjectContext } from "./types.js";
 import type { LoadedTransitionInputs } from "./artifact-loading.js";
 
 export interface ContextOutputResult {
@@ -26,12 +29,14 @@ export async function generateContextOutputs(
 ): Promise<ContextOutputResult> {
   const generatedFiles: GeneratedFile[] = [];
   let projectName = "project";
+  let tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET;
 
   try {
     const config = await readConfig(projectDir);
     if (config?.name) {
       projectName = config.name;
     }
+    tokenBudget = config?.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
   } catch (err) {
     debug(`Could not read config for project name: ${formatError(err)}`);
   }
@@ -42,9 +47,19 @@ export async function generateContextOutputs(
   let truncationWarnings: string[] = [];
 
   if (inputs.artifactContents.size > 0) {
-    const { context, truncated } = extractProjectContext(inputs.artifactContents);
+    const { context, truncated } = extractProjectContext(inputs.artifactContents, {
+      tokenBudget,
+    });
+    // Summarized sections link to the full artifact copied into .ralph/specs/
+    const fullSectionLinks: Partial<Record<keyof ProjectContext, string>> = {};
+    for (const entry of truncated) {
+      if (!entry.source) continue;
+      const specPath = `specs/${[inputs.planningSpecsSubpath, entry.source].filter(Boolean).join("/")}`;
+      fullSectionLinks[entry.field as keyof ProjectContext] = specPath;
+      entry.source = `.ralph/${specPath}`;
+    }
     truncationWarnings = detectTruncation(truncated);
-    const contextMd = generateProjectContextMd(context, projectName);
+    const contextMd = generateProjectContextMd(context, projectName, fullSectionLinks);
     await atomicWriteFile(projectContextPath, contextMd);
     generatedFiles.push({
       path: ".ralph/PROJECT_CONTEXT.md",
@@ -79,24 +94,41 @@ export async function generateContextOutputs(
     inputs.collectedArtifacts.architectureFiles,
     inputs.artifactContents
   );
-  if (combinedArchitectureContent) {
+  const repoStack = await scanRepositoryStack(projectDir);
+  const docStack = combinedArchitectureContent
+    ? detectTechStack(combinedArchitectureContent)
+    : null;
+  const { stack, conflicts: stackWarnings } = mergeTechStacks(repoStack, docStack);
+
+  if (stack) {
     try {
-      const stack = detectTechStack(combinedArchitectureContent);
-      if (stack) {
-        const agentPath = join(projectDir, ".ralph/@AGENT.md");
-        const agentTemplate = await readFile(agentPath, "utf-8");
-        const customized = customizeAgentMd(agentTemplate, stack);
-        await atomicWriteFile(agentPath, customized);
-        generatedFiles.push({ path: ".ralph/@AGENT.md", action: "updated" });
-        debug("Customized @AGENT.md with detected tech stack");
-      }
+      const agentPath = join(projectDir, ".ralph/@AGENT.md");
+      const agentTemplate = await readFile(agentPath, "utf-8");
+      const customized = customizeAgentMd(agentTemplate, stack);
+      await atomicWriteFile(agentPath, customized);
+      generatedFiles.push({ path: ".ralph/@AGENT.md", action: "updated" });
+      debug("Customized @AGENT.md with detected tech stack");
     } catch (err) {
       warn(`Could not customize @AGENT.md: ${formatError(err)}`);
     }
   }
 
+  if (repoStack) {
+    try {
+      const ralphrc = await readRalphrc(projectDir);
+      const filled = ralphrc !== null ? fillRalphrcStackDefaults(ralphrc, repoStack) : null;
+      if (filled !== null && filled !== ralphrc) {
+        await writeRalphrc(projectDir, filled);
+        generatedFiles.push({ path: ".ralph/.ralphrc", action: "updated" });
+        debug("Filled .ralphrc PROJECT_TYPE and TEST_COMMAND from repository manifests");
+      }
+    } catch (err) {
+      warn(`Could not update .ralphrc: ${formatError(err)}`);
+    }
+  }
+
   return {
-    warnings: truncationWarnings,
+    warnings: [...truncationWarnings, ...stackWarnings],
     generatedFiles,
   };
 }
@@ -4,14 +4,36 @@ import {
   PRD_SCOPE_SECTION_PATTERNS,
   PROJECT_GOALS_SECTION_PATTERNS,
 } from "./section-patterns.js";
-import { SECTION_EXTRACT_MAX_LENGTH } from "../utils/constants.js";
+import { DEFAULT_CONTEXT_TOKEN_BUDGET, SECTION_EXTRACT_MAX_LENGTH } from "../utils/constants.js";
 import { collectTransitionArtifacts } from "./artifact-collection.js";
+import { allocateTokenBudget, estimateTokens, summarizeSection } from "./context-budget.js";
 
 export interface ExtractProjectContextResult {
   context: ProjectContext;
   truncated: TruncationInfo[];
 }
 
+export interface ExtractProjectContextOptions {
+  /** Estimated-token budget shared by all sections */
+  tokenBudget?: number;
+}
+
+/**
+ * Budget share of each field when sections compete for space: goals, scope
+ * and hard constraints matter most to an implementing agent.
+ */
+const FIELD_WEIGHTS: Record<keyof ProjectContext, number> = {
+  projectGoals: 3,
+  architectureConstraints: 3,
+  nonFunctionalRequirements: 3,
+  scopeBoundaries: 2,
+  successMetrics: 2,
+  technicalRisks: 2,
+  targetUsers: 1,
+  designGuidelines: 1,
+  researchInsights: 1,
+};
+
 export interface ExtractSectionResult {
   content: string;
   wasTruncated: boolean;
@@ -100,34 +122,70 @@ export function extractMatchingSections(
   return sections;
 }
 
-export function extractProjectContext(artifacts: Map<string, string>): ExtractProjectContextResult {
-  // Combine all content, keyed by likely role
-  let prdContent = "";
-  let archContent = "";
-  let uxContent = "";
-  let researchContent = "";
+/**
+ * Finds the first section matching any of the patterns, trying each pattern
+ * across all files before the next, and reports the file it came from.
+ */
+function findSectionInFiles(
+  artifacts: Map<string, string>,
+  files: string[],
+  patterns: readonly RegExp[]
+): { content: string; file: string } | null {
+  for (const pattern of patterns) {
+    for (const file of files) {
+      const { content } = extractSectionWithInfo(
+        artifacts.get(file) ?? "",
+        pattern,
+        Number.POSITIVE_INFINITY
+      );
+      if (content) return { content, file };
+    }
+  }
+  return null;
+}
+
+/**
+ * Extracts the PROJECT_CONTEXT.md sections. Sections are kept whole while the
+ * token budget allows; otherwise the budget is split by field priority and
+ * overflowing sections are summarized structurally (see summarizeSection).
+ */
+export function extractProjectContext(
+  artifacts: Map<string, string>,
+  options?: ExtractProjectContextOptions
+): ExtractProjectContextResult {
+  // Group files by likely role
+  const prdFiles: string[] = [];
+  const archFiles: string[] = [];
+  const uxFiles: string[] = [];
+  const researchFiles: string[] = [];
   const collectedArtifacts = collectTransitionArtifacts([...artifacts.keys()]);
 
-  for (const [filename, content] of artifacts) {
-    if (collectedArtifacts.prdFiles.includes(filename)) prdContent += "\n" + content;
-    if (collectedArtifacts.architectureFiles.includes(filename)) archContent += "\n" + content;
-    if (collectedArtifacts.readinessFiles.includes(filename)) archContent += "\n" + content;
-    if (/ux/i.test(filename)) uxContent += "\n" + content;
-    if (/research|market|domain|brief/i.test(filename)) researchContent += "\n" + content;
+  for (const filename of artifacts.keys()) {
+    if (collectedArtifacts.prdFiles.includes(filename)) prdFiles.push(filename);
+    if (
+      collectedArtifacts.architectureFiles.includes(filename) ||
+      collectedArtifacts.readinessFiles.includes(filename)
+    ) {
+      archFiles.push(filename);
+    }
+    if (/ux/i.test(filename)) uxFiles.push(filename);
+    if (/research|market|domain|brief/i.test(filename)) researchFiles.push(filename);
   }
 
-  const allContent = prdContent + "\n" + archContent;
+  const allFiles = [...prdFiles, ...archFiles];
+  const prdSource = prdFiles.length > 0 ? prdFiles : allFiles;
+  const archSource = archFiles.length > 0 ? archFiles : allFiles;
   const truncated: TruncationInfo[] = [];
 
-  const fields: { field: keyof ProjectContext; source: string; patterns: RegExp[] }[] = [
+  const fields: { field: keyof ProjectContext; source: string[]; patterns: RegExp[] }[] = [
     {
       field: "projectGoals",
-      source: prdContent || allContent,
+      source: prdSource,
       patterns: [...PROJECT_GOALS_SECTION_PATTERNS],
     },
     {
       field: "successMetrics",
-      source: prdContent || allContent,
+      source: prdSource,
       patterns: [
         /^##\s+Success (?:Criteria|Metrics)/m,
         /^##\s+KPIs?/m,
@@ -137,32 +195,32 @@ export function extractProjectContext(artifacts: Map<string, string>): ExtractPr
     },
     {
       field: "architectureConstraints",
-      source: archContent || allContent,
+      source: archSource,
       patterns: [/^##\s+Constraints/m, /^##\s+ADR/m, /^##\s+Architecture Decision/m],
     },
     {
       field: "technicalRisks",
-      source: archContent || allContent,
+      source: archSource,
       patterns: [/^##\s+Risks/m, /^##\s+Technical Risks/m, /^##\s+Mitigations/m, /^##\s+Risk/m],
     },
     {
       field: "scopeBoundaries",
-      source: prdContent || allContent,
+      source: prdSource,
       patterns: [...PRD_SCOPE_SECTION_PATTERNS, /^##\s+Boundaries/m],
     },
     {
       field: "targetUsers",
-      source: prdContent || allContent,
+      source: prdSource,
       patterns: [/^##\s+Target Users/m, /^##\s+Users/m, /^##\s+Personas/m, /^##\s+User Profiles/m],
     },
     {
       field: "nonFunctionalRequirements",
-      source: prdContent || allContent,
+      source: prdSource,
       patterns: [...NON_FUNCTIONAL_REQUIREMENTS_SECTION_PATTERNS],
     },
     {
       field: "designGuidelines",
-      source: uxContent,
+      source: uxFiles,
       patterns: [
         /^##\s+Design Principles/m,
         /^##\s+Design System/m,
@@ -173,7 +231,7 @@ export function extractProjectContext(artifacts: Map<string, string>): ExtractPr
     },
     {
       field: "researchInsights",
-      source: researchContent,
+      source: researchFiles,
       patterns: [
         /^##\s+Key Findings/m,
         /^##\s+Recommendations/m,
@@ -196,14 +254,32 @@ export function extractProjectContext(artifacts: Map<string, string>): ExtractPr
     researchInsights: "",
   };
 
-  for (const { field, source, patterns } of fields) {
-    const result = extractFirstMatchingSectionWithInfo(source, patterns);
-    context[field] = result.content;
-    if (result.wasTruncated) {
+  const sections = fields.map(({ field, source, patterns }) => ({
+    field,
+    section: findSectionInFiles(artifacts, source, patterns),
+  }));
+  const allocation = allocateTokenBudget(
+    sections.map(({ field, section }) => ({
+      key: field,
+      tokens: section ? estimateTokens(section.content) : 0,
+      weight: FIELD_WEIGHTS[field],
+    })),
+    options?.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET
+  );
+
+  for (const { field, section } of sections) {
+    if (!section) continue;
+    const summary = summarizeSection(section.content, allocation.get(field) ?? 0);
+    context[field] = summary.content;
+    if (summary.dropped.length > 0) {
       truncated.push({
         field,
-        originalLength: result.originalLength,
-        truncatedTo: result.content.length,
+        originalLength: section.content.length,
+        truncatedTo: summary.content.length,
+        originalTokens: estimateTokens(section.content),
+        truncatedToTokens: estimateTokens(summary.content),
+        dropped: summary.dropped,
+        source: section.file,
       });
     }
   }
@@ -218,30 +294,47 @@ export function extractProjectContext(artifacts: Map<string, string>): ExtractPr
  * Converts truncation info into human-readable warnings.
  */
 export function detectTruncation(truncated: TruncationInfo[]): string[] {
-  return truncated.map(
-    (t) =>
-      `${t.field} was truncated from ${t.originalLength} to ${t.truncatedTo} characters. Some content may be missing.`
-  );
+  return truncated.map((t) => {
+    if (t.originalTokens === undefined) {
+      return `${t.field} was truncated from ${t.originalLength} to ${t.truncatedTo} characters. Some content may be missing.`;
+    }
+    const dropped = t.dropped?.length ? ` Dropped: ${t.dropped.join("; ")}.` : "";
+    const source = t.source ? ` Full section: ${t.source}` : "";
+    return `${t.field} was truncated from ${t.originalTokens} to ${t.truncatedToTokens ?? 0} tokens to fit the context budget.${dropped}${source}`;
+  });
 }
 
-export function generateProjectContextMd(context: ProjectContext, projectName: string): string {
+/**
+ * @param fullSectionLinks Spec file paths, relative to .ralph/, for sections
+ *   that were summarized to fit the context budget
+ */
+export function generateProjectContextMd(
+  context: ProjectContext,
+  projectName: string,
+  fullSectionLinks: Partial<Record<keyof ProjectContext, string>> = {}
+): string {
   const lines: string[] = [`# ${projectName} — Project Context`, ""];
 
-  const sections: { heading: string; content: string }[] = [
-    { heading: "Project Goals", content: context.projectGoals },
-    { heading: "Success Metrics", content: context.successMetrics },
-    { heading: "Architecture Constraints", content: context.architectureConstraints },
-    { heading: "Technical Risks", content: context.technicalRisks },
-    { heading: "Scope Boundaries", content: context.scopeBoundaries },
-    { heading: "Target Users", content: context.targetUsers },
-    { heading: "Non-Functional Requirements", content: context.nonFunctionalRequirements },
-    { heading: "Design Guidelines", content: context.designGuidelines },
-    { heading: "Research Insights", content: context.researchInsights },
+  const sections: { field: keyof ProjectContext; heading: string }[] = [
+    { field: "projectGoals", heading: "Project Goals" },
+    { field: "successMetrics", heading: "Success Metrics" },
+    { field: "architectureConstraints", heading: "Architecture Constraints" },
+    { field: "technicalRisks", heading: "Technical Risks" },
+    { field: "scopeBoundaries", heading: "Scope Boundaries" },
+    { field: "targetUsers", heading: "Target Users" },
+    { field: "nonFunctionalRequirements", heading: "Non-Functional Requirements" },
+    { field: "designGuidelines", heading: "Design Guidelines" },
+    { field: "researchInsights", heading: "Research Insights" },
   ];
 
-  for (const { heading, content } of sections) {
+  for (const { field, heading } of sections) {
+    const content = context[field];
     if (content) {
       lines.push(`## ${heading}`, "", content, "");
+      const link = fullSectionLinks[field];
+      if (link) {
+        lines.push(`> Summarized to fit the context budget. Full section: [${link}](${link})`, "");
+      }
     }
   }
 
@@ -256,7 +349,7 @@ You are an autonomous AI development agent working on the ${projectName} project
 You follow BMAD-METHOD's developer (Amelia) persona and TDD methodology.
 
 ## Current Objectives
-1. Read .ralph/@fix_plan.md and identify the next incomplete story
+1. Read .ralph/@fix_plan.md and identify the next incomplete story whose \`> Depends on:\` stories are all checked
 2. Check existing codebase for related code — especially which existing files need changes to integrate your work
 3. Implement the story using TDD (red-green-refactor)
 4. Run tests after implementation
@@ -277,6 +370,7 @@ For each story in @fix_plan.md:
 ## Specs Reference (Read On Demand)
 - .ralph/SPECS_INDEX.md lists all spec files with paths and priorities
 - .ralph/PROJECT_CONTEXT.md summarizes project goals, constraints, and scope
+- .ralph/SPECS_CHANGELOG.md lists the stories, acceptance criteria, and spec sections changed since the last transition; check it before picking the next story
 - Read specific specs only when the current story requires clarification
 - For files marked [LARGE] in SPECS_INDEX.md, scan headers first
 
@@ -358,6 +452,7 @@ RECOMMENDATION: <one line summary of what to do next>
 ## File Structure
 - .ralph/SPECS_INDEX.md: Prioritized index of all spec files with reading order
 - .ralph/PROJECT_CONTEXT.md: High-level project goals, constraints, and scope
+- .ralph/SPECS_CHANGELOG.md: Spec changes since the last transition (SPECS_CHANGELOG.json has the same data)
 - .ralph/specs/: Project specifications (PRD, architecture, stories)
 - .ralph/@fix_plan.md: Prioritized TODO list (one entry per story)
 - .ralph/@AGENT.md: Project build and run instructions
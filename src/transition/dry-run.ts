@@ -0,0 +1,146 @@
+import { cp, mkdir, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, relative, sep } from "node:path";
+import { debug } from "../utils/logger.js";
+import { exists, getFilesRecursive } from "../utils/file-system.js";
+import { createUnifiedDiff } from "../utils/diff.js";
+import { BMAD_CONFIG_FILE, BMALPH_DIR, RALPH_DIR } from "../utils/constants.js";
+import { findArtifactsDir } from "./artifacts.js";
+import { REPO_MANIFEST_FILES } from "./repo-stack.js";
+import { runTransition } from "./orchestration.js";
+import type { TransitionOptions, TransitionResult } from "./types.js";
+
+export interface TransitionFileChange {
+  /** Project-relative path using forward slashes */
+  path: string;
+  action: "create" | "modify" | "delete";
+  /** Unified diff, or a one-line note for binary files */
+  diff: string;
+}
+
+export interface TransitionPreview {
+  result: TransitionResult;
+  changes: TransitionFileChange[];
+}
+
+/** Runtime output Ralph owns; the transition never writes here */
+const EXCLUDED_RALPH_PATHS = ["logs/"];
+
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+async function copyIfExists(projectDir: string, sandboxDir: string, path: string): Promise<void> {
+  const source = join(projectDir, path);
+  if (!(await exists(source))) {
+    return;
+  }
+  const destination = join(sandboxDir, path);
+  await mkdir(dirname(destination), { recursive: true });
+  await cp(source, destination, {
+    recursive: true,
+    dereference: false,
+    filter: (src) =>
+      !EXCLUDED_RALPH_PATHS.some((excluded) =>
+        toPosix(relative(projectDir, src) + "/").startsWith(`${RALPH_DIR}/${excluded}`)
+      ),
+  });
+}
+
+/**
+ * Copies everything runTransition reads into a throwaway directory: bmalph
+ * config and state, the BMAD config, BMAD output, the artifacts dir, .ralph/
+ * and the repository manifests the tech stack is detected from.
+ */
+async function createSandbox(projectDir: string): Promise<string> {
+  const sandboxDir = await mkdtemp(join(tmpdir(), "bmalph-implement-"));
+  const artifactsDir = await findArtifactsDir(projectDir);
+  const paths: string[] = [
+    BMALPH_DIR,
+    BMAD_CONFIG_FILE,
+    "_bmad-output",
+    RALPH_DIR,
+    ...REPO_MANIFEST_FILES,
+  ];
+  if (artifactsDir) {
+    paths.push(toPosix(relative(projectDir, artifactsDir)));
+  }
+
+  for (const path of paths) {
+    await copyIfExists(projectDir, sandboxDir, path);
+  }
+  return sandboxDir;
+}
+
+async function readRalphFiles(root: string): Promise<Set<string>> {
+  const files = await getFilesRecursive(join(root, RALPH_DIR));
+  return new Set(
+    files.filter((file) => !EXCLUDED_RALPH_PATHS.some((excluded) => file.startsWith(excluded)))
+  );
+}
+
+async function readOptional(path: string, present: boolean): Promise<Buffer | null> {
+  return present ? readFile(path) : null;
+}
+
+function isBinary(content: Buffer | null): boolean {
+  return content !== null && content.includes(0);
+}
+
+/**
+ * Diffs .ralph/ in the project against .ralph/ in the sandbox after a transition.
+ */
+async function collectChanges(
+  projectDir: string,
+  sandboxDir: string
+): Promise<TransitionFileChange[]> {
+  const before = await readRalphFiles(projectDir);
+  const after = await readRalphFiles(sandboxDir);
+  const allFiles = [...new Set([...before, ...after])].sort();
+  const changes: TransitionFileChange[] = [];
+
+  for (const file of allFiles) {
+    const path = `${RALPH_DIR}/${file}`;
+    const oldContent = await readOptional(join(projectDir, path), before.has(file));
+    const newContent = await readOptional(join(sandboxDir, path), after.has(file));
+    if (oldContent && newContent && oldContent.equals(newContent)) {
+      continue;
+    }
+
+    const action = oldContent === null ? "create" : newContent === null ? "delete" : "modify";
+    const diff =
+      isBinary(oldContent) || isBinary(newContent)
+        ? `Binary file ${path} differs\n`
+        : createUnifiedDiff(
+            path,
+            oldContent?.toString("utf-8") ?? null,
+            newContent?.toString("utf-8") ?? null
+          );
+    changes.push({ path, action, diff });
+  }
+
+  return changes;
+}
+
+/**
+ * Runs the full transition pipeline against a temporary copy of the project
+ * and reports how .ralph/ would change. The project itself is never written,
+ * including the phase state.
+ */
+export async function previewTransition(
+  projectDir: string,
+  options?: TransitionOptions
+): Promise<TransitionPreview> {
+  const sandboxDir = await createSandbox(projectDir);
+  debug(`Running transition preview in ${sandboxDir}`);
+
+  try {
+    const result = await runTransition(sandboxDir, options);
+    const changes = await collectChanges(projectDir, sandboxDir);
+    // Warnings can embed absolute paths; point them back at the real project
+    const warnings = result.warnings.map((warning) => warning.replaceAll(sandboxDir, projectDir));
+    return { result: { ...result, warnings }, changes };
+  } finally {
+    await rm(sandboxDir, { recursive: true, force: true });
+  }
+}
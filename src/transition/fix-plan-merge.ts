@@ -0,0 +1,208 @@
+/** Story line, including the `[-]` skipped marker written by `bmalph story skip` */
+const STORY_LINE_PATTERN = /^(\s*-\s*)\[([ xX-])\](\s*Story\s+([\d.]+):\s*(.*))$/;
+const HEADING_PATTERN = /^#{2,3}\s+\S/;
+/** Lines generateFixPlan writes inside a block; anything else was added by hand or by Ralph */
+const GENERATED_LINE_PATTERN = /^\s*>|^#\s|^\s*$/;
+
+interface FixPlanBlock {
+  /** `story:<id>` or `heading:<text>`, suffixed with `#<n>` when repeated */
+  key: string;
+  storyId: string | null;
+  /** Story line or heading; null for the lines before the first one */
+  header: string | null;
+  body: string[];
+}
+
+export interface FixPlanMergeResult {
+  content: string;
+  /** One message per block where local edits and the regenerated plan disagree */
+  conflicts: string[];
+}
+
+function parseBlocks(content: string): FixPlanBlock[] {
+  const blocks: FixPlanBlock[] = [{ key: "preamble", storyId: null, header: null, body: [] }];
+  const seen = new Map<string, number>();
+
+  for (const line of content.split("\n")) {
+    const story = STORY_LINE_PATTERN.exec(line);
+    if (story || HEADING_PATTERN.test(line)) {
+      const baseKey = story ? `story:${story[4]}` : `heading:${line.trim()}`;
+      const count = (seen.get(baseKey) ?? 0) + 1;
+      seen.set(baseKey, count);
+      blocks.push({
+        key: count === 1 ? baseKey : `${baseKey}#${count}`,
+        storyId: story?.[4] ?? null,
+        header: line,
+        body: [],
+      });
+      continue;
+    }
+    blocks[blocks.length - 1]?.body.push(line);
+  }
+
+  return blocks;
+}
+
+function describeBlock(block: FixPlanBlock): string {
+  return block.storyId ? `Story ${block.storyId}` : `"${block.header?.trim() ?? "preamble"}"`;
+}
+
+/**
+ * Lines of the current block that were not generated, keyed by the nearest
+ * preceding generated line they follow (null: right after the header).
+ */
+function collectAdditions(
+  base: FixPlanBlock | undefined,
+  current: FixPlanBlock,
+  generated: FixPlanBlock | undefined
+): Map<string | null, string[]> {
+  const baseLines = base ? new Set(base.body) : null;
+  const generatedLines = new Set(generated?.body ?? []);
+  const additions = new Map<string | null, string[]>();
+  let anchor: string | null = null;
+
+  for (const line of current.body) {
+    const isAddition = baseLines ? !baseLines.has(line) : !GENERATED_LINE_PATTERN.test(line);
+    if (!isAddition) {
+      anchor = line;
+      continue;
+    }
+    if (generatedLines.has(line)) continue;
+    additions.set(anchor, [...(additions.get(anchor) ?? []), line]);
+  }
+
+  return additions;
+}
+
+function mergeStoryHeader(
+  base: FixPlanBlock | undefined,
+  current: FixPlanBlock,
+  generated: FixPlanBlock,
+  conflicts: string[]
+): string {
+  const [, prefix = "", generatedMarker = " ", generatedRest = "", , generatedTitle = ""] =
+    STORY_LINE_PATTERN.exec(generated.header ?? "") ?? [];
+  const currentMatch = STORY_LINE_PATTERN.exec(current.header ?? "");
+  const baseRest = base ? STORY_LINE_PATTERN.exec(base.header ?? "")?.[3] : undefined;
+  const currentRest = currentMatch?.[3] ?? generatedRest;
+
+  let rest = generatedRest;
+  if (baseRest !== undefined && currentRest !== baseRest && currentRest !== generatedRest) {
+    if (generatedRest === baseRest) {
+      rest = currentRest;
+    } else {
+      conflicts.push(
+        `${describeBlock(generated)} was renamed in @fix_plan.md and in the BMAD output; kept "${generatedTitle}"`
+      );
+    }
+  }
+
+  // A story skipped by hand stays skipped until it is completed
+  const marker = generatedMarker === " " && currentMatch?.[2] === "-" ? "-" : generatedMarker;
+  return `${prefix}[${marker}]${rest}`;
+}
+
+function mergeBlock(
+  base: FixPlanBlock | undefined,
+  current: FixPlanBlock | undefined,
+  generated: FixPlanBlock,
+  conflicts: string[]
+): string[] {
+  if (!current) {
+    return generated.header === null ? generated.body : [generated.header, ...generated.body];
+  }
+
+  const header =
+    generated.storyId !== null
+      ? mergeStoryHeader(base, current, generated, conflicts)
+      : generated.header;
+
+  // Generated lines removed locally stay removed, unless the BMAD output also
+  // changed the block; then the regenerated lines are kept and it is reported
+  const removed = base ? base.body.filter((line) => !current.body.includes(line)) : [];
+  const upstreamChanged =
+    base !== undefined && generated.body.some((line) => !base.body.includes(line));
+  let body = generated.body;
+  if (removed.length > 0 && upstreamChanged) {
+    conflicts.push(
+      `${describeBlock(generated)} was edited in @fix_plan.md and changed in the BMAD output; kept the regenerated lines next to the local edits`
+    );
+  } else if (removed.length > 0) {
+    body = body.filter((line) => !removed.includes(line));
+  }
+
+  const additions = collectAdditions(base, current, generated);
+  const merged: string[] = [...(additions.get(null) ?? [])];
+  additions.delete(null);
+  for (const line of body) {
+    merged.push(line);
+    const following = additions.get(line);
+    if (following) {
+      merged.push(...following);
+      additions.delete(line);
+    }
+  }
+
+  // Additions whose anchor line is gone go before the block's trailing blank lines
+  const leftover = [...additions.values()].flat();
+  let insertAt = merged.length;
+  while (insertAt > 0 && merged[insertAt - 1]?.trim() === "") insertAt--;
+  merged.splice(insertAt, 0, ...leftover);
+
+  return header === null ? merged : [header, ...merged];
+}
+
+/**
+ * Three-way merge of @fix_plan.md. `base` is the plan generated by the
+ * previous transition, `current` the file on disk and `generated` the new plan.
+ * The new plan decides structure, order and completion; lines added under a
+ * story or section since the base survive next to the line they followed, and
+ * sections added by hand are kept after the block they followed. Without a
+ * base, every line that generateFixPlan would not write counts as added.
+ */
+export function mergeFixPlanEdits(
+  base: string | null,
+  current: string,
+  generated: string
+): FixPlanMergeResult {
+  const baseBlocks = base !== null ? new Map(parseBlocks(base).map((b) => [b.key, b])) : null;
+  const currentBlocks = parseBlocks(current);
+  const currentByKey = new Map(currentBlocks.map((block) => [block.key, block]));
+  const generatedBlocks = parseBlocks(generated);
+  const generatedKeys = new Set(generatedBlocks.map((block) => block.key));
+  const conflicts: string[] = [];
+
+  // Blocks only the current file has: added by hand, or removed from the BMAD output
+  const insertedAfter = new Map<string, FixPlanBlock[]>();
+  let previousKey = "preamble";
+  for (const block of currentBlocks) {
+    if (generatedKeys.has(block.key)) {
+      previousKey = block.key;
+      continue;
+    }
+
+    const baseBlock = baseBlocks?.get(block.key);
+    if (baseBlock || (!baseBlocks && block.storyId !== null)) {
+      const notes = [...collectAdditions(baseBlock, block, undefined).values()].flat();
+      if (notes.length > 0) {
+        conflicts.push(
+          `${describeBlock(block)} was removed from the BMAD output; its notes in @fix_plan.md were dropped: ${notes.map((note) => `"${note.trim()}"`).join(", ")}`
+        );
+      }
+      continue;
+    }
+    insertedAfter.set(previousKey, [...(insertedAfter.get(previousKey) ?? []), block]);
+  }
+
+  const lines: string[] = [];
+  for (const block of generatedBlocks) {
+    lines.push(
+      ...mergeBlock(baseBlocks?.get(block.key), currentByKey.get(block.key), block, conflicts)
+    );
+    for (const inserted of insertedAfter.get(block.key) ?? []) {
+      lines.push(inserted.header ?? "", ...inserted.body);
+    }
+  }
+
+  return { content: lines.join("\n"), conflicts };
+}
@@ -1,8 +1,9 @@
-import { readFile } from "node:fs/promises";
+import { mkdir, readFile } from "node:fs/promises";
 import { join, relative } from "node:path";
 import { debug, info, warn } from "../utils/logger.js";
 import { isEnoent, formatError } from "../utils/errors.js";
 import { atomicWriteFile, exists } from "../utils/file-system.js";
+import { FIX_PLAN_BASE_FILE, STATE_DIR } from "../utils/constants.js";
 import {
   generateFixPlan,
   parseFixPlan,
@@ -13,7 +14,8 @@ import {
   buildCompletedTitleMap,
   normalizeTitle,
 } from "./fix-plan.js";
-import { parseSprintStatus } from "./sprint-status.js";
+import { mergeFixPlanEdits } from "./fix-plan-merge.js";
+import { CANONICAL_SPRINT_STATUS_PATHS, parseSprintStatus } from "./sprint-status.js";
 import type { GeneratedFile } from "./types.js";
 import type { LoadedTransitionInputs } from "./artifact-loading.js";
 
@@ -42,9 +44,11 @@ export async function syncFixPlan(
   let fixPlanPreserved = false;
   const fixPlanPath = join(projectDir, ".ralph/@fix_plan.md");
   const fixPlanExisted = await exists(fixPlanPath);
+  const basePath = join(projectDir, STATE_DIR, FIX_PLAN_BASE_FILE);
+  let existingFixPlan: string | null = null;
 
   try {
-    const existingFixPlan = await readFile(fixPlanPath, "utf-8");
+    existingFixPlan = await readFile(fixPlanPath, "utf-8");
     existingItems = parseFixPlan(existingFixPlan);
     debug(
       `Found ${existingItems.filter((item) => item.completed).length} completed stories in existing fix_plan`
@@ -119,10 +123,24 @@ export async function syncFixPlan(
     useTitleBasedMerge ? completedTitles : undefined
   );
   const compactedFixPlan = collapseCompletedStories(mergedFixPlan);
-  await atomicWriteFile(fixPlanPath, compactedFixPlan);
+
+  let mergeConflicts: string[] = [];
+  let finalFixPlan = compactedFixPlan;
+  if (existingFixPlan !== null) {
+    const edits = mergeFixPlanEdits(
+      await readFixPlanBase(basePath),
+      existingFixPlan,
+      compactedFixPlan
+    );
+    finalFixPlan = edits.content;
+    mergeConflicts = edits.conflicts;
+  }
+  await atomicWriteFile(fixPlanPath, finalFixPlan);
+  await mkdir(join(projectDir, STATE_DIR), { recursive: true });
+  await atomicWriteFile(basePath, compactedFixPlan);
 
   return {
-    warnings: [...completionWarnings, ...orphanWarnings, ...renumberWarnings],
+    warnings: [...completionWarnings, ...orphanWarnings, ...renumberWarnings, ...mergeConflicts],
     fixPlanPreserved,
     generatedFile: {
       path: ".ralph/@fix_plan.md",
@@ -131,16 +149,26 @@ export async function syncFixPlan(
   };
 }
 
+/**
+ * The plan written by the previous transition, before local edits were
+ * merged in. Missing for plans generated before edits were preserved.
+ */
+async function readFixPlanBase(basePath: string): Promise<string | null> {
+  try {
+    return await readFile(basePath, "utf-8");
+  } catch (err) {
+    if (!isEnoent(err)) {
+      warn(`Could not read the previous fix_plan base: ${formatError(err)}`);
+    }
+    return null;
+  }
+}
+
 async function resolveSprintStatusSource(
   projectDir: string,
   inputs: LoadedTransitionInputs
 ): Promise<ResolvedSprintStatusSource | null> {
-  const canonicalCandidates = [
-    "_bmad-output/implementation-artifacts/sprint-status.yaml",
-    "_bmad-output/implementation_artifacts/sprint-status.yaml",
-  ];
-
-  for (const candidate of canonicalCandidates) {
+  for (const candidate of CANONICAL_SPRINT_STATUS_PATHS) {
     const candidatePath = join(projectDir, candidate);
     if (!(await exists(candidatePath))) {
       continue;
@@ -4,6 +4,7 @@ import {
   createOpenFixPlanStoryLinePattern,
   formatStoryAnchor,
 } from "./story-id.js";
+import { orderStoriesByDependencies } from "./story-dependencies.js";
 
 function buildSpecPath(planningSpecsSubpath: string, fileName: string): string {
   const normalizedPath = [planningSpecsSubpath, fileName].filter(Boolean).join("/");
@@ -17,8 +18,10 @@ export function generateFixPlan(
 ): string {
   const lines = ["# Ralph Fix Plan", "", "## Stories to Implement", ""];
 
+  // Stories come after their prerequisites, so an epic heading may repeat
+  // when a story depends on one from a later epic
   let currentEpic = "";
-  for (const story of stories) {
+  for (const story of orderStoriesByDependencies(stories)) {
     if (story.epic !== currentEpic) {
       currentEpic = story.epic;
       lines.push(`### ${currentEpic}`);
@@ -29,6 +32,10 @@ export function generateFixPlan(
     }
     lines.push(`- [ ] Story ${story.id}: ${story.title}`);
 
+    if (story.dependsOn && story.dependsOn.length > 0) {
+      lines.push(`  > Depends on: ${story.dependsOn.map((id) => `Story ${id}`).join(", ")}`);
+    }
+
     // Add description lines (max 3, split on sentence boundaries)
     if (story.description) {
       const descParts = story.description.split(/,\s*(?=So that|I want)|(?<=\.)\s+/);
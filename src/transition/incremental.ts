@@ -0,0 +1,135 @@
+import { join } from "node:path";
+import { info } from "../utils/logger.js";
+import { isRalphLoopRunning } from "../utils/ralph-runtime-state.js";
+import { collectTransitionArtifacts } from "./artifact-collection.js";
+import { loadTransitionInputs } from "./artifact-loading.js";
+import { generateContextOutputs } from "./context-output.js";
+import { syncFixPlan } from "./fix-plan-sync.js";
+import { collectTransitionWarnings } from "./orchestration.js";
+import { generateSpecsChangelog } from "./specs-changelog.js";
+import { prepareSpecsDirectory, syncPreparedSpecsDirectory } from "./specs-sync.js";
+import { writeTestScaffolds } from "./test-scaffold.js";
+import { writeTraceability } from "./traceability.js";
+import type { GeneratedFile, PreflightIssue, SpecsChange, TransitionOptions } from "./types.js";
+
+/** Output groups of the transition that can be regenerated independently */
+export type TransitionTarget = "fixPlan" | "specs" | "context";
+
+export interface IncrementalTransitionResult {
+  targets: TransitionTarget[];
+  storiesCount: number;
+  warnings: string[];
+  preflightIssues: PreflightIssue[];
+  generatedFiles: GeneratedFile[];
+  specsChanges: SpecsChange[];
+  fixPlanPreserved: boolean;
+  /** Fix plan sync was requested but skipped because a Ralph loop is running */
+  fixPlanDeferred: boolean;
+}
+
+const UX_ARTIFACT_PATTERN = /ux/i;
+const RESEARCH_ARTIFACT_PATTERN = /research|market|domain|brief/i;
+
+/**
+ * Maps changed artifact paths (relative to the artifacts dir) to the outputs
+ * they feed. Every change refreshes the specs tree; stories and sprint status
+ * feed the fix plan; PRD, architecture, readiness, UX and research documents
+ * feed PROJECT_CONTEXT.md and @AGENT.md.
+ */
+export function classifyArtifactChanges(changedFiles: readonly string[]): Set<TransitionTarget> {
+  const targets = new Set<TransitionTarget>();
+  if (changedFiles.length === 0) {
+    return targets;
+  }
+
+  targets.add("specs");
+  const collected = collectTransitionArtifacts([...changedFiles]);
+
+  if (
+    collected.storyFiles.length > 0 ||
+    collected.storyIndexFiles.length > 0 ||
+    collected.sprintStatusFile !== null
+  ) {
+    targets.add("fixPlan");
+  }
+
+  const feedsContext =
+    collected.prdFiles.length > 0 ||
+    collected.architectureFiles.length > 0 ||
+    collected.readinessFiles.length > 0 ||
+    changedFiles.some(
+      (file) => UX_ARTIFACT_PATTERN.test(file) || RESEARCH_ARTIFACT_PATTERN.test(file)
+    );
+  if (feedsContext) {
+    targets.add("context");
+  }
+
+  return targets;
+}
+
+/**
+ * Re-runs only the transition steps for the given targets. The fix plan is
+ * regenerated through syncFixPlan, so completed stories stay checked, and it is
+ * never rewritten while a Ralph loop is running. Phase state is left alone.
+ */
+export async function runIncrementalTransition(
+  projectDir: string,
+  targets: ReadonlySet<TransitionTarget>,
+  options?: TransitionOptions
+): Promise<IncrementalTransitionResult> {
+  const inputs = await loadTransitionInputs(projectDir, options);
+  const generatedFiles: GeneratedFile[] = [];
+  const stepWarnings: string[] = [];
+  let specsChanges: SpecsChange[] = [];
+  let fixPlanPreserved = false;
+  let fixPlanDeferred = false;
+
+  if (targets.has("fixPlan")) {
+    if (await isRalphLoopRunning(projectDir)) {
+      fixPlanDeferred = true;
+    } else {
+      const fixPlanSync = await syncFixPlan(projectDir, inputs);
+      generatedFiles.push(fixPlanSync.generatedFile);
+      stepWarnings.push(...fixPlanSync.warnings);
+      fixPlanPreserved = fixPlanSync.fixPlanPreserved;
+    }
+  }
+
+  if (targets.has("specs")) {
+    const specsDir = join(projectDir, ".ralph/specs");
+    const specsTmpDir = join(projectDir, ".ralph/specs.new");
+    info("Preparing specs tree...");
+    await prepareSpecsDirectory(
+      projectDir,
+      inputs.artifactsDir,
+      inputs.collectedArtifacts.files,
+      specsTmpDir
+    );
+    specsChanges = await generateSpecsChangelog(specsDir, specsTmpDir);
+    generatedFiles.push(...(await syncPreparedSpecsDirectory(projectDir, specsDir, specsTmpDir)));
+    generatedFiles.push(...(await writeTraceability(projectDir, inputs)));
+
+    if (options?.testScaffold) {
+      const testScaffold = await writeTestScaffolds(projectDir, inputs);
+      generatedFiles.push(...testScaffold.generatedFiles);
+      stepWarnings.push(...testScaffold.warnings);
+    }
+  }
+
+  if (targets.has("context")) {
+    const contextOutput = await generateContextOutputs(projectDir, inputs);
+    generatedFiles.push(...contextOutput.generatedFiles);
+    stepWarnings.push(...contextOutput.warnings);
+  }
+
+  return {
+    targets: [...targets],
+    storiesCount: inputs.stories.length,
+    warnings: collectTransitionWarnings(inputs, stepWarnings),
+    preflightIssues: inputs.preflightIssues,
+    generatedFiles,
+    specsChanges,
+    fixPlanPreserved,
+    fixPlanDeferred,
+  };
+}
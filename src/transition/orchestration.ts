@@ -5,8 +5,34 @@ import { loadTransitionInputs } from "./artifact-loading.js";
 import { generateContextOutputs } from "./context-output.js";
 import { syncFixPlan } from "./fix-plan-sync.js";
 import { prepareSpecsDirectory, syncPreparedSpecsDirectory } from "./specs-sync.js";
+import { writeTestScaffolds } from "./test-scaffold.js";
+import { writeTraceability } from "./traceability.js";
+import type { LoadedTransitionInputs } from "./artifact-loading.js";
 import type { GeneratedFile, TransitionOptions, TransitionResult } from "./types.js";
 
+/**
+ * Combines preflight warnings and parse warnings not already reported by
+ * preflight with warnings from the individual transition steps.
+ */
+export function collectTransitionWarnings(
+  inputs: LoadedTransitionInputs,
+  stepWarnings: string[]
+): string[] {
+  const preflightWarnings = inputs.preflightIssues
+    .filter((issue) => issue.severity === "warning")
+    .map((issue) => issue.message);
+
+  const nonPreflightParseWarnings = inputs.parseWarnings.filter(
+    (warning) =>
+      !/malformed story id/i.test(warning) &&
+      !/has no acceptance criteria/i.test(warning) &&
+      !/has no description/i.test(warning) &&
+      !/not under an epic/i.test(warning)
+  );
+
+  return [...preflightWarnings, ...nonPreflightParseWarnings, ...stepWarnings];
+}
+
 export async function runTransition(
   projectDir: string,
   options?: TransitionOptions
@@ -27,28 +53,21 @@ export async function runTransition(
     specsTmpDir
   );
   generatedFiles.push(...(await syncPreparedSpecsDirectory(projectDir, specsDir, specsTmpDir)));
+  generatedFiles.push(...(await writeTraceability(projectDir, inputs)));
+
+  const testScaffold = options?.testScaffold
+    ? await writeTestScaffolds(projectDir, inputs)
+    : { generatedFiles: [], warnings: [] };
+  generatedFiles.push(...testScaffold.generatedFiles);
 
   const contextOutput = await generateContextOutputs(projectDir, inputs);
   generatedFiles.push(...contextOutput.generatedFiles);
 
-  const preflightWarnings = inputs.preflightIssues
-    .filter((issue) => issue.severity === "warning")
-    .map((issue) => issue.message);
-
-  const nonPreflightParseWarnings = inputs.parseWarnings.filter(
-    (warning) =>
-      !/malformed story id/i.test(warning) &&
-      !/has no acceptance criteria/i.test(warning) &&
-      !/has no description/i.test(warning) &&
-      !/not under an epic/i.test(warning)
-  );
-
-  const warnings = [
-    ...preflightWarnings,
-    ...nonPreflightParseWarnings,
+  const warnings = collectTransitionWarnings(inputs, [
     ...fixPlanSync.warnings,
+    ...testScaffold.warnings,
     ...contextOutput.warnings,
-  ];
+  ]);
 
   const now = new Date().toISOString();
   const currentState = await readState(projectDir);
@@ -66,6 +85,9 @@ export async function runTransition(
     warnings,
     fixPlanPreserved: fixPlanSync.fixPlanPreserved,
     preflightIssues: inputs.preflightIssues,
+    ...(inputs.suppressedPreflightIssues.length > 0 && {
+      suppressedPreflightIssues: inputs.suppressedPreflightIssues,
+    }),
     generatedFiles,
   };
 }
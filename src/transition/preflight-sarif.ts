@@ -0,0 +1,103 @@
+import { PREFLIGHT_RULES } from "./preflight.js";
+import type { CustomPreflightRule } from "../utils/config.js";
+import type { PreflightIssue, PreflightSeverity, SuppressedPreflightIssue } from "./types.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const INFORMATION_URI = "https://github.com/LarsCowe/bmalph";
+
+interface SarifResult {
+  ruleId: string;
+  level: "error" | "warning" | "note";
+  message: { text: string };
+  locations?: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number };
+    };
+  }[];
+  suppressions?: { kind: "external"; justification: string }[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: { id: string; shortDescription: { text: string } }[];
+      };
+    };
+    results: SarifResult[];
+  }[];
+}
+
+function sarifLevel(severity: PreflightSeverity): SarifResult["level"] {
+  return severity === "info" ? "note" : severity;
+}
+
+function toSarifResult(issue: PreflightIssue, suppressionReason?: string): SarifResult {
+  const text = issue.suggestion ? `${issue.message}. ${issue.suggestion}` : issue.message;
+  return {
+    ruleId: issue.id,
+    level: sarifLevel(issue.severity),
+    message: { text },
+    ...(issue.file !== undefined && {
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: issue.file },
+            ...(issue.line !== undefined && { region: { startLine: issue.line } }),
+          },
+        },
+      ],
+    }),
+    ...(suppressionReason !== undefined && {
+      suppressions: [{ kind: "external" as const, justification: suppressionReason }],
+    }),
+  };
+}
+
+/**
+ * Builds a SARIF 2.1.0 log of pre-flight results, so CI can annotate the
+ * planning documents. Suppressed issues are included with their reason, as
+ * SARIF viewers hide them by default.
+ */
+export function formatPreflightSarif(
+  issues: PreflightIssue[],
+  suppressed: SuppressedPreflightIssue[],
+  toolVersion: string,
+  customRules: CustomPreflightRule[] = []
+): SarifLog {
+  const descriptions = new Map(Object.entries(PREFLIGHT_RULES));
+  for (const rule of customRules) {
+    descriptions.set(rule.id, rule.message);
+  }
+  const ruleIds = [...new Set([...issues, ...suppressed].map((issue) => issue.id))];
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "bmalph",
+            version: toolVersion,
+            informationUri: INFORMATION_URI,
+            rules: ruleIds.map((id) => ({
+              id,
+              shortDescription: { text: descriptions.get(id) ?? id },
+            })),
+          },
+        },
+        results: [
+          ...issues.map((issue) => toSarifResult(issue)),
+          ...suppressed.map((issue) => toSarifResult(issue, issue.suppressionReason)),
+        ],
+      },
+    ],
+  };
+}
@@ -1,4 +1,6 @@
-import type { Story, PreflightIssue, PreflightResult } from "./types.js";
+import { posix } from "node:path";
+import type { Story, PreflightIssue, PreflightResult, SuppressedPreflightIssue } from "./types.js";
+import type { CustomPreflightRule, PreflightConfig } from "../utils/config.js";
 import { extractFirstMatchingSection } from "./context.js";
 import {
   FUNCTIONAL_REQUIREMENTS_SECTION_PATTERNS,
@@ -8,6 +10,34 @@ import {
 } from "./section-patterns.js";
 import { extractTechStackSource } from "./tech-stack.js";
 import { collectTransitionArtifacts, combineArtifactContents } from "./artifact-collection.js";
+import { findDanglingDependencies, findDependencyCycles } from "./story-dependencies.js";
+import { parseCanonicalStoryId, STORY_HEADER_PATTERN } from "./story-id.js";
+import { buildTraceabilityMatrix, extractRequirements } from "./traceability.js";
+
+/** Built-in rule ids and what they check, for config validation and SARIF output */
+export const PREFLIGHT_RULES: Readonly<Record<string, string>> = {
+  E1: "Readiness report indicates NO-GO",
+  E2: "Story id is malformed",
+  E3: "Story dependencies form a cycle",
+  W1: "PRD is missing",
+  W2: "Architecture document is missing",
+  W3: "PRD has no Executive Summary or Vision section",
+  W4: "PRD has no Functional Requirements section",
+  W5: "PRD has no Non-Functional Requirements section",
+  W6: "PRD has no Scope section",
+  W7: "Architecture has no Tech Stack section",
+  W8: "Story has no acceptance criteria",
+  W9: "Story has no description",
+  W10: "Story is not under an epic",
+  W11: "Story depends on an unknown story",
+  W12: "Story numbering has gaps",
+  W13: "Requirement is not covered by any story",
+  W14: "Story references an unknown requirement",
+  I1: "Readiness report is missing",
+  I2: "Fewer than 3 stories",
+};
+
+const PARSE_WARNING_STORY_ID_PATTERN = /^(?:Story ([^:\s]+):|Malformed story ID "([^"]+)")/;
 
 function hasSection(content: string, patterns: readonly RegExp[]): boolean {
   return extractFirstMatchingSection(content, patterns) !== "";
@@ -15,16 +45,18 @@ function hasSection(content: string, patterns: readonly RegExp[]): boolean {
 
 export class PreflightValidationError extends Error {
   readonly issues: PreflightIssue[];
+  readonly suppressed: SuppressedPreflightIssue[];
 
-  constructor(issues: PreflightIssue[]) {
+  constructor(issues: PreflightIssue[], suppressed: SuppressedPreflightIssue[] = []) {
     super(
       `Pre-flight validation failed: ${issues
         .filter((issue) => issue.severity === "error")
-        .map((issue) => issue.message)
+        .map((issue) => `[${issue.id}] ${issue.message}`)
         .join("; ")}. Use --force to override.`
     );
     this.name = "PreflightValidationError";
     this.issues = issues;
+    this.suppressed = suppressed;
   }
 }
 
@@ -111,11 +143,15 @@ export function validateStories(stories: Story[], parseWarnings: string[]): Pref
   const issues: PreflightIssue[] = [];
 
   for (const warning of parseWarnings) {
+    const storyIdMatch = PARSE_WARNING_STORY_ID_PATTERN.exec(warning);
+    const storyId = storyIdMatch?.[1] ?? storyIdMatch?.[2];
+    const about = storyId ? { storyId } : {};
     if (/malformed story id/i.test(warning)) {
       issues.push({
         id: "E2",
         severity: "error",
         message: warning,
+        ...about,
         suggestion:
           "Fix malformed story headers to use the N.M format, or use --force to continue with deterministic fallback ordering.",
       });
@@ -124,6 +160,7 @@ export function validateStories(stories: Story[], parseWarnings: string[]): Pref
         id: "W8",
         severity: "warning",
         message: warning,
+        ...about,
         suggestion: "Ralph cannot verify completion without acceptance criteria.",
       });
     } else if (/has no description/i.test(warning)) {
@@ -131,6 +168,7 @@ export function validateStories(stories: Story[], parseWarnings: string[]): Pref
         id: "W9",
         severity: "warning",
         message: warning,
+        ...about,
         suggestion: "Ralph will lack context for implementing this story.",
       });
     } else if (/not under an epic/i.test(warning)) {
@@ -138,6 +176,7 @@ export function validateStories(stories: Story[], parseWarnings: string[]): Pref
         id: "W10",
         severity: "warning",
         message: warning,
+        ...about,
         suggestion: "Story grouping helps Ralph understand feature boundaries.",
       });
     }
@@ -154,6 +193,129 @@ export function validateStories(stories: Story[], parseWarnings: string[]): Pref
   return issues;
 }
 
+export function validateStoryDependencies(stories: Story[]): PreflightIssue[] {
+  const issues: PreflightIssue[] = [];
+
+  for (const cycle of findDependencyCycles(stories)) {
+    const first = cycle[0] ?? "";
+    issues.push({
+      id: "E3",
+      severity: "error",
+      storyId: first,
+      message:
+        cycle.length === 1
+          ? `Story ${first} depends on itself`
+          : `Story dependency cycle: ${[...cycle, first].join(" -> ")}`,
+      suggestion:
+        "Remove one of the dependencies so the stories can be implemented in order, or use --force to keep the cycle.",
+    });
+  }
+
+  for (const { storyId, dependencyId } of findDanglingDependencies(stories)) {
+    issues.push({
+      id: "W11",
+      severity: "warning",
+      message: `Story ${storyId} depends on unknown story ${dependencyId}`,
+      storyId,
+      suggestion: "Fix the story reference; Ralph will ignore the dependency.",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Flags gaps in story numbering, which usually mean a shard or a story
+ * heading went missing when epics were split across files.
+ */
+export function validateStoryNumbering(stories: Story[]): PreflightIssue[] {
+  const storyNumbersByEpic = new Map<number, Set<number>>();
+  for (const story of stories) {
+    const parts = parseCanonicalStoryId(story.id);
+    if (!parts) continue;
+    const numbers = storyNumbersByEpic.get(parts.epic) ?? new Set<number>();
+    numbers.add(parts.story);
+    storyNumbersByEpic.set(parts.epic, numbers);
+  }
+
+  const issues: PreflightIssue[] = [];
+  const suggestion =
+    "Check that no epic shard or story heading is missing, or renumber the stories.";
+  const epics = [...storyNumbersByEpic.keys()].sort((left, right) => left - right);
+
+  for (let epic = epics[0] ?? 1; epic < (epics.at(-1) ?? 0); epic++) {
+    if (!storyNumbersByEpic.has(epic)) {
+      issues.push({
+        id: "W12",
+        severity: "warning",
+        message: `No stories found for epic ${epic}`,
+        suggestion,
+      });
+    }
+  }
+
+  for (const epic of epics) {
+    const numbers = storyNumbersByEpic.get(epic) ?? new Set<number>();
+    const missing: string[] = [];
+    for (let story = 1; story < Math.max(...numbers); story++) {
+      if (!numbers.has(story)) missing.push(`${epic}.${story}`);
+    }
+    if (missing.length > 0) {
+      issues.push({
+        id: "W12",
+        severity: "warning",
+        message: `Epic ${epic} is missing ${missing.length === 1 ? "story" : "stories"} ${missing.join(", ")}`,
+        suggestion,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that every FR/NFR id defined in the PRD is referenced by a story,
+ * and that stories only reference ids the PRD defines. Skipped when the PRD
+ * doesn't number its requirements.
+ */
+export function validateRequirementCoverage(
+  prdContent: string | null,
+  stories: Story[]
+): PreflightIssue[] {
+  const requirements = prdContent ? extractRequirements(prdContent) : [];
+  if (requirements.length === 0) {
+    return [];
+  }
+
+  const matrix = buildTraceabilityMatrix(requirements, stories);
+  const issues: PreflightIssue[] = [];
+  const uncovered = matrix.requirements
+    .filter((trace) => trace.stories.length === 0)
+    .map((trace) => trace.id);
+
+  if (uncovered.length > 0) {
+    issues.push({
+      id: "W13",
+      severity: "warning",
+      message: `${uncovered.length} ${uncovered.length === 1 ? "requirement is" : "requirements are"} not covered by any story: ${uncovered.join(", ")}`,
+      suggestion:
+        "Reference the requirement id in a story or its acceptance criteria. See .ralph/specs/TRACEABILITY.md.",
+    });
+  }
+
+  for (const { storyId, requirementId } of matrix.unknownReferences) {
+    issues.push({
+      id: "W14",
+      severity: "warning",
+      message: `Story ${storyId} references unknown requirement ${requirementId}`,
+      storyId,
+      suggestion: "Fix the requirement id, or add the requirement to the PRD.",
+    });
+  }
+
+  return issues;
+}
+
 export function validateReadiness(content: string | null): PreflightIssue[] {
   if (content === null) {
     return [
@@ -179,27 +341,145 @@ export function validateReadiness(content: string | null): PreflightIssue[] {
   return [];
 }
 
+function customRuleText(story: Story): string {
+  return [story.title, story.description, ...story.acceptanceCriteria].join("\n");
+}
+
+/**
+ * Runs the project-specific regex rules from `preflight.customRules`. Story
+ * rules report each failing story; document rules are skipped when the
+ * document is missing, which W1/W2 already report.
+ */
+export function validateCustomRules(
+  rules: CustomPreflightRule[],
+  stories: Story[],
+  prdContent: string | null,
+  archContent: string | null
+): PreflightIssue[] {
+  const issues: PreflightIssue[] = [];
+
+  for (const rule of rules) {
+    // Without g/y, test() doesn't carry lastIndex over from one story to the next
+    const pattern = new RegExp(rule.pattern, rule.flags?.replace(/[gy]/g, ""));
+    const fails = (text: string): boolean =>
+      pattern.test(text) === ((rule.mode ?? "require") === "forbid");
+    const issue = {
+      id: rule.id,
+      severity: rule.severity ?? "warning",
+      ...(rule.suggestion !== undefined && { suggestion: rule.suggestion }),
+    };
+
+    if (rule.target === "story") {
+      for (const story of stories) {
+        if (fails(customRuleText(story))) {
+          issues.push({
+            ...issue,
+            message: `Story ${story.id}: ${rule.message}`,
+            storyId: story.id,
+          });
+        }
+      }
+      continue;
+    }
+
+    const content = rule.target === "prd" ? prdContent : archContent;
+    if (content !== null && fails(content)) {
+      issues.push({ ...issue, message: rule.message });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Applies `preflight.rules` severity overrides (`off` drops the issue) and
+ * moves issues matched by a `preflight.suppress` entry into `suppressed`.
+ * Throws on overrides or suppressions for rule ids that don't exist, so a
+ * typo doesn't silently leave a rule on.
+ */
+export function applyPreflightConfig(
+  issues: PreflightIssue[],
+  config: PreflightConfig
+): { issues: PreflightIssue[]; suppressed: SuppressedPreflightIssue[] } {
+  const knownIds = new Set([
+    ...Object.keys(PREFLIGHT_RULES),
+    ...(config.customRules ?? []).map((rule) => rule.id),
+  ]);
+  const configuredIds = [
+    ...Object.keys(config.rules ?? {}),
+    ...(config.suppress ?? []).map((entry) => entry.rule),
+  ];
+  for (const id of configuredIds) {
+    if (!knownIds.has(id)) {
+      throw new Error(`Unknown pre-flight rule "${id}" in bmalph/config.json`);
+    }
+  }
+
+  const kept: PreflightIssue[] = [];
+  const suppressed: SuppressedPreflightIssue[] = [];
+
+  for (const issue of issues) {
+    const override = config.rules?.[issue.id];
+    if (override === "off") continue;
+    const adjusted = override ? { ...issue, severity: override } : issue;
+    const suppression = (config.suppress ?? []).find(
+      (entry) =>
+        entry.rule === issue.id &&
+        issue.storyId !== undefined &&
+        entry.stories.includes(issue.storyId)
+    );
+    if (suppression) {
+      suppressed.push({ ...adjusted, suppressionReason: suppression.reason });
+    } else {
+      kept.push(adjusted);
+    }
+  }
+
+  return { issues: kept, suppressed };
+}
+
+function findStoryLine(content: string | undefined, storyId: string): number | undefined {
+  const index = (content ?? "")
+    .split(/\r?\n/)
+    .findIndex((line) => STORY_HEADER_PATTERN.exec(line)?.[1] === storyId);
+  return index >= 0 ? index + 1 : undefined;
+}
+
+export interface RunPreflightOptions {
+  config?: PreflightConfig;
+  /** Artifacts directory relative to the project root, prefixed to issue file paths */
+  artifactsPath?: string;
+}
+
 export function runPreflight(
   artifactContents: Map<string, string>,
   files: string[],
   stories: Story[],
-  parseWarnings: string[]
+  parseWarnings: string[],
+  options: RunPreflightOptions = {}
 ): PreflightResult {
   const collectedArtifacts = collectTransitionArtifacts(files);
+  const inFile = (file: string | undefined) => (issue: PreflightIssue) =>
+    file === undefined || issue.file !== undefined ? issue : { ...issue, file };
   const prdIssues =
     collectedArtifacts.prdDocuments.length === 0
       ? validatePrd(null)
       : collectedArtifacts.prdDocuments.flatMap((prdDocument) =>
-          validatePrd(combineArtifactContents(prdDocument.files, artifactContents) || null).map(
-            (issue) =>
+          validatePrd(combineArtifactContents(prdDocument.files, artifactContents) || null)
+            .map((issue) =>
               collectedArtifacts.prdDocuments.length > 1
                 ? {
                     ...issue,
                     message: `${issue.message} (${prdDocument.label})`,
                   }
                 : issue
-          )
+            )
+            .map(inFile(prdDocument.files[0]))
         );
+  const prdContent =
+    collectedArtifacts.prdFiles.length > 0
+      ? combineArtifactContents(collectedArtifacts.prdFiles, artifactContents)
+      : null;
   const archContent =
     collectedArtifacts.architectureFiles.length > 0
       ? combineArtifactContents(collectedArtifacts.architectureFiles, artifactContents)
@@ -209,15 +489,47 @@ export function runPreflight(
       ? combineArtifactContents(collectedArtifacts.readinessFiles, artifactContents)
       : null;
 
-  const issues = [
+  const storiesById = new Map(stories.map((story) => [story.id, story]));
+  const inStoryFile = (issue: PreflightIssue): PreflightIssue => {
+    const story = issue.storyId !== undefined ? storiesById.get(issue.storyId) : undefined;
+    if (!story?.sourceFile) {
+      return inFile(stories[0]?.sourceFile || undefined)(issue);
+    }
+    const line = findStoryLine(artifactContents.get(story.sourceFile), story.id);
+    return { ...issue, file: story.sourceFile, ...(line !== undefined && { line }) };
+  };
+  const customRules = options.config?.customRules ?? [];
+  const customRuleTargets = new Map(customRules.map((rule) => [rule.id, rule.target]));
+  const prdFile = collectedArtifacts.prdFiles[0];
+  const archFile = collectedArtifacts.architectureFiles[0];
+
+  const allIssues = [
     ...prdIssues,
-    ...validateArchitecture(archContent),
-    ...validateStories(stories, parseWarnings),
-    ...validateReadiness(readinessContent),
-  ];
+    ...validateArchitecture(archContent).map(inFile(archFile)),
+    ...validateStories(stories, parseWarnings).map(inStoryFile),
+    ...validateStoryDependencies(stories).map(inStoryFile),
+    ...validateStoryNumbering(stories).map(inStoryFile),
+    ...validateRequirementCoverage(prdContent, stories).map((issue) =>
+      issue.storyId !== undefined ? inStoryFile(issue) : inFile(prdFile)(issue)
+    ),
+    ...validateReadiness(readinessContent).map(inFile(collectedArtifacts.readinessFiles[0])),
+    ...validateCustomRules(customRules, stories, prdContent, archContent).map((issue) =>
+      issue.storyId !== undefined
+        ? inStoryFile(issue)
+        : inFile(customRuleTargets.get(issue.id) === "prd" ? prdFile : archFile)(issue)
+    ),
+  ].map((issue) =>
+    issue.file !== undefined && options.artifactsPath
+      ? { ...issue, file: posix.join(options.artifactsPath, issue.file) }
+      : issue
+  );
+  const { issues, suppressed } = options.config
+    ? applyPreflightConfig(allIssues, options.config)
+    : { issues: allIssues, suppressed: [] };
 
   return {
     issues,
+    suppressed,
     pass: !issues.some((i) => i.severity === "error"),
   };
 }
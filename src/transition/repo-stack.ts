@@ -0,0 +1,336 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { isEnoent } from "../utils/errors.js";
+import { parseRalphrc, setRalphrcValue } from "../config/ralphrc.js";
+import type { TechStack } from "./types.js";
+
+/** Root-level files the scanner reads; dry runs copy these into their sandbox */
+export const REPO_MANIFEST_FILES = [
+  "package.json",
+  "tsconfig.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "package-lock.json",
+  "bun.lock",
+  "bun.lockb",
+  "pyproject.toml",
+  "requirements.txt",
+  "requirements-dev.txt",
+  "poetry.lock",
+  "uv.lock",
+  "Cargo.toml",
+  "go.mod",
+  "pom.xml",
+  "mvnw",
+  "Makefile",
+] as const;
+
+type ManifestFile = (typeof REPO_MANIFEST_FILES)[number];
+
+export type PackageManager =
+  | "npm"
+  | "pnpm"
+  | "yarn"
+  | "bun"
+  | "pip"
+  | "poetry"
+  | "uv"
+  | "cargo"
+  | "go"
+  | "maven";
+
+export interface RepoStack {
+  /** PROJECT_TYPE value for .ralphrc, e.g. `typescript` */
+  projectType: string;
+  packageManager: PackageManager | null;
+  commands: Partial<TechStack>;
+  /** Manifest each command was inferred from */
+  sources: Partial<Record<keyof TechStack, ManifestFile>>;
+}
+
+type Manifests = Map<ManifestFile, string>;
+
+/** npm's placeholder `test` script, which always fails */
+const NPM_PLACEHOLDER_TEST = /no test specified/;
+const MAKE_TARGET_PATTERN = /^([A-Za-z0-9_.-]+)\s*:(?!=)/gm;
+
+interface PackageJson {
+  packageManager?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+async function readManifests(projectDir: string): Promise<Manifests> {
+  const manifests: Manifests = new Map();
+  for (const file of REPO_MANIFEST_FILES) {
+    try {
+      manifests.set(file, await readFile(join(projectDir, file), "utf-8"));
+    } catch (err) {
+      if (!isEnoent(err)) throw err;
+    }
+  }
+  return manifests;
+}
+
+function parsePackageJson(content: string): PackageJson | null {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return parsed !== null && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function detectNodePackageManager(pkg: PackageJson, manifests: Manifests): PackageManager {
+  const declared = /^(npm|pnpm|yarn|bun)@/.exec(pkg.packageManager ?? "")?.[1];
+  if (declared) return declared as PackageManager;
+  if (manifests.has("pnpm-lock.yaml")) return "pnpm";
+  if (manifests.has("yarn.lock")) return "yarn";
+  if (manifests.has("bun.lock") || manifests.has("bun.lockb")) return "bun";
+  return "npm";
+}
+
+function runScript(packageManager: PackageManager, script: string): string {
+  if (packageManager === "npm") {
+    return script === "test" || script === "start" ? `npm ${script}` : `npm run ${script}`;
+  }
+  // `bun test` runs Bun's own test runner instead of the script
+  return packageManager === "bun" ? `bun run ${script}` : `${packageManager} ${script}`;
+}
+
+function scanNode(manifests: Manifests): RepoStack | null {
+  const content = manifests.get("package.json");
+  const pkg = content ? parsePackageJson(content) : null;
+  if (!pkg) return null;
+
+  const packageManager = detectNodePackageManager(pkg, manifests);
+  const scripts = pkg.scripts ?? {};
+  const commands: Partial<TechStack> = { setup: `${packageManager} install` };
+  if (scripts.test && !NPM_PLACEHOLDER_TEST.test(scripts.test)) {
+    commands.test = runScript(packageManager, "test");
+  }
+  if (scripts.build) commands.build = runScript(packageManager, "build");
+  if (scripts.dev) commands.dev = runScript(packageManager, "dev");
+  else if (scripts.start) commands.dev = runScript(packageManager, "start");
+
+  const usesTypeScript =
+    manifests.has("tsconfig.json") ||
+    "typescript" in { ...pkg.dependencies, ...pkg.devDependencies };
+
+  return {
+    projectType: usesTypeScript ? "typescript" : "javascript",
+    packageManager,
+    commands,
+    sources: {},
+  };
+}
+
+function scanPython(manifests: Manifests): RepoStack | null {
+  const pyproject = manifests.get("pyproject.toml");
+  const requirements = manifests.get("requirements.txt");
+  if (pyproject === undefined && requirements === undefined) return null;
+
+  const dependencyText = [pyproject, requirements, manifests.get("requirements-dev.txt")].join(
+    "\n"
+  );
+  const testCommand = /\bpytest\b/i.test(dependencyText) ? "pytest" : "python -m unittest discover";
+
+  if (manifests.has("poetry.lock") || /^\[tool\.poetry\]/m.test(pyproject ?? "")) {
+    return {
+      projectType: "python",
+      packageManager: "poetry",
+      commands: {
+        setup: "poetry install",
+        test: `poetry run ${testCommand}`,
+        build: "poetry build",
+      },
+      sources: {},
+    };
+  }
+
+  if (manifests.has("uv.lock")) {
+    return {
+      projectType: "python",
+      packageManager: "uv",
+      commands: { setup: "uv sync", test: `uv run ${testCommand}`, build: "uv build" },
+      sources: {},
+    };
+  }
+
+  return {
+    projectType: "python",
+    packageManager: "pip",
+    commands: {
+      setup: pyproject !== undefined ? "pip install -e ." : "pip install -r requirements.txt",
+      test: testCommand,
+      ...(pyproject !== undefined && { build: "python -m build" }),
+    },
+    sources: {},
+  };
+}
+
+function scanCompiled(manifests: Manifests): RepoStack | null {
+  if (manifests.has("Cargo.toml")) {
+    return {
+      projectType: "rust",
+      packageManager: "cargo",
+      commands: {
+        setup: "cargo build",
+        test: "cargo test",
+        build: "cargo build --release",
+        dev: "cargo run",
+      },
+      sources: {},
+    };
+  }
+
+  if (manifests.has("go.mod")) {
+    return {
+      projectType: "go",
+      packageManager: "go",
+      commands: {
+        setup: "go mod download",
+        test: "go test ./...",
+        build: "go build ./...",
+        dev: "go run .",
+      },
+      sources: {},
+    };
+  }
+
+  if (manifests.has("pom.xml")) {
+    const mvn = manifests.has("mvnw") ? "./mvnw" : "mvn";
+    return {
+      projectType: "java",
+      packageManager: "maven",
+      commands: {
+        setup: `${mvn} install -DskipTests`,
+        test: `${mvn} test`,
+        build: `${mvn} package`,
+      },
+      sources: {},
+    };
+  }
+
+  return null;
+}
+
+const MANIFEST_BY_PACKAGE_MANAGER: Record<PackageManager, ManifestFile> = {
+  npm: "package.json",
+  pnpm: "package.json",
+  yarn: "package.json",
+  bun: "package.json",
+  pip: "pyproject.toml",
+  poetry: "pyproject.toml",
+  uv: "pyproject.toml",
+  cargo: "Cargo.toml",
+  go: "go.mod",
+  maven: "pom.xml",
+};
+
+/** Makefile targets that stand in for each command, in order of preference */
+const MAKE_TARGETS: Record<keyof TechStack, string[]> = {
+  setup: ["install", "setup", "deps"],
+  test: ["test"],
+  build: ["build"],
+  dev: ["dev", "run", "serve"],
+};
+
+/**
+ * Infers the project type, package manager and setup/test/build/dev commands
+ * from the manifests in the project root. A Makefile fills in commands the
+ * language manifest doesn't define. Returns null when nothing is recognized.
+ */
+export async function scanRepositoryStack(projectDir: string): Promise<RepoStack | null> {
+  const manifests = await readManifests(projectDir);
+  const scanned = scanNode(manifests) ?? scanPython(manifests) ?? scanCompiled(manifests);
+  const stack: RepoStack = scanned ?? {
+    projectType: "unknown",
+    packageManager: null,
+    commands: {},
+    sources: {},
+  };
+
+  if (stack.packageManager) {
+    const manifest =
+      stack.packageManager === "pip" && !manifests.has("pyproject.toml")
+        ? "requirements.txt"
+        : MANIFEST_BY_PACKAGE_MANAGER[stack.packageManager];
+    for (const key of Object.keys(stack.commands) as (keyof TechStack)[]) {
+      stack.sources[key] = manifest;
+    }
+  }
+
+  const makefile = manifests.get("Makefile");
+  if (makefile !== undefined) {
+    const targets = new Set([...makefile.matchAll(MAKE_TARGET_PATTERN)].map((match) => match[1]));
+    for (const [key, candidates] of Object.entries(MAKE_TARGETS) as [keyof TechStack, string[]][]) {
+      const target = candidates.find((candidate) => targets.has(candidate));
+      if (target && !stack.commands[key]) {
+        stack.commands[key] = `make ${target}`;
+        stack.sources[key] = "Makefile";
+      }
+    }
+  }
+
+  return scanned || Object.keys(stack.commands).length > 0 ? stack : null;
+}
+
+export interface MergedTechStack {
+  stack: TechStack | null;
+  /** One message per command where the repository and architecture doc disagree */
+  conflicts: string[];
+}
+
+/**
+ * Merges repository commands with the ones guessed from the architecture
+ * doc. Repository commands win, since they are what the project really runs;
+ * the doc fills the gaps. Commands neither source knows stay empty.
+ */
+export function mergeTechStacks(
+  repoStack: RepoStack | null,
+  docStack: TechStack | null
+): MergedTechStack {
+  if (!repoStack && !docStack) {
+    return { stack: null, conflicts: [] };
+  }
+
+  const conflicts: string[] = [];
+  const merged: TechStack = { setup: "", test: "", build: "", dev: "" };
+  for (const key of Object.keys(merged) as (keyof TechStack)[]) {
+    const repoCommand = repoStack?.commands[key];
+    const docCommand = docStack?.[key];
+    const source = repoStack?.sources[key] ?? "the repository";
+    merged[key] = repoCommand ?? docCommand ?? "";
+    if (repoCommand && docCommand && repoCommand !== docCommand) {
+      conflicts.push(
+        `Tech stack ${key} command from ${source} ("${repoCommand}") differs from the architecture doc ("${docCommand}"); using "${repoCommand}"`
+      );
+    }
+  }
+
+  return { stack: merged, conflicts };
+}
+
+/**
+ * Fills PROJECT_TYPE and TEST_COMMAND in .ralphrc from the repository scan,
+ * but only while they still hold the template defaults, so values the user
+ * chose are never replaced.
+ */
+export function fillRalphrcStackDefaults(content: string, repoStack: RepoStack): string {
+  const entries = parseRalphrc(content).entries;
+  let result = content;
+
+  const projectType = entries.get("PROJECT_TYPE")?.value ?? "unknown";
+  if (projectType === "unknown" && repoStack.projectType !== "unknown") {
+    result = setRalphrcValue(result, "PROJECT_TYPE", repoStack.projectType);
+  }
+
+  const testCommand = entries.get("TEST_COMMAND")?.value ?? "";
+  if (testCommand === "" && repoStack.commands.test) {
+    result = setRalphrcValue(result, "TEST_COMMAND", repoStack.commands.test);
+  }
+
+  return result;
+}
@@ -5,6 +5,7 @@ import { debug } from "../utils/logger.js";
 import { formatError } from "../utils/errors.js";
 import { getFilesRecursive } from "../utils/file-system.js";
 import { DIFF_LINE_PREVIEW_LENGTH } from "../utils/constants.js";
+import { diffMarkdownSpec } from "./specs-section-diff.js";
 
 function getFirstDiffLine(oldContent: string, newContent: string): string {
   const oldLines = oldContent.split("\n");
@@ -54,6 +55,7 @@ export async function generateSpecsChangelog(
           file,
           status: "modified",
           summary: getFirstDiffLine(oldContent, newContent),
+          ...(file.endsWith(".md") && diffMarkdownSpec(oldContent, newContent)),
         });
       }
     }
@@ -69,6 +71,50 @@ export async function generateSpecsChangelog(
   return changes;
 }
 
+/**
+ * Lines describing the story and section changes inside a modified file.
+ * Nested lines (acceptance criteria of a story) are indented by two spaces.
+ */
+export function describeSpecsChangeDetails(change: SpecsChange): string[] {
+  const lines: string[] = [];
+
+  for (const story of change.stories ?? []) {
+    switch (story.status) {
+      case "added":
+      case "removed":
+        lines.push(`Story ${story.id} ${story.status}: ${story.title}`);
+        continue;
+      case "renamed":
+        lines.push(`Story ${story.id} renamed: ${story.previousTitle ?? ""} -> ${story.title}`);
+        break;
+      case "modified":
+        lines.push(`Story ${story.id} modified: ${story.title}`);
+        break;
+    }
+    if (story.descriptionChanged) {
+      lines.push("  Description changed");
+    }
+    for (const criterion of story.addedCriteria ?? []) {
+      lines.push(`  AC added: ${criterion}`);
+    }
+    for (const criterion of story.removedCriteria ?? []) {
+      lines.push(`  AC removed: ${criterion}`);
+    }
+    if (story.addedDependencies) {
+      lines.push(`  Depends on added: ${story.addedDependencies.join(", ")}`);
+    }
+    if (story.removedDependencies) {
+      lines.push(`  Depends on removed: ${story.removedDependencies.join(", ")}`);
+    }
+  }
+
+  for (const section of change.sections ?? []) {
+    lines.push(`Section ${section.status}: ${section.heading}`);
+  }
+
+  return lines;
+}
+
 export function formatChangelog(changes: SpecsChange[], timestamp: string): string {
   if (changes.length === 0) {
     return `# Specs Changelog\n\nNo changes detected.\n`;
@@ -84,7 +130,13 @@ export function formatChangelog(changes: SpecsChange[], timestamp: string): stri
     md += `## Added\n${added.map((c) => `- ${c.file}`).join("\n")}\n\n`;
   }
   if (modified.length) {
-    md += `## Modified\n${modified.map((c) => `- ${c.file}${c.summary ? ` (${c.summary})` : ""}`).join("\n")}\n\n`;
+    const entries = modified.map((c) =>
+      [
+        `- ${c.file}${c.summary ? ` (${c.summary})` : ""}`,
+        ...describeSpecsChangeDetails(c).map((line) => `  ${line.replace(/^( *)/, "$1- ")}`),
+      ].join("\n")
+    );
+    md += `## Modified\n${entries.join("\n")}\n\n`;
   }
   if (removed.length) {
     md += `## Removed\n${removed.map((c) => `- ${c.file}`).join("\n")}\n\n`;
@@ -92,3 +144,8 @@ export function formatChangelog(changes: SpecsChange[], timestamp: string): stri
 
   return md;
 }
+
+/** Machine-readable sidecar of SPECS_CHANGELOG.md */
+export function formatChangelogJson(changes: SpecsChange[], timestamp: string): string {
+  return `${JSON.stringify({ generatedAt: timestamp, changes }, null, 2)}\n`;
+}
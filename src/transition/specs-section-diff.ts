@@ -0,0 +1,174 @@
+import { parseStoriesWithWarnings } from "./story-parsing.js";
+import type { SectionSpecChange, SpecsChange, Story, StorySpecChange } from "./types.js";
+
+const MARKDOWN_HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+const PREAMBLE_HEADING = "(top of file)";
+
+function storiesById(stories: Story[]): Map<string, Story> {
+  const byId = new Map<string, Story>();
+  for (const story of stories) {
+    if (!byId.has(story.id)) {
+      byId.set(story.id, story);
+    }
+  }
+  return byId;
+}
+
+/**
+ * Diffs two versions of an epics/stories document by story id: stories that
+ * were added, removed or renamed, and the acceptance criteria and declared
+ * dependencies that changed.
+ */
+export function diffStories(oldContent: string, newContent: string): StorySpecChange[] {
+  const oldStories = storiesById(parseStoriesWithWarnings(oldContent).stories);
+  const newStories = storiesById(parseStoriesWithWarnings(newContent).stories);
+  const changes: StorySpecChange[] = [];
+
+  for (const story of newStories.values()) {
+    const previous = oldStories.get(story.id);
+    if (!previous) {
+      changes.push({ id: story.id, title: story.title, status: "added" });
+      continue;
+    }
+
+    const addedCriteria = story.acceptanceCriteria.filter(
+      (criterion) => !previous.acceptanceCriteria.includes(criterion)
+    );
+    const removedCriteria = previous.acceptanceCriteria.filter(
+      (criterion) => !story.acceptanceCriteria.includes(criterion)
+    );
+    const previousDependencies = previous.dependsOn ?? [];
+    const dependencies = story.dependsOn ?? [];
+    const addedDependencies = dependencies.filter((id) => !previousDependencies.includes(id));
+    const removedDependencies = previousDependencies.filter((id) => !dependencies.includes(id));
+    const renamed = previous.title !== story.title;
+    const descriptionChanged = previous.description !== story.description;
+    const criteriaReordered =
+      previous.acceptanceCriteria.join("\n") !== story.acceptanceCriteria.join("\n");
+
+    if (
+      !renamed &&
+      !descriptionChanged &&
+      !criteriaReordered &&
+      addedDependencies.length === 0 &&
+      removedDependencies.length === 0
+    ) {
+      continue;
+    }
+
+    changes.push({
+      id: story.id,
+      title: story.title,
+      status: renamed ? "renamed" : "modified",
+      ...(renamed && { previousTitle: previous.title }),
+      ...(descriptionChanged && { descriptionChanged }),
+      ...(addedCriteria.length > 0 && { addedCriteria }),
+      ...(removedCriteria.length > 0 && { removedCriteria }),
+      ...(addedDependencies.length > 0 && { addedDependencies }),
+      ...(removedDependencies.length > 0 && { removedDependencies }),
+    });
+  }
+
+  for (const story of oldStories.values()) {
+    if (!newStories.has(story.id)) {
+      changes.push({ id: story.id, title: story.title, status: "removed" });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Splits markdown into sections keyed by heading path. Each section holds
+ * only its own text, up to the next heading of any level, so an edit is
+ * attributed to the innermost section that contains it.
+ */
+export function splitMarkdownSections(content: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  const headingStack: { level: number; text: string }[] = [];
+  let currentKey = PREAMBLE_HEADING;
+  let currentLines: string[] = [];
+  let inCodeFence = false;
+
+  const flush = (): void => {
+    const body = currentLines
+      .map((line) => line.trimEnd())
+      .join("\n")
+      .trim();
+    if (currentKey !== PREAMBLE_HEADING || body) {
+      let key = currentKey;
+      for (let occurrence = 2; sections.has(key); occurrence++) {
+        key = `${currentKey} (${occurrence})`;
+      }
+      sections.set(key, body);
+    }
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    if (CODE_FENCE_PATTERN.test(line)) {
+      inCodeFence = !inCodeFence;
+    }
+    const heading = inCodeFence ? null : MARKDOWN_HEADING_PATTERN.exec(line);
+    if (!heading) {
+      currentLines.push(line);
+      continue;
+    }
+
+    flush();
+    const level = heading[1]?.length ?? 1;
+    while ((headingStack.at(-1)?.level ?? 0) >= level) {
+      headingStack.pop();
+    }
+    headingStack.push({ level, text: heading[2] ?? "" });
+    currentKey = headingStack.map((entry) => entry.text).join(" > ");
+    currentLines = [];
+  }
+  flush();
+
+  return sections;
+}
+
+export function diffSections(oldContent: string, newContent: string): SectionSpecChange[] {
+  const oldSections = splitMarkdownSections(oldContent);
+  const newSections = splitMarkdownSections(newContent);
+  const changes: SectionSpecChange[] = [];
+
+  for (const [heading, body] of newSections) {
+    const previous = oldSections.get(heading);
+    if (previous === undefined) {
+      changes.push({ heading, status: "added" });
+    } else if (previous !== body) {
+      changes.push({ heading, status: "modified" });
+    }
+  }
+
+  for (const heading of oldSections.keys()) {
+    if (!newSections.has(heading)) {
+      changes.push({ heading, status: "removed" });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Describes what changed inside a modified markdown spec: story-level changes
+ * for documents that contain stories, section-level changes otherwise.
+ */
+export function diffMarkdownSpec(
+  oldContent: string,
+  newContent: string
+): Pick<SpecsChange, "stories" | "sections"> {
+  const hasStories =
+    parseStoriesWithWarnings(oldContent).stories.length > 0 ||
+    parseStoriesWithWarnings(newContent).stories.length > 0;
+
+  if (hasStories) {
+    const stories = diffStories(oldContent, newContent);
+    return stories.length > 0 ? { stories } : {};
+  }
+
+  const sections = diffSections(oldContent, newContent);
+  return sections.length > 0 ? { sections } : {};
+}
@@ -4,7 +4,7 @@ import { debug, info, warn } from "../utils/logger.js";
 import { atomicWriteFile, exists } from "../utils/file-system.js";
 import { formatError, isEnoent } from "../utils/errors.js";
 import { resolvePlanningSpecsSubpath } from "./artifacts.js";
-import { generateSpecsChangelog, formatChangelog } from "./specs-changelog.js";
+import { generateSpecsChangelog, formatChangelog, formatChangelogJson } from "./specs-changelog.js";
 import { generateSpecsIndex, formatSpecsIndexMd } from "./specs-index.js";
 import type { GeneratedFile } from "./types.js";
 
@@ -46,9 +46,19 @@ export async function syncPreparedSpecsDirectory(
   try {
     const changes = await generateSpecsChangelog(specsDir, specsTmpDir);
     if (changes.length > 0) {
-      const changelog = formatChangelog(changes, new Date().toISOString());
-      await atomicWriteFile(join(projectDir, ".ralph/SPECS_CHANGELOG.md"), changelog);
-      generatedFiles.push({ path: ".ralph/SPECS_CHANGELOG.md", action: "updated" });
+      const timestamp = new Date().toISOString();
+      await atomicWriteFile(
+        join(projectDir, ".ralph/SPECS_CHANGELOG.md"),
+        formatChangelog(changes, timestamp)
+      );
+      await atomicWriteFile(
+        join(projectDir, ".ralph/SPECS_CHANGELOG.json"),
+        formatChangelogJson(changes, timestamp)
+      );
+      generatedFiles.push(
+        { path: ".ralph/SPECS_CHANGELOG.md", action: "updated" },
+        { path: ".ralph/SPECS_CHANGELOG.json", action: "updated" }
+      );
       debug(`Generated SPECS_CHANGELOG.md with ${changes.length} changes`);
     }
   } catch (err) {
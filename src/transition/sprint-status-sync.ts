@@ -0,0 +1,128 @@
+import { readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { findBlockedStories, parseFixPlanStories } from "../story/fix-plan-editor.js";
+import type { FixPlanStory } from "../story/types.js";
+import { RALPH_DIR, RALPH_FIX_PLAN_FILE } from "../utils/constants.js";
+import { isEnoent } from "../utils/errors.js";
+import { atomicWriteFile, exists, getFilesRecursive } from "../utils/file-system.js";
+import { collectTransitionArtifacts } from "./artifact-collection.js";
+import { findArtifactsDir } from "./artifacts.js";
+import {
+  CANONICAL_SPRINT_STATUS_PATHS,
+  NOT_STARTED_SPRINT_STATUSES,
+  parseSprintStatus,
+  updateSprintStatus,
+} from "./sprint-status.js";
+import type { SprintStatusChange, SprintStoryStatus } from "./types.js";
+
+export interface SprintStatusSyncResult {
+  /** Project-relative path of the sprint status file */
+  path: string;
+  changes: SprintStatusChange[];
+  warnings: string[];
+}
+
+/**
+ * Locates sprint-status.yaml the same way the transition does: the
+ * implementation-artifacts locations first, then the planning artifacts.
+ */
+export async function findSprintStatusFile(projectDir: string): Promise<string | null> {
+  for (const candidate of CANONICAL_SPRINT_STATUS_PATHS) {
+    if (await exists(join(projectDir, candidate))) {
+      return candidate;
+    }
+  }
+
+  const artifactsDir = await findArtifactsDir(projectDir);
+  if (!artifactsDir) {
+    return null;
+  }
+
+  const { sprintStatusFile } = collectTransitionArtifacts(await getFilesRecursive(artifactsDir));
+  if (!sprintStatusFile) {
+    return null;
+  }
+  return relative(projectDir, join(artifactsDir, sprintStatusFile)).replace(/\\/g, "/");
+}
+
+/**
+ * Maps fix plan progress onto sprint statuses: checked stories are done and,
+ * once Ralph has started, the next actionable story (first open, unblocked
+ * one) is in-progress. Stories are never moved back from done, since the
+ * BMAD side may have completed them after the last `bmalph implement`.
+ */
+export function deriveSprintStatusUpdates(
+  stories: FixPlanStory[],
+  current: Map<string, SprintStoryStatus>
+): Map<string, SprintStoryStatus> {
+  const updates = new Map<string, SprintStoryStatus>();
+
+  for (const story of stories) {
+    if (story.status === "done" && current.has(story.id)) {
+      updates.set(story.id, "done");
+    }
+  }
+
+  if (stories.some((story) => story.status === "done")) {
+    const blockedIds = new Set(findBlockedStories(stories).map((story) => story.id));
+    const next = stories.find((story) => story.status === "pending" && !blockedIds.has(story.id));
+    const status = next ? current.get(next.id) : undefined;
+    if (next && status !== undefined && NOT_STARTED_SPRINT_STATUSES.has(status)) {
+      updates.set(next.id, "in-progress");
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Writes @fix_plan.md progress back to sprint-status.yaml. Returns null when
+ * the project has no sprint status file; an unparseable file is reported in
+ * warnings and left untouched.
+ */
+export async function syncSprintStatusBack(
+  projectDir: string
+): Promise<SprintStatusSyncResult | null> {
+  const path = await findSprintStatusFile(projectDir);
+  if (!path) {
+    return null;
+  }
+
+  let fixPlan: string;
+  try {
+    fixPlan = await readFile(join(projectDir, RALPH_DIR, RALPH_FIX_PLAN_FILE), "utf-8");
+  } catch (err) {
+    if (isEnoent(err)) {
+      throw new Error(`No ${RALPH_DIR}/${RALPH_FIX_PLAN_FILE} found. Run: bmalph implement`, {
+        cause: err,
+      });
+    }
+    throw err;
+  }
+
+  const content = await readFile(join(projectDir, path), "utf-8");
+  const sprintStatus = parseSprintStatus(content);
+  if (!sprintStatus.valid) {
+    return {
+      path,
+      changes: [],
+      warnings: [...sprintStatus.warnings, `${path} was not updated`],
+    };
+  }
+
+  const stories = parseFixPlanStories(fixPlan);
+  const warnings = [...sprintStatus.warnings];
+  for (const story of stories) {
+    if (!sprintStatus.storyStatusById.has(story.id)) {
+      warnings.push(`Sprint status is missing story ${story.id} (${story.title})`);
+    }
+  }
+
+  const updates = deriveSprintStatusUpdates(stories, sprintStatus.storyStatusById);
+  const result = updateSprintStatus(content, updates);
+  if (result.changes.length > 0) {
+    await atomicWriteFile(join(projectDir, path), result.content);
+  }
+
+  return { path, changes: result.changes, warnings };
+}
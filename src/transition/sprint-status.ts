@@ -1,4 +1,14 @@
-import type { SprintStatusParseResult, SprintStoryStatus } from "./types.js";
+import type {
+  SprintStatusChange,
+  SprintStatusParseResult,
+  SprintStatusUpdateResult,
+  SprintStoryStatus,
+} from "./types.js";
+
+export const CANONICAL_SPRINT_STATUS_PATHS = [
+  "_bmad-output/implementation-artifacts/sprint-status.yaml",
+  "_bmad-output/implementation_artifacts/sprint-status.yaml",
+];
 
 const STORY_STATUSES = new Set<SprintStoryStatus>([
   "backlog",
@@ -11,6 +21,9 @@ const STORY_STATUSES = new Set<SprintStoryStatus>([
 const EPIC_STATUSES = new Set(["backlog", "in-progress", "done", "contexted"]);
 const RETROSPECTIVE_STATUSES = new Set(["optional", "done"]);
 
+const ENTRY_LINE_PATTERN = /^(\s+)([^:#]+)(:\s*)([a-z-]+)(\s*)$/i;
+export const NOT_STARTED_SPRINT_STATUSES = new Set<string>(["backlog", "ready-for-dev", "drafted"]);
+
 function parseIndentedEntry(line: string): { key: string; status: string } | null {
   const match = /^\s+([^:#]+):\s*([a-z-]+)\s*$/i.exec(line);
   if (!match) return null;
@@ -108,3 +121,79 @@ export function parseSprintStatus(content: string): SprintStatusParseResult {
     valid: true,
   };
 }
+
+function findDevelopmentStatusRange(lines: string[]): { start: number; end: number } | null {
+  const index = lines.findIndex((line) => /^development_status:\s*$/i.test(line));
+  if (index === -1) return null;
+
+  let end = index + 1;
+  while (end < lines.length && !/^\S/.test(lines[end] ?? "")) {
+    end++;
+  }
+  return { start: index + 1, end };
+}
+
+function rollUpEpicStatus(current: string, storyStatuses: string[]): string {
+  if (storyStatuses.length === 0) return current;
+  if (storyStatuses.every((status) => status === "done")) return "done";
+  if (storyStatuses.some((status) => !NOT_STARTED_SPRINT_STATUSES.has(status)))
+    return "in-progress";
+  return current === "done" ? "in-progress" : current;
+}
+
+/**
+ * Rewrites story statuses in the development_status section and rolls the
+ * epic entries up from their stories. Only the status values change, so
+ * comments, blank lines and key order are kept as written.
+ */
+export function updateSprintStatus(
+  content: string,
+  storyUpdates: Map<string, SprintStoryStatus>
+): SprintStatusUpdateResult {
+  const lines = content.split("\n");
+  const range = findDevelopmentStatusRange(lines);
+  if (!range) {
+    return { content, changes: [] };
+  }
+
+  const changes: SprintStatusChange[] = [];
+  const storyStatusesByEpic = new Map<string, string[]>();
+  const epicLines: { index: number; epic: string }[] = [];
+
+  const setStatus = (index: number, status: string): void => {
+    const line = lines[index] ?? "";
+    const match = ENTRY_LINE_PATTERN.exec(line.replace(/\r$/, ""));
+    if (!match) return;
+    const [, indent, key, separator, from, trailing] = match;
+    if (from?.toLowerCase() === status) return;
+    const eol = line.endsWith("\r") ? "\r" : "";
+    lines[index] = `${indent}${key}${separator}${status}${trailing}${eol}`;
+    changes.push({ key: (key ?? "").trim(), from: from ?? "", to: status });
+  };
+
+  for (let index = range.start; index < range.end; index++) {
+    const entry = parseIndentedEntry((lines[index] ?? "").replace(/\r$/, ""));
+    if (!entry || entry.key.endsWith("-retrospective")) continue;
+
+    const epicMatch = /^epic-(\d+)$/.exec(entry.key);
+    if (epicMatch) {
+      epicLines.push({ index, epic: epicMatch[1] ?? "" });
+      continue;
+    }
+
+    const storyId = storyIdFromKey(entry.key);
+    if (!storyId) continue;
+
+    const status = storyUpdates.get(storyId) ?? entry.status;
+    setStatus(index, status);
+    const epic = storyId.split(".")[0] ?? "";
+    storyStatusesByEpic.set(epic, [...(storyStatusesByEpic.get(epic) ?? []), status]);
+  }
+
+  for (const { index, epic } of epicLines) {
+    const current = parseIndentedEntry((lines[index] ?? "").replace(/\r$/, ""))?.status ?? "";
+    setStatus(index, rollUpEpicStatus(current, storyStatusesByEpic.get(epic) ?? []));
+  }
+
+  return { content: lines.join("\n"), changes };
+}
@@ -0,0 +1,128 @@
+import type { Story } from "./types.js";
+import { compareStoryIds } from "./story-id.js";
+
+const DEPENDENCY_LINE_PATTERN =
+  /^(?:[-*]\s+)?(?:\*\*)?(?:Depends\s+on|Dependencies|Prerequisites?|Blocked\s+by)(?:\s*:\s*\*\*|\*\*\s*:|\s*:)\s*(.*)$/i;
+const STORY_REFERENCE_PATTERN =
+  /\bStor(?:y|ies)\s+(\d+\.\d+(?:\s*(?:,|and|&)\s*(?:Story\s+)?\d+\.\d+)*)/gi;
+const LEADING_ID_LIST_PATTERN = /^\d+\.\d+(?:\s*(?:,|and|&)\s*\d+\.\d+)*/;
+const DEPENDENCY_ID_PATTERN = /\b(\d+\.\d+)\b/g;
+const FIX_PLAN_DEPENDS_ON_PATTERN = /^Depends on:\s*(.+)$/;
+
+function storyIdsIn(text: string): string[] {
+  return [...text.matchAll(DEPENDENCY_ID_PATTERN)].map((match) => match[1] ?? "");
+}
+
+/**
+ * Returns the story ids declared on a dependency line such as
+ * `**Depends on:** Story 1.3` or `Prerequisites: 1.1, 1.2`, or null when the
+ * line is not a dependency declaration. The label needs its colon, and only
+ * ids written as `Story N.M` or listed right after the label count, so
+ * `Prerequisites: Node 18.0` stays part of the story text.
+ */
+export function parseDependencyLine(line: string): string[] | null {
+  const value = DEPENDENCY_LINE_PATTERN.exec(line.trim())?.[1];
+  if (value === undefined) {
+    return null;
+  }
+
+  const references = [...value.matchAll(STORY_REFERENCE_PATTERN)];
+  const ids =
+    references.length > 0
+      ? references.flatMap((match) => storyIdsIn(match[1] ?? ""))
+      : storyIdsIn(LEADING_ID_LIST_PATTERN.exec(value)?.[0] ?? "");
+  return ids.length > 0 ? ids : null;
+}
+
+/** Reads the ids from a fix plan `Depends on:` detail line (without the `>` marker) */
+export function parseFixPlanDependsOn(detail: string): string[] {
+  const match = FIX_PLAN_DEPENDS_ON_PATTERN.exec(detail.trim());
+  if (!match) {
+    return [];
+  }
+  return storyIdsIn(match[1] ?? "");
+}
+
+export interface DanglingDependency {
+  storyId: string;
+  dependencyId: string;
+}
+
+export function findDanglingDependencies(stories: Story[]): DanglingDependency[] {
+  const ids = new Set(stories.map((story) => story.id));
+  return stories.flatMap((story) =>
+    (story.dependsOn ?? [])
+      .filter((dependencyId) => !ids.has(dependencyId))
+      .map((dependencyId) => ({ storyId: story.id, dependencyId }))
+  );
+}
+
+/**
+ * Finds dependency cycles among known stories. Each cycle is reported once,
+ * as the list of story ids along the cycle starting from its lowest id.
+ */
+export function findDependencyCycles(stories: Story[]): string[][] {
+  const graph = new Map(stories.map((story) => [story.id, story.dependsOn ?? []]));
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+  const cycles = new Map<string, string[]>();
+
+  const visit = (id: string): void => {
+    state.set(id, "visiting");
+    path.push(id);
+    for (const dependencyId of graph.get(id) ?? []) {
+      if (!graph.has(dependencyId)) continue;
+      const dependencyState = state.get(dependencyId);
+      if (dependencyState === "visiting") {
+        const cycle = path.slice(path.indexOf(dependencyId));
+        const lowest = [...cycle].sort(compareStoryIds)[0] ?? dependencyId;
+        const start = cycle.indexOf(lowest);
+        const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(normalized.join(" "), normalized);
+      } else if (dependencyState === undefined) {
+        visit(dependencyId);
+      }
+    }
+    path.pop();
+    state.set(id, "done");
+  };
+
+  for (const story of stories) {
+    if (!state.has(story.id)) {
+      visit(story.id);
+    }
+  }
+
+  return [...cycles.values()];
+}
+
+/**
+ * Orders stories so that every story comes after the stories it depends on.
+ * Among stories whose dependencies are satisfied, the input order wins, so an
+ * input without dependencies is returned unchanged. Stories caught in a cycle
+ * keep their input order at the end; unknown dependency ids are ignored.
+ */
+export function orderStoriesByDependencies(stories: Story[]): Story[] {
+  const ids = new Set(stories.map((story) => story.id));
+  const remaining = new Map<Story, Set<string>>(
+    stories.map((story) => [
+      story,
+      new Set((story.dependsOn ?? []).filter((id) => ids.has(id) && id !== story.id)),
+    ])
+  );
+  const ordered: Story[] = [];
+
+  while (remaining.size > 0) {
+    const next = stories.find((story) => remaining.get(story)?.size === 0);
+    if (!next) {
+      break;
+    }
+    ordered.push(next);
+    remaining.delete(next);
+    for (const dependencies of remaining.values()) {
+      dependencies.delete(next.id);
+    }
+  }
+
+  return [...ordered, ...stories.filter((story) => remaining.has(story))];
+}
@@ -67,3 +67,7 @@ export function formatStoryAnchor(value: string): string {
 export function formatMalformedStoryIdWarning(id: string, title: string): string {
   return `Malformed story ID "${id}" in "${title}" (expected format: N.M)`;
 }
+
+export function formatMissingEpicWarning(id: string, title: string): string {
+  return `Story ${id}: "${title}" is not under an epic`;
+}
@@ -2,20 +2,36 @@ import type { Story } from "./types.js";
 import {
   STORY_HEADER_PATTERN,
   formatMalformedStoryIdWarning,
+  formatMissingEpicWarning,
   isCanonicalStoryId,
 } from "./story-id.js";
+import { parseDependencyLine } from "./story-dependencies.js";
 
 // Cached regex patterns for performance (compiled once at module load)
-const GIVEN_LINE_PATTERN = /^(?:[-*]\s+)?(?:\*\*)?Given(?:\*\*)?\s/i;
-const AC_KEYWORD_LINE_PATTERN = /^(?:[-*]\s+)?(?:\*\*)?(Given|When|Then|And)(?:\*\*)?\s/i;
+const GIVEN_LINE_PATTERN = /^(?:(?:[-*]|\d+\.)\s+)?(?:\*\*)?Given(?:\*\*)?\s/i;
+const AC_KEYWORD_LINE_PATTERN = /^(?:(?:[-*]|\d+\.)\s+)?(?:\*\*)?(Given|When|Then|And)(?:\*\*)?\s/i;
+const LIST_MARKER_PATTERN = /^(?:[-*]|\d+\.)\s+/;
 const BOLD_PATTERN = /\*\*/g;
-const EPIC_HEADER_PATTERN = /^##\s+Epic\s+\d+:\s+(.+)/;
+const EPIC_HEADER_PATTERN = /^##\s+Epic\s+(\d+):\s+(.+)/;
 const HEADING_PATTERN = /^#{2,3}\s/;
-const AC_HEADING_PATTERN = /^\*?\*?Acceptance Criteria\*?\*?:?/i;
+const SUBHEADING_PATTERN = /^#{4,6}\s/;
+const AC_HEADING_PATTERN = /^(?:#{4,6}\s+)?\*?\*?Acceptance Criteria\*?\*?:?/i;
+const STORY_STATUS_LINE_PATTERN = /^Status:\s*[a-z-]+$/i;
+const ANY_HEADING_PATTERN = /^(#{1,6})(\s)/;
+const SHARD_EPIC_HEADER_PATTERN = /^(#{1,6})\s+Epic\s+\d+:/m;
+const SHARD_STORY_HEADER_PATTERN = /^(#{1,6})\s+Story\s+[\d.]+:/m;
+
+export interface ParsedEpic {
+  number: number;
+  epic: string;
+  epicDescription: string;
+}
 
 export interface ParseStoriesResult {
   stories: Story[];
   warnings: string[];
+  /** Every epic header, including epics without stories in this file */
+  epics: ParsedEpic[];
 }
 
 function isGivenLine(line: string): boolean {
@@ -31,9 +47,34 @@ function stripBold(text: string): string {
 }
 
 function normalizeAcLine(line: string): string {
-  return stripBold(line)
-    .replace(/^[-*]\s+/, "")
-    .trim();
+  return stripBold(line).replace(LIST_MARKER_PATTERN, "").trim();
+}
+
+/**
+ * BMAD's shard-doc promotes headings by one level when it splits a document
+ * (`## Epic 1` becomes `# Epic 1`), and per-story files open with
+ * `# Story 1.1`. Demotes every heading so epics sit at `##` and stories at
+ * `###` again, as in a whole epics document.
+ */
+function normalizeShardHeadings(content: string): string {
+  const epicLevel = SHARD_EPIC_HEADER_PATTERN.exec(content)?.[1]?.length;
+  const storyLevel = SHARD_STORY_HEADER_PATTERN.exec(content)?.[1]?.length;
+  const shift =
+    epicLevel !== undefined ? 2 - epicLevel : storyLevel !== undefined ? 3 - storyLevel : 0;
+  if (shift <= 0) {
+    return content;
+  }
+
+  return content
+    .split("\n")
+    .map((line) =>
+      line.replace(
+        ANY_HEADING_PATTERN,
+        (_match, hashes: string, space: string) =>
+          `${"#".repeat(Math.min(hashes.length + shift, 6))}${space}`
+      )
+    )
+    .join("\n");
 }
 
 function isAcContinuationLine(line: string): boolean {
@@ -81,10 +122,11 @@ export function parseStoriesWithWarnings(
 ): ParseStoriesResult {
   const stories: Story[] = [];
   const warnings: string[] = [];
+  const epics: ParsedEpic[] = [];
   let currentEpic = "";
   let currentEpicDescription = "";
 
-  const lines = content.split("\n");
+  const lines = normalizeShardHeadings(content).split("\n");
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -92,7 +134,7 @@ export function parseStoriesWithWarnings(
     // Match Epic headers: ## Epic N: Title
     const epicMatch = line?.match(EPIC_HEADER_PATTERN);
     if (epicMatch) {
-      currentEpic = epicMatch[1]!.trim();
+      currentEpic = epicMatch[2]!.trim();
       // Collect all non-empty lines between epic header and first story/next heading
       const descLines: string[] = [];
       for (let j = i + 1; j < lines.length; j++) {
@@ -101,6 +143,11 @@ export function parseStoriesWithWarnings(
         if (trimmed) descLines.push(trimmed);
       }
       currentEpicDescription = descLines.join(" ");
+      epics.push({
+        number: Number(epicMatch[1]),
+        epic: currentEpic,
+        epicDescription: currentEpicDescription,
+      });
       continue;
     }
 
@@ -130,16 +177,43 @@ export function parseStoriesWithWarnings(
         acStartIndex = bodyLines.findIndex((l) => isGivenLine(l));
       }
 
-      // Description: all non-empty lines before AC
+      // Acceptance criteria: lines from AC start up to the next sub-heading
+      // (e.g. "Tasks / Subtasks" in per-story files)
+      const acSection = acStartIndex > -1 ? bodyLines.slice(acStartIndex) : [];
+      const acEndIndex = acSection.findIndex((l, index) => index > 0 && SUBHEADING_PATTERN.test(l));
+      const acLines = acEndIndex > -1 ? acSection.slice(0, acEndIndex) : acSection;
+      const acceptanceCriteria = parseAcBlocks(acLines);
+
+      // Pull out declared dependencies outside the acceptance criteria so they
+      // don't end up in the description
+      const dependsOn: string[] = [];
+      const isDependencyLine = (line: string): boolean => {
+        const ids = parseDependencyLine(line);
+        if (!ids) return false;
+        for (const depId of ids) {
+          if (!dependsOn.includes(depId)) dependsOn.push(depId);
+        }
+        return true;
+      };
       const descSource = acStartIndex > -1 ? bodyLines.slice(0, acStartIndex) : bodyLines;
+
+      // Description: all non-empty lines before AC, minus sub-headings, dependency
+      // lines and the Status line of per-story files
       const descLines: string[] = [];
       for (const dl of descSource) {
-        if (dl.trim()) descLines.push(dl.trim());
+        const trimmed = dl.trim();
+        if (
+          trimmed &&
+          !isDependencyLine(trimmed) &&
+          !SUBHEADING_PATTERN.test(trimmed) &&
+          !STORY_STATUS_LINE_PATTERN.test(trimmed)
+        ) {
+          descLines.push(trimmed);
+        }
+      }
+      if (acStartIndex > -1) {
+        bodyLines.slice(acStartIndex + acLines.length).forEach(isDependencyLine);
       }
-
-      // Acceptance criteria: lines from AC start onward
-      const acLines = acStartIndex > -1 ? bodyLines.slice(acStartIndex) : [];
-      const acceptanceCriteria = parseAcBlocks(acLines);
 
       // Warn about stories with missing acceptance criteria
       if (acceptanceCriteria.length === 0) {
@@ -153,7 +227,7 @@ export function parseStoriesWithWarnings(
 
       // Warn about stories not assigned to an epic
       if (!currentEpic) {
-        warnings.push(`Story ${id}: "${title}" is not under an epic`);
+        warnings.push(formatMissingEpicWarning(id, title));
       }
 
       stories.push({
@@ -164,9 +238,10 @@ export function parseStoriesWithWarnings(
         description: descLines.join(" "),
         acceptanceCriteria,
         sourceFile,
+        ...(dependsOn.length > 0 && { dependsOn }),
       });
     }
   }
 
-  return { stories, warnings };
+  return { stories, warnings, epics };
 }
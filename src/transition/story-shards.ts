@@ -0,0 +1,81 @@
+import type { Story } from "./types.js";
+import type { ParsedEpic } from "./story-parsing.js";
+import { compareShardPaths, parentDirectory } from "./artifact-collection.js";
+import { formatMissingEpicWarning, parseCanonicalStoryId } from "./story-id.js";
+
+const MARKDOWN_LINK_PATTERN = /\]\(\s*(?:\.\/)?([^)\s#]+\.md)(?:#[^)]*)?\s*\)/gi;
+
+/** Shard file names in the order a shard-doc `index.md` links to them */
+export function parseShardIndex(content: string): string[] {
+  const targets: string[] = [];
+  for (const match of content.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const target = match[1] ?? "";
+    if (!targets.includes(target)) {
+      targets.push(target);
+    }
+  }
+  return targets;
+}
+
+/**
+ * Orders story files so shards follow their directory's `index.md` table of
+ * contents. Shards the index doesn't list, and files outside sharded
+ * directories, keep numeric-aware path order.
+ */
+export function orderStoryFiles(
+  storyFiles: string[],
+  storyIndexFiles: string[],
+  artifactContents: ReadonlyMap<string, string>
+): string[] {
+  const positions = new Map<string, number>();
+  for (const indexFile of storyIndexFiles) {
+    const directory = parentDirectory(indexFile);
+    parseShardIndex(artifactContents.get(indexFile) ?? "").forEach((target, position) => {
+      positions.set(`${directory}/${target}`, position);
+    });
+  }
+
+  return [...storyFiles].sort((left, right) => {
+    if (parentDirectory(left) === parentDirectory(right)) {
+      const difference =
+        (positions.get(left) ?? Number.MAX_SAFE_INTEGER) -
+        (positions.get(right) ?? Number.MAX_SAFE_INTEGER);
+      if (difference !== 0) return difference;
+    }
+    return compareShardPaths(left, right);
+  });
+}
+
+/**
+ * Stories sharded one per file carry no epic heading. Attach them to the
+ * epic with the same number from another file, and drop the "not under an
+ * epic" warning for the stories that were resolved.
+ */
+export function attachShardedStoriesToEpics(
+  stories: Story[],
+  warnings: string[],
+  epics: ParsedEpic[]
+): { stories: Story[]; warnings: string[] } {
+  const epicsByNumber = new Map<number, Pick<Story, "epic" | "epicDescription">>();
+  for (const { number, epic, epicDescription } of epics) {
+    if (!epicsByNumber.has(number)) {
+      epicsByNumber.set(number, { epic, epicDescription });
+    }
+  }
+
+  const resolved = new Set<string>();
+  const attached = stories.map((story) => {
+    const parts = parseCanonicalStoryId(story.id);
+    const epic = parts ? epicsByNumber.get(parts.epic) : undefined;
+    if (story.epic || !epic) {
+      return story;
+    }
+    resolved.add(formatMissingEpicWarning(story.id, story.title));
+    return { ...story, ...epic };
+  });
+
+  return {
+    stories: attached,
+    warnings: warnings.filter((warning) => !resolved.has(warning)),
+  };
+}
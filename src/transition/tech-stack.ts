@@ -84,6 +84,8 @@ export function customizeAgentMd(template: string, stack: TechStack): string {
 
   let result = template;
   for (const { heading, command } of sections) {
+    // Unknown commands keep the template's placeholder
+    if (!command) continue;
     // Replace code block content after the section heading
     const pattern = new RegExp(
       `(## ${heading.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*\\r?\\n)\`\`\`bash\\r?\\n[\\s\\S]*?\`\`\``,
@@ -0,0 +1,240 @@
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { debug, info } from "../utils/logger.js";
+import { atomicWriteFile } from "../utils/file-system.js";
+import { combineArtifactContents } from "./artifact-collection.js";
+import { detectTechStack } from "./tech-stack.js";
+import type { LoadedTransitionInputs } from "./artifact-loading.js";
+import type { GeneratedFile, Story, TechStack } from "./types.js";
+
+export const TEST_SCAFFOLD_DIR = ".ralph/specs/acceptance";
+
+export type TestFramework = "vitest" | "jest" | "mocha" | "pytest" | "unittest" | "go" | "cargo";
+
+export interface TestScaffoldFile {
+  /** File name inside the acceptance directory */
+  name: string;
+  content: string;
+}
+
+export interface TestScaffoldResult {
+  generatedFiles: GeneratedFile[];
+  warnings: string[];
+}
+
+/** Maps the detected test command onto the framework the scaffold is written for */
+export function resolveTestFramework(stack: TechStack): TestFramework | null {
+  const command = stack.test;
+  if (/\bvitest\b/.test(command)) return "vitest";
+  if (/\bjest\b/.test(command) || command === "npm test") return "jest";
+  if (/\bmocha\b/.test(command)) return "mocha";
+  if (/\bpytest\b/.test(command)) return "pytest";
+  if (/\bunittest\b/.test(command)) return "unittest";
+  if (/^go test\b/.test(command)) return "go";
+  if (/^cargo test\b/.test(command)) return "cargo";
+  return null;
+}
+
+function storySlug(story: Story, separator: string): string {
+  return story.id.replace(/\./g, separator);
+}
+
+function quote(text: string): string {
+  return JSON.stringify(text);
+}
+
+function placeholderMessage(story: Story, index: number): string {
+  return `Story ${story.id} AC ${index + 1} is not implemented`;
+}
+
+function renderJavaScript(story: Story, framework: TestFramework): string {
+  const lines = [
+    `// Acceptance tests for Story ${story.id}: ${story.title}`,
+    "// Generated by bmalph implement --test-scaffold. Replace each placeholder with a real test.",
+  ];
+  if (framework === "vitest") {
+    lines.push("", 'import { describe, it } from "vitest";');
+  }
+  lines.push("", `describe(${quote(`Story ${story.id}: ${story.title}`)}, () => {`);
+  story.acceptanceCriteria.forEach((criterion, index) => {
+    lines.push(
+      ...(index > 0 ? [""] : []),
+      `  it(${quote(`AC ${index + 1}: ${criterion}`)}, () => {`,
+      `    throw new Error(${quote(placeholderMessage(story, index))});`,
+      "  });"
+    );
+  });
+  lines.push("});");
+  return lines.join("\n");
+}
+
+function renderPytest(story: Story): string {
+  const lines = [
+    `# Acceptance tests for Story ${story.id}: ${story.title}`,
+    "# Generated by bmalph implement --test-scaffold. Replace each placeholder with a real test.",
+    "",
+    "import pytest",
+  ];
+  story.acceptanceCriteria.forEach((criterion, index) => {
+    lines.push(
+      "",
+      "",
+      `def test_story_${storySlug(story, "_")}_ac_${index + 1}():`,
+      `    # AC ${index + 1}: ${criterion}`,
+      `    pytest.fail(${quote(placeholderMessage(story, index))})`
+    );
+  });
+  return lines.join("\n");
+}
+
+function renderUnittest(story: Story): string {
+  const lines = [
+    `# Acceptance tests for Story ${story.id}: ${story.title}`,
+    "# Generated by bmalph implement --test-scaffold. Replace each placeholder with a real test.",
+    "",
+    "import unittest",
+    "",
+    "",
+    `class TestStory${storySlug(story, "_")}(unittest.TestCase):`,
+  ];
+  story.acceptanceCriteria.forEach((criterion, index) => {
+    lines.push(
+      ...(index > 0 ? [""] : []),
+      `    def test_ac_${index + 1}(self):`,
+      `        # AC ${index + 1}: ${criterion}`,
+      `        self.fail(${quote(placeholderMessage(story, index))})`
+    );
+  });
+  lines.push("", "", 'if __name__ == "__main__":', "    unittest.main()");
+  return lines.join("\n");
+}
+
+function renderGo(story: Story): string {
+  const lines = [
+    `// Acceptance tests for Story ${story.id}: ${story.title}`,
+    "// Generated by bmalph implement --test-scaffold. Replace each placeholder with a real test.",
+    "",
+    "package acceptance",
+    "",
+    'import "testing"',
+  ];
+  story.acceptanceCriteria.forEach((criterion, index) => {
+    lines.push(
+      "",
+      `// AC ${index + 1}: ${criterion}`,
+      `func TestStory${storySlug(story, "_")}AC${index + 1}(t *testing.T) {`,
+      `\tt.Fatal(${quote(placeholderMessage(story, index))})`,
+      "}"
+    );
+  });
+  return lines.join("\n");
+}
+
+function renderCargo(story: Story): string {
+  const lines = [
+    `// Acceptance tests for Story ${story.id}: ${story.title}`,
+    "// Generated by bmalph implement --test-scaffold. Replace each placeholder with a real test.",
+  ];
+  story.acceptanceCriteria.forEach((criterion, index) => {
+    // Rust writes unicode escapes as \u{XXXX}
+    const message = quote(placeholderMessage(story, index)).replace(
+      /\\u([0-9a-fA-F]{4})/g,
+      "\\u{$1}"
+    );
+    lines.push(
+      "",
+      `// AC ${index + 1}: ${criterion}`,
+      "#[test]",
+      `fn story_${storySlug(story, "_")}_ac_${index + 1}() {`,
+      `    panic!("{}", ${message});`,
+      "}"
+    );
+  });
+  return lines.join("\n");
+}
+
+function scaffoldFileName(story: Story, framework: TestFramework): string {
+  switch (framework) {
+    case "vitest":
+    case "jest":
+    case "mocha":
+      return `story-${storySlug(story, "-")}.test.js`;
+    case "pytest":
+    case "unittest":
+      return `test_story_${storySlug(story, "_")}.py`;
+    case "go":
+      return `story_${storySlug(story, "_")}_test.go`;
+    case "cargo":
+      return `story_${storySlug(story, "_")}.rs`;
+  }
+}
+
+function renderScaffold(story: Story, framework: TestFramework): string {
+  switch (framework) {
+    case "vitest":
+    case "jest":
+    case "mocha":
+      return renderJavaScript(story, framework);
+    case "pytest":
+      return renderPytest(story);
+    case "unittest":
+      return renderUnittest(story);
+    case "go":
+      return renderGo(story);
+    case "cargo":
+      return renderCargo(story);
+  }
+}
+
+/**
+ * Renders one test file per story with a failing placeholder test for each
+ * acceptance criterion. Stories without acceptance criteria get no file.
+ */
+export function generateTestScaffolds(
+  stories: Story[],
+  framework: TestFramework
+): TestScaffoldFile[] {
+  return stories
+    .filter((story) => story.acceptanceCriteria.length > 0)
+    .map((story) => ({
+      name: scaffoldFileName(story, framework),
+      content: `${renderScaffold(story, framework)}\n`,
+    }));
+}
+
+/**
+ * Writes acceptance test scaffolds into .ralph/specs/acceptance/ using the
+ * test framework detected from the architecture tech stack. Runs after the
+ * specs tree is synced, since the sync replaces .ralph/specs/.
+ */
+export async function writeTestScaffolds(
+  projectDir: string,
+  inputs: LoadedTransitionInputs
+): Promise<TestScaffoldResult> {
+  const architectureContent = combineArtifactContents(
+    inputs.collectedArtifacts.architectureFiles,
+    inputs.artifactContents
+  );
+  const stack = architectureContent ? detectTechStack(architectureContent) : null;
+  const framework = stack ? resolveTestFramework(stack) : null;
+  if (!framework) {
+    return {
+      generatedFiles: [],
+      warnings: [
+        "Could not detect a test framework from the architecture tech stack; no acceptance test scaffolds generated",
+      ],
+    };
+  }
+
+  info(`Generating ${framework} acceptance test scaffolds...`);
+  const generatedFiles: GeneratedFile[] = [];
+  await mkdir(join(projectDir, TEST_SCAFFOLD_DIR), { recursive: true });
+  for (const file of generateTestScaffolds(inputs.stories, framework)) {
+    const path = `${TEST_SCAFFOLD_DIR}/${file.name}`;
+    await atomicWriteFile(join(projectDir, path), file.content);
+    generatedFiles.push({ path, action: "created" });
+  }
+  debug(`Generated ${generatedFiles.length} acceptance test scaffolds`);
+
+  return { generatedFiles, warnings: [] };
+}
@@ -0,0 +1,220 @@
+import { join } from "node:path";
+import { debug, info } from "../utils/logger.js";
+import { atomicWriteFile } from "../utils/file-system.js";
+import { combineArtifactContents } from "./artifact-collection.js";
+import type { LoadedTransitionInputs } from "./artifact-loading.js";
+import type { GeneratedFile, Story } from "./types.js";
+
+export const TRACEABILITY_MD_PATH = ".ralph/specs/TRACEABILITY.md";
+export const TRACEABILITY_JSON_PATH = ".ralph/specs/TRACEABILITY.json";
+
+/** A PRD line that starts with a requirement id, e.g. `- FR1: Users can log in` */
+const REQUIREMENT_DEFINITION_PATTERN =
+  /^\s*(?:[-*+]\s+|\d+\.\s+|#{1,6}\s+|\|\s*)?(?:\*\*)?(N?FR)[-_]?(\d+)\b(?:\*\*)?\s*[:.)|\-–—]?\s*(?:\*\*)?\s*(.*)$/;
+const REQUIREMENT_REFERENCE_PATTERN = /\b(N?FR)[-_]?(\d+)\b/g;
+
+export interface Requirement {
+  /** Normalized id, e.g. `FR12` for `FR-012` */
+  id: string;
+  kind: "FR" | "NFR";
+  text: string;
+}
+
+export interface AcceptanceCriterionReference {
+  storyId: string;
+  /** 1-based position of the criterion in the story */
+  criterion: number;
+}
+
+export interface RequirementTrace extends Requirement {
+  stories: string[];
+  acceptanceCriteria: AcceptanceCriterionReference[];
+}
+
+export interface UnknownRequirementReference {
+  storyId: string;
+  requirementId: string;
+}
+
+export interface TraceabilityMatrix {
+  requirements: RequirementTrace[];
+  unknownReferences: UnknownRequirementReference[];
+}
+
+function normalizeRequirementId(prefix: string, number: string): string {
+  return `${prefix}${Number(number)}`;
+}
+
+/** Requirement ids mentioned in free text, normalized and in order of first mention */
+export function findRequirementReferences(text: string): string[] {
+  const ids: string[] = [];
+  for (const match of text.matchAll(REQUIREMENT_REFERENCE_PATTERN)) {
+    const id = normalizeRequirementId(match[1] ?? "", match[2] ?? "");
+    if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Extracts FR/NFR definitions from the PRD: list items, headings or table
+ * rows that start with a requirement id. The first definition of an id wins.
+ */
+export function extractRequirements(prdContent: string): Requirement[] {
+  const requirements = new Map<string, Requirement>();
+  for (const line of prdContent.split(/\r?\n/)) {
+    const match = REQUIREMENT_DEFINITION_PATTERN.exec(line);
+    if (!match) continue;
+    const kind = match[1] === "NFR" ? "NFR" : "FR";
+    const id = normalizeRequirementId(kind, match[2] ?? "");
+    if (requirements.has(id)) continue;
+    const text = (match[3] ?? "")
+      .replace(/\|\s*$/, "")
+      .replace(/\*\*/g, "")
+      .trim();
+    requirements.set(id, { id, kind, text });
+  }
+  return [...requirements.values()];
+}
+
+/**
+ * Traces requirements to the stories that reference them. A story covers a
+ * requirement mentioned in its title, description or acceptance criteria, or
+ * in its epic's description (e.g. `**FRs covered:** FR1, FR2`). References
+ * to ids the PRD doesn't define are reported per story.
+ */
+export function buildTraceabilityMatrix(
+  requirements: Requirement[],
+  stories: Story[]
+): TraceabilityMatrix {
+  const traces = new Map<string, RequirementTrace>(
+    requirements.map((requirement) => [
+      requirement.id,
+      { ...requirement, stories: [], acceptanceCriteria: [] },
+    ])
+  );
+  const unknownReferences: UnknownRequirementReference[] = [];
+
+  for (const story of stories) {
+    const storyReferences = findRequirementReferences(`${story.title} ${story.description}`);
+    const criterionReferences = story.acceptanceCriteria.map(findRequirementReferences);
+    const referencedIds = new Set([
+      ...findRequirementReferences(story.epicDescription),
+      ...storyReferences,
+      ...criterionReferences.flat(),
+    ]);
+
+    for (const id of referencedIds) {
+      const trace = traces.get(id);
+      if (trace && !trace.stories.includes(story.id)) {
+        trace.stories.push(story.id);
+      }
+    }
+
+    criterionReferences.forEach((ids, index) => {
+      for (const id of ids) {
+        traces.get(id)?.acceptanceCriteria.push({ storyId: story.id, criterion: index + 1 });
+      }
+    });
+
+    for (const id of new Set([...storyReferences, ...criterionReferences.flat()])) {
+      if (!traces.has(id)) {
+        unknownReferences.push({ storyId: story.id, requirementId: id });
+      }
+    }
+  }
+
+  return { requirements: [...traces.values()], unknownReferences };
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+function formatCoverage(traces: RequirementTrace[], kind: Requirement["kind"]): string {
+  const ofKind = traces.filter((trace) => trace.kind === kind);
+  const covered = ofKind.filter((trace) => trace.stories.length > 0);
+  return `${covered.length}/${ofKind.length}`;
+}
+
+export function formatTraceabilityMd(matrix: TraceabilityMatrix): string {
+  const lines = [
+    "# Requirements Traceability",
+    "",
+    `Functional requirements covered: ${formatCoverage(matrix.requirements, "FR")}`,
+    `Non-functional requirements covered: ${formatCoverage(matrix.requirements, "NFR")}`,
+    "",
+    "| Requirement | Description | Stories | Acceptance Criteria |",
+    "| --- | --- | --- | --- |",
+  ];
+
+  for (const trace of matrix.requirements) {
+    const stories = trace.stories.length > 0 ? trace.stories.join(", ") : "—";
+    const criteria =
+      trace.acceptanceCriteria.length > 0
+        ? trace.acceptanceCriteria.map((ac) => `${ac.storyId} AC ${ac.criterion}`).join(", ")
+        : "—";
+    lines.push(`| ${trace.id} | ${escapeTableCell(trace.text)} | ${stories} | ${criteria} |`);
+  }
+
+  const uncovered = matrix.requirements.filter((trace) => trace.stories.length === 0);
+  if (uncovered.length > 0) {
+    lines.push("", "## Uncovered Requirements", "");
+    for (const trace of uncovered) {
+      lines.push(trace.text ? `- ${trace.id}: ${trace.text}` : `- ${trace.id}`);
+    }
+  }
+
+  if (matrix.unknownReferences.length > 0) {
+    lines.push("", "## Unknown References", "");
+    for (const reference of matrix.unknownReferences) {
+      lines.push(`- Story ${reference.storyId} references ${reference.requirementId}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function buildTraceabilityMatrixFromInputs(
+  inputs: Pick<LoadedTransitionInputs, "collectedArtifacts" | "artifactContents" | "stories">
+): TraceabilityMatrix | null {
+  const prdContent = combineArtifactContents(
+    inputs.collectedArtifacts.prdFiles,
+    inputs.artifactContents
+  );
+  const requirements = prdContent ? extractRequirements(prdContent) : [];
+  if (requirements.length === 0) {
+    return null;
+  }
+  return buildTraceabilityMatrix(requirements, inputs.stories);
+}
+
+/**
+ * Writes TRACEABILITY.md and TRACEABILITY.json into .ralph/specs/. Runs after
+ * the specs tree is synced, since the sync replaces .ralph/specs/. Skipped
+ * when the PRD defines no requirement ids.
+ */
+export async function writeTraceability(
+  projectDir: string,
+  inputs: LoadedTransitionInputs
+): Promise<GeneratedFile[]> {
+  const matrix = buildTraceabilityMatrixFromInputs(inputs);
+  if (!matrix) {
+    debug("No FR/NFR ids found in the PRD, skipping traceability matrix");
+    return [];
+  }
+
+  info("Generating TRACEABILITY.md...");
+  await atomicWriteFile(join(projectDir, TRACEABILITY_MD_PATH), formatTraceabilityMd(matrix));
+  await atomicWriteFile(
+    join(projectDir, TRACEABILITY_JSON_PATH),
+    `${JSON.stringify(matrix, null, 2)}\n`
+  );
+  debug(`Traced ${matrix.requirements.length} requirements`);
+
+  return [
+    { path: TRACEABILITY_MD_PATH, action: "created" },
+    { path: TRACEABILITY_JSON_PATH, action: "created" },
+  ];
+}
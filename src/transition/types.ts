@@ -18,6 +18,8 @@ export interface Story {
   description: string;
   acceptanceCriteria: string[];
   sourceFile: string;
+  /** Story ids declared on `Depends on:` / `Prerequisites:` lines */
+  dependsOn?: string[];
 }
 
 export type SprintStoryStatus =
@@ -34,6 +36,18 @@ export interface SprintStatusParseResult {
   valid: boolean;
 }
 
+export interface SprintStatusChange {
+  /** development_status key, e.g. `1-2-account-management` or `epic-1` */
+  key: string;
+  from: string;
+  to: string;
+}
+
+export interface SprintStatusUpdateResult {
+  content: string;
+  changes: SprintStatusChange[];
+}
+
 export interface TechStack {
   setup: string;
   test: string;
@@ -54,12 +68,46 @@ export interface TruncationInfo {
   field: string;
   originalLength: number;
   truncatedTo: number;
+  /** Estimated tokens before and after summarizing to the context budget */
+  originalTokens?: number;
+  truncatedToTokens?: number;
+  /** What the summary left out, e.g. `code blocks` */
+  dropped?: string[];
+  /** File holding the full section */
+  source?: string;
+}
+
+export interface StorySpecChange {
+  id: string;
+  title: string;
+  status: "added" | "removed" | "renamed" | "modified";
+  /** Title before a rename */
+  previousTitle?: string;
+  descriptionChanged?: boolean;
+  /** Acceptance criteria only in the new version */
+  addedCriteria?: string[];
+  /** Acceptance criteria only in the old version */
+  removedCriteria?: string[];
+  /** Story ids in `Depends on` only in the new version */
+  addedDependencies?: string[];
+  /** Story ids in `Depends on` only in the old version */
+  removedDependencies?: string[];
+}
+
+export interface SectionSpecChange {
+  /** Heading path, e.g. `Functional Requirements > Authentication` */
+  heading: string;
+  status: "added" | "removed" | "modified";
 }
 
 export interface SpecsChange {
   file: string;
   status: "added" | "modified" | "removed";
   summary?: string;
+  /** Story-level changes of a modified epics/stories file */
+  stories?: StorySpecChange[];
+  /** Section-level changes of other modified markdown files */
+  sections?: SectionSpecChange[];
 }
 
 export type SpecFileType =
@@ -98,15 +146,30 @@ export interface PreflightIssue {
   severity: PreflightSeverity;
   message: string;
   suggestion?: string;
+  /** Story the issue is about, used to match per-story suppressions */
+  storyId?: string;
+  /** Planning document the issue points at, relative to the project root */
+  file?: string;
+  /** 1-based line in `file` */
+  line?: number;
+}
+
+export interface SuppressedPreflightIssue extends PreflightIssue {
+  /** Reason given in the `preflight.suppress` config entry */
+  suppressionReason: string;
 }
 
 export interface PreflightResult {
   issues: PreflightIssue[];
+  /** Issues hidden by `preflight.suppress` entries in bmalph/config.json */
+  suppressed: SuppressedPreflightIssue[];
   pass: boolean;
 }
 
 export interface TransitionOptions {
   force?: boolean;
+  /** Write acceptance test scaffolds to .ralph/specs/acceptance/ */
+  testScaffold?: boolean;
 }
 
 export interface GeneratedFile {
@@ -119,5 +182,7 @@ export interface TransitionResult {
   warnings: string[];
   fixPlanPreserved: boolean;
   preflightIssues: PreflightIssue[];
+  /** Present only when `preflight.suppress` entries matched */
+  suppressedPreflightIssues?: SuppressedPreflightIssue[];
   generatedFiles: GeneratedFile[];
 }
@@ -0,0 +1,157 @@
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
+import { getFilesRecursive } from "../utils/file-system.js";
+import { isEnoent } from "../utils/errors.js";
+import { isRalphLoopRunning } from "../utils/ralph-runtime-state.js";
+import { FileWatcher } from "../watch/file-watcher.js";
+import { findArtifactsDir } from "./artifacts.js";
+import {
+  classifyArtifactChanges,
+  runIncrementalTransition,
+  type IncrementalTransitionResult,
+  type TransitionTarget,
+} from "./incremental.js";
+import type { TransitionOptions } from "./types.js";
+
+/** Relative path -> "mtimeMs:size" fingerprint */
+export type ArtifactSnapshot = Map<string, string>;
+
+export interface TransitionWatchOptions extends TransitionOptions {
+  projectDir: string;
+  /** Polling interval in milliseconds */
+  intervalMs?: number;
+  /** Quiet period after the last change before a cycle runs */
+  debounceMs?: number;
+  onCycle: (changedFiles: string[], result: IncrementalTransitionResult) => void;
+  onError: (error: unknown) => void;
+}
+
+const DEFAULT_WATCH_INTERVAL_MS = 500;
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+export async function snapshotArtifacts(artifactsDir: string): Promise<ArtifactSnapshot> {
+  const snapshot: ArtifactSnapshot = new Map();
+  for (const file of await getFilesRecursive(artifactsDir)) {
+    try {
+      const stats = await stat(join(artifactsDir, file));
+      snapshot.set(file, `${stats.mtimeMs}:${stats.size}`);
+    } catch (err) {
+      // Deleted between listing and stat: the next snapshot reports it
+      if (!isEnoent(err)) throw err;
+    }
+  }
+  return snapshot;
+}
+
+/** Files added, removed or modified between two snapshots, sorted */
+export function diffSnapshots(previous: ArtifactSnapshot, next: ArtifactSnapshot): string[] {
+  const changed = new Set<string>();
+  for (const [file, fingerprint] of next) {
+    if (previous.get(file) !== fingerprint) changed.add(file);
+  }
+  for (const file of previous.keys()) {
+    if (!next.has(file)) changed.add(file);
+  }
+  return [...changed].sort();
+}
+
+/**
+ * Collects changed files and releases them once no new change has arrived
+ * for the debounce period, so an editor's burst of saves becomes one cycle.
+ */
+export class ArtifactChangeDebouncer {
+  private readonly pending = new Set<string>();
+  private readonly debounceMs: number;
+  private readonly now: () => number;
+  private lastChangeAt = 0;
+
+  constructor(debounceMs: number, now: () => number = Date.now) {
+    this.debounceMs = debounceMs;
+    this.now = now;
+  }
+
+  record(files: readonly string[]): void {
+    if (files.length === 0) return;
+    for (const file of files) this.pending.add(file);
+    this.lastChangeAt = this.now();
+  }
+
+  /** Returns the settled batch and clears it, or null while changes are still arriving */
+  takeSettled(): string[] | null {
+    if (this.pending.size === 0 || this.now() - this.lastChangeAt < this.debounceMs) {
+      return null;
+    }
+    const files = [...this.pending].sort();
+    this.pending.clear();
+    return files;
+  }
+}
+
+/**
+ * Polls the BMAD artifacts directory and re-runs the affected transition steps
+ * after each settled batch of changes. A fix plan sync deferred because Ralph
+ * was running is retried once the loop stops. Resolves on SIGINT/SIGTERM.
+ */
+export async function watchTransition(options: TransitionWatchOptions): Promise<void> {
+  const { projectDir, force, testScaffold, onCycle, onError } = options;
+  const artifactsDir = await findArtifactsDir(projectDir);
+  if (!artifactsDir) {
+    throw new Error(
+      "No BMAD artifacts found. Run BMAD planning phases first (at minimum: Create PRD, Create Architecture, Create Epics and Stories)."
+    );
+  }
+
+  const debouncer = new ArtifactChangeDebouncer(options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  let snapshot = await snapshotArtifacts(artifactsDir);
+  let fixPlanDeferred = false;
+  let busy = false;
+
+  const runCycle = async (
+    changedFiles: string[],
+    targets: Set<TransitionTarget>
+  ): Promise<void> => {
+    try {
+      const result = await runIncrementalTransition(projectDir, targets, { force, testScaffold });
+      fixPlanDeferred = result.fixPlanDeferred;
+      onCycle(changedFiles, result);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const tick = async (): Promise<void> => {
+    if (busy) return;
+    busy = true;
+    try {
+      const next = await snapshotArtifacts(artifactsDir);
+      debouncer.record(diffSnapshots(snapshot, next));
+      snapshot = next;
+
+      const settled = debouncer.takeSettled();
+      if (settled) {
+        const targets = classifyArtifactChanges(settled);
+        if (fixPlanDeferred) targets.add("fixPlan");
+        await runCycle(settled, targets);
+      } else if (fixPlanDeferred && !(await isRalphLoopRunning(projectDir))) {
+        await runCycle([], new Set<TransitionTarget>(["fixPlan"]));
+      }
+    } finally {
+      busy = false;
+    }
+  };
+
+  const watcher = new FileWatcher(tick, options.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS);
+
+  return new Promise<void>((resolve) => {
+    const onSignal = (): void => {
+      watcher.stop();
+      process.removeListener("SIGINT", onSignal);
+      process.removeListener("SIGTERM", onSignal);
+      resolve();
+    };
+
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+    watcher.start();
+  });
+}
@@ -8,6 +8,7 @@ import { atomicWriteFile } from "./file-system.js";
 import { warn, debug } from "./logger.js";
 import { formatError, isEnoent } from "./errors.js";
 import type { PlatformId } from "../platform/types.js";
+import type { HookEvent } from "../run/types.js";
 
 export interface UpstreamVersions {
   bmadCommit: string;
@@ -27,12 +28,66 @@ export interface BmadConfig {
   modules?: string[];
 }
 
+export type PreflightRuleSeverity = "error" | "warning" | "info" | "off";
+
+export interface PreflightSuppression {
+  /** Rule id, e.g. `W8` */
+  rule: string;
+  /** Story ids the rule is silenced for */
+  stories: string[];
+  reason: string;
+}
+
+export interface CustomPreflightRule {
+  id: string;
+  /** Reported when the rule fails */
+  message: string;
+  /** Regular expression source, tested against the target text */
+  pattern: string;
+  flags?: string;
+  /** `story` checks each story's title, description and acceptance criteria */
+  target: "story" | "prd" | "architecture";
+  /** `require` (default) fails when the pattern is missing, `forbid` when it's present */
+  mode?: "require" | "forbid";
+  /** Defaults to `warning` */
+  severity?: Exclude<PreflightRuleSeverity, "off">;
+  suggestion?: string;
+}
+
+export interface PreflightConfig {
+  /** Severity overrides by rule id; `off` disables the rule */
+  rules?: Record<string, PreflightRuleSeverity>;
+  suppress?: PreflightSuppression[];
+  customRules?: CustomPreflightRule[];
+}
+
+export interface CommandHook {
+  /** Run through the shell in the project directory; the payload arrives as JSON on stdin */
+  command: string;
+  timeoutMs?: number;
+}
+
+export interface HttpHook {
+  /** Receives the payload as a JSON POST body */
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+export type HookTarget = CommandHook | HttpHook;
+
+export type HooksConfig = Partial<Record<HookEvent, HookTarget[]>>;
+
 export interface BmalphConfig {
   name: string;
   description: string;
   createdAt: string;
   platform?: PlatformId;
   upstreamVersions?: UpstreamVersions;
+  /** Estimated-token budget for PROJECT_CONTEXT.md */
+  contextTokenBudget?: number;
+  preflight?: PreflightConfig;
+  hooks?: HooksConfig;
 }
 
 export async function readConfig(projectDir: string): Promise<BmalphConfig | null> {
@@ -27,6 +27,9 @@ export const DEFAULT_SNIPPET_MAX_LENGTH = 60;
 /** Max length for section extraction from documents (increased to preserve full BMAD specs) */
 export const SECTION_EXTRACT_MAX_LENGTH = 5000;
 
+/** Default estimated-token budget for PROJECT_CONTEXT.md (config key `contextTokenBudget`) */
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 10000;
+
 /** Max characters for diff line preview */
 export const DIFF_LINE_PREVIEW_LENGTH = 50;
 
@@ -68,6 +71,9 @@ export const SKILLS_PREFIX = "bmad-";
 /** bmalph state subdirectory (inside BMALPH_DIR) */
 export const STATE_DIR = "bmalph/state";
 
+/** Registry of the Ralph loop started by `bmalph run` (relative to STATE_DIR) */
+export const RUN_REGISTRY_FILE = "run.json";
+
 /** bmalph config file path */
 export const CONFIG_FILE = "bmalph/config.json";
 
@@ -77,9 +83,27 @@ export const BMAD_CONFIG_FILE = "_bmad/config.yaml";
 /** Ralph status file path */
 export const RALPH_STATUS_FILE = ".ralph/status.json";
 
+/** Ralph log directory (ralph.log, driver output captured per loop) */
+export const RALPH_LOGS_DIR = ".ralph/logs";
+
+/** Ralph status log (`[timestamp] [LEVEL] message` lines written by log_status) */
+export const RALPH_LOG_FILE = ".ralph/logs/ralph.log";
+
+/** Ralph per-loop metrics log (append-only JSONL written by ralph/lib/metrics.sh) */
+export const RALPH_METRICS_FILE = ".ralph/logs/metrics.jsonl";
+
+/** Pause and step requests from the run dashboard to ralph_loop.sh (relative to RALPH_DIR) */
+export const LOOP_CONTROL_FILE = ".loop_control";
+
+/** `last_action` in .ralph/status.json while Ralph waits on a pause request */
+export const RALPH_PAUSED_ACTION = "paused";
+
 /** Ralph fix plan file name (relative to RALPH_DIR) */
 export const RALPH_FIX_PLAN_FILE = "@fix_plan.md";
 
+/** Last generated fix plan, the base for merging local edits (relative to STATE_DIR) */
+export const FIX_PLAN_BASE_FILE = "fix-plan-base.md";
+
 // =============================================================================
 // Ralph status mapping
 // =============================================================================
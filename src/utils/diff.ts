@@ -0,0 +1,192 @@
+/**
+ * Line-based unified diffs (Myers algorithm) for previewing generated files.
+ */
+
+export interface DiffOp {
+  kind: "equal" | "delete" | "insert";
+  line: string;
+}
+
+const NO_NEWLINE_MARKER = "\n\\ No newline at end of file";
+const DEFAULT_CONTEXT_LINES = 3;
+
+/** Above this many edit-graph cells the diff falls back to replacing the whole range */
+const MAX_TRACE_CELLS = 20_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (text.endsWith("\n")) {
+    lines.pop();
+  } else {
+    // Fold the marker into the last line so a newline-only change still differs
+    lines[lines.length - 1] = `${lines[lines.length - 1] ?? ""}${NO_NEWLINE_MARKER}`;
+  }
+  return lines;
+}
+
+function myersDiff(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if ((d + 1) * v.length > MAX_TRACE_CELLS) {
+      return [
+        ...a.map((line): DiffOp => ({ kind: "delete", line })),
+        ...b.map((line): DiffOp => ({ kind: "insert", line })),
+      ];
+    }
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0));
+      let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset);
+      }
+    }
+  }
+
+  return [];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d] ?? new Int32Array();
+    const k = x - y;
+    const down = k === -d || (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = v[offset + prevK] ?? 0;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: "equal", line: a[x - 1] ?? "" });
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      ops.push({ kind: "insert", line: b[y - 1] ?? "" });
+      y--;
+    } else {
+      ops.push({ kind: "delete", line: a[x - 1] ?? "" });
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ kind: "equal", line: a[x - 1] ?? "" });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Computes line operations turning `oldText` into `newText`.
+ * Common prefix and suffix lines are matched before running Myers.
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const equal = (line: string): DiffOp => ({ kind: "equal", line });
+  return [
+    ...a.slice(0, prefix).map(equal),
+    ...myersDiff(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(equal),
+  ];
+}
+
+function formatRange(start: number, length: number): string {
+  // Unified diff convention: an empty range points at the line before it
+  const first = length === 0 ? start : start + 1;
+  return length === 1 ? `${first}` : `${first},${length}`;
+}
+
+/**
+ * Renders a unified diff between two texts. Returns an empty string when they
+ * are identical. Pass null for a missing side (file created or deleted).
+ */
+export function createUnifiedDiff(
+  path: string,
+  oldText: string | null,
+  newText: string | null,
+  contextLines = DEFAULT_CONTEXT_LINES
+): string {
+  if (oldText === newText) return "";
+
+  const ops = diffLines(oldText ?? "", newText ?? "");
+  const changed = ops.flatMap((op, index) => (op.kind === "equal" ? [] : [index]));
+  if (changed.length === 0) return "";
+
+  const lines = [
+    `--- ${oldText === null ? "/dev/null" : `a/${path}`}`,
+    `+++ ${newText === null ? "/dev/null" : `b/${path}`}`,
+  ];
+
+  // Old/new line offsets before each op, for hunk headers
+  const oldIndex: number[] = [];
+  const newIndex: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldIndex.push(oldLine);
+    newIndex.push(newLine);
+    if (op.kind !== "insert") oldLine++;
+    if (op.kind !== "delete") newLine++;
+  }
+
+  let cursor = 0;
+  while (cursor < changed.length) {
+    const hunkStart = Math.max(0, (changed[cursor] ?? 0) - contextLines);
+    let last = changed[cursor] ?? 0;
+    cursor++;
+    while (cursor < changed.length && (changed[cursor] ?? 0) - last <= contextLines * 2 + 1) {
+      last = changed[cursor] ?? 0;
+      cursor++;
+    }
+    const hunkEnd = Math.min(ops.length, last + contextLines + 1);
+
+    const hunkOps = ops.slice(hunkStart, hunkEnd);
+    const oldLength = hunkOps.filter((op) => op.kind !== "insert").length;
+    const newLength = hunkOps.filter((op) => op.kind !== "delete").length;
+    lines.push(
+      `@@ -${formatRange(oldIndex[hunkStart] ?? 0, oldLength)} +${formatRange(newIndex[hunkStart] ?? 0, newLength)} @@`
+    );
+    for (const op of hunkOps) {
+      const marker = op.kind === "equal" ? " " : op.kind === "delete" ? "-" : "+";
+      lines.push(`${marker}${op.line}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
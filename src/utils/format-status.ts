@@ -9,7 +9,8 @@ const EXIT_CODE_LABELS: ReadonlyMap<number, string> = new Map([
   [143, "terminated (SIGTERM)"],
 ]);
 
-export function formatExitReason(code: number | null): string {
+export function formatExitReason(code: number | null, stopReason?: string): string {
+  if (stopReason) return `stopped: ${stopReason}`;
   if (code === null) return "unknown";
   return EXIT_CODE_LABELS.get(code) ?? `error (exit ${code})`;
 }
@@ -35,6 +36,8 @@ export function formatStatus(status: string): string {
     case "stopped":
     case "blocked":
       return chalk.red(status);
+    case "paused":
+      return chalk.cyan(status);
     case "not_started":
       return chalk.dim("not started");
     case "unknown":
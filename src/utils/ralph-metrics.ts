@@ -0,0 +1,194 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { RALPH_METRICS_FILE } from "./constants.js";
+import { isEnoent } from "./errors.js";
+import type { RalphRuntimeReadResult } from "./ralph-runtime-state.js";
+
+export const LOOP_OUTCOMES = [
+  "success",
+  "read_only_timeout",
+  "error",
+  "circuit_breaker_trip",
+  "api_limit",
+] as const;
+
+export type LoopOutcome = (typeof LOOP_OUTCOMES)[number];
+
+/**
+ * One loop record from .ralph/logs/metrics.jsonl, normalized to camelCase.
+ * Usage fields are null when the driver did not report them.
+ */
+export interface RalphLoopMetrics {
+  runId: string;
+  loop: number;
+  timestamp: string;
+  driver: string;
+  sessionId: string;
+  loopOutcome: LoopOutcome;
+  durationMs: number | null;
+  durationApiMs: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  cacheReadTokens: number | null;
+  cacheCreationTokens: number | null;
+  totalCostUsd: number | null;
+  numTurns: number | null;
+  filesChanged: number;
+  reportedFilesModified: number;
+  hasErrors: boolean;
+  exitSignal: boolean;
+  wasReadOnlyTimeout: boolean;
+  qualityGateResult: number | null;
+  hasPermissionDenials: boolean;
+  circuitBreakerState: string;
+}
+
+export interface MetricsLineError {
+  line: number;
+  error: Error;
+}
+
+export interface RalphMetricsLog {
+  records: RalphLoopMetrics[];
+  skipped: MetricsLineError[];
+}
+
+export function validateRalphLoopMetrics(data: unknown): RalphLoopMetrics {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("loopMetrics: expected an object");
+  }
+  const record = data as Record<string, unknown>;
+
+  if (typeof record.run_id !== "string") {
+    throw new Error("loopMetrics.run_id must be a string");
+  }
+
+  if (typeof record.loop !== "number" || !Number.isInteger(record.loop)) {
+    throw new Error("loopMetrics.loop must be an integer");
+  }
+
+  if (typeof record.timestamp !== "string" || Number.isNaN(Date.parse(record.timestamp))) {
+    throw new Error("loopMetrics.timestamp must be a valid timestamp");
+  }
+
+  if (
+    typeof record.loop_outcome !== "string" ||
+    !(LOOP_OUTCOMES as readonly string[]).includes(record.loop_outcome)
+  ) {
+    throw new Error(`loopMetrics.loop_outcome must be one of: ${LOOP_OUTCOMES.join(", ")}`);
+  }
+
+  return {
+    runId: record.run_id,
+    loop: record.loop,
+    timestamp: record.timestamp,
+    driver: readString(record, "driver", "unknown"),
+    sessionId: readString(record, "session_id", ""),
+    loopOutcome: record.loop_outcome as LoopOutcome,
+    durationMs: readNullableNumber(record, "duration_ms"),
+    durationApiMs: readNullableNumber(record, "duration_api_ms"),
+    inputTokens: readNullableNumber(record, "input_tokens"),
+    outputTokens: readNullableNumber(record, "output_tokens"),
+    cacheReadTokens: readNullableNumber(record, "cache_read_tokens"),
+    cacheCreationTokens: readNullableNumber(record, "cache_creation_tokens"),
+    totalCostUsd: readNullableNumber(record, "total_cost_usd"),
+    numTurns: readNullableNumber(record, "num_turns"),
+    filesChanged: readNullableNumber(record, "files_changed") ?? 0,
+    reportedFilesModified: readNullableNumber(record, "reported_files_modified") ?? 0,
+    hasErrors: readBoolean(record, "has_errors"),
+    exitSignal: readBoolean(record, "exit_signal"),
+    wasReadOnlyTimeout: readBoolean(record, "was_read_only_timeout"),
+    qualityGateResult: readNullableNumber(record, "quality_gate_result"),
+    hasPermissionDenials: readBoolean(record, "has_permission_denials"),
+    circuitBreakerState: readString(record, "circuit_breaker_state", "UNKNOWN"),
+  };
+}
+
+/**
+ * Parses metrics JSONL content line by line. Blank lines are ignored and
+ * malformed lines are reported in `skipped` instead of failing the whole log,
+ * because Ralph appends best-effort and a crash can leave a partial line.
+ */
+export function parseRalphMetrics(content: string): RalphMetricsLog {
+  const records: RalphLoopMetrics[] = [];
+  const skipped: MetricsLineError[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === "") {
+      return;
+    }
+
+    try {
+      records.push(validateRalphLoopMetrics(JSON.parse(line) as unknown));
+    } catch (error) {
+      skipped.push({
+        line: index + 1,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  });
+
+  return { records, skipped };
+}
+
+export async function readRalphMetrics(
+  projectDir: string
+): Promise<RalphRuntimeReadResult<RalphMetricsLog>> {
+  const path = join(projectDir, RALPH_METRICS_FILE);
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch (error) {
+    if (isEnoent(error)) {
+      return { kind: "missing", path };
+    }
+
+    return {
+      kind: "unreadable",
+      path,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+
+  return { kind: "ok", path, value: parseRalphMetrics(content) };
+}
+
+function readNullableNumber(data: Record<string, unknown>, key: string): number | null {
+  const value = data[key];
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`loopMetrics.${key} must be a number or null`);
+  }
+
+  return value;
+}
+
+function readBoolean(data: Record<string, unknown>, key: string): boolean {
+  const value = data[key];
+  if (value === undefined) {
+    return false;
+  }
+
+  if (typeof value !== "boolean") {
+    throw new Error(`loopMetrics.${key} must be a boolean`);
+  }
+
+  return value;
+}
+
+function readString(data: Record<string, unknown>, key: string, fallback: string): string {
+  const value = data[key];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+
+  if (typeof value !== "string") {
+    throw new Error(`loopMetrics.${key} must be a string`);
+  }
+
+  return value;
+}
@@ -79,6 +79,15 @@ export async function readRalphRuntimeStatus(
   }
 }
 
+/**
+ * Whether .ralph/status.json reports an active loop. A loop that crashed can
+ * leave "running" behind, so callers that refuse to write should offer --force.
+ */
+export async function isRalphLoopRunning(projectDir: string): Promise<boolean> {
+  const status = await readRalphRuntimeStatus(projectDir);
+  return status.kind === "ok" && status.value.status === "running";
+}
+
 export async function readRalphRuntimeSession(
   projectDir: string
 ): Promise<RalphRuntimeReadResult<RalphSession>> {
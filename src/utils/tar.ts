@@ -0,0 +1,139 @@
+/**
+ * Minimal ustar reader/writer for bmalph archives: regular files only,
+ * gzip-compressed. Directories are implied by file paths.
+ */
+import { gunzipSync, gzipSync } from "node:zlib";
+
+export interface TarEntry {
+  /** Forward-slash relative path */
+  path: string;
+  content: Buffer;
+  mtime?: Date;
+}
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+const PREFIX_LENGTH = 155;
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf-8");
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeString(header, value.toString(8).padStart(length - 1, "0") + "\0", offset, length);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const text = readString(header, offset, length).trim();
+  return text === "" ? 0 : parseInt(text, 8);
+}
+
+/** Splits a long path into ustar prefix and name fields at a "/" boundary */
+function splitPath(path: string): { prefix: string; name: string } {
+  if (Buffer.byteLength(path) <= NAME_LENGTH) {
+    return { prefix: "", name: path };
+  }
+  for (let i = path.indexOf("/"); i !== -1; i = path.indexOf("/", i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= PREFIX_LENGTH && Buffer.byteLength(name) <= NAME_LENGTH) {
+      return { prefix, name };
+    }
+  }
+  throw new Error(`Path too long for archive: ${path}`);
+}
+
+function createHeader(entry: TarEntry): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { prefix, name } = splitPath(entry.path);
+  const mtime = Math.floor((entry.mtime ?? new Date()).getTime() / 1000);
+
+  writeString(header, name, 0, NAME_LENGTH);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, entry.content.length, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(" ", 148, 156); // checksum is computed with its own field as spaces
+  writeString(header, "0", 156, 1);
+  writeString(header, "ustar\0", 257, 6);
+  writeString(header, "00", 263, 2);
+  writeString(header, prefix, 345, PREFIX_LENGTH);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+  return header;
+}
+
+function padding(size: number): Buffer {
+  const remainder = size % BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : BLOCK_SIZE - remainder);
+}
+
+export function createTarGz(entries: readonly TarEntry[]): Buffer {
+  const chunks: Buffer[] = [];
+  for (const entry of entries) {
+    chunks.push(createHeader(entry), entry.content, padding(entry.content.length));
+  }
+  chunks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(chunks));
+}
+
+/**
+ * Reads the regular files of a gzip-compressed tar archive. Directory,
+ * link and extended-header entries are skipped.
+ */
+export function parseTarGz(archive: Buffer): TarEntry[] {
+  let tar: Buffer;
+  try {
+    tar = gunzipSync(archive);
+  } catch (err) {
+    throw new Error("Archive is not a valid gzip file", { cause: err });
+  }
+
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const stored = readOctal(header, 148, 8);
+    let checksum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      checksum += i >= 148 && i < 156 ? 0x20 : (header[i] ?? 0);
+    }
+    if (stored !== checksum) {
+      throw new Error(`Corrupt archive: bad header checksum at offset ${offset}`);
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = readString(header, 156, 1);
+    const name = readString(header, 0, NAME_LENGTH);
+    const prefix = readString(header, 345, PREFIX_LENGTH);
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > tar.length) {
+      throw new Error(`Corrupt archive: ${name} is truncated`);
+    }
+
+    if (type === "0" || type === "") {
+      entries.push({
+        path: prefix ? `${prefix}/${name}` : name,
+        content: Buffer.from(tar.subarray(dataStart, dataStart + size)),
+        mtime: new Date(readOctal(header, 136, 12) * 1000),
+      });
+    }
+
+    offset = dataStart + size + padding(size).length;
+  }
+
+  return entries;
+}
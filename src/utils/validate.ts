@@ -1,5 +1,18 @@
-import type { BmalphConfig, BmadConfig, UpstreamVersions } from "./config.js";
+import type {
+  BmalphConfig,
+  BmadConfig,
+  CustomPreflightRule,
+  HooksConfig,
+  HookTarget,
+  PreflightConfig,
+  PreflightRuleSeverity,
+  PreflightSuppression,
+  UpstreamVersions,
+} from "./config.js";
 import type { BmalphState } from "./state.js";
+import type { RunRegistryEntry } from "../run/run-registry.js";
+import type { RunBudget } from "../run/budget.js";
+import { HOOK_EVENTS, REVIEW_MODES } from "../run/types.js";
 import { PLATFORM_IDS, type PlatformId } from "../platform/types.js";
 import {
   DEFAULT_INTERVAL_MS,
@@ -9,6 +22,11 @@ import {
 } from "./constants.js";
 
 const VALID_STATUSES = ["planning", "implementing", "completed"] as const;
+const PREFLIGHT_SEVERITIES = ["error", "warning", "info", "off"] as const;
+const CUSTOM_RULE_TARGETS = ["story", "prd", "architecture"] as const;
+const CUSTOM_RULE_MODES = ["require", "forbid"] as const;
+// Built-in preflight rule ids (E1, W12, I2, ...) are reserved
+const BUILTIN_PREFLIGHT_RULE_ID = /^[EWI]\d+$/;
 
 // Invalid filesystem characters (Windows + POSIX)
 const INVALID_FS_CHARS = /[<>:"/\\|?*]/;
@@ -57,6 +75,190 @@ function validateUpstreamVersions(data: unknown): UpstreamVersions {
   };
 }
 
+function isOneOf<T extends string>(value: unknown, allowed: readonly T[]): value is T {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function validatePreflightSuppression(data: unknown, label: string): PreflightSuppression {
+  assertObject(data, label);
+
+  if (!isNonEmptyString(data.rule)) {
+    throw new Error(`${label}.rule must be a non-empty string`);
+  }
+  if (
+    !Array.isArray(data.stories) ||
+    data.stories.length === 0 ||
+    !data.stories.every(isNonEmptyString)
+  ) {
+    throw new Error(`${label}.stories must be a non-empty array of story ids`);
+  }
+  if (!isNonEmptyString(data.reason)) {
+    throw new Error(`${label}.reason must be a non-empty string`);
+  }
+
+  return { rule: data.rule, stories: data.stories, reason: data.reason };
+}
+
+function validateCustomPreflightRule(data: unknown, label: string): CustomPreflightRule {
+  assertObject(data, label);
+
+  if (!isNonEmptyString(data.id)) {
+    throw new Error(`${label}.id must be a non-empty string`);
+  }
+  if (BUILTIN_PREFLIGHT_RULE_ID.test(data.id)) {
+    throw new Error(`${label}.id "${data.id}" is reserved for built-in rules`);
+  }
+  if (!isNonEmptyString(data.message)) {
+    throw new Error(`${label}.message must be a non-empty string`);
+  }
+  if (typeof data.pattern !== "string") {
+    throw new Error(`${label}.pattern must be a string`);
+  }
+  if (data.flags !== undefined && typeof data.flags !== "string") {
+    throw new Error(`${label}.flags must be a string`);
+  }
+  // Stateful flags make RegExp.test() resume from lastIndex on the next story
+  if (data.flags?.includes("g") || data.flags?.includes("y")) {
+    throw new Error(`${label}.flags must not include "g" or "y"`);
+  }
+  try {
+    new RegExp(data.pattern, data.flags);
+  } catch (err) {
+    throw new Error(`${label}.pattern is not a valid regular expression`, { cause: err });
+  }
+  if (!isOneOf(data.target, CUSTOM_RULE_TARGETS)) {
+    throw new Error(`${label}.target must be one of: ${CUSTOM_RULE_TARGETS.join(", ")}`);
+  }
+  if (data.mode !== undefined && !isOneOf(data.mode, CUSTOM_RULE_MODES)) {
+    throw new Error(`${label}.mode must be one of: ${CUSTOM_RULE_MODES.join(", ")}`);
+  }
+  const severities = PREFLIGHT_SEVERITIES.filter((severity) => severity !== "off");
+  if (data.severity !== undefined && !isOneOf(data.severity, severities)) {
+    throw new Error(`${label}.severity must be one of: ${severities.join(", ")}`);
+  }
+  if (data.suggestion !== undefined && typeof data.suggestion !== "string") {
+    throw new Error(`${label}.suggestion must be a string`);
+  }
+
+  return {
+    id: data.id,
+    message: data.message,
+    pattern: data.pattern,
+    ...(data.flags !== undefined && { flags: data.flags }),
+    target: data.target,
+    ...(data.mode !== undefined && { mode: data.mode }),
+    ...(data.severity !== undefined && { severity: data.severity }),
+    ...(data.suggestion !== undefined && { suggestion: data.suggestion }),
+  };
+}
+
+function validatePreflightConfig(data: unknown): PreflightConfig {
+  assertObject(data, "config.preflight");
+  const config: PreflightConfig = {};
+
+  if (data.rules !== undefined) {
+    assertObject(data.rules, "config.preflight.rules");
+    const rules: Record<string, PreflightRuleSeverity> = {};
+    for (const [id, severity] of Object.entries(data.rules)) {
+      if (!isOneOf(severity, PREFLIGHT_SEVERITIES)) {
+        throw new Error(
+          `config.preflight.rules.${id} must be one of: ${PREFLIGHT_SEVERITIES.join(", ")}`
+        );
+      }
+      rules[id] = severity;
+    }
+    config.rules = rules;
+  }
+
+  if (data.suppress !== undefined) {
+    if (!Array.isArray(data.suppress)) {
+      throw new Error("config.preflight.suppress must be an array");
+    }
+    config.suppress = data.suppress.map((entry, index) =>
+      validatePreflightSuppression(entry, `config.preflight.suppress[${index}]`)
+    );
+  }
+
+  if (data.customRules !== undefined) {
+    if (!Array.isArray(data.customRules)) {
+      throw new Error("config.preflight.customRules must be an array");
+    }
+    const customRules = data.customRules.map((entry, index) =>
+      validateCustomPreflightRule(entry, `config.preflight.customRules[${index}]`)
+    );
+    const ids = new Set<string>();
+    for (const rule of customRules) {
+      if (ids.has(rule.id)) {
+        throw new Error(`config.preflight.customRules has duplicate id "${rule.id}"`);
+      }
+      ids.add(rule.id);
+    }
+    config.customRules = customRules;
+  }
+
+  return config;
+}
+
+function validateHookTarget(data: unknown, label: string): HookTarget {
+  assertObject(data, label);
+
+  if (data.timeoutMs !== undefined && !isPositiveInteger(data.timeoutMs)) {
+    throw new Error(`${label}.timeoutMs must be a positive integer`);
+  }
+  const timeout = data.timeoutMs !== undefined ? { timeoutMs: data.timeoutMs } : {};
+
+  if ((data.command === undefined) === (data.url === undefined)) {
+    throw new Error(`${label} must have either a command or a url`);
+  }
+
+  if (data.command !== undefined) {
+    if (!isNonEmptyString(data.command)) {
+      throw new Error(`${label}.command must be a non-empty string`);
+    }
+    return { command: data.command, ...timeout };
+  }
+
+  if (typeof data.url !== "string" || !/^https?:\/\//i.test(data.url) || !URL.canParse(data.url)) {
+    throw new Error(`${label}.url must be an http(s) URL`);
+  }
+  if (data.headers !== undefined) {
+    assertObject(data.headers, `${label}.headers`);
+    if (Object.values(data.headers).some((value) => typeof value !== "string")) {
+      throw new Error(`${label}.headers values must be strings`);
+    }
+  }
+  return {
+    url: data.url,
+    ...(data.headers !== undefined && { headers: data.headers as Record<string, string> }),
+    ...timeout,
+  };
+}
+
+function validateHooksConfig(data: unknown): HooksConfig {
+  assertObject(data, "config.hooks");
+  const hooks: HooksConfig = {};
+
+  for (const [event, targets] of Object.entries(data)) {
+    if (!isOneOf(event, HOOK_EVENTS)) {
+      throw new Error(
+        `config.hooks has unknown event "${event}". Valid events: ${HOOK_EVENTS.join(", ")}`
+      );
+    }
+    if (!Array.isArray(targets)) {
+      throw new Error(`config.hooks.${event} must be an array`);
+    }
+    hooks[event] = targets.map((target, index) =>
+      validateHookTarget(target, `config.hooks.${event}[${index}]`)
+    );
+  }
+
+  return hooks;
+}
+
 export function validateConfig(data: unknown): BmalphConfig {
   assertObject(data, "config");
 
@@ -86,12 +288,28 @@ export function validateConfig(data: unknown): BmalphConfig {
       ? validateUpstreamVersions(data.upstreamVersions)
       : undefined;
 
+  if (
+    data.contextTokenBudget !== undefined &&
+    (!Number.isInteger(data.contextTokenBudget) || (data.contextTokenBudget as number) <= 0)
+  ) {
+    throw new Error("config.contextTokenBudget must be a positive integer");
+  }
+  const contextTokenBudget = data.contextTokenBudget as number | undefined;
+
+  const preflight =
+    data.preflight !== undefined ? validatePreflightConfig(data.preflight) : undefined;
+
+  const hooks = data.hooks !== undefined ? validateHooksConfig(data.hooks) : undefined;
+
   return {
     name: data.name,
     description,
     createdAt: data.createdAt,
     ...(platform !== undefined && { platform }),
     upstreamVersions,
+    ...(contextTokenBudget !== undefined && { contextTokenBudget }),
+    ...(preflight !== undefined && { preflight }),
+    ...(hooks !== undefined && { hooks }),
   };
 }
 
@@ -234,6 +452,73 @@ export function validateState(data: unknown): BmalphState {
   };
 }
 
+const RUN_REVIEW_MODES = ["off", ...REVIEW_MODES] as const;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+const RUN_BUDGET_KEYS = ["maxCostUsd", "maxTokens", "maxLoops", "maxDurationMs"] as const;
+
+export function validateRunRegistryEntry(data: unknown): RunRegistryEntry {
+  assertObject(data, "runRegistry");
+
+  if (!isPositiveInteger(data.pid)) {
+    throw new Error("runRegistry.pid must be a positive integer");
+  }
+
+  if (data.processStartTime !== undefined && !isNonEmptyString(data.processStartTime)) {
+    throw new Error("runRegistry.processStartTime must be a non-empty string");
+  }
+
+  if (data.processGroup !== null && !isPositiveInteger(data.processGroup)) {
+    throw new Error("runRegistry.processGroup must be a positive integer or null");
+  }
+
+  if (!isNonEmptyString(data.driver)) {
+    throw new Error("runRegistry.driver must be a non-empty string");
+  }
+
+  if (!isOneOf(data.reviewMode, RUN_REVIEW_MODES)) {
+    throw new Error(`runRegistry.reviewMode must be one of: ${RUN_REVIEW_MODES.join(", ")}`);
+  }
+
+  if (typeof data.startedAt !== "string" || Number.isNaN(new Date(data.startedAt).getTime())) {
+    throw new Error("runRegistry.startedAt must be a valid timestamp");
+  }
+
+  assertObject(data.logs, "runRegistry.logs");
+  if (typeof data.logs.ralph !== "string" || typeof data.logs.metrics !== "string") {
+    throw new Error("runRegistry.logs.ralph and runRegistry.logs.metrics must be strings");
+  }
+
+  const entry: RunRegistryEntry = {
+    pid: data.pid,
+    ...(data.processStartTime !== undefined && { processStartTime: data.processStartTime }),
+    processGroup: data.processGroup,
+    driver: data.driver,
+    reviewMode: data.reviewMode,
+    startedAt: data.startedAt,
+    logs: { ralph: data.logs.ralph, metrics: data.logs.metrics },
+  };
+
+  if (data.budget !== undefined) {
+    assertObject(data.budget, "runRegistry.budget");
+    const budget: RunBudget = {};
+    for (const key of RUN_BUDGET_KEYS) {
+      const limit = data.budget[key];
+      if (limit === undefined) continue;
+      if (typeof limit !== "number" || !Number.isFinite(limit) || limit <= 0) {
+        throw new Error(`runRegistry.budget.${key} must be a positive number`);
+      }
+      budget[key] = limit;
+    }
+    entry.budget = budget;
+  }
+
+  return entry;
+}
+
 // Circuit breaker state (from .ralph/.circuit_breaker_state)
 const CIRCUIT_BREAKER_STATES = ["CLOSED", "HALF_OPEN", "OPEN"] as const;
 
@@ -470,3 +755,49 @@ export function parseInterval(value?: string): number {
   }
   return Math.trunc(interval);
 }
+
+const RELATIVE_TIME_PATTERN = /^(\d+)\s*(m|h|d|w)$/i;
+const RELATIVE_TIME_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration flag such as `--max-duration` (`90m`, `8h`, `2d`, `1w`).
+ *
+ * @throws Error if the value is not a positive duration
+ */
+export function parseDuration(value: string, flag: string): number {
+  const match = RELATIVE_TIME_PATTERN.exec(value.trim());
+  const amount = Number(match?.[1]);
+  if (!match || amount <= 0) {
+    throw new Error(`Invalid ${flag} value: ${value}. Use a duration like 90m, 8h or 2d`);
+  }
+  return amount * (RELATIVE_TIME_UNITS_MS[(match[2] ?? "").toLowerCase()] ?? 0);
+}
+
+/**
+ * Parses a time filter value such as `--since`.
+ * Accepts a relative duration (`30m`, `12h`, `7d`, `2w`) counted back from `now`,
+ * or any absolute date/time string `Date.parse` understands (e.g. `2025-06-01`).
+ *
+ * @throws Error if the value is neither a relative duration nor a valid date
+ */
+export function parseTimeFilter(value: string, flag: string, now: Date = new Date()): Date {
+  const relative = RELATIVE_TIME_PATTERN.exec(value.trim());
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unitMs = RELATIVE_TIME_UNITS_MS[(relative[2] ?? "").toLowerCase()] ?? 0;
+    return new Date(now.getTime() - amount * unitMs);
+  }
+
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(
+      `Invalid ${flag} value: ${value}. Use a duration like 24h or 7d, or a date like 2025-06-01`
+    );
+  }
+  return new Date(timestamp);
+}
@@ -1,5 +1,6 @@
 import chalk from "chalk";
 import { formatStatus } from "../utils/format-status.js";
+import { RALPH_PAUSED_ACTION } from "../utils/constants.js";
 import type {
   DashboardState,
   LoopInfo,
@@ -12,7 +13,7 @@ import type {
   SessionInfo,
 } from "./types.js";
 
-export type FooterRenderer = (lastUpdated: Date, cols: number) => string;
+export type FooterRenderer = (lastUpdated: Date, cols: number, state: DashboardState) => string;
 
 export interface DashboardRenderOptions {
   footerRenderer?: FooterRenderer;
@@ -52,7 +53,7 @@ function stripAnsi(str: string): string {
   return str.replace(ANSI_PATTERN, "");
 }
 
-function sanitizeExternalText(str: string): string {
+export function sanitizeExternalText(str: string): string {
   return str
     .replace(VT_ESCAPE_PATTERN, "")
     .replace(/\r\n?/g, " ")
@@ -263,6 +264,11 @@ export function box(title: string, lines: string[], cols: number): string {
   return [topBorder, ...contentLines, bottomBorder].join("\n");
 }
 
+/** Whether Ralph is holding between loops on a pause request */
+export function isLoopPaused(loop: LoopInfo | null): boolean {
+  return loop?.lastAction === RALPH_PAUSED_ACTION;
+}
+
 export function renderHeader(cols: number, title = "RALPH MONITOR"): string {
   const innerWidth = Math.max(0, cols - 2);
   const titleStr = truncateAnsi(title, innerWidth);
@@ -298,7 +304,8 @@ export function renderLoopPanel(
       ? Math.round((loop.callsMadeThisHour / loop.maxCallsPerHour) * 100)
       : 0;
   const loopStr = `Loop: #${String(loop.loopCount)}`;
-  const statusStr = `Status: ${formatStatus(sanitizeExternalText(loop.status))}`;
+  const status = isLoopPaused(loop) ? RALPH_PAUSED_ACTION : loop.status;
+  const statusStr = `Status: ${formatStatus(sanitizeExternalText(status))}`;
   const apiStr = `API: ${String(loop.callsMadeThisHour)}/${String(loop.maxCallsPerHour)} (${String(apiPercent)}%)`;
   const line1 = `${padRight(loopStr, 17)}${padRight(statusStr, 21)}${apiStr}`;
 
@@ -523,13 +530,15 @@ export function renderDashboard(
     lines.push("");
     lines.push(chalk.dim(padRight("  Waiting for Ralph to start...", width)));
     lines.push("");
-    lines.push(footerRenderer(state.lastUpdated, width));
+    lines.push(footerRenderer(state.lastUpdated, width, state));
     return lines.join("\n");
   }
 
   const sections: string[] = [];
 
-  sections.push(renderHeader(width));
+  sections.push(
+    renderHeader(width, isLoopPaused(state.loop) ? "RALPH MONITOR — PAUSED" : undefined)
+  );
   sections.push(renderLoopPanel(state.loop, state.execution, state.session, width, referenceTime));
 
   const leftPanel = renderCircuitBreakerPanel(state.circuitBreaker, width);
@@ -548,7 +557,7 @@ export function renderDashboard(
   }
 
   sections.push(renderLogsPanel(state.recentLogs, width));
-  sections.push(footerRenderer(state.lastUpdated, width));
+  sections.push(footerRenderer(state.lastUpdated, width, state));
 
   return sections
     .join("\n")
@@ -5,6 +5,7 @@ import { RALPH_DIR } from "../utils/constants.js";
 import { parseFixPlan } from "../transition/fix-plan.js";
 import { debug } from "../utils/logger.js";
 import { formatError } from "../utils/errors.js";
+import { LOG_LINE_PATTERN } from "../logs/parser.js";
 import {
   readRalphCircuitBreaker,
   readRalphRuntimeSession,
@@ -22,7 +23,6 @@ import type {
   LogEntry,
 } from "./types.js";
 
-const LOG_LINE_PATTERN = /^\[(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\] \[(\w+)\] (.+)$/;
 const DEFAULT_MAX_LOG_LINES = 8;
 const TAIL_BYTES = 4096;
 
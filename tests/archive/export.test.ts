@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { exportProject, redactRalphrc } from "../../src/archive/export.js";
+import { parseTarGz } from "../../src/utils/tar.js";
+
+describe("redactRalphrc", () => {
+  it("keeps template values, including their own env fallbacks", () => {
+    const content = 'PLATFORM_DRIVER="${PLATFORM_DRIVER:-codex}"\nMAX_CALLS_PER_HOUR=100\n';
+
+    expect(redactRalphrc(content)).toEqual({ content, redacted: [] });
+  });
+
+  it("comments out secret-looking keys and values expanded from other variables", () => {
+    const { content, redacted } = redactRalphrc(
+      [
+        'GITHUB_TOKEN="ghp_abc123"',
+        'TEST_COMMAND="${CI_TEST_CMD:-npm test}"',
+        "  export API_KEY=$MY_KEY",
+        "# SECRET=commented",
+        "",
+      ].join("\n")
+    );
+
+    expect(content).toBe(
+      [
+        "# GITHUB_TOKEN=<redacted by bmalph export>",
+        "# TEST_COMMAND=<redacted by bmalph export>",
+        "  # API_KEY=<redacted by bmalph export>",
+        "# SECRET=commented",
+        "",
+      ].join("\n")
+    );
+    expect(redacted).toEqual([
+      { path: ".ralph/.ralphrc", key: "GITHUB_TOKEN", reason: "secret" },
+      { path: ".ralph/.ralphrc", key: "TEST_COMMAND", reason: "env-expansion" },
+      { path: ".ralph/.ralphrc", key: "API_KEY", reason: "secret" },
+    ]);
+  });
+});
+
+describe("exportProject", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `bmalph-export-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "bmalph/state"), { recursive: true });
+    await mkdir(join(testDir, ".ralph/specs/planning-artifacts"), { recursive: true });
+    await mkdir(join(testDir, ".ralph/logs"), { recursive: true });
+    await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+    await writeFile(
+      join(testDir, "bmalph/config.json"),
+      JSON.stringify({ name: "my app", createdAt: "2025-01-01T00:00:00.000Z", platform: "codex" })
+    );
+    await writeFile(join(testDir, "bmalph/state/current-phase.json"), "{}");
+    await writeFile(join(testDir, "_bmad-output/planning-artifacts/prd.md"), "# PRD\n");
+    await writeFile(join(testDir, ".ralph/@fix_plan.md"), "- [x] Story 1.1: Done\n");
+    await writeFile(join(testDir, ".ralph/specs/planning-artifacts/prd.md"), "# PRD\n");
+    await writeFile(join(testDir, ".ralph/.ralphrc"), 'GITHUB_TOKEN="secret"\n');
+    await writeFile(join(testDir, ".ralph/logs/metrics.jsonl"), "{}\n");
+    await writeFile(join(testDir, ".ralph/logs/ralph.log"), "log line\n");
+    await writeFile(join(testDir, ".ralph/ralph_loop.sh"), "#!/bin/bash\n");
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("archives project state with a checksummed manifest", async () => {
+    const now = new Date("2026-03-04T05:06:07.000Z");
+    const { archivePath, manifest } = await exportProject(testDir, { now });
+
+    expect(archivePath).toBe(join(testDir, "bmalph-my-app-20260304-050607.tar.gz"));
+    expect(manifest.project).toEqual({ name: "my app", platform: "codex" });
+    expect(manifest.artifactsDir).toBe("_bmad-output/planning-artifacts");
+    expect(manifest.files.map((f) => f.path)).toEqual([
+      ".ralph/.ralphrc",
+      ".ralph/@fix_plan.md",
+      ".ralph/logs/metrics.jsonl",
+      ".ralph/specs/planning-artifacts/prd.md",
+      "_bmad-output/planning-artifacts/prd.md",
+      "bmalph/config.json",
+      "bmalph/state/current-phase.json",
+    ]);
+    expect(manifest.redacted).toEqual([
+      { path: ".ralph/.ralphrc", key: "GITHUB_TOKEN", reason: "secret" },
+    ]);
+
+    const entries = parseTarGz(await readFile(archivePath));
+    expect(entries[0]?.path).toBe("bmalph-archive.json");
+    const ralphrc = entries.find((e) => e.path === ".ralph/.ralphrc");
+    expect(ralphrc?.content.toString()).not.toContain("secret");
+  });
+
+  it("includes all logs when asked", async () => {
+    const { manifest } = await exportProject(testDir, {
+      output: join(testDir, "out.tar.gz"),
+      includeLogs: true,
+    });
+
+    expect(manifest.files.map((f) => f.path)).toContain(".ralph/logs/ralph.log");
+  });
+
+  it("requires an initialized project", async () => {
+    await rm(join(testDir, "bmalph/config.json"));
+
+    await expect(exportProject(testDir)).rejects.toThrow("bmalph is not initialized");
+  });
+});
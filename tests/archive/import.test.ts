@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { exportProject } from "../../src/archive/export.js";
+import { importProject, readProjectArchive } from "../../src/archive/import.js";
+import { ARCHIVE_MANIFEST_FILE, sha256 } from "../../src/archive/manifest.js";
+import { readConfig } from "../../src/utils/config.js";
+import { exists } from "../../src/utils/file-system.js";
+import { createTarGz, parseTarGz } from "../../src/utils/tar.js";
+
+const FIX_PLAN = "# Ralph Fix Plan\n\n- [x] Story 1.1: Done\n- [ ] Story 1.2: Next\n";
+
+describe("importProject", { timeout: 60000 }, () => {
+  let rootDir: string;
+  let sourceDir: string;
+  let targetDir: string;
+  let archivePath: string;
+
+  beforeEach(async () => {
+    rootDir = join(tmpdir(), `bmalph-import-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    sourceDir = join(rootDir, "source");
+    targetDir = join(rootDir, "target");
+    await mkdir(join(sourceDir, "bmalph"), { recursive: true });
+    await mkdir(join(sourceDir, ".ralph"), { recursive: true });
+    await mkdir(join(sourceDir, "_bmad-output/planning-artifacts"), { recursive: true });
+    await mkdir(targetDir, { recursive: true });
+    await writeFile(
+      join(sourceDir, "bmalph/config.json"),
+      JSON.stringify({ name: "demo", createdAt: "2025-01-01T00:00:00.000Z", platform: "codex" })
+    );
+    await writeFile(join(sourceDir, "_bmad-output/planning-artifacts/prd.md"), "# PRD\n");
+    await writeFile(join(sourceDir, ".ralph/@fix_plan.md"), FIX_PLAN);
+    archivePath = join(rootDir, "demo.tar.gz");
+    await exportProject(sourceDir, { output: archivePath });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(rootDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  async function rewriteArchive(
+    edit: (entries: ReturnType<typeof parseTarGz>) => ReturnType<typeof parseTarGz>
+  ): Promise<void> {
+    const entries = parseTarGz(await readFile(archivePath));
+    await writeFile(archivePath, createTarGz(edit(entries)));
+  }
+
+  it("restores the project and installs assets for its platform", async () => {
+    const result = await importProject(archivePath, targetDir);
+
+    expect(result.restoredFiles).toContain(".ralph/@fix_plan.md");
+    expect(await readFile(join(targetDir, ".ralph/@fix_plan.md"), "utf-8")).toBe(FIX_PLAN);
+    expect(await exists(join(targetDir, "_bmad-output/planning-artifacts/prd.md"))).toBe(true);
+    expect((await readConfig(targetDir))?.platform).toBe("codex");
+    expect(await exists(join(targetDir, ".ralph/ralph_loop.sh"))).toBe(true);
+    expect(await exists(join(targetDir, "AGENTS.md"))).toBe(true);
+  });
+
+  it("refuses to overwrite an existing project without --force", async () => {
+    await mkdir(join(targetDir, "bmalph"), { recursive: true });
+    await writeFile(join(targetDir, "bmalph/config.json"), "{}");
+
+    await expect(importProject(archivePath, targetDir)).rejects.toThrow(
+      "Target directory already contains bmalph/config.json"
+    );
+  });
+
+  it("detects tampered files", async () => {
+    await rewriteArchive((entries) =>
+      entries.map((entry) =>
+        entry.path === ".ralph/@fix_plan.md"
+          ? { ...entry, content: Buffer.from("- [x] all\n") }
+          : entry
+      )
+    );
+
+    await expect(readProjectArchive(archivePath)).rejects.toThrow(
+      "Checksum mismatch for .ralph/@fix_plan.md"
+    );
+  });
+
+  async function addArchivedFile(path: string, artifactsDir?: string): Promise<void> {
+    const content = Buffer.from("x");
+    await rewriteArchive((entries) => {
+      const manifestEntry = entries.find((e) => e.path === ARCHIVE_MANIFEST_FILE);
+      const manifest = JSON.parse(manifestEntry?.content.toString() ?? "{}");
+      manifest.files.push({ path, size: 1, sha256: sha256(content) });
+      if (artifactsDir !== undefined) manifest.artifactsDir = artifactsDir;
+      return [
+        { path: ARCHIVE_MANIFEST_FILE, content: Buffer.from(JSON.stringify(manifest)) },
+        ...entries.filter((e) => e.path !== ARCHIVE_MANIFEST_FILE),
+        { path, content },
+      ];
+    });
+  }
+
+  it("rejects unsafe paths", async () => {
+    await addArchivedFile("../evil.sh");
+
+    await expect(readProjectArchive(archivePath)).rejects.toThrow("unsafe path: ../evil.sh");
+  });
+
+  it.each([".git/hooks/pre-commit", "src/index.ts", ".ralph/ralph_loop.sh"])(
+    "rejects %s, which bmalph never exports",
+    async (path) => {
+      await addArchivedFile(path);
+
+      await expect(importProject(archivePath, targetDir, { force: true })).rejects.toThrow(
+        `path bmalph does not export: ${path}`
+      );
+      expect(await exists(join(targetDir, path))).toBe(false);
+    }
+  );
+
+  it("restores an archive's artifacts directory into the target's, never over project files", async () => {
+    await addArchivedFile("src/index.ts", "src");
+
+    const result = await importProject(archivePath, targetDir, { force: true });
+
+    expect(await exists(join(targetDir, "src/index.ts"))).toBe(false);
+    expect(
+      await readFile(join(targetDir, "_bmad-output/planning-artifacts/index.ts"), "utf-8")
+    ).toBe("x");
+    expect(result.restoredFiles).toContain("_bmad-output/planning-artifacts/index.ts");
+  });
+
+  it("uses the artifacts directory configured in the target project", async () => {
+    await addArchivedFile("docs/planning/prd.md", "docs/planning");
+    await mkdir(join(targetDir, "_bmad"), { recursive: true });
+    await writeFile(join(targetDir, "_bmad/config.yaml"), "planning_artifacts: planning\n");
+
+    await importProject(archivePath, targetDir, { force: true });
+
+    expect(await readFile(join(targetDir, "planning/prd.md"), "utf-8")).toBe("x");
+    expect(await exists(join(targetDir, "docs/planning/prd.md"))).toBe(false);
+  });
+
+  it("rejects archives from another bmalph major version unless forced", async () => {
+    await rewriteArchive((entries) =>
+      entries.map((entry) => {
+        if (entry.path !== ARCHIVE_MANIFEST_FILE) return entry;
+        const manifest = JSON.parse(entry.content.toString());
+        manifest.bmalphVersion = "0.1.0";
+        return { ...entry, content: Buffer.from(JSON.stringify(manifest)) };
+      })
+    );
+
+    await expect(importProject(archivePath, targetDir)).rejects.toThrow("exported by bmalph 0.1.0");
+    const result = await importProject(archivePath, targetDir, { force: true });
+    expect(result.warnings[0]).toContain("exported by bmalph 0.1.0");
+  });
+
+  it("rejects archives without a manifest", async () => {
+    await writeFile(archivePath, createTarGz([{ path: "a.txt", content: Buffer.from("a") }]));
+
+    await expect(readProjectArchive(archivePath)).rejects.toThrow("Not a bmalph archive");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { checkArchiveCompatibility, validateArchiveManifest } from "../../src/archive/manifest.js";
+import type { ArchiveManifest } from "../../src/archive/types.js";
+
+const manifest: ArchiveManifest = {
+  formatVersion: 1,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  bmalphVersion: "2.11.0",
+  bmadCommit: "abcdef1234567890",
+  project: { name: "demo", platform: "codex" },
+  files: [{ path: ".ralph/@fix_plan.md", size: 3, sha256: "a".repeat(64) }],
+  redacted: [{ path: ".ralph/.ralphrc", key: "GITHUB_TOKEN", reason: "secret" }],
+};
+
+describe("validateArchiveManifest", () => {
+  it("accepts a well-formed manifest", () => {
+    expect(validateArchiveManifest(JSON.parse(JSON.stringify(manifest)))).toEqual(manifest);
+  });
+
+  it("rejects unknown platforms and malformed checksums", () => {
+    expect(() =>
+      validateArchiveManifest({ ...manifest, project: { name: "demo", platform: "vim" } })
+    ).toThrow("manifest.project.platform");
+    expect(() =>
+      validateArchiveManifest({ ...manifest, files: [{ path: "a", size: 1, sha256: "xyz" }] })
+    ).toThrow("manifest.files[0].sha256");
+  });
+
+  it("only accepts an artifacts directory outside hidden directories and _bmad/", () => {
+    expect(validateArchiveManifest({ ...manifest, artifactsDir: "docs/planning" })).toEqual({
+      ...manifest,
+      artifactsDir: "docs/planning",
+    });
+    for (const artifactsDir of [".git/hooks", "docs/../.ralph", "_bmad/core", "/etc", ""]) {
+      expect(() => validateArchiveManifest({ ...manifest, artifactsDir })).toThrow(
+        "manifest.artifactsDir"
+      );
+    }
+  });
+
+  it("rejects non-objects", () => {
+    expect(() => validateArchiveManifest(null)).toThrow("manifest: expected an object");
+  });
+});
+
+describe("checkArchiveCompatibility", () => {
+  it("accepts matching versions", () => {
+    expect(
+      checkArchiveCompatibility(manifest, {
+        bmalphVersion: "2.11.0",
+        bmadCommit: "abcdef1234567890",
+      })
+    ).toEqual({ errors: [], warnings: [] });
+  });
+
+  it("warns on minor and BMAD differences", () => {
+    const result = checkArchiveCompatibility(manifest, {
+      bmalphVersion: "2.12.1",
+      bmadCommit: "0123456789abcdef",
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toHaveLength(2);
+    expect(result.warnings[1]).toContain("BMAD abcdef12");
+  });
+
+  it("rejects a different major version", () => {
+    const result = checkArchiveCompatibility(manifest, {
+      bmalphVersion: "3.0.0",
+      bmadCommit: "abcdef1234567890",
+    });
+
+    expect(result.errors[0]).toContain("exported by bmalph 2.11.0");
+  });
+});
@@ -42,6 +42,7 @@ setup() {
     RALPH_SESSION_FILE="$RALPH_DIR/.ralph_session"
     RALPH_SESSION_HISTORY_FILE="$RALPH_DIR/.ralph_session_history"
     LIVE_LOG_FILE="$RALPH_DIR/live.log"
+    LOOP_CONTROL_FILE="$RALPH_DIR/.loop_control"
 
     # Reset defaults after sourcing (sourcing captures env state in _env_ vars)
     MAX_CALLS_PER_HOUR=100
@@ -3161,3 +3162,69 @@ _setup_diff_test_repo() {
     set -e
     [[ "$actual" == "null" ]]
 }
+
+# ===========================================================================
+# wait_while_paused
+# ===========================================================================
+
+@test "wait_while_paused returns immediately without a control file" {
+    rm -f "$LOOP_CONTROL_FILE"
+    run wait_while_paused 3
+    assert_success
+    [[ ! -f "$STATUS_FILE" ]]
+}
+
+@test "wait_while_paused runs one loop on step and pauses the next" {
+    echo "step" > "$LOOP_CONTROL_FILE"
+    run wait_while_paused 3
+    assert_success
+
+    consume_loop_step
+    assert_equal "$(cat "$LOOP_CONTROL_FILE")" "pause"
+}
+
+@test "wait_while_paused keeps a step for the next loop until the driver has run" {
+    echo "step" > "$LOOP_CONTROL_FILE"
+    run wait_while_paused 3
+    assert_success
+    assert_equal "$(cat "$LOOP_CONTROL_FILE")" "step"
+
+    # The loop took an early continue (rate limit wait) without calling the driver
+    run wait_while_paused 3
+    assert_success
+    assert_equal "$(cat "$LOOP_CONTROL_FILE")" "step"
+}
+
+@test "consume_loop_step leaves stop and missing control files alone" {
+    rm -f "$LOOP_CONTROL_FILE"
+    consume_loop_step
+    [[ ! -f "$LOOP_CONTROL_FILE" ]]
+
+    echo "stop" > "$LOOP_CONTROL_FILE"
+    consume_loop_step
+    assert_equal "$(cat "$LOOP_CONTROL_FILE")" "stop"
+}
+
+@test "wait_while_paused fails on stop so the loop exits" {
+    echo "0" > "$CALL_COUNT_FILE"
+    echo "stop" > "$LOOP_CONTROL_FILE"
+    run wait_while_paused 5
+    assert_failure
+    [[ "$(jq -r '.status' "$STATUS_FILE")" == "stopped" ]]
+    [[ "$(jq -r '.exit_reason' "$STATUS_FILE")" == "stop_requested" ]]
+}
+
+@test "wait_while_paused reports paused until the control file is removed" {
+    echo "0" > "$CALL_COUNT_FILE"
+    echo "pause" > "$LOOP_CONTROL_FILE"
+    (sleep 2 && rm -f "$LOOP_CONTROL_FILE") &
+
+    wait_while_paused 4
+    wait
+
+    set -e
+    [[ "$(jq -r '.last_action' "$STATUS_FILE")" == "paused" ]]
+    [[ "$(jq -r '.status' "$STATUS_FILE")" == "running" ]]
+    [[ "$(jq -r '.loop_count' "$STATUS_FILE")" == "4" ]]
+    [[ ! -f "$LOOP_CONTROL_FILE" ]]
+}
@@ -153,4 +153,25 @@ describe("CLI entry point", () => {
     expect(exitCode).toBe(1);
     expect(stderr).toContain("not a directory");
   });
+
+  it("generates completion scripts from the command tree", () => {
+    const { stdout, exitCode } = runCli(["completion", "bash"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("complete -F _bmalph bmalph");
+    expect(stdout).toContain('"story show|0")');
+    expect(stdout).not.toContain("__complete|");
+  });
+
+  it("rejects unknown completion shells", () => {
+    const { stderr, exitCode } = runCli(["completion", "tcsh"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Supported shells: bash, zsh, fish");
+  });
+
+  it("hides the __complete helper from help and prints nothing without a fix plan", () => {
+    expect(runCli(["--help"]).stdout).not.toContain("__complete");
+    const { stdout, exitCode } = runCli(["-C", "/nonexistent/path", "__complete", "stories"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe("");
+  });
 });
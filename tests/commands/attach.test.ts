@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { RunRegistryEntry } from "../../src/run/run-registry.js";
+
+vi.mock("chalk");
+
+vi.mock("../../src/run/ralph-process.js", () => ({
+  attachRalphLoop: vi.fn(),
+}));
+
+vi.mock("../../src/run/run-dashboard.js", () => ({
+  startRunDashboard: vi.fn(),
+}));
+
+vi.mock("../../src/run/run-registry.js", () => ({
+  findActiveRun: vi.fn(),
+  clearRunRegistry: vi.fn(),
+}));
+
+vi.mock("../../src/run/budget.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/run/budget.js")>()),
+  startBudgetSupervisor: vi.fn(() => ({
+    usage: { costUsd: 0, tokens: 0, loops: 0, elapsedMs: 0 },
+    exceeded: null,
+    describe: () => "Budget: $2.00 left",
+    stop: vi.fn(),
+  })),
+}));
+
+vi.mock("../../src/utils/config.js", () => ({
+  readConfig: vi.fn(),
+}));
+
+vi.mock("../../src/run/run-events.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/run/run-events.js")>()),
+  startRunEventStream: vi.fn(() => ({
+    finished: Promise.resolve(null),
+    failure: null,
+    stop: vi.fn(),
+  })),
+}));
+
+vi.mock("../../src/transition/sprint-status-sync.js", () => ({
+  syncSprintStatusBack: vi.fn(),
+}));
+
+vi.mock("../../src/watch/frame-writer.js", () => ({
+  getDashboardTerminalSupport: vi.fn(),
+}));
+
+const ENTRY: RunRegistryEntry = {
+  pid: 456,
+  processGroup: 456,
+  driver: "claude-code",
+  reviewMode: "enhanced",
+  startedAt: "2026-03-01T10:00:00.000Z",
+  logs: { ralph: ".ralph/logs/ralph.log", metrics: ".ralph/logs/metrics.jsonl" },
+};
+
+describe("attachCommand", () => {
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let originalExitCode: number | undefined;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+
+    const { getDashboardTerminalSupport } = await import("../../src/watch/frame-writer.js");
+    vi.mocked(getDashboardTerminalSupport).mockReturnValue({ supported: true });
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    consoleSpy.mockRestore();
+    process.exitCode = originalExitCode;
+  });
+
+  async function setupAttach(ralphState: "stopped" | "detached") {
+    const { findActiveRun } = await import("../../src/run/run-registry.js");
+    const { attachRalphLoop } = await import("../../src/run/ralph-process.js");
+    const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+    vi.mocked(findActiveRun).mockResolvedValue(ENTRY);
+    vi.mocked(attachRalphLoop).mockReturnValue({
+      child: { pid: 456 },
+      state: "running",
+      exitCode: null,
+      kill: vi.fn(),
+      detach: vi.fn(),
+      onExit: vi.fn(),
+    });
+    vi.mocked(startRunDashboard).mockImplementation(async ({ ralph }) => {
+      ralph.state = ralphState;
+    });
+  }
+
+  it("fails when no loop is running", async () => {
+    const { findActiveRun } = await import("../../src/run/run-registry.js");
+    vi.mocked(findActiveRun).mockResolvedValue(null);
+
+    const { attachCommand } = await import("../../src/commands/attach.js");
+    await attachCommand({ projectDir: "/test/project" });
+
+    expect(process.exitCode).toBe(1);
+    const errorOutput = consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(errorOutput).toContain("No running Ralph loop found");
+  });
+
+  it("fails when the terminal cannot show the dashboard", async () => {
+    await setupAttach("detached");
+    const { getDashboardTerminalSupport } = await import("../../src/watch/frame-writer.js");
+    vi.mocked(getDashboardTerminalSupport).mockReturnValue({
+      supported: false,
+      reason: "stdout is not a TTY",
+    });
+
+    const { attachCommand } = await import("../../src/commands/attach.js");
+    await attachCommand({ projectDir: "/test/project" });
+
+    expect(process.exitCode).toBe(1);
+    const errorOutput = consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(errorOutput).toContain("Cannot attach: stdout is not a TTY");
+  });
+
+  it("opens the dashboard on the registered loop", async () => {
+    await setupAttach("detached");
+    const { attachRalphLoop } = await import("../../src/run/ralph-process.js");
+    const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+    const { clearRunRegistry } = await import("../../src/run/run-registry.js");
+
+    const { attachCommand } = await import("../../src/commands/attach.js");
+    await attachCommand({ projectDir: "/test/project", interval: "1000" });
+
+    expect(attachRalphLoop).toHaveBeenCalledWith(ENTRY);
+    expect(startRunDashboard).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectDir: "/test/project",
+        interval: 1000,
+        reviewMode: "enhanced",
+      })
+    );
+    expect(clearRunRegistry).not.toHaveBeenCalled();
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("Ralph keeps running (PID 456)");
+  });
+
+  it("clears the registry and syncs progress back once the loop stops", async () => {
+    await setupAttach("stopped");
+    const { clearRunRegistry } = await import("../../src/run/run-registry.js");
+    const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+
+    const { attachCommand } = await import("../../src/commands/attach.js");
+    await attachCommand({ projectDir: "/test/project" });
+
+    expect(clearRunRegistry).toHaveBeenCalledWith("/test/project", 456);
+    expect(syncSprintStatusBack).toHaveBeenCalledWith("/test/project");
+  });
+
+  it("keeps enforcing the budget the run was started with", async () => {
+    await setupAttach("detached");
+    const { findActiveRun } = await import("../../src/run/run-registry.js");
+    const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+    const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+    vi.mocked(findActiveRun).mockResolvedValue({ ...ENTRY, budget: { maxCostUsd: 5 } });
+
+    const { attachCommand } = await import("../../src/commands/attach.js");
+    await attachCommand({ projectDir: "/test/project" });
+
+    expect(startBudgetSupervisor).toHaveBeenCalledWith(
+      "/test/project",
+      expect.anything(),
+      { maxCostUsd: 5 },
+      expect.objectContaining({ startedAt: new Date(ENTRY.startedAt) })
+    );
+    const { budgetStatus } = vi.mocked(startRunDashboard).mock.calls[0]?.[0] ?? {};
+    expect(budgetStatus?.()).toBe("Budget: $2.00 left");
+  });
+
+  it("resumes the configured hooks until it detaches", async () => {
+    await setupAttach("detached");
+    const { readConfig } = await import("../../src/utils/config.js");
+    const { startRunEventStream } = await import("../../src/run/run-events.js");
+    vi.mocked(readConfig).mockResolvedValue({
+      name: "test",
+      description: "",
+      createdAt: "2026-02-28",
+      hooks: { run_finished: [{ command: "./notify.sh" }] },
+    });
+
+    const { attachCommand } = await import("../../src/commands/attach.js");
+    await attachCommand({ projectDir: "/test/project" });
+
+    expect(startRunEventStream).toHaveBeenCalledWith(
+      "/test/project",
+      expect.anything(),
+      expect.objectContaining({ run: ENTRY })
+    );
+    const stream = vi.mocked(startRunEventStream).mock.results[0]?.value as { stop: () => void };
+    expect(stream.stop).toHaveBeenCalled();
+  });
+
+  it("skips the sync with --no-sync-back", async () => {
+    await setupAttach("stopped");
+    const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+
+    const { attachCommand } = await import("../../src/commands/attach.js");
+    await attachCommand({ projectDir: "/test/project", syncBack: false });
+
+    expect(syncSprintStatusBack).not.toHaveBeenCalled();
+  });
+});
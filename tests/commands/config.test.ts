@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("chalk");
+
+describe("config command", () => {
+  let testDir: string;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-test-config-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(testDir, { recursive: true });
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    consoleSpy.mockRestore();
+    vi.unstubAllEnvs();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function setupProject(ralphrc: string): Promise<void> {
+    await mkdir(join(testDir, "bmalph"), { recursive: true });
+    await mkdir(join(testDir, ".ralph"), { recursive: true });
+    await writeFile(
+      join(testDir, "bmalph/config.json"),
+      JSON.stringify({ name: "demo", createdAt: "2025-01-01T00:00:00.000Z" })
+    );
+    await writeFile(join(testDir, ".ralph/.ralphrc"), ralphrc);
+  }
+
+  function output(): string {
+    return consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+  }
+
+  it("requires an initialized project", async () => {
+    const { runConfigList } = await import("../../src/commands/config.js");
+
+    await expect(runConfigList({ projectDir: testDir })).rejects.toThrow("not initialized");
+  });
+
+  it("prints the effective value for get", async () => {
+    await setupProject("REVIEW_INTERVAL=7\n");
+    const { runConfigGet } = await import("../../src/commands/config.js");
+
+    await runConfigGet({ projectDir: testDir, key: "REVIEW_INTERVAL" });
+
+    expect(output()).toBe("7");
+  });
+
+  it("prints source details for get --json", async () => {
+    await setupProject("REVIEW_INTERVAL=7\n");
+    const { runConfigGet } = await import("../../src/commands/config.js");
+
+    await runConfigGet({ projectDir: testDir, key: "REVIEW_INTERVAL", json: true });
+
+    expect(JSON.parse(output())).toMatchObject({
+      key: "REVIEW_INTERVAL",
+      value: "7",
+      source: "file",
+      file: ".ralph/.ralphrc",
+    });
+  });
+
+  it("warns when an environment variable overrides a value just set", async () => {
+    await setupProject("MAX_CALLS_PER_HOUR=100\n");
+    vi.stubEnv("MAX_CALLS_PER_HOUR", "5");
+    const { runConfigSet } = await import("../../src/commands/config.js");
+
+    await runConfigSet({ projectDir: testDir, key: "MAX_CALLS_PER_HOUR", value: "50" });
+
+    expect(output()).toContain("Set MAX_CALLS_PER_HOUR=50 in .ralph/.ralphrc");
+    expect(output()).toContain("Environment variable MAX_CALLS_PER_HOUR overrides this value");
+    expect(await readFile(join(testDir, ".ralph/.ralphrc"), "utf-8")).toBe(
+      "MAX_CALLS_PER_HOUR=50\n"
+    );
+  });
+
+  it("reports the fallback after unset", async () => {
+    await setupProject("REVIEW_INTERVAL=7\n");
+    const { runConfigUnset } = await import("../../src/commands/config.js");
+
+    await runConfigUnset({ projectDir: testDir, key: "REVIEW_INTERVAL" });
+
+    expect(output()).toContain("Unset REVIEW_INTERVAL");
+    expect(output()).toContain("now 5 from template default");
+  });
+
+  it("lists settings with sources, invalid values and ignored lines", async () => {
+    await setupProject("QUALITY_GATE_MODE=strict\nMAX_CALL_PER_HOUR=5\n");
+    const { runConfigList } = await import("../../src/commands/config.js");
+
+    await runConfigList({ projectDir: testDir });
+
+    const text = output();
+    expect(text).toContain("bmalph/config.json");
+    expect(text).toContain("name");
+    expect(text).toContain("QUALITY_GATE_MODE");
+    expect(text).toContain("Invalid value for QUALITY_GATE_MODE");
+    expect(text).toContain("line 2: unknown key ignored: MAX_CALL_PER_HOUR");
+    expect(text).toContain("[template default]");
+  });
+});
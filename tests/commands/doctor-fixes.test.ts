@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  clearRalphSessionFix,
+  reinstallRalphAssetsFix,
+  resetCircuitBreakerFix,
+  updateGitignoreFix,
+} from "../../src/commands/doctor-fixes.js";
+import { exists } from "../../src/utils/file-system.js";
+
+describe("doctor fixes", { timeout: 15000 }, () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-doctor-fixes-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, ".ralph"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("creates .gitignore with the required entries", async () => {
+    await updateGitignoreFix.apply(testDir);
+
+    const content = await readFile(join(testDir, ".gitignore"), "utf-8");
+    expect(content).toContain(".ralph/logs/");
+    expect(content).toContain("_bmad-output/");
+  });
+
+  it("reinstalls ralph_loop.sh and lib/ with the current version marker", async () => {
+    await mkdir(join(testDir, "bmalph"), { recursive: true });
+    await writeFile(
+      join(testDir, "bmalph/config.json"),
+      JSON.stringify({ name: "test", createdAt: "2025-01-01T00:00:00.000Z" })
+    );
+    await writeFile(
+      join(testDir, ".ralph/ralph_loop.sh"),
+      "#!/bin/bash\n# bmalph-version: 0.0.1\n"
+    );
+
+    await reinstallRalphAssetsFix.apply(testDir);
+
+    const { getPackageVersion } = await import("../../src/installer.js");
+    const loop = await readFile(join(testDir, ".ralph/ralph_loop.sh"), "utf-8");
+    expect(loop).toContain(`# bmalph-version: ${await getPackageVersion()}`);
+    expect(await exists(join(testDir, ".ralph/lib/circuit_breaker.sh"))).toBe(true);
+  });
+
+  it("refuses to reinstall Ralph assets in an uninitialized project", async () => {
+    await expect(reinstallRalphAssetsFix.apply(testDir)).rejects.toThrow(
+      "bmalph is not initialized"
+    );
+  });
+
+  it("removes runtime state files once Ralph has stopped", async () => {
+    const statePath = join(testDir, ".ralph/.circuit_breaker_state");
+    const sessionPath = join(testDir, ".ralph/.ralph_session");
+    await writeFile(statePath, JSON.stringify({ state: "OPEN" }));
+    await writeFile(sessionPath, "{}");
+
+    await resetCircuitBreakerFix(statePath).apply(testDir);
+    await clearRalphSessionFix(sessionPath).apply(testDir);
+
+    expect(await exists(statePath)).toBe(false);
+    expect(await exists(sessionPath)).toBe(false);
+  });
+
+  it("leaves runtime state alone while Ralph is running", async () => {
+    const sessionPath = join(testDir, ".ralph/.ralph_session");
+    await writeFile(sessionPath, "{}");
+    await writeFile(
+      join(testDir, ".ralph/status.json"),
+      JSON.stringify({ loop_count: 1, status: "running" })
+    );
+
+    await expect(clearRalphSessionFix(sessionPath).apply(testDir)).rejects.toThrow(
+      "Ralph loop is running"
+    );
+    expect(await exists(sessionPath)).toBe(true);
+  });
+});
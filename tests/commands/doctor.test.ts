@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import type { CheckDefinition, CheckResult } from "../../src/commands/doctor.js";
@@ -926,6 +926,165 @@ describe("doctor command", { timeout: 15000 }, () => {
     });
   });
 
+  describe("fix mode", () => {
+    function createFixableCheck(id: string, apply: () => Promise<void>): CheckDefinition {
+      let repaired = false;
+      return {
+        id,
+        run: async (): Promise<CheckResult> =>
+          repaired
+            ? { label: id, passed: true }
+            : {
+                label: id,
+                passed: false,
+                hint: "repair manually",
+                fix: {
+                  kind: "update-gitignore",
+                  description: `repair ${id}`,
+                  apply: async () => {
+                    await apply();
+                    repaired = true;
+                  },
+                },
+              },
+      };
+    }
+
+    const brokenCheck: CheckDefinition = {
+      id: "broken",
+      run: () => ({ label: "broken", passed: false, hint: "no automatic fix" }),
+    };
+
+    it("applies fixes, re-runs the check and leaves unfixable checks failing", async () => {
+      const apply = vi.fn(async () => {});
+      const { runDoctor } = await import("../../src/commands/doctor.js");
+      const result = await runDoctor({ projectDir: testDir, fix: true }, [
+        createFixableCheck("fixable", apply),
+        brokenCheck,
+      ]);
+
+      expect(apply).toHaveBeenCalledOnce();
+      expect(result).toEqual({ passed: 1, failed: 1, fixed: 1 });
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("fixed: repair fixable");
+      expect(output).toContain("1 fixed, 1 need manual action");
+    });
+
+    it("lists fixes without applying them in dry-run mode", async () => {
+      const apply = vi.fn(async () => {});
+      const { runDoctor } = await import("../../src/commands/doctor.js");
+      const result = await runDoctor({ projectDir: testDir, fix: true, dryRun: true }, [
+        createFixableCheck("fixable", apply),
+      ]);
+
+      expect(apply).not.toHaveBeenCalled();
+      expect(result.failed).toBe(1);
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("would fix: repair fixable");
+      expect(output).toContain("1 would be fixed");
+    });
+
+    it("reports fixes that throw", async () => {
+      const { runDoctor } = await import("../../src/commands/doctor.js");
+      const result = await runDoctor({ projectDir: testDir, fix: true }, [
+        createFixableCheck("fixable", async () => {
+          throw new Error("disk full");
+        }),
+      ]);
+
+      expect(result).toEqual({ passed: 0, failed: 1, fixed: 0 });
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("fix failed: disk full");
+    });
+
+    it("reports fix outcomes in JSON output", async () => {
+      const { runDoctor } = await import("../../src/commands/doctor.js");
+      await runDoctor({ projectDir: testDir, fix: true, json: true }, [
+        createFixableCheck("fixable", async () => {}),
+        brokenCheck,
+      ]);
+
+      const parsed = JSON.parse(consoleSpy.mock.calls.map((c) => c[0]).join("\n"));
+      expect(parsed.results[0]).toEqual({
+        label: "fixable",
+        passed: true,
+        fix: { status: "fixed", kind: "update-gitignore", description: "repair fixable" },
+      });
+      expect(parsed.results[1].fix).toEqual({ status: "unfixable" });
+      expect(parsed.summary).toEqual({
+        passed: 1,
+        failed: 1,
+        total: 2,
+        fixed: 1,
+        planned: 0,
+        fixFailed: 0,
+        unfixable: 1,
+      });
+    });
+
+    it("requires --fix for --dry-run", async () => {
+      const { runDoctor } = await import("../../src/commands/doctor.js");
+      await expect(runDoctor({ projectDir: testDir, dryRun: true }, [])).rejects.toThrow(
+        "--dry-run requires --fix"
+      );
+    });
+
+    it("repairs .gitignore, an OPEN circuit breaker and a stale session", async () => {
+      await setupFullProject();
+      await writeFile(join(testDir, ".gitignore"), "node_modules/");
+      await writeFile(
+        join(testDir, ".ralph/.circuit_breaker_state"),
+        JSON.stringify({ state: "OPEN", consecutive_no_progress: 5, reason: "stagnation" })
+      );
+      await writeFile(
+        join(testDir, ".ralph/.ralph_session"),
+        JSON.stringify({
+          session_id: "old",
+          created_at: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString(),
+          last_used: new Date().toISOString(),
+        })
+      );
+
+      const { runDoctor } = await import("../../src/commands/doctor.js");
+      await runDoctor({ projectDir: testDir, fix: true, json: true });
+
+      const parsed = JSON.parse(consoleSpy.mock.calls.map((c) => c[0]).join("\n"));
+      const fixedLabels = parsed.results
+        .filter((r: { fix?: { status: string } }) => r.fix?.status === "fixed")
+        .map((r: { label: string }) => r.label);
+      expect(fixedLabels).toEqual(
+        expect.arrayContaining([
+          ".gitignore has required entries",
+          "circuit breaker",
+          "Ralph session",
+        ])
+      );
+      const gitignore = await readFile(join(testDir, ".gitignore"), "utf-8");
+      expect(gitignore).toContain("node_modules/\n.ralph/logs/");
+      await expect(stat(join(testDir, ".ralph/.circuit_breaker_state"))).rejects.toThrow();
+      await expect(stat(join(testDir, ".ralph/.ralph_session"))).rejects.toThrow();
+    });
+
+    it("refuses runtime fixes while the Ralph loop is running", async () => {
+      await setupFullProject();
+      await writeFile(
+        join(testDir, ".ralph/.circuit_breaker_state"),
+        JSON.stringify({ state: "OPEN", consecutive_no_progress: 5 })
+      );
+      await writeFile(
+        join(testDir, ".ralph/status.json"),
+        JSON.stringify({ loop_count: 2, status: "running" })
+      );
+
+      const { runDoctor } = await import("../../src/commands/doctor.js");
+      await runDoctor({ projectDir: testDir, fix: true });
+
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("fix failed: Ralph loop is running");
+      await expect(stat(join(testDir, ".ralph/.circuit_breaker_state"))).resolves.toBeDefined();
+    });
+  });
+
   describe("JSON output", () => {
     it("outputs valid JSON when json flag is true", async () => {
       await setupFullProject();
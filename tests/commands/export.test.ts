@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+vi.mock("chalk");
+
+vi.mock("../../src/archive/export.js", () => ({
+  exportProject: vi.fn(),
+}));
+
+const MANIFEST = {
+  formatVersion: 1,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  bmalphVersion: "2.7.0",
+  bmadCommit: "0123456789abcdef",
+  project: { name: "demo", platform: "claude-code" },
+  files: [
+    { path: "bmalph/config.json", size: 10, sha256: "a".repeat(64) },
+    { path: ".ralph/.ralphrc", size: 20, sha256: "b".repeat(64) },
+  ],
+  redacted: [{ path: ".ralph/.ralphrc", key: "GITHUB_TOKEN", reason: "secret" }],
+};
+
+describe("export command", () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.resetModules();
+    vi.clearAllMocks();
+    process.exitCode = undefined;
+    const { exportProject } = await import("../../src/archive/export.js");
+    vi.mocked(exportProject).mockResolvedValue({
+      archivePath: "/tmp/demo.tar.gz",
+      manifest: MANIFEST,
+    } as Awaited<ReturnType<typeof exportProject>>);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+    process.exitCode = undefined;
+  });
+
+  function output(): string {
+    return consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+  }
+
+  it("passes options through and prints a summary", async () => {
+    const { exportProject } = await import("../../src/archive/export.js");
+    const { exportCommand } = await import("../../src/commands/export.js");
+
+    await exportCommand({ projectDir: "/project", output: "/tmp/demo.tar.gz", includeLogs: true });
+
+    expect(exportProject).toHaveBeenCalledWith("/project", {
+      output: "/tmp/demo.tar.gz",
+      includeLogs: true,
+    });
+    const out = output();
+    expect(out).toContain("bmalph export");
+    expect(out).toContain("2 (30 bytes)");
+    expect(out).toContain("bmalph 2.7.0, BMAD 01234567");
+    expect(out).toContain(".ralph/.ralphrc: GITHUB_TOKEN (secret)");
+  });
+
+  it("prints the archive path and manifest as JSON", async () => {
+    const { exportCommand } = await import("../../src/commands/export.js");
+
+    await exportCommand({ projectDir: "/project", json: true });
+
+    const parsed = JSON.parse(output());
+    expect(parsed.archive).toBe("/tmp/demo.tar.gz");
+    expect(parsed.manifest.files).toHaveLength(2);
+  });
+
+  it("reports export errors", async () => {
+    const { exportProject } = await import("../../src/archive/export.js");
+    vi.mocked(exportProject).mockRejectedValue(
+      new Error("bmalph is not initialized. Run 'bmalph init' first.")
+    );
+    const { exportCommand } = await import("../../src/commands/export.js");
+
+    await exportCommand({ projectDir: "/project" });
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain("not initialized");
+  });
+});
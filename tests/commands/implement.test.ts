@@ -5,14 +5,28 @@ import { mockPlatform } from "../helpers/mock-platform.js";
 vi.mock("chalk");
 
 const mockExists = vi.fn();
+const mockAtomicWriteFile = vi.fn();
 vi.mock("../../src/utils/file-system.js", () => ({
   exists: mockExists,
+  atomicWriteFile: mockAtomicWriteFile,
 }));
 
 vi.mock("../../src/transition/orchestration.js", () => ({
   runTransition: vi.fn(),
 }));
 
+vi.mock("../../src/transition/dry-run.js", () => ({
+  previewTransition: vi.fn(),
+}));
+
+vi.mock("../../src/transition/watch.js", () => ({
+  watchTransition: vi.fn(),
+}));
+
+vi.mock("../../src/transition/sprint-status-sync.js", () => ({
+  syncSprintStatusBack: vi.fn(),
+}));
+
 vi.mock("../../src/platform/resolve.js", () => ({
   resolveProjectPlatform: vi.fn(),
 }));
@@ -396,6 +410,302 @@ describe("implement command", () => {
     });
   });
 
+  describe("dry run", () => {
+    it("prints diffs and a summary without running the transition", async () => {
+      mockExists.mockResolvedValue(true); // fix_plan exists: dry run needs no --force
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { previewTransition } = await import("../../src/transition/dry-run.js");
+      vi.mocked(previewTransition).mockResolvedValue({
+        result: mockTransitionResult({ storiesCount: 4, warnings: ["Story 1.2 has no ACs"] }),
+        changes: [
+          {
+            path: ".ralph/@fix_plan.md",
+            action: "modify",
+            diff: "--- a/.ralph/@fix_plan.md\n+++ b/.ralph/@fix_plan.md\n@@ -1 +1 @@\n-old\n+new\n",
+          },
+          { path: ".ralph/SPECS_INDEX.md", action: "create", diff: "--- /dev/null\n" },
+        ],
+      });
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", dryRun: true });
+
+      expect(runTransition).not.toHaveBeenCalled();
+      expect(previewTransition).toHaveBeenCalledWith("/test/project", { force: undefined });
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("-old\n+new");
+      expect(output).toContain("Would modify:\n  .ralph/@fix_plan.md");
+      expect(output).toContain("Would create:\n  .ralph/SPECS_INDEX.md");
+      expect(output).toContain("! Story 1.2 has no ACs");
+      expect(output).toContain("Transition would cover 4 stories");
+      expect(process.exitCode).toBeUndefined();
+    });
+
+    it("reports when nothing would change", async () => {
+      const { previewTransition } = await import("../../src/transition/dry-run.js");
+      vi.mocked(previewTransition).mockResolvedValue({
+        result: mockTransitionResult(),
+        changes: [],
+      });
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", dryRun: true });
+
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("No changes would be made.");
+    });
+  });
+
+  describe("watch", () => {
+    it("runs a full transition, then renders each incremental cycle", async () => {
+      mockExists.mockResolvedValue(true); // fix_plan exists: watch needs no --force
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { watchTransition } = await import("../../src/transition/watch.js");
+      vi.mocked(runTransition).mockResolvedValue(mockTransitionResult({ storiesCount: 2 }));
+      vi.mocked(watchTransition).mockImplementation(async (options) => {
+        options.onCycle(["prd.md"], {
+          targets: ["specs", "context"],
+          storiesCount: 2,
+          warnings: ["PRD missing goals"],
+          preflightIssues: [],
+          generatedFiles: [{ path: ".ralph/PROJECT_CONTEXT.md", action: "updated" }],
+          specsChanges: [
+            {
+              file: "planning-artifacts/prd.md",
+              status: "modified",
+              summary: "Goals changed",
+              sections: [{ heading: "PRD > Goals", status: "modified" }],
+            },
+          ],
+          fixPlanPreserved: false,
+          fixPlanDeferred: true,
+        });
+      });
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", watch: true });
+
+      expect(runTransition).toHaveBeenCalledWith("/test/project", { force: undefined });
+      expect(watchTransition).toHaveBeenCalledWith(
+        expect.objectContaining({ projectDir: "/test/project" })
+      );
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("Watching BMAD artifacts for changes");
+      expect(output).toContain("prd.md");
+      expect(output).toContain("! PRD missing goals");
+      expect(output).toContain("~ planning-artifacts/prd.md — Goals changed");
+      expect(output).toContain("Section modified: PRD > Goals");
+      expect(output).toContain("~ .ralph/PROJECT_CONTEXT.md");
+      expect(output).toContain("fix plan sync deferred");
+    });
+
+    it("keeps watching when the initial transition fails", async () => {
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { watchTransition } = await import("../../src/transition/watch.js");
+      vi.mocked(runTransition).mockRejectedValue(new Error("No stories found"));
+      vi.mocked(watchTransition).mockResolvedValue();
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", watch: true });
+
+      expect(watchTransition).toHaveBeenCalled();
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("Transition failed: No stories found");
+    });
+
+    it("rejects --dry-run together with --watch", async () => {
+      const { watchTransition } = await import("../../src/transition/watch.js");
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", watch: true, dryRun: true });
+
+      expect(watchTransition).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
+  describe("sync back", () => {
+    it("writes fix plan progress to sprint-status.yaml without running the transition", async () => {
+      mockExists.mockResolvedValue(true);
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+      vi.mocked(syncSprintStatusBack).mockResolvedValue({
+        path: "_bmad-output/implementation-artifacts/sprint-status.yaml",
+        changes: [
+          { key: "1-1-login", from: "ready-for-dev", to: "done" },
+          { key: "epic-1", from: "backlog", to: "in-progress" },
+        ],
+        warnings: ["Sprint status is missing story 3.1 (Reports)"],
+      });
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", syncBack: true });
+
+      expect(runTransition).not.toHaveBeenCalled();
+      expect(syncSprintStatusBack).toHaveBeenCalledWith("/test/project");
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("Updated _bmad-output/implementation-artifacts/sprint-status.yaml");
+      expect(output).toContain("~ 1-1-login: ready-for-dev -> done");
+      expect(output).toContain("~ epic-1: backlog -> in-progress");
+      expect(output).toContain("! Sprint status is missing story 3.1 (Reports)");
+    });
+
+    it("fails when the project has no sprint status file", async () => {
+      const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+      vi.mocked(syncSprintStatusBack).mockResolvedValue(null);
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", syncBack: true });
+
+      expect(process.exitCode).toBe(1);
+      const errorOutput = consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(errorOutput).toContain("No sprint-status.yaml found");
+    });
+
+    it("rejects --sync-back together with --dry-run", async () => {
+      const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", syncBack: true, dryRun: true });
+
+      expect(syncSprintStatusBack).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
+  describe("test scaffold", () => {
+    it("passes --test-scaffold through to the transition", async () => {
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { resolveProjectPlatform } = await import("../../src/platform/resolve.js");
+      vi.mocked(resolveProjectPlatform).mockResolvedValue(mockPlatform());
+      vi.mocked(runTransition).mockResolvedValue(
+        mockTransitionResult({
+          generatedFiles: [
+            { path: ".ralph/specs/acceptance/story-1-1.test.js", action: "created" },
+          ],
+        })
+      );
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", testScaffold: true });
+
+      expect(runTransition).toHaveBeenCalledWith("/test/project", {
+        force: undefined,
+        testScaffold: true,
+      });
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("+ .ralph/specs/acceptance/story-1-1.test.js");
+    });
+
+    it("rejects --test-scaffold together with --sync-back", async () => {
+      const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", syncBack: true, testScaffold: true });
+
+      expect(syncSprintStatusBack).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
+  describe("preflight reports", () => {
+    it("prints rule ids and the suppressed count", async () => {
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { resolveProjectPlatform } = await import("../../src/platform/resolve.js");
+      vi.mocked(resolveProjectPlatform).mockResolvedValue(mockPlatform());
+      vi.mocked(runTransition).mockResolvedValue(
+        mockTransitionResult({
+          preflightIssues: [{ id: "W4", severity: "warning", message: "PRD missing FRs" }],
+          suppressedPreflightIssues: [
+            { id: "W8", severity: "warning", message: "No ACs", suppressionReason: "Spike" },
+          ],
+        })
+      );
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project" });
+
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("[W4] PRD missing FRs");
+      expect(output).toContain("1 suppressed in bmalph/config.json");
+    });
+
+    it("prints the transition result as JSON with --json", async () => {
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { resolveProjectPlatform } = await import("../../src/platform/resolve.js");
+      vi.mocked(resolveProjectPlatform).mockResolvedValue(mockPlatform());
+      const result = mockTransitionResult({
+        preflightIssues: [{ id: "W4", severity: "warning", message: "PRD missing FRs" }],
+      });
+      vi.mocked(runTransition).mockResolvedValue(result);
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", json: true });
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(String(consoleSpy.mock.calls[0]?.[0]))).toEqual(result);
+    });
+
+    it("prints blocking issues as JSON and fails with --json", async () => {
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { resolveProjectPlatform } = await import("../../src/platform/resolve.js");
+      const { PreflightValidationError } = await import("../../src/transition/preflight.js");
+      vi.mocked(resolveProjectPlatform).mockResolvedValue(mockPlatform());
+      const issue = { id: "E1", severity: "error" as const, message: "NO-GO" };
+      vi.mocked(runTransition).mockRejectedValue(new PreflightValidationError([issue]));
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", json: true });
+
+      expect(JSON.parse(String(consoleSpy.mock.calls[0]?.[0]))).toEqual({
+        pass: false,
+        preflightIssues: [issue],
+        suppressedPreflightIssues: [],
+      });
+      expect(process.exitCode).toBe(1);
+    });
+
+    it("writes a SARIF file even when pre-flight blocks the transition", async () => {
+      const { runTransition } = await import("../../src/transition/orchestration.js");
+      const { resolveProjectPlatform } = await import("../../src/platform/resolve.js");
+      const { PreflightValidationError } = await import("../../src/transition/preflight.js");
+      vi.mocked(resolveProjectPlatform).mockResolvedValue(mockPlatform());
+      vi.mocked(runTransition).mockRejectedValue(
+        new PreflightValidationError([
+          {
+            id: "E1",
+            severity: "error",
+            message: "NO-GO",
+            file: "_bmad-output/planning-artifacts/readiness.md",
+          },
+        ])
+      );
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", sarif: "preflight.sarif" });
+
+      expect(mockAtomicWriteFile).toHaveBeenCalledTimes(1);
+      const [path, content] = mockAtomicWriteFile.mock.calls[0] ?? [];
+      expect(path).toMatch(/[\\/]test[\\/]project[\\/]preflight\.sarif$/);
+      const sarif = JSON.parse(String(content));
+      expect(sarif.version).toBe("2.1.0");
+      expect(sarif.runs[0].results[0]).toMatchObject({ ruleId: "E1", level: "error" });
+      expect(process.exitCode).toBe(1);
+    });
+
+    it("rejects --json and --sarif with --watch", async () => {
+      const { watchTransition } = await import("../../src/transition/watch.js");
+
+      const { implementCommand } = await import("../../src/commands/implement.js");
+      await implementCommand({ projectDir: "/test/project", watch: true, sarif: "out.sarif" });
+
+      expect(watchTransition).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+      const errorOutput = consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(errorOutput).toContain("--json and --sarif cannot be used with --watch");
+    });
+  });
+
   describe("re-run detection error discrimination", () => {
     it("re-throws non-ENOENT errors from exists check", async () => {
       mockExists.mockRejectedValue(Object.assign(new Error("EACCES"), { code: "EACCES" }));
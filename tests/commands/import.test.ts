@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+vi.mock("chalk");
+
+vi.mock("../../src/archive/import.js", () => ({
+  importProject: vi.fn(),
+}));
+
+describe("import command", () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.resetModules();
+    vi.clearAllMocks();
+    process.exitCode = undefined;
+    const { importProject } = await import("../../src/archive/import.js");
+    vi.mocked(importProject).mockResolvedValue({
+      manifest: {
+        formatVersion: 1,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        bmalphVersion: "2.6.0",
+        bmadCommit: "0123456789abcdef",
+        project: { name: "demo" },
+        files: [],
+        redacted: [],
+      },
+      restoredFiles: ["bmalph/config.json", ".ralph/@fix_plan.md"],
+      warnings: [".ralph/.ralphrc: GITHUB_TOKEN was redacted on export; set it again if needed"],
+    });
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+    process.exitCode = undefined;
+  });
+
+  it("passes options through and prints what was restored", async () => {
+    const { importProject } = await import("../../src/archive/import.js");
+    const { importCommand } = await import("../../src/commands/import.js");
+
+    await importCommand({ archive: "/tmp/demo.tar.gz", force: true, projectDir: "/project" });
+
+    expect(importProject).toHaveBeenCalledWith("/tmp/demo.tar.gz", "/project", { force: true });
+    const out = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(out).toContain("bmalph import");
+    expect(out).toContain("Project:");
+    expect(out).toContain("2 files");
+    expect(out).toContain("GITHUB_TOKEN was redacted");
+    expect(out).toContain("Import complete");
+  });
+
+  it("reports import errors", async () => {
+    const { importProject } = await import("../../src/archive/import.js");
+    vi.mocked(importProject).mockRejectedValue(new Error("Checksum mismatch for a.md"));
+    const { importCommand } = await import("../../src/commands/import.js");
+
+    await importCommand({ archive: "/tmp/demo.tar.gz", projectDir: "/project" });
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain("Checksum mismatch");
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("chalk");
+
+const LOG = `[2026-03-01 10:00:00] [INFO] Starting Ralph
+[2026-03-01 10:00:01] [LOOP] === Starting Loop #1 ===
+[2026-03-01 10:05:00] [WARN] Errors detected in output
+[2026-03-01 10:05:01] [LOOP] === Completed Loop #1 ===
+[2026-03-01 10:05:03] [LOOP] === Starting Loop #2 ===
+[2026-03-01 10:09:00] [ERROR] Circuit breaker opened
+`;
+
+describe("logs command", () => {
+  let testDir: string;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-test-logs-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, ".ralph/logs"), { recursive: true });
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = undefined;
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+    process.exitCode = undefined;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeLog(content = LOG): Promise<void> {
+    await writeFile(join(testDir, ".ralph/logs/ralph.log"), content);
+  }
+
+  function output(): string {
+    return consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+  }
+
+  function errors(): string {
+    return errorSpy.mock.calls.map((c) => c[0]).join("\n");
+  }
+
+  it("prints every entry in Ralph's log format", async () => {
+    await writeLog();
+    const { logsCommand } = await import("../../src/commands/logs.js");
+
+    await logsCommand({ projectDir: testDir });
+
+    expect(consoleSpy).toHaveBeenCalledTimes(6);
+    expect(output()).toContain("[2026-03-01 10:09:00] [ERROR] Circuit breaker opened");
+  });
+
+  it("combines level, loop and grep filters", async () => {
+    await writeLog();
+    const { logsCommand } = await import("../../src/commands/logs.js");
+
+    await logsCommand({ projectDir: testDir, level: "warn,error", loop: "2", grep: "breaker" });
+
+    expect(output()).toBe("[2026-03-01 10:09:00] [ERROR] Circuit breaker opened");
+  });
+
+  it("limits output to the last N entries", async () => {
+    await writeLog();
+    const { logsCommand } = await import("../../src/commands/logs.js");
+
+    await logsCommand({ projectDir: testDir, lines: "2", json: true });
+
+    const entries = JSON.parse(output());
+    expect(entries.map((e: { loop: number }) => e.loop)).toEqual([2, 2]);
+  });
+
+  it("filters by absolute since/until times", async () => {
+    await writeLog();
+    const { logsCommand } = await import("../../src/commands/logs.js");
+
+    await logsCommand({
+      projectDir: testDir,
+      since: "2026-03-01T10:05:00",
+      until: "2026-03-01T10:05:02",
+      json: true,
+    });
+
+    expect(JSON.parse(output())).toHaveLength(2);
+  });
+
+  it("reports when no log exists yet", async () => {
+    const { logsCommand } = await import("../../src/commands/logs.js");
+
+    await logsCommand({ projectDir: testDir });
+
+    expect(output()).toContain("No Ralph log yet");
+  });
+
+  it("reports when nothing matches", async () => {
+    await writeLog();
+    const { logsCommand } = await import("../../src/commands/logs.js");
+
+    await logsCommand({ projectDir: testDir, level: "success" });
+
+    expect(output()).toContain("No log entries match the given filters.");
+  });
+
+  it("rejects unknown levels, bad loops and invalid patterns", async () => {
+    await writeLog();
+    const { logsCommand } = await import("../../src/commands/logs.js");
+
+    await logsCommand({ projectDir: testDir, level: "debug" });
+    await logsCommand({ projectDir: testDir, loop: "0" });
+    await logsCommand({ projectDir: testDir, grep: "(" });
+
+    expect(errors()).toContain("Unknown log level: debug");
+    expect(errors()).toContain("Invalid --loop value: 0");
+    expect(errors()).toContain("Invalid --grep pattern: (");
+    expect(process.exitCode).toBe(1);
+  });
+
+  describe("--driver-output", () => {
+    it("shows the captured driver output and stderr for a loop", async () => {
+      await writeLog();
+      await writeFile(
+        join(testDir, ".ralph/logs/claude_output_2026-03-01_10-05-04.log"),
+        '{"type":"result","result":"done"}\n'
+      );
+      await writeFile(
+        join(testDir, ".ralph/logs/claude_stderr_2026-03-01_10-05-04.log"),
+        "warning: slow\n"
+      );
+      const { logsCommand } = await import("../../src/commands/logs.js");
+
+      await logsCommand({ projectDir: testDir, loop: "2", driverOutput: true });
+
+      const out = output();
+      expect(out).toContain("Loop #2 driver output");
+      expect(out).toContain(".ralph/logs/claude_output_2026-03-01_10-05-04.log");
+      expect(out).toContain('{"type":"result","result":"done"}');
+      expect(out).toContain("warning: slow");
+    });
+
+    it("outputs file paths and contents as JSON", async () => {
+      await writeLog();
+      const { logsCommand } = await import("../../src/commands/logs.js");
+
+      await logsCommand({ projectDir: testDir, loop: "1", driverOutput: true, json: true });
+
+      expect(JSON.parse(output())).toEqual({
+        loop: 1,
+        output: null,
+        stderr: null,
+        outputContent: null,
+        stderrContent: null,
+      });
+    });
+
+    it("requires --loop and rejects unknown loops", async () => {
+      await writeLog();
+      const { logsCommand } = await import("../../src/commands/logs.js");
+
+      await logsCommand({ projectDir: testDir, driverOutput: true });
+      await logsCommand({ projectDir: testDir, loop: "9", driverOutput: true });
+
+      expect(errors()).toContain("--driver-output requires --loop <n>");
+      expect(errors()).toContain("Loop #9 not found in .ralph/logs/ralph.log");
+    });
+  });
+});
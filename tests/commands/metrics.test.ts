@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("chalk");
+
+function record(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    run_id: "2025-06-01T10:00:00+00:00",
+    loop: 1,
+    timestamp: "2025-06-01T10:05:00+00:00",
+    driver: "claude-code",
+    loop_outcome: "success",
+    duration_ms: 90000,
+    input_tokens: 2000,
+    output_tokens: 1000,
+    total_cost_usd: 0.75,
+    files_changed: 3,
+    ...overrides,
+  });
+}
+
+describe("metrics command", () => {
+  let testDir: string;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-test-metrics-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(testDir, { recursive: true });
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    consoleSpy.mockRestore();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeMetrics(lines: string[]): Promise<void> {
+    await mkdir(join(testDir, ".ralph/logs"), { recursive: true });
+    await writeFile(join(testDir, ".ralph/logs/metrics.jsonl"), lines.join("\n") + "\n");
+  }
+
+  function output(): string {
+    return consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+  }
+
+  it("explains that no metrics exist yet", async () => {
+    const { runMetrics } = await import("../../src/commands/metrics.js");
+    await runMetrics({ projectDir: testDir });
+
+    expect(output()).toContain("No metrics recorded yet");
+  });
+
+  it("renders run, driver and daily cost tables", async () => {
+    await writeMetrics([
+      record(),
+      record({ loop: 2, loop_outcome: "error", total_cost_usd: null }),
+      record({
+        run_id: "2025-06-02T08:00:00+00:00",
+        timestamp: "2025-06-02T08:10:00+00:00",
+        driver: "codex",
+      }),
+    ]);
+
+    const { runMetrics } = await import("../../src/commands/metrics.js");
+    await runMetrics({ projectDir: testDir });
+
+    const text = output();
+    expect(text).toContain("Loops: 3 across 2 run(s)");
+    expect(text).toContain("Cost: $1.50");
+    expect(text).toContain("Outcomes: success=2 error=1");
+    expect(text).toContain("2025-06-01T10:00:00+00:00");
+    expect(text).toContain("codex");
+    expect(text).toContain("2025-06-02");
+  });
+
+  it("outputs the report as JSON", async () => {
+    await writeMetrics([record(), "not json"]);
+
+    const { runMetrics } = await import("../../src/commands/metrics.js");
+    await runMetrics({ projectDir: testDir, json: true });
+
+    const parsed = JSON.parse(output());
+    expect(parsed.totals.loops).toBe(1);
+    expect(parsed.runs[0].runId).toBe("2025-06-01T10:00:00+00:00");
+    expect(parsed.skippedLines).toBe(1);
+  });
+
+  it("outputs the report as CSV", async () => {
+    await writeMetrics([record()]);
+
+    const { runMetrics } = await import("../../src/commands/metrics.js");
+    await runMetrics({ projectDir: testDir, csv: true });
+
+    const lines = output().split("\n");
+    expect(lines[0]).toMatch(/^scope,id,loops,success,/);
+    expect(lines[1]).toMatch(/^run,2025-06-01T10:00:00\+00:00,1,1,/);
+    expect(lines[2]).toMatch(/^driver,claude-code,1,/);
+    expect(lines[3]).toMatch(/^total,,1,/);
+  });
+
+  it("applies --run and --since filters", async () => {
+    await writeMetrics([
+      record({ run_id: "old", timestamp: "2020-01-01T00:00:00Z" }),
+      record({ run_id: "new", timestamp: new Date().toISOString() }),
+    ]);
+
+    const { runMetrics } = await import("../../src/commands/metrics.js");
+    await runMetrics({ projectDir: testDir, json: true, since: "7d" });
+    expect(JSON.parse(output()).runs.map((r: { runId: string }) => r.runId)).toEqual(["new"]);
+
+    consoleSpy.mockClear();
+    await runMetrics({ projectDir: testDir, json: true, run: "old" });
+    expect(JSON.parse(output()).runs.map((r: { runId: string }) => r.runId)).toEqual(["old"]);
+  });
+
+  it("reports when filters match nothing", async () => {
+    await writeMetrics([record()]);
+
+    const { runMetrics } = await import("../../src/commands/metrics.js");
+    await runMetrics({ projectDir: testDir, run: "missing" });
+
+    expect(output()).toContain("No metrics match the given filters");
+  });
+
+  it("rejects --json combined with --csv", async () => {
+    const { runMetrics } = await import("../../src/commands/metrics.js");
+    await expect(runMetrics({ projectDir: testDir, json: true, csv: true })).rejects.toThrow(
+      "--json and --csv cannot be used together"
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+vi.mock("chalk");
+
+vi.mock("@inquirer/confirm", () => ({
+  default: vi.fn(),
+}));
+
+vi.mock("../../src/installer.js", () => ({
+  isInitialized: vi.fn(),
+}));
+
+vi.mock("../../src/platform/switch.js", () => ({
+  buildPlatformSwitchPlan: vi.fn(),
+  executePlatformSwitchPlan: vi.fn(),
+  switchPlanToDryRunActions: vi.fn(() => [{ type: "create", path: "AGENTS.md" }]),
+}));
+
+vi.mock("../../src/utils/dryrun.js", () => ({
+  formatDryRunSummary: vi.fn(() => "[dry-run] summary"),
+}));
+
+vi.mock("../../src/utils/ralph-runtime-state.js", () => ({
+  isRalphLoopRunning: vi.fn(async () => false),
+}));
+
+vi.mock("../../src/platform/resolve.js", async () => {
+  const { getPlatform } = await import("../../src/platform/registry.js");
+  return { resolveProjectPlatform: vi.fn(async () => getPlatform("claude-code")) };
+});
+
+describe("platform switch command", () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.resetModules();
+    vi.clearAllMocks();
+    process.exitCode = undefined;
+    const { isInitialized } = await import("../../src/installer.js");
+    vi.mocked(isInitialized).mockResolvedValue(true);
+    const { isRalphLoopRunning } = await import("../../src/utils/ralph-runtime-state.js");
+    vi.mocked(isRalphLoopRunning).mockResolvedValue(false);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+    vi.restoreAllMocks();
+    process.exitCode = undefined;
+  });
+
+  it("shows not-initialized message when not initialized", async () => {
+    const { isInitialized } = await import("../../src/installer.js");
+    vi.mocked(isInitialized).mockResolvedValue(false);
+
+    const { platformSwitchCommand } = await import("../../src/commands/platform.js");
+    await platformSwitchCommand({ id: "codex", projectDir: "/project" });
+
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining("not initialized"));
+  });
+
+  it("rejects unknown platform ids", async () => {
+    const { platformSwitchCommand } = await import("../../src/commands/platform.js");
+    await platformSwitchCommand({ id: "vim", projectDir: "/project" });
+
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown platform: "vim"'));
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("does nothing when the project already uses the platform", async () => {
+    const { buildPlatformSwitchPlan } = await import("../../src/platform/switch.js");
+
+    const { platformSwitchCommand } = await import("../../src/commands/platform.js");
+    await platformSwitchCommand({ id: "claude-code", projectDir: "/project" });
+
+    expect(buildPlatformSwitchPlan).not.toHaveBeenCalled();
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining("already uses Claude Code"));
+  });
+
+  it("previews the switch in dry-run mode", async () => {
+    const { executePlatformSwitchPlan } = await import("../../src/platform/switch.js");
+
+    const { platformSwitchCommand } = await import("../../src/commands/platform.js");
+    await platformSwitchCommand({ id: "codex", dryRun: true, projectDir: "/project" });
+
+    expect(executePlatformSwitchPlan).not.toHaveBeenCalled();
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("Switch Claude Code → OpenAI Codex");
+    expect(output).toContain("[dry-run] summary");
+  });
+
+  it("switches with --force", async () => {
+    const { buildPlatformSwitchPlan, executePlatformSwitchPlan } =
+      await import("../../src/platform/switch.js");
+
+    const { platformSwitchCommand } = await import("../../src/commands/platform.js");
+    await platformSwitchCommand({ id: "codex", force: true, projectDir: "/project" });
+
+    expect(buildPlatformSwitchPlan).toHaveBeenCalledWith(
+      "/project",
+      expect.objectContaining({ id: "claude-code" }),
+      expect.objectContaining({ id: "codex" })
+    );
+    expect(executePlatformSwitchPlan).toHaveBeenCalled();
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("create AGENTS.md");
+    expect(output).toContain("Platform switched: Claude Code → OpenAI Codex");
+  });
+
+  it("refuses to switch while the Ralph loop is running", async () => {
+    const { isRalphLoopRunning } = await import("../../src/utils/ralph-runtime-state.js");
+    const { executePlatformSwitchPlan } = await import("../../src/platform/switch.js");
+    vi.mocked(isRalphLoopRunning).mockResolvedValue(true);
+
+    const { platformSwitchCommand } = await import("../../src/commands/platform.js");
+    await platformSwitchCommand({ id: "codex", force: true, projectDir: "/project" });
+
+    expect(executePlatformSwitchPlan).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Ralph loop is running"));
+  });
+
+  it("requires --force in non-interactive mode", async () => {
+    const { executePlatformSwitchPlan } = await import("../../src/platform/switch.js");
+    const originalIsTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false as unknown as true;
+
+    const { platformSwitchCommand } = await import("../../src/commands/platform.js");
+    await platformSwitchCommand({ id: "codex", projectDir: "/project" });
+
+    expect(executePlatformSwitchPlan).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Non-interactive"));
+    process.stdin.isTTY = originalIsTTY;
+  });
+});
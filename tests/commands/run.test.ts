@@ -26,10 +26,42 @@ vi.mock("../../src/run/run-dashboard.js", () => ({
   startRunDashboard: vi.fn(),
 }));
 
+vi.mock("../../src/run/run-registry.js", () => ({
+  findActiveRun: vi.fn(),
+  readProcessStartTime: vi.fn(() => "98765"),
+  registerRun: vi.fn(),
+  clearRunRegistry: vi.fn(),
+}));
+
+vi.mock("../../src/run/budget.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/run/budget.js")>()),
+  startBudgetSupervisor: vi.fn(() => ({
+    usage: { costUsd: 0, tokens: 0, loops: 0, elapsedMs: 0 },
+    exceeded: null,
+    describe: () => "Budget: 3 loops left",
+    stop: vi.fn(),
+  })),
+}));
+
+vi.mock("../../src/run/run-events.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/run/run-events.js")>()),
+  openRunEventSink: vi.fn(),
+  startRunEventStream: vi.fn(),
+}));
+
+vi.mock("../../src/run/hooks.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/run/hooks.js")>()),
+  createHookSink: vi.fn(),
+}));
+
 vi.mock("../../src/platform/cursor-runtime-checks.js", () => ({
   validateCursorRuntime: vi.fn(),
 }));
 
+vi.mock("../../src/transition/sprint-status-sync.js", () => ({
+  syncSprintStatusBack: vi.fn(),
+}));
+
 vi.mock("../../src/watch/frame-writer.js", () => ({
   getDashboardTerminalSupport: vi.fn(() => ({ supported: true })),
 }));
@@ -711,6 +743,633 @@ describe("runCommand", () => {
     });
   });
 
+  describe("sprint status sync back", () => {
+    async function setupRun(ralphState: "stopped" | "detached") {
+      const { readConfig } = await import("../../src/utils/config.js");
+      const { getPlatform } = await import("../../src/platform/registry.js");
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+
+      vi.mocked(readConfig).mockResolvedValue({
+        name: "test",
+        description: "",
+        createdAt: "2026-02-28",
+        platform: "claude-code",
+      });
+      vi.mocked(getPlatform).mockReturnValue(mockPlatform());
+      vi.mocked(spawnRalphLoop).mockReturnValue({
+        child: { pid: 123 },
+        state: "running",
+        exitCode: null,
+        kill: vi.fn(),
+        detach: vi.fn(),
+        onExit: vi.fn(),
+      } as never);
+      vi.mocked(startRunDashboard).mockImplementation(async ({ ralph }) => {
+        ralph.state = ralphState;
+        ralph.exitCode = 0;
+      });
+    }
+
+    it("writes progress back to sprint-status.yaml after Ralph stops", async () => {
+      await setupRun("stopped");
+      const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+      vi.mocked(syncSprintStatusBack).mockResolvedValue({
+        path: "_bmad-output/implementation-artifacts/sprint-status.yaml",
+        changes: [{ key: "1-1-login", from: "ready-for-dev", to: "done" }],
+        warnings: [],
+      });
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: true });
+
+      expect(syncSprintStatusBack).toHaveBeenCalledWith("/test/project");
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain(
+        "Updated _bmad-output/implementation-artifacts/sprint-status.yaml: 1 status change(s)"
+      );
+    });
+
+    it("skips the sync with --no-sync-back or when the dashboard detaches", async () => {
+      const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+      const { runCommand } = await import("../../src/commands/run.js");
+
+      await setupRun("stopped");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        syncBack: false,
+      });
+      await setupRun("detached");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: true });
+
+      expect(syncSprintStatusBack).not.toHaveBeenCalled();
+    });
+
+    it("reports sync failures without changing the exit code", async () => {
+      await setupRun("stopped");
+      const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+      vi.mocked(syncSprintStatusBack).mockRejectedValue(new Error("EACCES"));
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: true });
+
+      expect(process.exitCode).toBeUndefined();
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("could not update sprint status: EACCES");
+    });
+  });
+
+  describe("run registry", () => {
+    async function setupRun(ralphState: "stopped" | "detached") {
+      const { readConfig } = await import("../../src/utils/config.js");
+      const { getPlatform } = await import("../../src/platform/registry.js");
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+
+      vi.mocked(readConfig).mockResolvedValue({
+        name: "test",
+        description: "",
+        createdAt: "2026-02-28",
+        platform: "claude-code",
+      });
+      vi.mocked(getPlatform).mockReturnValue(mockPlatform());
+      vi.mocked(spawnRalphLoop).mockReturnValue({
+        child: { pid: 123 },
+        state: "running",
+        exitCode: null,
+        kill: vi.fn(),
+        detach: vi.fn(),
+        onExit: vi.fn(),
+      } as never);
+      vi.mocked(startRunDashboard).mockImplementation(async ({ ralph }) => {
+        ralph.state = ralphState;
+        ralph.exitCode = 0;
+      });
+    }
+
+    it("refuses to start a second loop in the same project", async () => {
+      await setupRun("stopped");
+      const { findActiveRun } = await import("../../src/run/run-registry.js");
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      vi.mocked(findActiveRun).mockResolvedValueOnce({
+        pid: 456,
+        processGroup: 456,
+        driver: "claude-code",
+        reviewMode: "off",
+        startedAt: "2026-03-01T10:00:00.000Z",
+        logs: { ralph: ".ralph/logs/ralph.log", metrics: ".ralph/logs/metrics.jsonl" },
+      });
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: true });
+
+      expect(process.exitCode).toBe(1);
+      expect(spawnRalphLoop).not.toHaveBeenCalled();
+      const errorOutput = consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(errorOutput).toContain("already running in this project (PID 456");
+      expect(errorOutput).toContain("bmalph attach");
+    });
+
+    it("records the loop and clears it once Ralph stops", async () => {
+      await setupRun("stopped");
+      const { registerRun, clearRunRegistry } = await import("../../src/run/run-registry.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        review: "ultimate",
+      });
+
+      expect(registerRun).toHaveBeenCalledWith(
+        "/test/project",
+        expect.objectContaining({
+          pid: 123,
+          processStartTime: "98765",
+          driver: "claude-code",
+          reviewMode: "ultimate",
+          logs: { ralph: ".ralph/logs/ralph.log", metrics: ".ralph/logs/metrics.jsonl" },
+        })
+      );
+      expect(clearRunRegistry).toHaveBeenCalledWith("/test/project", 123);
+    });
+
+    it("keeps the entry when the dashboard detaches", async () => {
+      await setupRun("detached");
+      const { registerRun, clearRunRegistry } = await import("../../src/run/run-registry.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: true });
+
+      expect(registerRun).toHaveBeenCalled();
+      expect(clearRunRegistry).not.toHaveBeenCalled();
+    });
+
+    it("keeps running when the loop cannot be recorded", async () => {
+      await setupRun("stopped");
+      const { registerRun } = await import("../../src/run/run-registry.js");
+      const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+      vi.mocked(registerRun).mockRejectedValueOnce(new Error("EACCES"));
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: true });
+
+      expect(startRunDashboard).toHaveBeenCalled();
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("could not record the run: EACCES");
+    });
+  });
+
+  describe("run budget", () => {
+    async function setupRun(stopReason?: string) {
+      const { readConfig } = await import("../../src/utils/config.js");
+      const { getPlatform } = await import("../../src/platform/registry.js");
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+
+      vi.mocked(readConfig).mockResolvedValue({
+        name: "test",
+        description: "",
+        createdAt: "2026-02-28",
+        platform: "claude-code",
+      });
+      vi.mocked(getPlatform).mockReturnValue(mockPlatform());
+      vi.mocked(spawnRalphLoop).mockReturnValue({
+        child: { pid: 123 },
+        state: "running",
+        exitCode: null,
+        kill: vi.fn(),
+        detach: vi.fn(),
+        onExit: vi.fn(),
+      } as never);
+      vi.mocked(startRunDashboard).mockImplementation(async ({ ralph }) => {
+        ralph.state = "stopped";
+        ralph.exitCode = stopReason ? 143 : 0;
+        ralph.stopReason = stopReason;
+      });
+    }
+
+    it("supervises the loop and records the budget for bmalph attach", async () => {
+      await setupRun();
+      const { registerRun } = await import("../../src/run/run-registry.js");
+      const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+      const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        maxCost: "5",
+        maxLoops: "20",
+        maxDuration: "8h",
+      });
+
+      const budget = { maxCostUsd: 5, maxLoops: 20, maxDurationMs: 8 * 60 * 60 * 1000 };
+      expect(registerRun).toHaveBeenCalledWith(
+        "/test/project",
+        expect.objectContaining({ budget })
+      );
+      expect(startBudgetSupervisor).toHaveBeenCalledWith(
+        "/test/project",
+        expect.anything(),
+        budget,
+        expect.objectContaining({ intervalMs: 2000 })
+      );
+      const { budgetStatus } = vi.mocked(startRunDashboard).mock.calls[0]?.[0] ?? {};
+      expect(budgetStatus?.()).toBe("Budget: 3 loops left");
+    });
+
+    it("does not supervise a run without limits", async () => {
+      await setupRun();
+      const { registerRun } = await import("../../src/run/run-registry.js");
+      const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: true });
+
+      expect(startBudgetSupervisor).not.toHaveBeenCalled();
+      expect(vi.mocked(registerRun).mock.calls[0]?.[1]).not.toHaveProperty("budget");
+    });
+
+    it("reports a budget stop without failing the run", async () => {
+      await setupRun("loop budget reached (20 of 20)");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        maxLoops: "20",
+      });
+
+      expect(process.exitCode).toBeUndefined();
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("Ralph stopped: loop budget reached (20 of 20)");
+    });
+
+    it.each([
+      [{ maxCost: "free" }, "Invalid --max-cost value: free"],
+      [{ maxTokens: "1.5" }, "Invalid --max-tokens value: 1.5"],
+      [{ maxLoops: "0" }, "Invalid --max-loops value: 0"],
+      [{ maxDuration: "soon" }, "Invalid --max-duration value: soon"],
+    ])("rejects invalid limits %o", async (limits, message) => {
+      await setupRun();
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        ...limits,
+      });
+
+      expect(process.exitCode).toBe(1);
+      expect(spawnRalphLoop).not.toHaveBeenCalled();
+      expect(consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain(message);
+    });
+
+    it("rejects limits in swarm mode", async () => {
+      await setupRun();
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        swarm: "2",
+        maxCost: "5",
+      });
+
+      expect(process.exitCode).toBe(1);
+      expect(consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain(
+        "not supported with --swarm"
+      );
+    });
+  });
+
+  describe("run events", () => {
+    const sink = { write: vi.fn(), close: vi.fn() };
+
+    async function setupRun() {
+      const { readConfig } = await import("../../src/utils/config.js");
+      const { getPlatform } = await import("../../src/platform/registry.js");
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      const { openRunEventSink, startRunEventStream } = await import("../../src/run/run-events.js");
+
+      vi.mocked(readConfig).mockResolvedValue({
+        name: "test",
+        description: "",
+        createdAt: "2026-02-28",
+        platform: "claude-code",
+      });
+      vi.mocked(getPlatform).mockReturnValue(mockPlatform());
+      vi.mocked(spawnRalphLoop).mockReturnValue({
+        child: { pid: 123 },
+        state: "running",
+        exitCode: null,
+        kill: vi.fn(),
+        detach: vi.fn(),
+        onExit: vi.fn(),
+      } as never);
+      vi.mocked(openRunEventSink).mockResolvedValue(sink);
+      vi.mocked(startRunEventStream).mockReturnValue({
+        finished: Promise.resolve(0),
+        failure: null,
+        stop: vi.fn(),
+      });
+    }
+
+    it("streams events to stdout without the dashboard and keeps Ralph's output off stdout", async () => {
+      await setupRun();
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+      const { openRunEventSink, startRunEventStream } = await import("../../src/run/run-events.js");
+      const { clearRunRegistry } = await import("../../src/run/run-registry.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        review: "enhanced",
+        events: "ndjson",
+      });
+
+      expect(startRunDashboard).not.toHaveBeenCalled();
+      expect(openRunEventSink).toHaveBeenCalledWith("/test/project", undefined);
+      expect(spawnRalphLoop).toHaveBeenCalledWith(
+        "/test/project",
+        "claude-code",
+        expect.objectContaining({ inheritStdio: true, stdoutToStderr: true })
+      );
+      expect(startRunEventStream).toHaveBeenCalledWith(
+        "/test/project",
+        expect.anything(),
+        expect.objectContaining({
+          run: expect.objectContaining({ driver: "claude-code", reviewMode: "enhanced" }),
+          interval: 2000,
+          sink,
+        })
+      );
+      expect(sink.close).toHaveBeenCalled();
+      expect(clearRunRegistry).toHaveBeenCalledWith("/test/project", 123);
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain("Enhanced mode");
+    });
+
+    it("writes events to a file and leaves Ralph's output on stdout", async () => {
+      await setupRun();
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      const { openRunEventSink } = await import("../../src/run/run-events.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: true,
+        eventsFile: "ci/events.ndjson",
+      });
+
+      expect(openRunEventSink).toHaveBeenCalledWith("/test/project", "ci/events.ndjson");
+      expect(spawnRalphLoop).toHaveBeenCalledWith("/test/project", "claude-code", {
+        inheritStdio: true,
+        reviewMode: "off",
+      });
+    });
+
+    it("exits with the code resolved from the final Ralph state", async () => {
+      await setupRun();
+      const { startRunEventStream } = await import("../../src/run/run-events.js");
+      vi.mocked(startRunEventStream).mockReturnValueOnce({
+        finished: Promise.resolve(2),
+        failure: null,
+        stop: vi.fn(),
+      });
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: false,
+        events: "ndjson",
+      });
+
+      expect(process.exitCode).toBe(2);
+    });
+
+    it("warns when events could not be written and keeps Ralph's exit code", async () => {
+      await setupRun();
+      const { startRunEventStream } = await import("../../src/run/run-events.js");
+      const { clearRunRegistry } = await import("../../src/run/run-registry.js");
+      vi.mocked(startRunEventStream).mockReturnValueOnce({
+        finished: Promise.resolve(2),
+        failure: "write EPIPE",
+        stop: vi.fn(),
+      });
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: false,
+        events: "ndjson",
+      });
+
+      expect(process.exitCode).toBe(2);
+      expect(clearRunRegistry).toHaveBeenCalledWith("/test/project", 123);
+      expect(consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain(
+        "Warning: Run events could not be written: write EPIPE"
+      );
+    });
+
+    it("rejects an unknown event format", async () => {
+      await setupRun();
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: false,
+        events: "json",
+      });
+
+      expect(process.exitCode).toBe(1);
+      expect(spawnRalphLoop).not.toHaveBeenCalled();
+      expect(consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain(
+        "Unknown event format: json. Valid formats: ndjson"
+      );
+    });
+
+    it("rejects events in swarm mode", async () => {
+      await setupRun();
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: false,
+        swarm: "2",
+        events: "ndjson",
+      });
+
+      expect(process.exitCode).toBe(1);
+      expect(consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n")).toContain(
+        "not supported with --swarm"
+      );
+    });
+  });
+
+  describe("hooks", () => {
+    const hookSink = { write: vi.fn(), close: vi.fn(), failures: [] as string[] };
+    const hooks = { run_finished: [{ command: "./notify.sh" }] };
+
+    async function setupRun(config: Record<string, unknown> = { hooks }) {
+      const { readConfig } = await import("../../src/utils/config.js");
+      const { getPlatform } = await import("../../src/platform/registry.js");
+      const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+      const { startRunEventStream } = await import("../../src/run/run-events.js");
+      const { createHookSink } = await import("../../src/run/hooks.js");
+
+      vi.mocked(readConfig).mockResolvedValue({
+        name: "test",
+        description: "",
+        createdAt: "2026-02-28",
+        platform: "claude-code",
+        ...config,
+      });
+      vi.mocked(getPlatform).mockReturnValue(mockPlatform());
+      vi.mocked(spawnRalphLoop).mockReturnValue({
+        child: { pid: 123 },
+        state: "running",
+        exitCode: null,
+        kill: vi.fn(),
+        detach: vi.fn(),
+        onExit: vi.fn((callback: (code: number | null) => void) => callback(0)),
+      } as never);
+      vi.mocked(startRunEventStream).mockReturnValue({
+        finished: Promise.resolve(0),
+        failure: null,
+        stop: vi.fn(),
+      });
+      hookSink.failures = [];
+      vi.mocked(createHookSink).mockReturnValue(hookSink);
+    }
+
+    it("fires configured hooks from the run event stream", async () => {
+      await setupRun();
+      const { startRunEventStream } = await import("../../src/run/run-events.js");
+      const { createHookSink } = await import("../../src/run/hooks.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: false });
+
+      expect(createHookSink).toHaveBeenCalledWith(hooks, { projectDir: "/test/project" });
+      expect(startRunEventStream).toHaveBeenCalledWith(
+        "/test/project",
+        expect.anything(),
+        expect.objectContaining({ interval: 2000, sink: hookSink })
+      );
+      expect(hookSink.close).toHaveBeenCalled();
+      expect(process.exitCode).toBeUndefined();
+    });
+
+    it("reports failed hooks as warnings without failing the run", async () => {
+      await setupRun();
+      const { runCommand } = await import("../../src/commands/run.js");
+      hookSink.failures = ['run_finished hook "./notify.sh" exited with code 1'];
+
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: false });
+
+      expect(process.exitCode).toBeUndefined();
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain('Warning: run_finished hook "./notify.sh" exited with code 1');
+    });
+
+    it("sends events to both the events sink and the hooks", async () => {
+      await setupRun();
+      const { openRunEventSink, startRunEventStream } = await import("../../src/run/run-events.js");
+      const eventSink = { write: vi.fn(), close: vi.fn() };
+      vi.mocked(openRunEventSink).mockResolvedValue(eventSink);
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: false,
+        eventsFile: "events.ndjson",
+      });
+
+      const sink = vi.mocked(startRunEventStream).mock.calls[0]![2].sink;
+      await sink.close();
+      expect(eventSink.close).toHaveBeenCalled();
+      expect(hookSink.close).toHaveBeenCalled();
+    });
+
+    it("keeps firing hooks after the events sink fails", async () => {
+      await setupRun();
+      const { openRunEventSink, startRunEventStream } = await import("../../src/run/run-events.js");
+      const eventSink = {
+        write: vi.fn().mockRejectedValue(new Error("write EPIPE")),
+        close: vi.fn(),
+      };
+      vi.mocked(openRunEventSink).mockResolvedValue(eventSink);
+      vi.mocked(startRunEventStream).mockImplementationOnce((_projectDir, _ralph, { sink }) => ({
+        finished: (async () => {
+          await sink.write({
+            type: "loop_started",
+            timestamp: "2026-03-01T10:00:00.000Z",
+            loop: 1,
+          });
+          await sink.write({
+            type: "run_finished",
+            timestamp: "2026-03-01T10:05:00.000Z",
+            status: "completed",
+            exitCode: 0,
+            ralphExitCode: 0,
+            stopReason: null,
+            loops: 1,
+            storiesCompleted: 1,
+            storiesTotal: 1,
+          });
+          return 0;
+        })(),
+        failure: null,
+        stop: vi.fn(),
+      }));
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({
+        projectDir: "/test/project",
+        interval: "2000",
+        dashboard: false,
+        eventsFile: "events.ndjson",
+      });
+
+      expect(hookSink.write).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "run_finished" })
+      );
+      expect(process.exitCode).toBeUndefined();
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("Warning: Run events could not be written: write EPIPE");
+    });
+
+    it("does not watch run events when no hooks are configured", async () => {
+      await setupRun({});
+      const { startRunEventStream } = await import("../../src/run/run-events.js");
+
+      const { runCommand } = await import("../../src/commands/run.js");
+      await runCommand({ projectDir: "/test/project", interval: "2000", dashboard: false });
+
+      expect(startRunEventStream).not.toHaveBeenCalled();
+    });
+  });
+
   describe("review mode", () => {
     it("passes reviewMode enhanced when --review is set without value", async () => {
       const { readConfig } = await import("../../src/utils/config.js");
@@ -551,4 +551,67 @@ describe("status command", () => {
       expect(output).not.toContain("Ralph has completed all tasks");
     });
   });
+
+  describe("blocked stories", () => {
+    const fixPlan = [
+      "# Ralph Fix Plan",
+      "",
+      "## Stories to Implement",
+      "",
+      "### Core",
+      "- [x] Story 1.1: Setup",
+      "- [ ] Story 1.2: API",
+      "  > Depends on: Story 1.1",
+      "- [ ] Story 1.3: UI",
+      "  > Depends on: Story 1.1, Story 1.2",
+      "- [ ] Story 1.4: Docs",
+      "  > Depends on: Story 9.9",
+      "",
+    ].join("\n");
+
+    async function setupFixPlan(content: string) {
+      await mkdir(join(testDir, ".ralph"), { recursive: true });
+      await writeFile(join(testDir, ".ralph/@fix_plan.md"), content);
+    }
+
+    it("lists open stories waiting on unfinished dependencies", async () => {
+      await setupProject();
+      await setupState({ currentPhase: 4, status: "implementing" });
+      await setupFixPlan(fixPlan);
+
+      const { runStatus } = await import("../../src/commands/status.js");
+      await runStatus({ projectDir: testDir });
+
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      expect(output).toContain("Blocked Stories");
+      expect(output).toContain("Story 1.3: UI (waiting on Story 1.2)");
+      expect(output).not.toContain("Story 1.2: API (waiting");
+      expect(output).not.toContain("Story 1.4: Docs (waiting");
+    });
+
+    it("includes blocked stories in JSON output", async () => {
+      await setupProject();
+      await setupState({ currentPhase: 4, status: "implementing" });
+      await setupFixPlan(fixPlan);
+
+      const { runStatus } = await import("../../src/commands/status.js");
+      await runStatus({ projectDir: testDir, json: true });
+
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      const parsed = JSON.parse(output);
+      expect(parsed.blockedStories).toEqual([{ id: "1.3", title: "UI", waitingOn: ["1.2"] }]);
+    });
+
+    it("omits the section when no fix plan exists", async () => {
+      await setupProject();
+      await setupState({ currentPhase: 4, status: "implementing" });
+
+      const { runStatus } = await import("../../src/commands/status.js");
+      await runStatus({ projectDir: testDir, json: true });
+
+      const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+      const parsed = JSON.parse(output);
+      expect(parsed.blockedStories).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { RunRegistryEntry } from "../../src/run/run-registry.js";
+
+vi.mock("chalk");
+
+vi.mock("../../src/run/ralph-process.js", () => ({
+  terminateRalphLoop: vi.fn(),
+}));
+
+vi.mock("../../src/run/run-registry.js", () => ({
+  findActiveRun: vi.fn(),
+  clearRunRegistry: vi.fn(),
+  waitForProcessExit: vi.fn(),
+}));
+
+vi.mock("../../src/transition/sprint-status-sync.js", () => ({
+  syncSprintStatusBack: vi.fn(),
+}));
+
+const ENTRY: RunRegistryEntry = {
+  pid: 456,
+  processGroup: 456,
+  driver: "claude-code",
+  reviewMode: "off",
+  startedAt: "2026-03-01T10:00:00.000Z",
+  logs: { ralph: ".ralph/logs/ralph.log", metrics: ".ralph/logs/metrics.jsonl" },
+};
+
+describe("stopCommand", () => {
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let originalExitCode: number | undefined;
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    consoleSpy.mockRestore();
+    process.exitCode = originalExitCode;
+  });
+
+  it("reports when no loop is running", async () => {
+    const { findActiveRun } = await import("../../src/run/run-registry.js");
+    const { terminateRalphLoop } = await import("../../src/run/ralph-process.js");
+    vi.mocked(findActiveRun).mockResolvedValue(null);
+
+    const { stopCommand } = await import("../../src/commands/stop.js");
+    await stopCommand({ projectDir: "/test/project" });
+
+    expect(process.exitCode).toBeUndefined();
+    expect(terminateRalphLoop).not.toHaveBeenCalled();
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("No running Ralph loop found");
+  });
+
+  it("terminates the loop, clears the registry and syncs progress back", async () => {
+    const { findActiveRun, waitForProcessExit, clearRunRegistry } =
+      await import("../../src/run/run-registry.js");
+    const { terminateRalphLoop } = await import("../../src/run/ralph-process.js");
+    const { syncSprintStatusBack } = await import("../../src/transition/sprint-status-sync.js");
+    vi.mocked(findActiveRun).mockResolvedValue(ENTRY);
+    vi.mocked(waitForProcessExit).mockResolvedValue(true);
+
+    const { stopCommand } = await import("../../src/commands/stop.js");
+    await stopCommand({ projectDir: "/test/project" });
+
+    expect(terminateRalphLoop).toHaveBeenCalledWith(ENTRY, "SIGTERM");
+    expect(clearRunRegistry).toHaveBeenCalledWith("/test/project", 456);
+    expect(syncSprintStatusBack).toHaveBeenCalledWith("/test/project");
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("Stopped Ralph loop (PID 456)");
+  });
+
+  it("kills the loop with --force", async () => {
+    const { findActiveRun, waitForProcessExit } = await import("../../src/run/run-registry.js");
+    const { terminateRalphLoop } = await import("../../src/run/ralph-process.js");
+    vi.mocked(findActiveRun).mockResolvedValue(ENTRY);
+    vi.mocked(waitForProcessExit).mockResolvedValue(true);
+
+    const { stopCommand } = await import("../../src/commands/stop.js");
+    await stopCommand({ projectDir: "/test/project", force: true, syncBack: false });
+
+    expect(terminateRalphLoop).toHaveBeenCalledWith(ENTRY, "SIGKILL");
+  });
+
+  it("fails and keeps the registry when the loop does not exit in time", async () => {
+    const { findActiveRun, waitForProcessExit, clearRunRegistry } =
+      await import("../../src/run/run-registry.js");
+    vi.mocked(findActiveRun).mockResolvedValue(ENTRY);
+    vi.mocked(waitForProcessExit).mockResolvedValue(false);
+
+    const { stopCommand } = await import("../../src/commands/stop.js");
+    await stopCommand({ projectDir: "/test/project" });
+
+    expect(process.exitCode).toBe(1);
+    expect(clearRunRegistry).not.toHaveBeenCalled();
+    const errorOutput = consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(errorOutput).toContain("did not stop within 10s. Run: bmalph stop --force");
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("chalk");
+
+const FIX_PLAN = [
+  "# Ralph Fix Plan",
+  "",
+  "## Stories to Implement",
+  "",
+  "### Epic 1: Authentication",
+  "",
+  "- [x] Story 1.1: Sign up",
+  "- [ ] Story 1.2: Log in",
+  "  > AC: Given valid credentials, Then I see the dashboard",
+  "### Epic 2: Billing",
+  "",
+  "- [ ] Story 2.1: Invoices",
+  "",
+  "## Completed",
+  "",
+].join("\n");
+
+describe("story command", () => {
+  let testDir: string;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-test-story-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, ".ralph"), { recursive: true });
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    consoleSpy.mockRestore();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  function output(): string {
+    return consoleSpy.mock.calls.map((c) => c[0]).join("\n");
+  }
+
+  async function writeFixPlan(content = FIX_PLAN): Promise<void> {
+    await writeFile(join(testDir, ".ralph/@fix_plan.md"), content);
+  }
+
+  async function readFixPlan(): Promise<string> {
+    return readFile(join(testDir, ".ralph/@fix_plan.md"), "utf-8");
+  }
+
+  async function writeRunningStatus(): Promise<void> {
+    await writeFile(
+      join(testDir, ".ralph/status.json"),
+      JSON.stringify({ loop_count: 3, status: "running" })
+    );
+  }
+
+  it("points to bmalph implement when there is no fix plan", async () => {
+    const { runStoryList } = await import("../../src/commands/story.js");
+
+    await expect(runStoryList({ projectDir: testDir })).rejects.toThrow(
+      "No fix plan found at .ralph/@fix_plan.md. Run: bmalph implement"
+    );
+  });
+
+  it("lists stories grouped by epic with counts", async () => {
+    await writeFixPlan();
+    const { runStoryList } = await import("../../src/commands/story.js");
+
+    await runStoryList({ projectDir: testDir });
+
+    const text = output();
+    expect(text).toContain("Epic 1: Authentication");
+    expect(text).toContain("✓ 1.1");
+    expect(text).toContain("○ 1.2");
+    expect(text).toContain("2 pending, 1 done, 0 skipped");
+  });
+
+  it("filters list output as JSON", async () => {
+    await writeFixPlan();
+    const { runStoryList } = await import("../../src/commands/story.js");
+
+    await runStoryList({ projectDir: testDir, epic: "1", status: "pending", json: true });
+
+    const stories = JSON.parse(output()) as { id: string }[];
+    expect(stories.map((story) => story.id)).toEqual(["1.2"]);
+  });
+
+  it("rejects unknown status filters", async () => {
+    await writeFixPlan();
+    const { runStoryList } = await import("../../src/commands/story.js");
+
+    await expect(runStoryList({ projectDir: testDir, status: "blocked" })).rejects.toThrow(
+      "Invalid --status value: blocked"
+    );
+  });
+
+  it("shows a story with its details", async () => {
+    await writeFixPlan();
+    const { runStoryShow } = await import("../../src/commands/story.js");
+
+    await runStoryShow({ projectDir: testDir, id: "1.2" });
+
+    expect(output()).toContain("Story 1.2: Log in");
+    expect(output()).toContain("AC: Given valid credentials, Then I see the dashboard");
+  });
+
+  it("marks a story done", async () => {
+    await writeFixPlan();
+    const { runStoryDone } = await import("../../src/commands/story.js");
+
+    await runStoryDone({ projectDir: testDir, id: "1.2" });
+
+    expect(output()).toContain("Story 1.2 done: Log in");
+    expect(await readFixPlan()).toContain("- [x] Story 1.2: Log in\n### Epic 2");
+  });
+
+  it("reports stories that already have the requested status", async () => {
+    await writeFixPlan();
+    const { runStoryDone } = await import("../../src/commands/story.js");
+
+    await runStoryDone({ projectDir: testDir, id: "1.1" });
+
+    expect(output()).toContain("Story 1.1 already done");
+    expect(await readFixPlan()).toBe(FIX_PLAN);
+  });
+
+  it("reopens a collapsed story and hints how to restore details", async () => {
+    await writeFixPlan();
+    const { runStoryReopen } = await import("../../src/commands/story.js");
+
+    await runStoryReopen({ projectDir: testDir, id: "1.1" });
+
+    expect(await readFixPlan()).toContain("- [ ] Story 1.1: Sign up");
+    expect(output()).toContain("Run: bmalph implement to restore them");
+  });
+
+  it("skips and moves stories", async () => {
+    await writeFixPlan();
+    const { runStorySkip, runStoryMove } = await import("../../src/commands/story.js");
+
+    await runStorySkip({ projectDir: testDir, id: "1.2" });
+    await runStoryMove({ projectDir: testDir, id: "2.1", before: "1.2" });
+
+    const content = await readFixPlan();
+    expect(content).toContain("- [-] Story 1.2: Log in");
+    expect(content.indexOf("Story 2.1")).toBeLessThan(content.indexOf("Story 1.2"));
+    expect(output()).toContain("Moved story 2.1 before 1.2");
+  });
+
+  it("requires exactly one move position", async () => {
+    await writeFixPlan();
+    const { runStoryMove } = await import("../../src/commands/story.js");
+
+    await expect(
+      runStoryMove({ projectDir: testDir, id: "2.1", top: true, before: "1.2" })
+    ).rejects.toThrow("Specify exactly one of --before <id>, --after <id> or --top");
+  });
+
+  it("refuses to edit while a Ralph loop is running", async () => {
+    await writeFixPlan();
+    await writeRunningStatus();
+    const { runStoryDone } = await import("../../src/commands/story.js");
+
+    await expect(runStoryDone({ projectDir: testDir, id: "1.2" })).rejects.toThrow(
+      "Ralph loop is running"
+    );
+    expect(await readFixPlan()).toBe(FIX_PLAN);
+  });
+
+  it("edits while Ralph reports running when --force is passed", async () => {
+    await writeFixPlan();
+    await writeRunningStatus();
+    const { runStorySkip } = await import("../../src/commands/story.js");
+
+    await runStorySkip({ projectDir: testDir, id: "2.1", force: true });
+
+    expect(await readFixPlan()).toContain("- [-] Story 2.1: Invoices");
+  });
+});
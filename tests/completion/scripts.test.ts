@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { spawnSync } from "node:child_process";
+import { Command } from "commander";
+import { renderBashCompletion } from "../../src/completion/bash.js";
+import { renderFishCompletion } from "../../src/completion/fish.js";
+import { renderZshCompletion } from "../../src/completion/zsh.js";
+import { buildCompletionSpec } from "../../src/completion/spec.js";
+
+function createProgram(): Command {
+  const program = new Command("bmalph").option("-C, --project-dir <path>", "Run in directory");
+  program.command("init").option("--platform <id>", "Target platform");
+  program
+    .command("run")
+    .option("--driver <platform>", "Driver")
+    .option("--review [mode]", "Review")
+    .option("--swarm [count]", "Workers");
+  const story = program.command("story").description("Stories");
+  story.command("show <id>").description("Show a story");
+  story.command("move <id>").option("--before <id>", "Before");
+  return program;
+}
+
+const isWindows = process.platform === "win32";
+
+/** Runs the bash script's completion function for a command line, with `bmalph` stubbed */
+function completeBash(script: string, words: string[]): string[] {
+  const harness = [
+    `bmalph() { printf '%s\\n' "args:$*" >&2; printf '1.1\\tFirst\\n2.1\\tSecond\\n'; }`,
+    script,
+    `COMP_WORDS=(${words.map((w) => `'${w}'`).join(" ")})`,
+    `COMP_CWORD=$((\${#COMP_WORDS[@]} - 1))`,
+    `_bmalph`,
+    `printf '%s\\n' "\${COMPREPLY[@]}"`,
+  ].join("\n");
+  const result = spawnSync("bash", ["-c", harness], { encoding: "utf-8" });
+  return result.stdout.split("\n").filter(Boolean);
+}
+
+describe("shell completion scripts", () => {
+  const spec = buildCompletionSpec(createProgram());
+
+  describe.skipIf(isWindows)("bash", () => {
+    const script = renderBashCompletion(spec);
+
+    it("is valid bash", () => {
+      const result = spawnSync("bash", ["-n"], { input: script, encoding: "utf-8" });
+      expect(result.status).toBe(0);
+    });
+
+    it("completes subcommands at each level", () => {
+      expect(completeBash(script, ["bmalph", ""])).toEqual(["init", "run", "story", "help"]);
+      expect(completeBash(script, ["bmalph", "story", "s"])).toEqual(["show"]);
+    });
+
+    it("completes option names for the current command", () => {
+      expect(completeBash(script, ["bmalph", "run", "--sw"])).toEqual(["--swarm"]);
+    });
+
+    it("completes static option values", () => {
+      expect(completeBash(script, ["bmalph", "init", "--platform", "c"])).toEqual([
+        "claude-code",
+        "codex",
+        "cursor",
+        "copilot",
+      ]);
+      expect(completeBash(script, ["bmalph", "run", "--driver", ""])).not.toContain("windsurf");
+      expect(completeBash(script, ["bmalph", "run", "--review", ""])).toEqual([
+        "enhanced",
+        "ultimate",
+      ]);
+    });
+
+    it("falls back to options after an option with an optional value", () => {
+      expect(completeBash(script, ["bmalph", "run", "--review", "--dr"])).toEqual(["--driver"]);
+    });
+
+    it("completes story ids from bmalph __complete", () => {
+      expect(completeBash(script, ["bmalph", "story", "show", ""])).toEqual(["1.1", "2.1"]);
+      expect(completeBash(script, ["bmalph", "story", "move", "1.1", "--before", "2"])).toEqual([
+        "2.1",
+      ]);
+    });
+
+    it("skips option values when tracking the command path", () => {
+      expect(completeBash(script, ["bmalph", "-C", "story", "story", "show", ""])).toEqual([
+        "1.1",
+        "2.1",
+      ]);
+      expect(completeBash(script, ["bmalph", "story", "show", "1.1", ""])).toEqual([]);
+    });
+  });
+
+  it("renders zsh completion with descriptions for sourcing or autoloading", () => {
+    const script = renderZshCompletion(spec);
+
+    expect(script.startsWith("#compdef bmalph\n")).toBe(true);
+    expect(script).toContain("'show:Show a story'");
+    expect(script).toContain(`"story show|0")`);
+    expect(script).toContain('_bmalph_dynamic "$project_dir" stories');
+    expect(script).toContain("compdef _bmalph bmalph");
+  });
+
+  it("renders fish completion with per-path conditions", () => {
+    const script = renderFishCompletion(spec);
+
+    expect(script).toContain(
+      `complete -c bmalph -n "__bmalph_using 'story'" -a show -d 'Show a story'`
+    );
+    expect(script).toContain(
+      `complete -c bmalph -n "__bmalph_using 'run'" -l driver -d 'Driver' -x -a 'claude-code codex opencode cursor copilot'`
+    );
+    expect(script).toContain(
+      `complete -c bmalph -n "__bmalph_after 'run' --review" -a 'enhanced ultimate'`
+    );
+    expect(script).toContain(
+      `complete -c bmalph -n "__bmalph_argument 'story show' 0" -a '(__bmalph_dynamic stories)'`
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { Command } from "commander";
+import { buildCompletionSpec, flattenCommands, valueOptions } from "../../src/completion/spec.js";
+
+function createProgram(): Command {
+  const program = new Command("bmalph").option("-C, --project-dir <path>", "Run in directory");
+  program
+    .command("run")
+    .option("--driver <platform>", "Driver")
+    .option("--review [mode]", "Review");
+  const story = program.command("story").description("Stories");
+  story.command("show <id>").description("Show a story").option("--json", "Output as JSON");
+  story.command("list").option("--epic <epic>", "Epic");
+  program.command("__complete <source>", { hidden: true });
+  return program;
+}
+
+describe("buildCompletionSpec", () => {
+  it("describes visible commands with their paths, skipping hidden ones", () => {
+    const spec = buildCompletionSpec(createProgram());
+
+    expect(flattenCommands(spec).map((command) => command.path)).toEqual([
+      "",
+      "run",
+      "story",
+      "story show",
+      "story list",
+      "story help",
+      "help",
+    ]);
+  });
+
+  it("attaches value sources to options and arguments", () => {
+    const spec = buildCompletionSpec(createProgram());
+    const commands = new Map(flattenCommands(spec).map((command) => [command.path, command]));
+
+    const driver = commands.get("run")?.options.find((o) => o.flags.includes("--driver"));
+    expect(driver?.value).toBe("required");
+    expect(driver?.values).toEqual({
+      kind: "static",
+      values: ["claude-code", "codex", "opencode", "cursor", "copilot"],
+    });
+
+    const review = commands.get("run")?.options.find((o) => o.flags.includes("--review"));
+    expect(review?.value).toBe("optional");
+    expect(review?.values).toEqual({ kind: "static", values: ["enhanced", "ultimate"] });
+
+    expect(commands.get("story show")?.arguments).toEqual([
+      { name: "id", values: { kind: "dynamic", source: "stories" } },
+    ]);
+    expect(commands.get("story list")?.options[0]?.values).toEqual({
+      kind: "dynamic",
+      source: "epics",
+    });
+    expect(spec.options[0]).toMatchObject({
+      flags: ["-C", "--project-dir"],
+      values: { kind: "directory" },
+    });
+  });
+
+  it("lists options that consume the next word", () => {
+    const spec = buildCompletionSpec(createProgram());
+
+    expect(
+      valueOptions(spec).map(({ command, option }) => `${command.path} ${option.flags.join(",")}`)
+    ).toEqual([" -C,--project-dir", "run --driver", "run --review", "story list --epic"]);
+  });
+});
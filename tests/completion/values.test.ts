@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { resolveDynamicCompletions } from "../../src/completion/values.js";
+
+const FIX_PLAN = `# Ralph Fix Plan
+
+### Epic 1: Foundation
+- [x] Story 1.1: Setup
+- [-] Story 1.2: Skipped work
+
+### Epic 2: Features
+- [ ] Story 2.1: Login
+`;
+
+describe("resolveDynamicCompletions", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-completion-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, ".ralph"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("lists every story id with its title", async () => {
+    await writeFile(join(testDir, ".ralph/@fix_plan.md"), FIX_PLAN);
+
+    expect(await resolveDynamicCompletions(testDir, "stories")).toEqual([
+      "1.1\tSetup",
+      "1.2\tSkipped work",
+      "2.1\tLogin",
+    ]);
+  });
+
+  it("lists epic numbers with their headings", async () => {
+    await writeFile(join(testDir, ".ralph/@fix_plan.md"), FIX_PLAN);
+
+    expect(await resolveDynamicCompletions(testDir, "epics")).toEqual([
+      "1\tEpic 1: Foundation",
+      "2\tEpic 2: Features",
+    ]);
+  });
+
+  it("returns nothing without a fix plan", async () => {
+    expect(await resolveDynamicCompletions(testDir, "stories")).toEqual([]);
+  });
+});
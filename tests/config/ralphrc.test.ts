@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseRalphrc, setRalphrcValue, unsetRalphrcValue } from "../../src/config/ralphrc.js";
+import {
+  RALPHRC_KEYS,
+  describeRalphrcType,
+  getRalphrcKeyDefinition,
+  validateRalphrcValue,
+} from "../../src/config/ralphrc-schema.js";
+
+const SAMPLE = [
+  "# Ralph config",
+  'PLATFORM_DRIVER="${PLATFORM_DRIVER:-claude-code}"',
+  "",
+  "# Maximum API calls per hour",
+  "MAX_CALLS_PER_HOUR=100",
+  'CLAUDE_OUTPUT_FORMAT="json"',
+  '# PROMPT_FILE="PROMPT.md"',
+  "MAX_CALL_PER_HOUR=50",
+  "TEST_COMMAND=$(rm -rf /)",
+  "not a key value line",
+  "",
+].join("\n");
+
+describe("ralphrc", () => {
+  describe("schema", () => {
+    it("covers exactly the keys allowed by ralph_loop.sh", () => {
+      const loop = readFileSync(join(process.cwd(), "ralph/ralph_loop.sh"), "utf-8");
+      const match = /^RALPHRC_ALLOWED_KEYS="([^"]*)"/m.exec(loop);
+      const allowed = (match?.[1] ?? "").trim().split(/\s+/).sort();
+
+      expect(RALPHRC_KEYS.map((definition) => definition.key).sort()).toEqual(allowed);
+    });
+
+    it("normalizes booleans, integers and lists", () => {
+      expect(validateRalphrcValue("CB_AUTO_RESET", "TRUE")).toBe("true");
+      expect(validateRalphrcValue("MAX_CALLS_PER_HOUR", "050")).toBe("50");
+      expect(validateRalphrcValue("TASK_SOURCES", "local, github")).toBe("local,github");
+    });
+
+    it("rejects values outside a key's range or enum", () => {
+      expect(() => validateRalphrcValue("CLAUDE_TIMEOUT_MINUTES", "121")).toThrow(
+        "Expected integer 1-120 (minutes)"
+      );
+      expect(() => validateRalphrcValue("QUALITY_GATE_MODE", "strict")).toThrow(
+        "warn | block | circuit-breaker"
+      );
+      expect(() => validateRalphrcValue("PERMISSION_DENIAL_MODE", "ignore")).toThrow(
+        "continue | halt | threshold"
+      );
+      expect(() => validateRalphrcValue("SESSION_CONTINUITY", "yes")).toThrow("true | false");
+      expect(() => validateRalphrcValue("TASK_SOURCES", "jira")).toThrow("list of");
+      expect(() => validateRalphrcValue("PLATFORM_DRIVER", "windsurf")).toThrow();
+    });
+
+    it("rejects unknown keys", () => {
+      expect(() => validateRalphrcValue("MAX_CALL_PER_HOUR", "5")).toThrow("Unknown .ralphrc key");
+    });
+
+    it("describes types for display", () => {
+      const definition = getRalphrcKeyDefinition("CB_COOLDOWN_MINUTES");
+      expect(definition && describeRalphrcType(definition.type)).toBe("integer >= 0 (minutes)");
+    });
+  });
+
+  describe("parseRalphrc", () => {
+    it("parses allowlisted assignments with quotes and env defaults", () => {
+      const parsed = parseRalphrc(SAMPLE);
+
+      expect(parsed.entries.get("PLATFORM_DRIVER")).toEqual({
+        key: "PLATFORM_DRIVER",
+        value: "claude-code",
+        envRef: "PLATFORM_DRIVER",
+        quote: '"',
+        line: 2,
+      });
+      expect(parsed.entries.get("MAX_CALLS_PER_HOUR")?.value).toBe("100");
+      expect(parsed.entries.get("CLAUDE_OUTPUT_FORMAT")?.value).toBe("json");
+      expect(parsed.entries.has("PROMPT_FILE")).toBe(false);
+    });
+
+    it("reports lines Ralph would ignore", () => {
+      const parsed = parseRalphrc(SAMPLE);
+
+      expect(parsed.issues).toEqual([
+        { line: 8, message: "unknown key ignored: MAX_CALL_PER_HOUR" },
+        { line: 9, message: "rejected (command substitution)" },
+        { line: 10, message: "skipped (not KEY=VALUE)" },
+      ]);
+      expect(parsed.entries.has("TEST_COMMAND")).toBe(false);
+    });
+  });
+
+  describe("setRalphrcValue", () => {
+    it("replaces an existing assignment and keeps comments and layout", () => {
+      const updated = setRalphrcValue(SAMPLE, "MAX_CALLS_PER_HOUR", "40");
+
+      expect(updated).toBe(SAMPLE.replace("MAX_CALLS_PER_HOUR=100", "MAX_CALLS_PER_HOUR=40"));
+    });
+
+    it("keeps the env fallback form of an existing assignment", () => {
+      const updated = setRalphrcValue(SAMPLE, "PLATFORM_DRIVER", "codex");
+
+      expect(updated).toContain('PLATFORM_DRIVER="${PLATFORM_DRIVER:-codex}"');
+    });
+
+    it("keeps the existing quoting style", () => {
+      const updated = setRalphrcValue(SAMPLE, "CLAUDE_OUTPUT_FORMAT", "text");
+
+      expect(updated).toContain('CLAUDE_OUTPUT_FORMAT="text"');
+    });
+
+    it("activates a commented-out assignment in place", () => {
+      const updated = setRalphrcValue(SAMPLE, "PROMPT_FILE", "CUSTOM.md");
+
+      expect(updated.split("\n")[6]).toBe('PROMPT_FILE="CUSTOM.md"');
+    });
+
+    it("appends keys that are not present", () => {
+      const updated = setRalphrcValue(SAMPLE, "CB_AUTO_RESET", "true");
+
+      expect(updated.endsWith("\nCB_AUTO_RESET=true\n")).toBe(true);
+      expect(updated.startsWith(SAMPLE.trimEnd())).toBe(true);
+    });
+
+    it("refuses values the parser would reject", () => {
+      expect(() => setRalphrcValue(SAMPLE, "TEST_COMMAND", "$(whoami)")).toThrow(
+        "command substitution"
+      );
+      expect(() => setRalphrcValue(SAMPLE, "TEST_COMMAND", "a\nb")).toThrow("single line");
+    });
+  });
+
+  describe("unsetRalphrcValue", () => {
+    it("comments out the assignment so the default applies", () => {
+      const updated = unsetRalphrcValue(SAMPLE, "MAX_CALLS_PER_HOUR");
+
+      expect(updated).toContain("# MAX_CALLS_PER_HOUR=100");
+      expect(parseRalphrc(updated).entries.has("MAX_CALLS_PER_HOUR")).toBe(false);
+    });
+  });
+});
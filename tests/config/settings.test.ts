@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { getSetting, listSettings, setSetting, unsetSetting } from "../../src/config/settings.js";
+
+describe("settings", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-settings-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, "bmalph"), { recursive: true });
+    await mkdir(join(testDir, ".ralph"), { recursive: true });
+    await writeFile(
+      join(testDir, "bmalph/config.json"),
+      JSON.stringify({ name: "demo", description: "", createdAt: "2025-01-01T00:00:00.000Z" })
+    );
+    await writeFile(
+      join(testDir, ".ralph/.ralphrc"),
+      [
+        'PROJECT_TYPE="${PROJECT_TYPE:-typescript}"',
+        "MAX_CALLS_PER_HOUR=40",
+        "CB_NO_PROGRESS_THRESHOLD=5",
+        "CLAUDE_TIMEOUT_MINUTES=500",
+        "",
+      ].join("\n")
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("resolves file values, template defaults and env overrides", async () => {
+    const env = { MAX_CALLS_PER_HOUR: "10", CB_NO_PROGRESS_THRESHOLD: "9", PROJECT_TYPE: "go" };
+    const { settings } = await listSettings(testDir, env);
+    const byKey = new Map(settings.map((setting) => [setting.key, setting]));
+
+    // Snapshotted key: env wins over the file
+    expect(byKey.get("MAX_CALLS_PER_HOUR")).toMatchObject({
+      value: "10",
+      source: "env",
+      fileValue: "40",
+    });
+    // ${VAR:-default} form: env wins
+    expect(byKey.get("PROJECT_TYPE")).toMatchObject({ value: "go", source: "env" });
+    // Not snapshotted and set in the file: file wins
+    expect(byKey.get("CB_NO_PROGRESS_THRESHOLD")).toMatchObject({ value: "5", source: "file" });
+    // Absent from file: template default
+    expect(byKey.get("QUALITY_GATE_MODE")).toMatchObject({ value: "warn", source: "default" });
+    expect(byKey.get("name")).toMatchObject({ value: "demo", source: "file", scope: "bmalph" });
+  });
+
+  it("flags file values that violate the key's range", async () => {
+    const setting = await getSetting(testDir, "CLAUDE_TIMEOUT_MINUTES", {});
+
+    expect(setting.invalid).toContain("Expected integer 1-120");
+  });
+
+  it("writes validated .ralphrc values in place", async () => {
+    const written = await setSetting(testDir, "SESSION_CONTINUITY", "FALSE");
+
+    expect(written).toBe("false");
+    const content = await readFile(join(testDir, ".ralph/.ralphrc"), "utf-8");
+    expect(content).toContain("SESSION_CONTINUITY=false");
+    expect(content).toContain("MAX_CALLS_PER_HOUR=40");
+  });
+
+  it("rejects invalid values without touching the file", async () => {
+    await expect(setSetting(testDir, "QUALITY_GATE_MODE", "strict")).rejects.toThrow(
+      "Invalid value for QUALITY_GATE_MODE"
+    );
+    const content = await readFile(join(testDir, ".ralph/.ralphrc"), "utf-8");
+    expect(content).not.toContain("QUALITY_GATE_MODE");
+  });
+
+  it("writes and unsets bmalph/config.json keys", async () => {
+    await setSetting(testDir, "platform", "codex");
+    expect((await getSetting(testDir, "platform", {})).value).toBe("codex");
+
+    await unsetSetting(testDir, "platform");
+    const config = JSON.parse(await readFile(join(testDir, "bmalph/config.json"), "utf-8"));
+    expect(config.platform).toBeUndefined();
+    expect(config.name).toBe("demo");
+  });
+
+  it("stores contextTokenBudget as a number", async () => {
+    expect(await setSetting(testDir, "contextTokenBudget", "4000")).toBe("4000");
+    const config = JSON.parse(await readFile(join(testDir, "bmalph/config.json"), "utf-8"));
+    expect(config.contextTokenBudget).toBe(4000);
+    expect((await getSetting(testDir, "contextTokenBudget", {})).value).toBe("4000");
+
+    await expect(setSetting(testDir, "contextTokenBudget", "0")).rejects.toThrow(
+      "Invalid value for contextTokenBudget"
+    );
+  });
+
+  it("refuses to change managed or required bmalph keys", async () => {
+    await expect(setSetting(testDir, "createdAt", "now")).rejects.toThrow("managed by bmalph");
+    await expect(unsetSetting(testDir, "name")).rejects.toThrow("cannot be unset");
+    await expect(setSetting(testDir, "platform", "vim")).rejects.toThrow("Invalid value");
+  });
+
+  it("rejects unknown keys with a hint", async () => {
+    await expect(getSetting(testDir, "MAX_CALL_PER_HOUR", {})).rejects.toThrow(
+      "bmalph config list"
+    );
+  });
+});
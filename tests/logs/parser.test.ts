@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchesLogFilter,
+  parseLogTimestamp,
+  parseRalphLog,
+  RalphLogParser,
+} from "../../src/logs/parser.js";
+
+const LOG = `[2026-03-01 10:00:00] [INFO] Starting Ralph
+[2026-03-01 10:00:01] [LOOP] === Starting Loop #1 ===
+[2026-03-01 10:00:02] [LOOP] Executing Claude Code (Call 1/100)
+[2026-03-01 10:05:00] [WARN] Errors detected in output
+  continued detail line
+[2026-03-01 10:05:01] [LOOP] === Completed Loop #1 ===
+[2026-03-01 10:05:02] [INFO] Rate limit check
+[2026-03-01 10:05:03] [LOOP] === Starting Loop #2 ===
+[2026-03-01 10:09:00] [ERROR] Circuit breaker opened
+`;
+
+describe("parseRalphLog", () => {
+  it("attributes entries to the loop they were logged in", () => {
+    const entries = parseRalphLog(LOG);
+
+    expect(entries.map((e) => [e.level, e.loop])).toEqual([
+      ["INFO", null],
+      ["LOOP", 1],
+      ["LOOP", 1],
+      ["WARN", 1],
+      ["WARN", 1],
+      ["LOOP", 1],
+      ["INFO", null],
+      ["LOOP", 2],
+      ["ERROR", 2],
+    ]);
+  });
+
+  it("keeps continuation lines as entries with the previous entry's timestamp", () => {
+    const continuation = parseRalphLog(LOG)[4];
+
+    expect(continuation).toEqual({
+      timestamp: "2026-03-01 10:05:00",
+      level: "WARN",
+      message: "  continued detail line",
+      loop: 1,
+      line: 5,
+    });
+  });
+
+  it("skips blank lines and leading unprefixed lines", () => {
+    expect(parseRalphLog("garbage\n\n[2026-03-01 10:00:00] [INFO] ok\r\n")).toEqual([
+      { timestamp: "2026-03-01 10:00:00", level: "INFO", message: "ok", loop: null, line: 3 },
+    ]);
+  });
+
+  it("tracks the loop across separately parsed lines", () => {
+    const parser = new RalphLogParser();
+    parser.parseLine("[2026-03-01 10:00:01] [LOOP] === Starting Loop #7 ===");
+
+    expect(parser.parseLine("[2026-03-01 10:00:02] [INFO] working")?.loop).toBe(7);
+  });
+});
+
+describe("parseLogTimestamp", () => {
+  it("parses Ralph's local timestamps", () => {
+    expect(parseLogTimestamp("2026-03-01 10:05:00")).toEqual(new Date(2026, 2, 1, 10, 5, 0));
+    expect(parseLogTimestamp("yesterday")).toBeNull();
+  });
+});
+
+describe("matchesLogFilter", () => {
+  const entries = parseRalphLog(LOG);
+
+  it("filters by level, loop and message pattern", () => {
+    expect(entries.filter((e) => matchesLogFilter(e, { levels: ["WARN", "ERROR"] }))).toHaveLength(
+      3
+    );
+    expect(entries.filter((e) => matchesLogFilter(e, { loop: 2 }))).toHaveLength(2);
+    expect(
+      entries.filter((e) => matchesLogFilter(e, { grep: /circuit/i })).map((e) => e.message)
+    ).toEqual(["Circuit breaker opened"]);
+  });
+
+  it("filters by time range, inclusive", () => {
+    const filtered = entries.filter((e) =>
+      matchesLogFilter(e, {
+        since: new Date(2026, 2, 1, 10, 5, 1),
+        until: new Date(2026, 2, 1, 10, 5, 3),
+      })
+    );
+
+    expect(filtered.map((e) => e.timestamp)).toEqual([
+      "2026-03-01 10:05:01",
+      "2026-03-01 10:05:02",
+      "2026-03-01 10:05:03",
+    ]);
+  });
+});
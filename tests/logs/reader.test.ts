@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { appendFile, mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { findLoopOutputFiles, followRalphLog, readRalphLog } from "../../src/logs/reader.js";
+import type { RalphLogEntry } from "../../src/logs/types.js";
+
+const LOG = `[2026-03-01 10:00:01] [LOOP] === Starting Loop #1 ===
+[2026-03-01 10:05:01] [LOOP] === Completed Loop #1 ===
+[2026-03-01 10:05:03] [LOOP] === Starting Loop #2 ===
+[2026-03-01 10:09:00] [LOOP] === Completed Loop #2 ===
+[2026-03-01 11:00:00] [INFO] Starting Ralph
+[2026-03-01 11:00:01] [LOOP] === Starting Loop #1 ===
+`;
+
+describe("ralph log reader", () => {
+  let testDir: string;
+  let logsDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `bmalph-logs-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    logsDir = join(testDir, ".ralph/logs");
+    await mkdir(logsDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  describe("readRalphLog", () => {
+    it("returns no entries when the log does not exist", async () => {
+      const log = await readRalphLog(testDir);
+
+      expect(log.entries).toEqual([]);
+      expect(log.size).toBe(0);
+    });
+
+    it("parses the whole log and reports its size", async () => {
+      await writeFile(join(logsDir, "ralph.log"), LOG);
+
+      const log = await readRalphLog(testDir);
+
+      expect(log.entries).toHaveLength(6);
+      expect(log.size).toBe(Buffer.byteLength(LOG));
+    });
+  });
+
+  describe("findLoopOutputFiles", () => {
+    beforeEach(async () => {
+      await writeFile(join(logsDir, "ralph.log"), LOG);
+      for (const name of [
+        "claude_output_2026-03-01_10-00-02.log",
+        "claude_stderr_2026-03-01_10-00-02.log",
+        "claude_output_2026-03-01_10-05-04.log",
+        "claude_output_2026-03-01_11-00-02.log",
+        "claude_output_2026-03-01_11-00-02_stream.log",
+      ]) {
+        await writeFile(join(logsDir, name), name);
+      }
+    });
+
+    it("finds the capture started during the loop", async () => {
+      const { entries } = await readRalphLog(testDir);
+
+      expect(await findLoopOutputFiles(testDir, entries, 2)).toEqual({
+        loop: 2,
+        output: ".ralph/logs/claude_output_2026-03-01_10-05-04.log",
+        stderr: null,
+      });
+    });
+
+    it("uses the most recent run when loop numbers repeat", async () => {
+      const { entries } = await readRalphLog(testDir);
+
+      expect((await findLoopOutputFiles(testDir, entries, 1))?.output).toBe(
+        ".ralph/logs/claude_output_2026-03-01_11-00-02.log"
+      );
+    });
+
+    it("includes the stderr capture when present", async () => {
+      const { entries } = await readRalphLog(testDir);
+
+      expect(await findLoopOutputFiles(testDir, entries.slice(0, 2), 1)).toEqual({
+        loop: 1,
+        output: ".ralph/logs/claude_output_2026-03-01_10-00-02.log",
+        stderr: ".ralph/logs/claude_stderr_2026-03-01_10-00-02.log",
+      });
+    });
+
+    it("returns null for an unknown loop", async () => {
+      const { entries } = await readRalphLog(testDir);
+
+      expect(await findLoopOutputFiles(testDir, entries, 9)).toBeNull();
+    });
+  });
+
+  describe("followRalphLog", () => {
+    it("reports appended entries until aborted, keeping the loop context", async () => {
+      await writeFile(join(logsDir, "ralph.log"), LOG);
+      const log = await readRalphLog(testDir);
+      const received: RalphLogEntry[] = [];
+      const controller = new AbortController();
+
+      const following = followRalphLog({
+        projectDir: testDir,
+        offset: log.size,
+        parser: log.parser,
+        intervalMs: 10,
+        signal: controller.signal,
+        onEntry: (entry) => received.push(entry),
+      });
+
+      await appendFile(join(logsDir, "ralph.log"), "[2026-03-01 11:00:05] [WARN] partial");
+      await appendFile(join(logsDir, "ralph.log"), " line\n");
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      controller.abort();
+      await following;
+
+      expect(received[0]).toMatchObject({ level: "WARN", message: "partial line", loop: 1 });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { buildMetricsReport, filterMetrics, summarizeMetrics } from "../../src/metrics/report.js";
+import type { RalphLoopMetrics } from "../../src/utils/ralph-metrics.js";
+
+function metric(overrides: Partial<RalphLoopMetrics>): RalphLoopMetrics {
+  return {
+    runId: "run-a",
+    loop: 1,
+    timestamp: "2025-06-01T10:00:00Z",
+    driver: "claude-code",
+    sessionId: "",
+    loopOutcome: "success",
+    durationMs: 60000,
+    durationApiMs: null,
+    inputTokens: 1000,
+    outputTokens: 500,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    totalCostUsd: 0.5,
+    numTurns: null,
+    filesChanged: 2,
+    reportedFilesModified: 0,
+    hasErrors: false,
+    exitSignal: false,
+    wasReadOnlyTimeout: false,
+    qualityGateResult: null,
+    hasPermissionDenials: false,
+    circuitBreakerState: "CLOSED",
+    ...overrides,
+  };
+}
+
+describe("metrics report", () => {
+  describe("summarizeMetrics", () => {
+    it("totals usage and counts outcomes", () => {
+      const summary = summarizeMetrics([
+        metric({ loop: 1 }),
+        metric({ loop: 2, loopOutcome: "read_only_timeout", totalCostUsd: 1.5 }),
+        metric({ loop: 3, loopOutcome: "circuit_breaker_trip", qualityGateResult: 1 }),
+      ]);
+
+      expect(summary.loops).toBe(3);
+      expect(summary.costUsd).toBeCloseTo(2.5);
+      expect(summary.inputTokens).toBe(3000);
+      expect(summary.filesChanged).toBe(6);
+      expect(summary.outcomes).toEqual({
+        success: 1,
+        read_only_timeout: 1,
+        error: 0,
+        circuit_breaker_trip: 1,
+        api_limit: 0,
+      });
+      expect(summary.qualityGateFailures).toBe(1);
+    });
+
+    it("averages only over loops that reported a value", () => {
+      const summary = summarizeMetrics([
+        metric({ totalCostUsd: 1, durationMs: 1000 }),
+        metric({
+          loopOutcome: "error",
+          totalCostUsd: null,
+          durationMs: null,
+          inputTokens: null,
+          outputTokens: null,
+        }),
+      ]);
+
+      expect(summary.avgCostUsd).toBe(1);
+      expect(summary.avgDurationMs).toBe(1000);
+      expect(summary.avgTokens).toBe(1500);
+    });
+
+    it("returns null averages for an empty set", () => {
+      const summary = summarizeMetrics([]);
+
+      expect(summary.loops).toBe(0);
+      expect(summary.avgCostUsd).toBeNull();
+      expect(summary.avgDurationMs).toBeNull();
+      expect(summary.avgTokens).toBeNull();
+    });
+  });
+
+  describe("buildMetricsReport", () => {
+    it("groups by run in chronological order, by driver and by day", () => {
+      const report = buildMetricsReport([
+        metric({ runId: "run-b", timestamp: "2025-06-02T09:00:00Z", driver: "codex" }),
+        metric({ runId: "run-a", timestamp: "2025-06-01T10:00:00Z" }),
+        metric({ runId: "run-a", loop: 2, timestamp: "2025-06-01T10:05:00Z", totalCostUsd: 1 }),
+      ]);
+
+      expect(report.runs.map((r) => r.runId)).toEqual(["run-a", "run-b"]);
+      expect(report.runs[0]).toMatchObject({
+        loops: 2,
+        drivers: ["claude-code"],
+        startedAt: "2025-06-01T10:00:00Z",
+        endedAt: "2025-06-01T10:05:00Z",
+      });
+      expect(report.runs[0]!.costUsd).toBeCloseTo(1.5);
+      expect(report.drivers.map((d) => [d.driver, d.loops])).toEqual([
+        ["claude-code", 2],
+        ["codex", 1],
+      ]);
+      expect(report.costTrend).toEqual([
+        { date: "2025-06-01", loops: 2, costUsd: 1.5 },
+        { date: "2025-06-02", loops: 1, costUsd: 0.5 },
+      ]);
+      expect(report.totals.loops).toBe(3);
+    });
+  });
+
+  describe("filterMetrics", () => {
+    const records = [
+      metric({ runId: "run-a", timestamp: "2025-06-01T10:00:00Z" }),
+      metric({ runId: "run-b", timestamp: "2025-06-03T10:00:00Z" }),
+    ];
+
+    it("filters by run id", () => {
+      expect(filterMetrics(records, { runId: "run-b" }).map((r) => r.runId)).toEqual(["run-b"]);
+    });
+
+    it("filters by since date", () => {
+      expect(
+        filterMetrics(records, { since: new Date("2025-06-02T00:00:00Z") }).map((r) => r.runId)
+      ).toEqual(["run-b"]);
+    });
+
+    it("returns everything without filters", () => {
+      expect(filterMetrics(records, {})).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { installProject, mergeInstructionsFile } from "../../src/installer.js";
+import { getPlatform } from "../../src/platform/registry.js";
+import {
+  buildPlatformSwitchPlan,
+  executePlatformSwitchPlan,
+  switchPlanToDryRunActions,
+  type PlatformSwitchPlan,
+} from "../../src/platform/switch.js";
+import { readConfig, writeConfig } from "../../src/utils/config.js";
+import { exists } from "../../src/utils/file-system.js";
+
+const FIX_PLAN = "# Ralph Fix Plan\n\n- [x] Story 1.1: Done\n- [ ] Story 1.2: Next\n";
+
+describe("platform switch", { timeout: 60000 }, () => {
+  let testDir: string;
+  let plan: PlatformSwitchPlan;
+
+  beforeAll(async () => {
+    testDir = join(tmpdir(), `bmalph-switch-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    const claude = getPlatform("claude-code");
+    await installProject(testDir, claude);
+    await mergeInstructionsFile(testDir, claude);
+    await writeConfig(testDir, {
+      name: "test",
+      description: "",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      platform: "claude-code",
+    });
+    await writeFile(join(testDir, "CLAUDE.md"), "# House rules\n\n" + (await readClaudeSnippet()));
+    await writeFile(join(testDir, ".claude/commands/my-own.md"), "# mine\n");
+    await writeFile(join(testDir, ".ralph/@fix_plan.md"), FIX_PLAN);
+    await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+    await writeFile(join(testDir, "_bmad-output/planning-artifacts/prd.md"), "# PRD\n");
+
+    plan = await buildPlatformSwitchPlan(testDir, claude, getPlatform("codex"));
+  });
+
+  afterAll(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  async function readClaudeSnippet(): Promise<string> {
+    return getPlatform("claude-code").generateInstructionsSnippet();
+  }
+
+  it("plans removal of bmalph-owned commands and the old instructions section", () => {
+    expect(plan.commandFilesToRemove.length).toBeGreaterThan(0);
+    expect(plan.commandFilesToRemove.every((f) => f.startsWith(".claude/commands/"))).toBe(true);
+    expect(plan.commandFilesToRemove).not.toContain(".claude/commands/my-own.md");
+    expect(plan.instructionsCleanup).toEqual({
+      path: "CLAUDE.md",
+      marker: "## BMAD-METHOD Integration",
+    });
+    expect(plan.ralphDriver).toBe("codex");
+  });
+
+  it("describes the switch as dry-run actions", () => {
+    const actions = switchPlanToDryRunActions(plan);
+
+    expect(actions).toContainEqual({ type: "modify", path: "CLAUDE.md" });
+    expect(actions).toContainEqual({ type: "create", path: ".agents/skills/" });
+    expect(actions).toContainEqual({ type: "create", path: "AGENTS.md" });
+    expect(actions).toContainEqual({ type: "modify", path: ".ralph/.ralphrc" });
+    expect(actions).toContainEqual({ type: "modify", path: "bmalph/config.json" });
+    expect(actions).toContainEqual(
+      expect.objectContaining({ type: "warn", path: "_bmad-output/" })
+    );
+  });
+
+  it("moves platform files and keeps Ralph state and BMAD output", async () => {
+    await executePlatformSwitchPlan(testDir, plan);
+
+    expect(await readdir(join(testDir, ".claude/commands"))).toEqual(["my-own.md"]);
+    expect(await readFile(join(testDir, "CLAUDE.md"), "utf-8")).toBe("# House rules\n");
+    expect(await readFile(join(testDir, "AGENTS.md"), "utf-8")).toContain(
+      "## BMAD-METHOD Integration"
+    );
+    const skills = await readdir(join(testDir, ".agents/skills"));
+    expect(skills.some((dir) => dir.startsWith("bmad-"))).toBe(true);
+
+    const ralphrc = await readFile(join(testDir, ".ralph/.ralphrc"), "utf-8");
+    expect(ralphrc).toContain('PLATFORM_DRIVER="${PLATFORM_DRIVER:-codex}"');
+    expect((await readConfig(testDir))?.platform).toBe("codex");
+
+    expect(await readFile(join(testDir, ".ralph/@fix_plan.md"), "utf-8")).toBe(FIX_PLAN);
+    expect(await exists(join(testDir, "_bmad-output/planning-artifacts/prd.md"))).toBe(true);
+  });
+
+  it("leaves PLATFORM_DRIVER alone for instructions-only platforms", async () => {
+    const aiderPlan = await buildPlatformSwitchPlan(
+      testDir,
+      getPlatform("codex"),
+      getPlatform("aider")
+    );
+
+    expect(aiderPlan.ralphDriver).toBeNull();
+    expect(aiderPlan.commandsTarget).toBeNull();
+    expect(aiderPlan.commandFilesToRemove.every((f) => f.startsWith(".agents/skills/"))).toBe(true);
+    expect(aiderPlan.warnings).toContainEqual({
+      path: ".ralph/",
+      message:
+        "Aider supports planning phases only; bmalph run is unavailable until you switch back to a full-tier platform",
+    });
+  });
+});
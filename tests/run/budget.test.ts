@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { RalphProcess } from "../../src/run/types.js";
+import type { RalphLoopMetrics } from "../../src/utils/ralph-metrics.js";
+
+vi.mock("../../src/utils/ralph-metrics.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/utils/ralph-metrics.js")>()),
+  readRalphMetrics: vi.fn(),
+}));
+
+vi.mock("../../src/utils/ralph-runtime-state.js", () => ({
+  readRalphRuntimeStatus: vi.fn(),
+}));
+
+vi.mock("../../src/run/loop-control.js", () => ({
+  readLoopControl: vi.fn(),
+  writeLoopControl: vi.fn(),
+}));
+
+const OPTIONS = { startedAt: new Date("2026-03-01T10:00:00Z"), intervalMs: 60_000 };
+
+function makeRecord(overrides: Partial<RalphLoopMetrics> = {}): RalphLoopMetrics {
+  return {
+    runId: "run-1",
+    loop: 1,
+    timestamp: "2026-03-01T10:05:00Z",
+    driver: "claude-code",
+    sessionId: "sess-1",
+    loopOutcome: "success",
+    durationMs: 60000,
+    durationApiMs: 55000,
+    inputTokens: 1000,
+    outputTokens: 500,
+    cacheReadTokens: null,
+    cacheCreationTokens: null,
+    totalCostUsd: 1.5,
+    numTurns: 4,
+    filesChanged: 2,
+    reportedFilesModified: 2,
+    hasErrors: false,
+    exitSignal: false,
+    wasReadOnlyTimeout: false,
+    qualityGateResult: null,
+    hasPermissionDenials: false,
+    circuitBreakerState: "CLOSED",
+    ...overrides,
+  };
+}
+
+function makeRalph(): RalphProcess {
+  return {
+    child: { pid: 4242 },
+    state: "running",
+    exitCode: null,
+    kill: vi.fn(),
+    detach: vi.fn(),
+    onExit: vi.fn(),
+  };
+}
+
+async function mockRun(
+  records: RalphLoopMetrics[],
+  lastAction: string,
+  loopCount = records.length
+): Promise<void> {
+  const { readRalphMetrics } = await import("../../src/utils/ralph-metrics.js");
+  const { readRalphRuntimeStatus } = await import("../../src/utils/ralph-runtime-state.js");
+  vi.mocked(readRalphMetrics).mockResolvedValue({
+    kind: "ok",
+    path: "/project/.ralph/logs/metrics.jsonl",
+    value: { records, skipped: [] },
+  });
+  vi.mocked(readRalphRuntimeStatus).mockResolvedValue({
+    kind: "ok",
+    path: "/project/.ralph/status.json",
+    value: { loopCount, status: "running", lastAction },
+  } as Awaited<ReturnType<typeof readRalphRuntimeStatus>>);
+}
+
+describe("budget", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("findExceededLimit", () => {
+    it("returns null while every limit has room", async () => {
+      const { findExceededLimit } = await import("../../src/run/budget.js");
+
+      expect(
+        findExceededLimit(
+          { maxCostUsd: 5, maxLoops: 10 },
+          { costUsd: 4.99, tokens: 0, loops: 9, elapsedMs: 0 }
+        )
+      ).toBeNull();
+    });
+
+    it("returns the first limit reached", async () => {
+      const { findExceededLimit } = await import("../../src/run/budget.js");
+      const usage = { costUsd: 5, tokens: 2000, loops: 3, elapsedMs: 0 };
+
+      expect(findExceededLimit({ maxCostUsd: 5, maxTokens: 1000 }, usage)).toBe("cost");
+      expect(findExceededLimit({ maxTokens: 1000, maxLoops: 3 }, usage)).toBe("tokens");
+      expect(findExceededLimit({ maxDurationMs: 0 }, usage)).toBe("duration");
+    });
+
+    it("ignores omitted limits", async () => {
+      const { findExceededLimit } = await import("../../src/run/budget.js");
+
+      expect(findExceededLimit({}, { costUsd: 99, tokens: 99, loops: 99, elapsedMs: 99 })).toBe(
+        null
+      );
+    });
+  });
+
+  describe("formatRemainingBudget", () => {
+    it("lists what is left of each limit", async () => {
+      const { formatRemainingBudget } = await import("../../src/run/budget.js");
+
+      const result = formatRemainingBudget(
+        { maxCostUsd: 5, maxLoops: 20 },
+        { costUsd: 1.2, tokens: 0, loops: 8, elapsedMs: 0 }
+      );
+
+      expect(result).toBe("$3.80 · 12 loops left");
+    });
+
+    it("never shows a negative remainder", async () => {
+      const { formatRemainingBudget } = await import("../../src/run/budget.js");
+
+      const result = formatRemainingBudget(
+        { maxLoops: 2 },
+        { costUsd: 0, tokens: 0, loops: 3, elapsedMs: 0 }
+      );
+
+      expect(result).toBe("0 loops left");
+    });
+  });
+
+  describe("startBudgetSupervisor", () => {
+    it("asks Ralph to stop after its current loop once a limit is reached", async () => {
+      const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+      const { writeLoopControl } = await import("../../src/run/loop-control.js");
+      await mockRun([makeRecord({ totalCostUsd: 6 })], "executing");
+      const ralph = makeRalph();
+
+      const supervisor = startBudgetSupervisor("/project", ralph, { maxCostUsd: 5 }, OPTIONS);
+
+      await vi.waitFor(() => expect(writeLoopControl).toHaveBeenCalledWith("/project", "stop"));
+      expect(ralph.kill).not.toHaveBeenCalled();
+      expect(ralph.stopReason).toBe("cost budget reached ($6.00 of $5.00)");
+      expect(supervisor.exceeded).toBe("cost");
+      expect(supervisor.describe()).toBe("cost budget reached, stopping after the current loop");
+      supervisor.stop();
+    });
+
+    it("kills Ralph between loops when the stop request can't be written", async () => {
+      const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+      const { writeLoopControl } = await import("../../src/run/loop-control.js");
+      vi.mocked(writeLoopControl).mockRejectedValue(new Error("EACCES"));
+      await mockRun([makeRecord(), makeRecord({ loop: 2 })], "completed");
+      const ralph = makeRalph();
+
+      const supervisor = startBudgetSupervisor("/project", ralph, { maxLoops: 2 }, OPTIONS);
+
+      await vi.waitFor(() => expect(ralph.kill).toHaveBeenCalled());
+      expect(ralph.stopReason).toBe("loop budget reached (2 of 2)");
+      supervisor.stop();
+    });
+
+    it("kills Ralph when it finishes another loop despite the stop request", async () => {
+      vi.useFakeTimers();
+      try {
+        const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+        const { writeLoopControl } = await import("../../src/run/loop-control.js");
+        await mockRun([makeRecord()], "completed");
+        const ralph = makeRalph();
+
+        const supervisor = startBudgetSupervisor("/project", ralph, { maxLoops: 1 }, OPTIONS);
+        await vi.waitFor(() => expect(writeLoopControl).toHaveBeenCalled());
+        await mockRun([makeRecord(), makeRecord({ loop: 2 })], "completed");
+        await vi.advanceTimersByTimeAsync(OPTIONS.intervalMs);
+
+        expect(ralph.kill).toHaveBeenCalled();
+        supervisor.stop();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("does not count loops that only hit the API limit", async () => {
+      const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+      await mockRun(
+        [
+          makeRecord(),
+          makeRecord({ loop: 2, loopOutcome: "api_limit" }),
+          makeRecord({ loop: 3, loopOutcome: "error" }),
+        ],
+        "completed"
+      );
+      const ralph = makeRalph();
+
+      const supervisor = startBudgetSupervisor("/project", ralph, { maxLoops: 3 }, OPTIONS);
+
+      await vi.waitFor(() => expect(supervisor.usage.loops).toBe(2));
+      expect(supervisor.exceeded).toBeNull();
+      supervisor.stop();
+    });
+
+    it("only counts loops recorded since the run started", async () => {
+      const { startBudgetSupervisor } = await import("../../src/run/budget.js");
+      await mockRun(
+        [makeRecord({ timestamp: "2026-03-01T09:00:00Z", totalCostUsd: 10 }), makeRecord()],
+        "completed"
+      );
+      const ralph = makeRalph();
+
+      const supervisor = startBudgetSupervisor("/project", ralph, { maxCostUsd: 5 }, OPTIONS);
+
+      await vi.waitFor(() => expect(supervisor.usage.loops).toBe(1));
+      expect(supervisor.usage.costUsd).toBe(1.5);
+      expect(supervisor.usage.tokens).toBe(1500);
+      expect(ralph.kill).not.toHaveBeenCalled();
+      supervisor.stop();
+    });
+  });
+});
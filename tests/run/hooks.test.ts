@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import { mkdir, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { AddressInfo } from "node:net";
+import {
+  createHookSink,
+  fireHook,
+  hasHooks,
+  toHookEvent,
+  type HookPayload,
+} from "../../src/run/hooks.js";
+import type { RunEvent } from "../../src/run/run-events.js";
+
+const TIMESTAMP = "2026-03-01T10:10:00.000Z";
+
+const STORY_COMPLETED: RunEvent = {
+  type: "story_completed",
+  timestamp: TIMESTAMP,
+  storyId: "1.2",
+  title: "Logout",
+  completed: 2,
+  total: 5,
+};
+
+describe("hooks", () => {
+  describe("toHookEvent", () => {
+    it("maps run events to the hook events they trigger", () => {
+      expect(toHookEvent(STORY_COMPLETED)).toBe("story_completed");
+      expect(
+        toHookEvent({
+          type: "circuit_breaker_changed",
+          timestamp: TIMESTAMP,
+          from: "HALF_OPEN",
+          to: "OPEN",
+          reason: "no progress",
+        })
+      ).toBe("circuit_open");
+      expect(
+        toHookEvent({
+          type: "circuit_breaker_changed",
+          timestamp: TIMESTAMP,
+          from: null,
+          to: "HALF_OPEN",
+          reason: null,
+        })
+      ).toBeNull();
+      expect(toHookEvent({ type: "loop_started", timestamp: TIMESTAMP, loop: 1 })).toBeNull();
+    });
+
+    it("only treats failed loops as loop_error", () => {
+      const loopFinished = (outcome: string) =>
+        ({ type: "loop_finished", timestamp: TIMESTAMP, loop: 3, outcome }) as RunEvent;
+
+      expect(toHookEvent(loopFinished("error"))).toBe("loop_error");
+      expect(toHookEvent(loopFinished("success"))).toBeNull();
+    });
+  });
+
+  describe("hasHooks", () => {
+    it("is false without targets", () => {
+      expect(hasHooks(undefined)).toBe(false);
+      expect(hasHooks({ run_finished: [] })).toBe(false);
+      expect(hasHooks({ run_finished: [{ command: "true" }] })).toBe(true);
+    });
+  });
+
+  describe.skipIf(process.platform === "win32")("command hooks", () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `bmalph-hooks-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      try {
+        await rm(testDir, { recursive: true, force: true });
+      } catch {
+        // Windows file locking
+      }
+    });
+
+    function makePayload(worker: number | null = null): HookPayload {
+      return {
+        event: "story_completed",
+        projectDir: testDir,
+        worker,
+        timestamp: TIMESTAMP,
+        data: STORY_COMPLETED,
+      };
+    }
+
+    it("passes the payload as JSON on stdin and in env vars", async () => {
+      await fireHook(
+        {
+          command: 'cat > stdin.json && printf "%s %s" "$BMALPH_EVENT" "$BMALPH_WORKER" > env.txt',
+        },
+        makePayload(2)
+      );
+
+      const stdin = JSON.parse(await readFile(join(testDir, "stdin.json"), "utf-8")) as unknown;
+      expect(stdin).toEqual(makePayload(2));
+      expect(await readFile(join(testDir, "env.txt"), "utf-8")).toBe("story_completed 2");
+    });
+
+    it("rejects when the command fails", async () => {
+      await expect(fireHook({ command: "exit 3" }, makePayload())).rejects.toThrow(
+        "exited with code 3"
+      );
+    });
+
+    it("kills a command that runs past its timeout", async () => {
+      await expect(fireHook({ command: "sleep 5", timeoutMs: 100 }, makePayload())).rejects.toThrow(
+        "timed out after 100ms"
+      );
+    });
+
+    it("kills the processes a timed-out command started", async () => {
+      await expect(
+        fireHook({ command: "(sleep 1; touch survived) & wait", timeoutMs: 100 }, makePayload())
+      ).rejects.toThrow("timed out after 100ms");
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+
+      await expect(readFile(join(testDir, "survived"), "utf-8")).rejects.toThrow();
+    });
+
+    it("records failures without stopping other hooks", async () => {
+      const sink = createHookSink(
+        { story_completed: [{ command: "exit 1" }, { command: "touch fired" }] },
+        { projectDir: testDir }
+      );
+
+      await sink.write(STORY_COMPLETED);
+      await sink.close();
+
+      expect(sink.failures).toEqual(['story_completed hook "exit 1" exited with code 1']);
+      await expect(readFile(join(testDir, "fired"), "utf-8")).resolves.toBe("");
+    });
+
+    it("ignores events without a configured hook", async () => {
+      const hooks = { run_finished: [{ command: "touch fired" }] };
+      const sink = createHookSink(hooks, { projectDir: testDir });
+
+      await sink.write(STORY_COMPLETED);
+      await sink.close();
+
+      await expect(readFile(join(testDir, "fired"), "utf-8")).rejects.toThrow();
+    });
+  });
+
+  describe("http hooks", () => {
+    let server: Server;
+    let url: string;
+    let requests: { headers: Record<string, unknown>; body: string }[];
+    let status: number;
+
+    beforeEach(async () => {
+      requests = [];
+      status = 200;
+      server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+        req.on("end", () => {
+          requests.push({ headers: req.headers, body });
+          res.writeHead(status).end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("POSTs the payload as JSON with the configured headers", async () => {
+      const payload: HookPayload = {
+        event: "story_completed",
+        projectDir: "/project",
+        worker: null,
+        timestamp: TIMESTAMP,
+        data: STORY_COMPLETED,
+      };
+
+      await fireHook({ url, headers: { Authorization: "Bearer token" } }, payload);
+
+      expect(requests).toHaveLength(1);
+      expect(JSON.parse(requests[0]!.body)).toEqual(payload);
+      expect(requests[0]!.headers).toMatchObject({
+        "content-type": "application/json",
+        authorization: "Bearer token",
+      });
+    });
+
+    it("records an error response as a failure", async () => {
+      status = 500;
+      const sink = createHookSink({ story_completed: [{ url }] }, { projectDir: "/project" });
+
+      await sink.write(STORY_COMPLETED);
+      await sink.close();
+
+      expect(sink.failures).toEqual([`story_completed hook ${url} responded with HTTP 500`]);
+    });
+  });
+});
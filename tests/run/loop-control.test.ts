@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { readLoopControl, writeLoopControl } from "../../src/run/loop-control.js";
+
+describe("loop-control", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-loop-control-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, ".ralph"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("writes the request ralph_loop.sh reads", async () => {
+    await writeLoopControl(testDir, "pause");
+
+    expect(await readFile(join(testDir, ".ralph/.loop_control"), "utf-8")).toBe("pause\n");
+    expect(await readLoopControl(testDir)).toBe("pause");
+  });
+
+  it("clears the request to resume", async () => {
+    await writeLoopControl(testDir, "step");
+    await writeLoopControl(testDir, null);
+
+    expect(await readLoopControl(testDir)).toBeNull();
+  });
+
+  it("returns null without a request or for unknown content", async () => {
+    expect(await readLoopControl(testDir)).toBeNull();
+
+    await writeFile(join(testDir, ".ralph/.loop_control"), "halt\n");
+    expect(await readLoopControl(testDir)).toBeNull();
+  });
+});
@@ -14,6 +14,13 @@ vi.mock("../../src/utils/file-system.js", () => ({
   exists: mockExists,
 }));
 
+const mockIsProcessAlive = vi.fn();
+const mockMatchesRegisteredProcess = vi.fn(() => true);
+vi.mock("../../src/run/run-registry.js", () => ({
+  isProcessAlive: mockIsProcessAlive,
+  matchesRegisteredProcess: mockMatchesRegisteredProcess,
+}));
+
 function createMockChild(overrides?: Partial<ChildProcess>): ChildProcess {
   const emitter = new EventEmitter();
   const child = Object.assign(emitter, {
@@ -393,6 +400,22 @@ describe("spawnRalphLoop", () => {
     );
   });
 
+  it("sends Ralph's stdout to stderr when stdoutToStderr is set", async () => {
+    const mockChild = createMockChild();
+    mockSpawn.mockReturnValue(mockChild);
+
+    const { spawnRalphLoop } = await import("../../src/run/ralph-process.js");
+    spawnRalphLoop("/project", "codex", { inheritStdio: true, stdoutToStderr: true });
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      "bash",
+      expect.any(Array),
+      expect.objectContaining({
+        stdio: ["inherit", process.stderr, "inherit"],
+      })
+    );
+  });
+
   it("uses piped stdio when inheritStdio is false", async () => {
     const mockChild = createMockChild();
     mockSpawn.mockReturnValue(mockChild);
@@ -670,6 +693,151 @@ describe("spawnRalphLoop", () => {
   });
 });
 
+describe("attachRalphLoop", () => {
+  const entry = {
+    pid: 4242,
+    processGroup: 4242,
+    driver: "claude-code",
+    reviewMode: "enhanced" as const,
+    startedAt: "2026-03-01T10:00:00.000Z",
+    logs: { ralph: ".ralph/logs/ralph.log", metrics: ".ralph/logs/metrics.jsonl" },
+  };
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports the registered PID while the loop is alive", async () => {
+    mockIsProcessAlive.mockReturnValue(true);
+
+    const { attachRalphLoop } = await import("../../src/run/ralph-process.js");
+    const rp = attachRalphLoop(entry);
+
+    expect(rp.state).toBe("running");
+    expect(rp.child.pid).toBe(4242);
+    rp.detach();
+  });
+
+  it("notices the loop exiting by polling its PID", async () => {
+    mockIsProcessAlive.mockReturnValue(true);
+
+    const { attachRalphLoop } = await import("../../src/run/ralph-process.js");
+    const rp = attachRalphLoop(entry);
+    const exitCallback = vi.fn();
+    rp.onExit(exitCallback);
+
+    mockIsProcessAlive.mockReturnValue(false);
+    vi.advanceTimersByTime(1000);
+
+    expect(rp.state).toBe("stopped");
+    expect(rp.exitCode).toBeNull();
+    expect(exitCallback).toHaveBeenCalledWith(null);
+  });
+
+  it("is stopped right away when the loop has already exited", async () => {
+    mockIsProcessAlive.mockReturnValue(false);
+
+    const { attachRalphLoop } = await import("../../src/run/ralph-process.js");
+    const rp = attachRalphLoop(entry);
+    const exitCallback = vi.fn();
+    rp.onExit(exitCallback);
+
+    expect(rp.state).toBe("stopped");
+    expect(exitCallback).toHaveBeenCalledWith(null);
+  });
+
+  it("is stopped when the PID now belongs to another process", async () => {
+    mockIsProcessAlive.mockReturnValue(true);
+    mockMatchesRegisteredProcess.mockReturnValueOnce(false);
+
+    const { attachRalphLoop } = await import("../../src/run/ralph-process.js");
+    const rp = attachRalphLoop(entry);
+
+    expect(rp.state).toBe("stopped");
+  });
+
+  it("stops polling on detach", async () => {
+    mockIsProcessAlive.mockReturnValue(true);
+
+    const { attachRalphLoop } = await import("../../src/run/ralph-process.js");
+    const rp = attachRalphLoop(entry);
+    rp.detach();
+    mockIsProcessAlive.mockClear();
+    vi.advanceTimersByTime(5000);
+
+    expect(rp.state).toBe("detached");
+    expect(mockIsProcessAlive).not.toHaveBeenCalled();
+  });
+});
+
+describe("terminateRalphLoop", () => {
+  let originalPlatform: NodeJS.Platform;
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    originalPlatform = process.platform;
+    Object.defineProperty(process, "platform", { value: "linux", configurable: true });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process, "platform", { value: originalPlatform, configurable: true });
+    vi.restoreAllMocks();
+  });
+
+  it("signals the loop's process group", async () => {
+    const processKillSpy = vi.spyOn(process, "kill").mockReturnValue(true);
+
+    const { terminateRalphLoop } = await import("../../src/run/ralph-process.js");
+    terminateRalphLoop({ pid: 4242, processGroup: 4242 }, "SIGKILL");
+
+    expect(processKillSpy).toHaveBeenCalledWith(-4242, "SIGKILL");
+  });
+
+  it("falls back to the loop process when the group is gone", async () => {
+    const processKillSpy = vi.spyOn(process, "kill").mockImplementation((pid) => {
+      if (typeof pid === "number" && pid < 0) {
+        throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      }
+      return true;
+    });
+
+    const { terminateRalphLoop } = await import("../../src/run/ralph-process.js");
+    terminateRalphLoop({ pid: 4242, processGroup: 4242 });
+
+    expect(processKillSpy).toHaveBeenLastCalledWith(4242, "SIGTERM");
+  });
+
+  it("does not signal a PID that now belongs to another process", async () => {
+    const processKillSpy = vi.spyOn(process, "kill").mockReturnValue(true);
+    mockMatchesRegisteredProcess.mockReturnValueOnce(false);
+
+    const { terminateRalphLoop } = await import("../../src/run/ralph-process.js");
+    terminateRalphLoop({ pid: 4242, processGroup: 4242, processStartTime: "1" });
+
+    expect(processKillSpy).not.toHaveBeenCalled();
+  });
+
+  it("uses taskkill for the process tree on Windows", async () => {
+    Object.defineProperty(process, "platform", { value: "win32", configurable: true });
+
+    const { terminateRalphLoop } = await import("../../src/run/ralph-process.js");
+    terminateRalphLoop({ pid: 4242, processGroup: null });
+
+    expect(mockExecFileSync).toHaveBeenCalledWith(
+      "taskkill.exe",
+      ["/PID", "4242", "/T", "/F"],
+      expect.objectContaining({ stdio: "ignore" })
+    );
+  });
+});
+
 describe("validateGitRepo", () => {
   beforeEach(() => {
     vi.resetModules();
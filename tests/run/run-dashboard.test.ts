@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdir, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import type { RalphProcess } from "../../src/run/types.js";
+import type { FooterRenderer } from "../../src/watch/renderer.js";
+import type { DashboardState } from "../../src/watch/types.js";
 
 vi.mock("../../src/watch/dashboard.js", () => ({
   createRefreshCallback: vi.fn(),
@@ -86,6 +91,62 @@ describe("renderStatusBar", () => {
     expect(result).toContain("unknown");
   });
 
+  it("shows why bmalph stopped the loop", async () => {
+    const { renderStatusBar } = await import("../../src/run/run-dashboard.js");
+    const ralph = {
+      state: "stopped",
+      exitCode: 143,
+      stopReason: "loop budget reached (20 of 20)",
+      child: { pid: 12345 },
+    } as RalphProcess;
+
+    const result = renderStatusBar(ralph);
+
+    expect(result).toContain("stopped: loop budget reached (20 of 20)");
+    expect(result).not.toContain("SIGTERM");
+  });
+
+  it("shows the remaining budget while running", async () => {
+    const { renderStatusBar } = await import("../../src/run/run-dashboard.js");
+    const ralph = { state: "running", exitCode: null, child: { pid: 12345 } } as RalphProcess;
+
+    const result = renderStatusBar(ralph, "off", "Budget: $3.80 · 12 loops left");
+
+    expect(result).toContain("Budget: $3.80 · 12 loops left");
+    expect(result).toContain("q: stop/detach");
+  });
+
+  it("offers pause and step while running", async () => {
+    const { renderStatusBar } = await import("../../src/run/run-dashboard.js");
+    const ralph = { state: "running", exitCode: null, child: { pid: 12345 } } as RalphProcess;
+
+    expect(renderStatusBar(ralph)).toContain("p: pause | n: step | q: stop/detach");
+  });
+
+  it("only reports paused once Ralph honours the request", async () => {
+    const { resolvePauseState } = await import("../../src/run/run-dashboard.js");
+
+    expect(resolvePauseState(null, true)).toBeNull();
+    expect(resolvePauseState("pause", false)).toBe("pausing");
+    expect(resolvePauseState("pause", true)).toBe("paused");
+    expect(resolvePauseState("step", true)).toBe("stepping");
+  });
+
+  it("shows where a pause request stands", async () => {
+    const { renderStatusBar } = await import("../../src/run/run-dashboard.js");
+    const ralph = { state: "running", exitCode: null, child: { pid: 12345 } } as RalphProcess;
+
+    expect(renderStatusBar(ralph, "off", undefined, "pausing")).toContain(
+      "Ralph: pausing after this loop (PID 12345) | p: resume"
+    );
+    expect(renderStatusBar(ralph, "off", undefined, "paused")).toContain(
+      "Ralph: paused (PID 12345) | p: resume | n: step"
+    );
+    expect(renderStatusBar(ralph, "off", undefined, "stepping")).toContain(
+      "Ralph: running one more loop, then pausing"
+    );
+  });
+
   it("shows detached state", async () => {
     const { renderStatusBar } = await import("../../src/run/run-dashboard.js");
     const ralph = { state: "detached", exitCode: null, child: { pid: 12345 } } as RalphProcess;
@@ -239,18 +300,66 @@ describe("startRunDashboard", () => {
     );
 
     const options = mockCreateRefreshCallback.mock.calls[0]![2] as {
-      footerRenderer: (lastUpdated: Date, cols: number) => string;
+      footerRenderer: FooterRenderer;
     };
+    const state = { loop: null } as DashboardState;
     expect(options).not.toHaveProperty("decorateFrame");
-    expect(options.footerRenderer(new Date("2026-02-25T14:25:15Z"), 80)).toContain(
+    expect(options.footerRenderer(new Date("2026-02-25T14:25:15Z"), 80, state)).toContain(
       "Ralph: running"
     );
-    expect(options.footerRenderer(new Date("2026-02-25T14:25:15Z"), 80)).toContain("Updated:");
+    expect(options.footerRenderer(new Date("2026-02-25T14:25:15Z"), 80, state)).toContain(
+      "Updated:"
+    );
 
     triggerExit(ralph, 0);
     await resolveViaTick(promise);
   });
 
+  it("writes pause, resume and step requests for Ralph from key presses", async () => {
+    const projectDir = join(
+      tmpdir(),
+      `bmalph-run-dashboard-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(projectDir, ".ralph"), { recursive: true });
+    const ralph = createMockRalphProcess();
+    const stdinIsTTY = Object.getOwnPropertyDescriptor(process.stdin, "isTTY");
+    const stdinSetRawMode = Object.getOwnPropertyDescriptor(process.stdin, "setRawMode");
+    Object.defineProperty(process.stdin, "isTTY", { configurable: true, value: true });
+    Object.defineProperty(process.stdin, "setRawMode", { configurable: true, value: vi.fn() });
+    const resumeSpy = vi.spyOn(process.stdin, "resume").mockReturnValue(process.stdin);
+    const controlFile = join(projectDir, ".ralph/.loop_control");
+    const pressKey = async (key: string): Promise<void> => {
+      process.stdin.emit("data", key);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    };
+
+    try {
+      const { startRunDashboard } = await import("../../src/run/run-dashboard.js");
+      const promise = startRunDashboard({ projectDir, interval: 2000, ralph });
+
+      await pressKey("p");
+      expect(await readFile(controlFile, "utf-8")).toBe("pause\n");
+      await pressKey("p");
+      await expect(readFile(controlFile, "utf-8")).rejects.toThrow();
+      await pressKey("n");
+      expect(await readFile(controlFile, "utf-8")).toBe("step\n");
+
+      triggerExit(ralph, 0);
+      await pressKey("q");
+      await resolveViaTick(promise);
+    } finally {
+      resumeSpy.mockRestore();
+      restoreProperty(process.stdin, "isTTY", stdinIsTTY);
+      restoreProperty(process.stdin, "setRawMode", stdinSetRawMode);
+      process.stdin.pause();
+      try {
+        await rm(projectDir, { recursive: true, force: true });
+      } catch {
+        // Windows file locking
+      }
+    }
+  });
+
   it("does not refresh or rerun cleanup after signal stop when Ralph exits later", async () => {
     const refresh = vi.fn();
     const cleanup = vi.fn();
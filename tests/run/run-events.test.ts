@@ -0,0 +1,359 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  BLOCKED_RUN_EXIT_CODE,
+  combineRunEventSinks,
+  diffRunEvents,
+  openRunEventSink,
+  resolveRunExitCode,
+  startRunEventStream,
+  type RunEvent,
+  type RunEventSnapshot,
+} from "../../src/run/run-events.js";
+import type { RalphProcess } from "../../src/run/types.js";
+import type { RalphLoopMetrics } from "../../src/utils/ralph-metrics.js";
+
+const TIMESTAMP = "2026-03-01T10:10:00.000Z";
+
+function makeSnapshot(overrides: Partial<RunEventSnapshot> = {}): RunEventSnapshot {
+  return {
+    loop: null,
+    circuitBreaker: null,
+    analysis: null,
+    review: null,
+    stories: [],
+    metrics: [],
+    ...overrides,
+  };
+}
+
+function makeRecord(overrides: Partial<RalphLoopMetrics> = {}): RalphLoopMetrics {
+  return {
+    runId: "run-1",
+    loop: 1,
+    timestamp: "2026-03-01T10:05:00Z",
+    driver: "claude-code",
+    sessionId: "sess-1",
+    loopOutcome: "success",
+    durationMs: 60000,
+    durationApiMs: 55000,
+    inputTokens: 1000,
+    outputTokens: 500,
+    cacheReadTokens: null,
+    cacheCreationTokens: null,
+    totalCostUsd: 1.5,
+    numTurns: 4,
+    filesChanged: 2,
+    reportedFilesModified: 2,
+    hasErrors: false,
+    exitSignal: false,
+    wasReadOnlyTimeout: false,
+    qualityGateResult: null,
+    hasPermissionDenials: false,
+    circuitBreakerState: "CLOSED",
+    ...overrides,
+  };
+}
+
+function makeLoop(loopCount: number, lastAction: string) {
+  return { loopCount, status: "running", lastAction, callsMadeThisHour: 1, maxCallsPerHour: 100 };
+}
+
+describe("run-events", () => {
+  describe("diffRunEvents", () => {
+    it("emits nothing when nothing changed", () => {
+      const snapshot = makeSnapshot({ loop: makeLoop(1, "executing") });
+
+      expect(diffRunEvents(snapshot, snapshot, TIMESTAMP)).toEqual([]);
+    });
+
+    it("emits loop_started when a new loop starts executing", () => {
+      const events = diffRunEvents(
+        makeSnapshot({ loop: makeLoop(1, "completed") }),
+        makeSnapshot({ loop: makeLoop(2, "executing") }),
+        TIMESTAMP
+      );
+
+      expect(events).toEqual([{ type: "loop_started", timestamp: TIMESTAMP, loop: 2 }]);
+    });
+
+    it("emits loop_finished with quality gate and permission events for each new record", () => {
+      const record = makeRecord({ loop: 3, qualityGateResult: 1, hasPermissionDenials: true });
+      const analysis = {
+        filesModified: 2,
+        formatConfidence: 90,
+        confidenceScore: 80,
+        isTestOnly: false,
+        isStuck: false,
+        exitSignal: false,
+        tasksCompletedThisLoop: 1,
+        fixPlanCompletedDelta: 1,
+        hasProgressTrackingMismatch: false,
+        hasPermissionDenials: true,
+        permissionDenialCount: 2,
+      };
+
+      const events = diffRunEvents(
+        makeSnapshot({ metrics: [makeRecord()] }),
+        makeSnapshot({ metrics: [makeRecord(), record], analysis }),
+        TIMESTAMP
+      );
+
+      expect(events.map((event) => event.type)).toEqual([
+        "loop_finished",
+        "quality_gate_result",
+        "permission_denied",
+      ]);
+      expect(events[0]).toMatchObject({ loop: 3, outcome: "success", analysis, metrics: record });
+      expect(events[1]).toMatchObject({ loop: 3, passed: false, exitCode: 1 });
+      expect(events[2]).toMatchObject({ loop: 3, count: 2 });
+    });
+
+    it("emits story_completed for stories checked off since the last poll", () => {
+      const events = diffRunEvents(
+        makeSnapshot({
+          stories: [
+            { id: "1.1", completed: true, title: "Login" },
+            { id: "1.2", completed: false, title: "Logout" },
+          ],
+        }),
+        makeSnapshot({
+          stories: [
+            { id: "1.1", completed: true, title: "Login" },
+            { id: "1.2", completed: true, title: "Logout" },
+          ],
+        }),
+        TIMESTAMP
+      );
+
+      expect(events).toEqual([
+        {
+          type: "story_completed",
+          timestamp: TIMESTAMP,
+          storyId: "1.2",
+          title: "Logout",
+          completed: 2,
+          total: 2,
+        },
+      ]);
+    });
+
+    it("emits circuit_breaker_changed when the breaker leaves CLOSED", () => {
+      const events = diffRunEvents(
+        makeSnapshot(),
+        makeSnapshot({
+          circuitBreaker: {
+            state: "OPEN",
+            consecutiveNoProgress: 3,
+            totalOpens: 1,
+            reason: "no progress",
+          },
+        }),
+        TIMESTAMP
+      );
+
+      expect(events).toEqual([
+        {
+          type: "circuit_breaker_changed",
+          timestamp: TIMESTAMP,
+          from: null,
+          to: "OPEN",
+          reason: "no progress",
+        },
+      ]);
+    });
+
+    it("emits review_findings when new findings are written", () => {
+      const review = { issuesFound: 2, severity: "HIGH", summary: "Missing tests" };
+
+      const events = diffRunEvents(makeSnapshot(), makeSnapshot({ review }), TIMESTAMP);
+
+      expect(events).toEqual([{ type: "review_findings", timestamp: TIMESTAMP, ...review }]);
+    });
+  });
+
+  describe("resolveRunExitCode", () => {
+    it("reflects the final Ralph state", () => {
+      expect(resolveRunExitCode(0, "completed")).toBe(0);
+      expect(resolveRunExitCode(0, "blocked")).toBe(BLOCKED_RUN_EXIT_CODE);
+      expect(resolveRunExitCode(1, "completed")).toBe(1);
+      expect(resolveRunExitCode(null, null)).toBe(1);
+    });
+
+    it("treats a loop bmalph stopped on purpose as a success", () => {
+      expect(resolveRunExitCode(143, "blocked", "loop budget reached (5 of 5)")).toBe(0);
+    });
+  });
+
+  describe("combineRunEventSinks", () => {
+    it("keeps writing to the other sinks after one fails", async () => {
+      const failing = {
+        write: vi.fn().mockRejectedValue(new Error("write EPIPE")),
+        close: vi.fn(),
+      };
+      const healthy = { write: vi.fn().mockResolvedValue(undefined), close: vi.fn() };
+      const sink = combineRunEventSinks([failing, healthy]);
+      const events: RunEvent[] = [
+        { type: "loop_started", timestamp: "2026-03-01T10:00:00.000Z", loop: 1 },
+        { type: "loop_started", timestamp: "2026-03-01T10:01:00.000Z", loop: 2 },
+      ];
+
+      for (const event of events) await sink.write(event);
+
+      expect(healthy.write.mock.calls.map(([event]) => event)).toEqual(events);
+      expect(failing.write).toHaveBeenCalledTimes(1);
+      expect(sink.failures.get(failing)).toContain("write EPIPE");
+      expect(sink.failures.has(healthy)).toBe(false);
+    });
+  });
+
+  describe("startRunEventStream", () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(
+        tmpdir(),
+        `bmalph-run-events-${Date.now()}-${Math.random().toString(36).slice(2)}`
+      );
+      await mkdir(join(testDir, ".ralph/logs"), { recursive: true });
+    });
+
+    afterEach(async () => {
+      try {
+        await rm(testDir, { recursive: true, force: true });
+      } catch {
+        // Windows file locking
+      }
+    });
+
+    it("writes NDJSON from run_started to run_finished with the resolved exit code", async () => {
+      await writeFile(join(testDir, ".ralph/@fix_plan.md"), "- [ ] Story 1.1: Login\n");
+      let exit: (code: number | null) => void = () => {};
+      const ralph: RalphProcess = {
+        child: { pid: 4242 },
+        state: "running",
+        exitCode: null,
+        kill: () => {},
+        detach: () => {},
+        onExit: (callback) => {
+          exit = callback;
+        },
+      };
+      const sink = await openRunEventSink(testDir, "events.ndjson");
+
+      const stream = startRunEventStream(testDir, ralph, {
+        run: { driver: "claude-code", reviewMode: "off", startedAt: "2026-03-01T10:00:00.000Z" },
+        interval: 60_000,
+        sink,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await writeFile(join(testDir, ".ralph/@fix_plan.md"), "- [x] Story 1.1: Login\n");
+      await appendFile(
+        join(testDir, ".ralph/logs/metrics.jsonl"),
+        JSON.stringify({
+          run_id: "run-1",
+          loop: 1,
+          timestamp: "2026-03-01T10:05:00Z",
+          driver: "claude-code",
+          session_id: "sess-1",
+          loop_outcome: "success",
+          files_changed: 1,
+          reported_files_modified: 1,
+          has_errors: false,
+          exit_signal: true,
+          was_read_only_timeout: false,
+          has_permission_denials: false,
+          circuit_breaker_state: "CLOSED",
+        }) + "\n"
+      );
+      await writeFile(
+        join(testDir, ".ralph/status.json"),
+        JSON.stringify({ loop_count: 1, status: "halted", last_action: "circuit_breaker_open" })
+      );
+      exit(0);
+      const exitCode = await stream.finished;
+      await sink.close();
+
+      const events = (await readFile(join(testDir, "events.ndjson"), "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line) as RunEvent);
+      expect(events.map((event) => event.type)).toEqual([
+        "run_started",
+        "loop_finished",
+        "story_completed",
+        "run_finished",
+      ]);
+      expect(events[0]).toMatchObject({ pid: 4242, driver: "claude-code", budget: null });
+      expect(events[3]).toMatchObject({
+        status: "blocked",
+        exitCode: BLOCKED_RUN_EXIT_CODE,
+        ralphExitCode: 0,
+        loops: 1,
+        storiesCompleted: 1,
+        storiesTotal: 1,
+      });
+      expect(exitCode).toBe(BLOCKED_RUN_EXIT_CODE);
+    });
+
+    it("keeps supervising Ralph after the sink fails", async () => {
+      let exit: (code: number | null) => void = () => {};
+      const ralph: RalphProcess = {
+        child: { pid: 4242 },
+        state: "running",
+        exitCode: null,
+        kill: () => {},
+        detach: () => {},
+        onExit: (callback) => {
+          exit = callback;
+        },
+      };
+      const sink = {
+        write: vi
+          .fn()
+          .mockRejectedValue(Object.assign(new Error("write EPIPE"), { code: "EPIPE" })),
+        close: vi.fn(),
+      };
+
+      const stream = startRunEventStream(testDir, ralph, {
+        run: { driver: "claude-code", reviewMode: "off", startedAt: "2026-03-01T10:00:00.000Z" },
+        interval: 60_000,
+        sink,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      exit(1);
+
+      await expect(stream.finished).resolves.toBe(1);
+      expect(stream.failure).toContain("write EPIPE");
+      expect(sink.write).toHaveBeenCalledTimes(1);
+    });
+
+    it("ends without run_finished when stopped before Ralph exits", async () => {
+      const ralph: RalphProcess = {
+        child: { pid: 4242 },
+        state: "running",
+        exitCode: null,
+        kill: () => {},
+        detach: () => {},
+        onExit: () => {},
+      };
+      const sink = await openRunEventSink(testDir, "events.ndjson");
+
+      const stream = startRunEventStream(testDir, ralph, {
+        run: { driver: "claude-code", reviewMode: "off", startedAt: "2026-03-01T10:00:00.000Z" },
+        interval: 60_000,
+        sink,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      stream.stop();
+      const exitCode = await stream.finished;
+      await sink.close();
+
+      const lines = (await readFile(join(testDir, "events.ndjson"), "utf-8")).trim().split("\n");
+      expect(lines.map((line) => (JSON.parse(line) as RunEvent).type)).toEqual(["run_started"]);
+      expect(exitCode).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { spawnSync } from "node:child_process";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  clearRunRegistry,
+  findActiveRun,
+  isProcessAlive,
+  matchesRegisteredProcess,
+  readProcessStartTime,
+  readRunRegistry,
+  registerRun,
+  waitForProcessExit,
+  type RunRegistryEntry,
+} from "../../src/run/run-registry.js";
+
+function makeEntry(overrides: Partial<RunRegistryEntry> = {}): RunRegistryEntry {
+  return {
+    pid: process.pid,
+    processGroup: process.pid,
+    driver: "claude-code",
+    reviewMode: "off",
+    startedAt: "2026-03-01T10:00:00.000Z",
+    logs: { ralph: ".ralph/logs/ralph.log", metrics: ".ralph/logs/metrics.jsonl" },
+    ...overrides,
+  };
+}
+
+/** PID of a process that has already exited */
+function exitedPid(): number {
+  return spawnSync(process.execPath, ["-e", ""]).pid ?? 0;
+}
+
+describe("run-registry", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-run-registry-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("writes the entry to bmalph/state/run.json and reads it back", async () => {
+    const entry = makeEntry({ reviewMode: "enhanced" });
+
+    await registerRun(testDir, entry);
+
+    const raw = JSON.parse(await readFile(join(testDir, "bmalph/state/run.json"), "utf-8"));
+    expect(raw).toEqual(entry);
+    await expect(readRunRegistry(testDir)).resolves.toEqual(entry);
+  });
+
+  it("returns null when no run is registered", async () => {
+    await expect(readRunRegistry(testDir)).resolves.toBeNull();
+  });
+
+  it("ignores a corrupted registry", async () => {
+    await mkdir(join(testDir, "bmalph/state"), { recursive: true });
+    await writeFile(join(testDir, "bmalph/state/run.json"), '{"pid": "abc"}');
+
+    await expect(readRunRegistry(testDir)).resolves.toBeNull();
+  });
+
+  it("only clears the entry of the given PID", async () => {
+    await registerRun(testDir, makeEntry());
+
+    await clearRunRegistry(testDir, process.pid + 1);
+    await expect(readRunRegistry(testDir)).resolves.not.toBeNull();
+
+    await clearRunRegistry(testDir, process.pid);
+    await expect(readRunRegistry(testDir)).resolves.toBeNull();
+  });
+
+  it("clears nothing when no run is registered", async () => {
+    await expect(clearRunRegistry(testDir)).resolves.toBeUndefined();
+  });
+
+  describe("findActiveRun", () => {
+    it("returns the entry while its process is alive", async () => {
+      await registerRun(testDir, makeEntry());
+
+      await expect(findActiveRun(testDir)).resolves.toMatchObject({ pid: process.pid });
+    });
+
+    it("removes a stale entry whose process has exited", async () => {
+      await registerRun(testDir, makeEntry({ pid: exitedPid(), processGroup: null }));
+
+      await expect(findActiveRun(testDir)).resolves.toBeNull();
+      await expect(readRunRegistry(testDir)).resolves.toBeNull();
+    });
+  });
+
+  describe.skipIf(process.platform === "win32")("process identity", () => {
+    it("keeps an entry whose process start time matches", async () => {
+      const processStartTime = readProcessStartTime(process.pid);
+      expect(processStartTime).not.toBeNull();
+      await registerRun(testDir, makeEntry({ processStartTime: processStartTime! }));
+
+      await expect(findActiveRun(testDir)).resolves.toMatchObject({ pid: process.pid });
+    });
+
+    it("removes an entry whose live PID belongs to a different process", async () => {
+      const entry = makeEntry({ processStartTime: "0" });
+      await registerRun(testDir, entry);
+
+      expect(matchesRegisteredProcess(entry)).toBe(false);
+      await expect(findActiveRun(testDir)).resolves.toBeNull();
+      await expect(readRunRegistry(testDir)).resolves.toBeNull();
+    });
+
+    it("trusts entries registered without a start time", () => {
+      expect(matchesRegisteredProcess(makeEntry())).toBe(true);
+    });
+  });
+
+  describe("isProcessAlive", () => {
+    it("detects live and exited processes", () => {
+      expect(isProcessAlive(process.pid)).toBe(true);
+      expect(isProcessAlive(exitedPid())).toBe(false);
+    });
+  });
+
+  describe("waitForProcessExit", () => {
+    it("resolves true once the process is gone", async () => {
+      await expect(waitForProcessExit(exitedPid(), 1000)).resolves.toBe(true);
+    });
+
+    it("resolves false when the process outlives the timeout", async () => {
+      await expect(waitForProcessExit(process.pid, 50, 10)).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import {
+  filterStories,
+  findBlockedStories,
+  markStoryDone,
+  moveStory,
+  parseFixPlanStories,
+  reopenStory,
+  skipStory,
+} from "../../src/story/fix-plan-editor.js";
+import { parseFixPlan } from "../../src/transition/fix-plan.js";
+
+const FIX_PLAN = [
+  "# Ralph Fix Plan",
+  "",
+  "## Stories to Implement",
+  "",
+  "### Epic 1: Authentication",
+  "> Goal: Secure login",
+  "",
+  "- [x] Story 1.1: Sign up",
+  "- [ ] Story 1.2: Log in",
+  "  > As a user, I want to log in",
+  "  > AC: Given valid credentials, Then I see the dashboard",
+  "  > Spec: specs/planning-artifacts/stories.md#story-1-2",
+  "- [ ] Story 1.3: Reset password",
+  "  > AC: Given an email, Then a reset link is sent",
+  "### Epic 2: Billing",
+  "",
+  "- [-] Story 2.1: Invoices",
+  "- [ ] Story 2.2: Refunds",
+  "",
+  "## Completed",
+  "",
+  "## Notes",
+  "- Follow TDD methodology (red-green-refactor)",
+  "",
+].join("\n");
+
+describe("fix-plan-editor", () => {
+  describe("parseFixPlanStories", () => {
+    it("parses status, epic and detail lines for every story", () => {
+      const stories = parseFixPlanStories(FIX_PLAN);
+
+      expect(stories.map((s) => [s.id, s.status])).toEqual([
+        ["1.1", "done"],
+        ["1.2", "pending"],
+        ["1.3", "pending"],
+        ["2.1", "skipped"],
+        ["2.2", "pending"],
+      ]);
+      expect(stories[1]).toEqual({
+        id: "1.2",
+        title: "Log in",
+        status: "pending",
+        epic: "Epic 1: Authentication",
+        details: [
+          "As a user, I want to log in",
+          "AC: Given valid credentials, Then I see the dashboard",
+          "Spec: specs/planning-artifacts/stories.md#story-1-2",
+        ],
+        line: 9,
+      });
+    });
+  });
+
+  describe("filterStories", () => {
+    it("filters by epic number, epic heading text and status", () => {
+      const stories = parseFixPlanStories(FIX_PLAN);
+
+      expect(filterStories(stories, { epic: "2" }).map((s) => s.id)).toEqual(["2.1", "2.2"]);
+      expect(filterStories(stories, { epic: "auth" }).map((s) => s.id)).toEqual([
+        "1.1",
+        "1.2",
+        "1.3",
+      ]);
+      expect(filterStories(stories, { epic: "1", status: "pending" }).map((s) => s.id)).toEqual([
+        "1.2",
+        "1.3",
+      ]);
+    });
+  });
+
+  describe("findBlockedStories", () => {
+    it("reports pending stories whose dependencies are not done", () => {
+      const content = FIX_PLAN.replace(
+        "- [ ] Story 1.3: Reset password\n",
+        "- [ ] Story 1.3: Reset password\n  > Depends on: Story 1.1, Story 1.2\n"
+      ).replace(
+        "- [ ] Story 2.2: Refunds\n",
+        "- [ ] Story 2.2: Refunds\n  > Depends on: Story 2.1, Story 7.7\n"
+      );
+
+      expect(findBlockedStories(parseFixPlanStories(content))).toEqual([
+        { id: "1.3", title: "Reset password", waitingOn: ["1.2"] },
+        { id: "2.2", title: "Refunds", waitingOn: ["2.1"] },
+      ]);
+    });
+  });
+
+  describe("markStoryDone", () => {
+    it("checks the story and collapses its details like Ralph does", () => {
+      const updated = markStoryDone(FIX_PLAN, "1.2");
+
+      expect(updated).toContain("- [x] Story 1.2: Log in\n- [ ] Story 1.3");
+      expect(updated).not.toContain("I want to log in");
+      expect(updated).toContain("  > AC: Given an email, Then a reset link is sent");
+      expect(parseFixPlan(updated).find((item) => item.id === "1.2")?.completed).toBe(true);
+    });
+
+    it("completes skipped stories", () => {
+      const updated = markStoryDone(FIX_PLAN, "2.1");
+
+      expect(updated).toContain("- [x] Story 2.1: Invoices");
+    });
+
+    it("throws for unknown stories", () => {
+      expect(() => markStoryDone(FIX_PLAN, "9.9")).toThrow("Story 9.9 not found");
+    });
+  });
+
+  describe("reopenStory and skipStory", () => {
+    it("reopens done and skipped stories", () => {
+      expect(reopenStory(FIX_PLAN, "1.1")).toContain("- [ ] Story 1.1: Sign up");
+      expect(reopenStory(FIX_PLAN, "2.1")).toContain("- [ ] Story 2.1: Invoices");
+    });
+
+    it("marks skipped stories so Ralph's checkbox matching ignores them", () => {
+      const updated = skipStory(FIX_PLAN, "1.3");
+
+      expect(updated).toContain("- [-] Story 1.3: Reset password");
+      expect(parseFixPlan(updated).some((item) => item.id === "1.3")).toBe(false);
+    });
+
+    it("returns content unchanged when the status already matches", () => {
+      expect(skipStory(FIX_PLAN, "2.1")).toBe(FIX_PLAN);
+      expect(reopenStory(FIX_PLAN, "1.2")).toBe(FIX_PLAN);
+    });
+  });
+
+  describe("moveStory", () => {
+    it("moves a story with its details before another story", () => {
+      const updated = moveStory(FIX_PLAN, "1.3", { kind: "before", target: "1.2" });
+
+      expect(parseFixPlanStories(updated).map((s) => s.id)).toEqual([
+        "1.1",
+        "1.3",
+        "1.2",
+        "2.1",
+        "2.2",
+      ]);
+      expect(updated).toContain(
+        "- [ ] Story 1.3: Reset password\n  > AC: Given an email, Then a reset link is sent\n- [ ] Story 1.2"
+      );
+    });
+
+    it("moves a story after another story's details", () => {
+      const updated = moveStory(FIX_PLAN, "1.2", { kind: "after", target: "1.3" });
+
+      expect(updated).toContain(
+        "  > AC: Given an email, Then a reset link is sent\n- [ ] Story 1.2: Log in\n  > As a user"
+      );
+      expect(parseFixPlanStories(updated).find((s) => s.id === "1.2")?.details).toHaveLength(3);
+    });
+
+    it("moves a story to the top of the pending queue", () => {
+      const updated = moveStory(FIX_PLAN, "2.2", { kind: "top" });
+
+      expect(parseFixPlanStories(updated).map((s) => s.id)).toEqual([
+        "1.1",
+        "2.2",
+        "1.2",
+        "1.3",
+        "2.1",
+      ]);
+    });
+
+    it("leaves content unchanged when the story is already first", () => {
+      expect(moveStory(FIX_PLAN, "1.2", { kind: "top" })).toBe(FIX_PLAN);
+    });
+
+    it("rejects moving a story relative to itself", () => {
+      expect(() => moveStory(FIX_PLAN, "1.2", { kind: "after", target: "1.2" })).toThrow(
+        "relative to itself"
+      );
+    });
+  });
+});
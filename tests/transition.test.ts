@@ -1913,6 +1913,39 @@ cargo run
       expect(changelog).toContain("prd.md");
     });
 
+    it("writes story-level changes to SPECS_CHANGELOG.md and its JSON sidecar", async () => {
+      await mkdir(join(testDir, ".ralph/specs/planning-artifacts"), { recursive: true });
+      await writeFile(
+        join(testDir, ".ralph/specs/planning-artifacts/stories.md"),
+        `## Epic 1: Core\n### Story 1.1: Feature\nDesc.\n### Story 1.2: Extra\nDesc.\n`
+      );
+
+      await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/stories.md"),
+        `## Epic 1: Core\n### Story 1.1: Better feature\nDesc.\n`
+      );
+
+      await runTransition(testDir);
+
+      const changelog = await readFile(join(testDir, ".ralph/SPECS_CHANGELOG.md"), "utf-8");
+      expect(changelog).toContain("  - Story 1.1 renamed: Feature -> Better feature");
+      expect(changelog).toContain("  - Story 1.2 removed: Extra");
+      const sidecar = JSON.parse(
+        await readFile(join(testDir, ".ralph/SPECS_CHANGELOG.json"), "utf-8")
+      );
+      expect(sidecar.changes).toContainEqual(
+        expect.objectContaining({
+          file: "planning-artifacts/stories.md",
+          status: "modified",
+          stories: [
+            { id: "1.1", title: "Better feature", status: "renamed", previousTitle: "Feature" },
+            { id: "1.2", title: "Extra", status: "removed" },
+          ],
+        })
+      );
+    });
+
     it("does not generate SPECS_CHANGELOG.md when no specs changes", async () => {
       // No existing specs
       await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
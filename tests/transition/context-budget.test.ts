@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  allocateTokenBudget,
+  estimateTokens,
+  summarizeSection,
+} from "../../src/transition/context-budget.js";
+
+describe("context-budget", () => {
+  describe("estimateTokens", () => {
+    it("counts words, numbers and symbols", () => {
+      expect(estimateTokens("")).toBe(0);
+      expect(estimateTokens("hello")).toBe(1);
+      expect(estimateTokens("authentication")).toBe(3);
+      expect(estimateTokens("12345")).toBe(2);
+      expect(estimateTokens("## Goals: ship v1.")).toBe(8);
+    });
+  });
+
+  describe("allocateTokenBudget", () => {
+    it("gives every section what it needs when the budget allows", () => {
+      const allocation = allocateTokenBudget(
+        [
+          { key: "a", tokens: 100, weight: 1 },
+          { key: "b", tokens: 200, weight: 3 },
+        ],
+        1000
+      );
+      expect(allocation.get("a")).toBe(100);
+      expect(allocation.get("b")).toBe(200);
+    });
+
+    it("splits an overflowing budget by weight", () => {
+      const allocation = allocateTokenBudget(
+        [
+          { key: "a", tokens: 1000, weight: 1 },
+          { key: "b", tokens: 1000, weight: 3 },
+        ],
+        400
+      );
+      expect(allocation.get("a")).toBe(100);
+      expect(allocation.get("b")).toBe(300);
+    });
+
+    it("shares space left by small sections among the large ones", () => {
+      const allocation = allocateTokenBudget(
+        [
+          { key: "small", tokens: 10, weight: 3 },
+          { key: "large", tokens: 1000, weight: 1 },
+          { key: "empty", tokens: 0, weight: 1 },
+        ],
+        400
+      );
+      expect(allocation.get("small")).toBe(10);
+      expect(allocation.get("large")).toBe(390);
+      expect(allocation.get("empty")).toBe(0);
+    });
+  });
+
+  describe("summarizeSection", () => {
+    const section = [
+      "Intro sentence here. More intro detail that is long enough to matter.",
+      "",
+      "```ts",
+      "const example = computeSomethingExpensive();",
+      "```",
+      "",
+      "### Requirements",
+      "",
+      "- FR1: Users can log in. Sessions last a day.",
+      "  - Nested detail about session storage",
+      "- Plain list item. With extra detail.",
+      "",
+      "| Column | Value |",
+      "| --- | --- |",
+      "| a | b |",
+    ].join("\n");
+
+    it("returns content unchanged when it fits", () => {
+      expect(summarizeSection(section, 10_000)).toEqual({ content: section, dropped: [] });
+    });
+
+    it("drops code blocks and paragraph detail first", () => {
+      const budget = estimateTokens(section) - 20;
+      const summary = summarizeSection(section, budget);
+      expect(summary.dropped).toEqual([
+        "code blocks and paragraph detail after the first sentence",
+      ]);
+      expect(summary.content).toContain("Intro sentence here.");
+      expect(summary.content).not.toContain("More intro detail");
+      expect(summary.content).not.toContain("computeSomethingExpensive");
+      expect(summary.content).toContain("| a | b |");
+    });
+
+    it("keeps requirement ids and headings at tighter budgets", () => {
+      const summary = summarizeSection(section, 20);
+      expect(summary.content).toContain("### Requirements");
+      expect(summary.content).toContain("- FR1: Users can log in.");
+      expect(summary.content).not.toContain("Plain list item");
+      expect(summary.dropped).toContain("all body text except requirement ids");
+      expect(estimateTokens(summary.content)).toBeLessThanOrEqual(20);
+    });
+
+    it("cuts at a word boundary as a last resort", () => {
+      const summary = summarizeSection("alpha beta gamma delta epsilon zeta eta theta", 4);
+      expect(summary.content).toBe("alpha beta gamma…");
+      expect(summary.dropped.at(-1)).toBe("trailing lines");
+    });
+  });
+});
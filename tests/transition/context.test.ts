@@ -313,8 +313,11 @@ Third-party API rate limits.
       expect(context.successMetrics).toBe("");
     });
 
-    it("tracks truncation when content exceeds max length", () => {
-      const longContent = "X".repeat(6000);
+    it("tracks truncation when content exceeds the token budget", () => {
+      const longContent = Array.from(
+        { length: 40 },
+        (_, i) => `Goal ${i} matters. It has supporting detail that can be dropped.`
+      ).join("\n\n");
       const artifacts = new Map([
         [
           "prd.md",
@@ -328,12 +331,40 @@ ${longContent}
 `,
         ],
       ]);
-      const { context, truncated } = extractProjectContext(artifacts);
-      expect(context.projectGoals.length).toBe(5000);
-      expect(truncated.length).toBeGreaterThan(0);
+      const { context, truncated } = extractProjectContext(artifacts, { tokenBudget: 300 });
+      expect(context.projectGoals).toContain("Goal 0 matters.");
+      expect(context.projectGoals).not.toContain("supporting detail");
+      expect(truncated).toHaveLength(1);
       expect(truncated[0].field).toBe("projectGoals");
-      expect(truncated[0].originalLength).toBe(6000);
-      expect(truncated[0].truncatedTo).toBe(5000);
+      expect(truncated[0].originalLength).toBe(longContent.length);
+      expect(truncated[0].truncatedTo).toBe(context.projectGoals.length);
+      expect(truncated[0].truncatedToTokens).toBeLessThanOrEqual(300);
+      expect(truncated[0].originalTokens).toBeGreaterThan(300);
+      expect(truncated[0].dropped).toEqual([
+        "code blocks and paragraph detail after the first sentence",
+      ]);
+      expect(truncated[0].source).toBe("prd.md");
+    });
+
+    it("keeps long sections whole when they fit the default token budget", () => {
+      const longContent = "Goal detail. ".repeat(500).trim();
+      const artifacts = new Map([["prd.md", `# PRD\n\n## Executive Summary\n\n${longContent}\n`]]);
+      const { context, truncated } = extractProjectContext(artifacts);
+      expect(context.projectGoals).toBe(longContent);
+      expect(truncated).toEqual([]);
+    });
+
+    it("gives higher-priority sections a larger share of the budget", () => {
+      const body = (label: string) =>
+        Array.from({ length: 30 }, (_, i) => `- ${label} item ${i} with some words`).join("\n");
+      const artifacts = new Map([
+        [
+          "prd.md",
+          `# PRD\n\n## Executive Summary\n\n${body("goal")}\n\n## Target Users\n\n${body("user")}\n`,
+        ],
+      ]);
+      const { context } = extractProjectContext(artifacts, { tokenBudget: 200 });
+      expect(context.projectGoals.length).toBeGreaterThan(context.targetUsers.length);
     });
 
     it("returns empty truncated array when no content is truncated", () => {
@@ -474,8 +505,8 @@ ${longContent}
 `,
         ],
       ]);
-      const { context, truncated } = extractProjectContext(artifacts);
-      expect(context.designGuidelines.length).toBe(5000);
+      const { context, truncated } = extractProjectContext(artifacts, { tokenBudget: 100 });
+      expect(context.designGuidelines.length).toBeLessThan(longContent.length);
       expect(truncated.some((t) => t.field === "designGuidelines")).toBe(true);
     });
   });
@@ -498,9 +529,46 @@ ${longContent}
       const warnings = detectTruncation([]);
       expect(warnings).toEqual([]);
     });
+
+    it("reports token counts, dropped content and the full section path", () => {
+      const warnings = detectTruncation([
+        {
+          field: "projectGoals",
+          originalLength: 9000,
+          truncatedTo: 1200,
+          originalTokens: 1800,
+          truncatedToTokens: 240,
+          dropped: ["code blocks and paragraph detail after the first sentence"],
+          source: ".ralph/specs/planning-artifacts/prd.md",
+        },
+      ]);
+      expect(warnings).toEqual([
+        "projectGoals was truncated from 1800 to 240 tokens to fit the context budget. Dropped: code blocks and paragraph detail after the first sentence. Full section: .ralph/specs/planning-artifacts/prd.md",
+      ]);
+    });
   });
 
   describe("generateProjectContextMd", () => {
+    it("links summarized sections to the full spec file", () => {
+      const context = {
+        projectGoals: "Build a CLI tool",
+        successMetrics: "95% coverage",
+        architectureConstraints: "",
+        technicalRisks: "",
+        scopeBoundaries: "",
+        targetUsers: "",
+        nonFunctionalRequirements: "",
+      };
+      const md = generateProjectContextMd(context, "TestProject", {
+        projectGoals: "specs/planning-artifacts/prd.md",
+      });
+
+      expect(md).toContain(
+        "Build a CLI tool\n\n> Summarized to fit the context budget. Full section: [specs/planning-artifacts/prd.md](specs/planning-artifacts/prd.md)"
+      );
+      expect(md.match(/Summarized to fit/g)).toHaveLength(1);
+    });
+
     it("formats sections with proper markdown headings", () => {
       const context = {
         projectGoals: "Build a CLI tool",
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { previewTransition } from "../../src/transition/dry-run.js";
+import { exists } from "../../src/utils/file-system.js";
+
+const STORIES = `## Epic 1: Core\n\n### Story 1.1: Feature\n\nDo something.\n\n### Story 1.2: Other\n\nDo more.\n`;
+
+describe("previewTransition", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `bmalph-dry-run-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "bmalph"), { recursive: true });
+    await mkdir(join(testDir, ".ralph/logs"), { recursive: true });
+    await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+    await writeFile(
+      join(testDir, "bmalph/config.json"),
+      JSON.stringify({ name: "test-project", createdAt: "2025-01-01T00:00:00.000Z" })
+    );
+    await writeFile(join(testDir, "_bmad-output/planning-artifacts/stories.md"), STORIES);
+    await writeFile(join(testDir, ".ralph/logs/ralph.log"), "runtime log\n");
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("reports created files without writing anything", async () => {
+    const { result, changes } = await previewTransition(testDir);
+
+    expect(result.storiesCount).toBe(2);
+    const fixPlan = changes.find((change) => change.path === ".ralph/@fix_plan.md");
+    expect(fixPlan?.action).toBe("create");
+    expect(fixPlan?.diff).toContain("--- /dev/null");
+    expect(fixPlan?.diff).toContain("+- [ ] Story 1.1: Feature");
+    expect(changes.some((change) => change.path.startsWith(".ralph/specs/"))).toBe(true);
+
+    expect(await exists(join(testDir, ".ralph/@fix_plan.md"))).toBe(false);
+    expect(await exists(join(testDir, "bmalph/state/current-phase.json"))).toBe(false);
+    expect(await readdir(join(testDir, ".ralph"))).toEqual(["logs"]);
+  });
+
+  it("diffs modified files against the current .ralph/ and keeps progress", async () => {
+    const existing = "# Ralph Fix Plan\n\n- [x] Story 1.1: Feature\n";
+    await writeFile(join(testDir, ".ralph/@fix_plan.md"), existing);
+
+    const { changes } = await previewTransition(testDir);
+
+    const fixPlan = changes.find((change) => change.path === ".ralph/@fix_plan.md");
+    expect(fixPlan?.action).toBe("modify");
+    expect(fixPlan?.diff).toContain("--- a/.ralph/@fix_plan.md");
+    expect(fixPlan?.diff).toContain("+- [ ] Story 1.2: Other");
+    expect(fixPlan?.diff).not.toContain("-- [x] Story 1.1: Feature");
+    expect(await readFile(join(testDir, ".ralph/@fix_plan.md"), "utf-8")).toBe(existing);
+  });
+
+  it("reports spec files the transition would delete", async () => {
+    await mkdir(join(testDir, ".ralph/specs/planning-artifacts"), { recursive: true });
+    await writeFile(join(testDir, ".ralph/specs/planning-artifacts/old-prd.md"), "# Old\n");
+
+    const { changes } = await previewTransition(testDir);
+
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        path: ".ralph/specs/planning-artifacts/old-prd.md",
+        action: "delete",
+      })
+    );
+    expect(await exists(join(testDir, ".ralph/specs/planning-artifacts/old-prd.md"))).toBe(true);
+  });
+
+  it("ignores Ralph runtime logs", async () => {
+    const { changes } = await previewTransition(testDir);
+
+    expect(changes.some((change) => change.path.startsWith(".ralph/logs/"))).toBe(false);
+  });
+});
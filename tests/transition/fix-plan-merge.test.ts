@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import { mergeFixPlanEdits } from "../../src/transition/fix-plan-merge.js";
+
+const BASE = [
+  "# Ralph Fix Plan",
+  "",
+  "## Stories to Implement",
+  "",
+  "### Epic 1: Payments",
+  "",
+  "- [ ] Story 1.1: Checkout",
+  "  > AC: Given a cart, When I pay, Then I get a receipt",
+  "  > Spec: specs/planning-artifacts/stories.md#story-1-1",
+  "- [ ] Story 1.2: Refunds",
+  "  > AC: Given a payment, When I refund, Then the money returns",
+  "  > Spec: specs/planning-artifacts/stories.md#story-1-2",
+  "",
+  "## Completed",
+  "",
+  "## Notes",
+  "- Follow TDD methodology (red-green-refactor)",
+  "",
+].join("\n");
+
+function replaceLine(content: string, from: string, to: string): string {
+  return content.replace(from, to);
+}
+
+describe("fix-plan-merge", () => {
+  describe("mergeFixPlanEdits", () => {
+    it("returns the generated plan when nothing was edited", () => {
+      const generated = replaceLine(BASE, "Checkout", "Checkout flow");
+
+      const result = mergeFixPlanEdits(BASE, BASE, generated);
+
+      expect(result.content).toBe(generated);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("keeps notes under a story next to the line they followed", () => {
+      const current = replaceLine(
+        BASE,
+        "  > AC: Given a cart, When I pay, Then I get a receipt",
+        "  > AC: Given a cart, When I pay, Then I get a receipt\n  - Use the existing Stripe client"
+      );
+
+      const result = mergeFixPlanEdits(BASE, current, BASE);
+
+      expect(result.content).toBe(current);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("keeps notes while applying regenerated story details", () => {
+      const current = replaceLine(
+        BASE,
+        "- [ ] Story 1.2: Refunds",
+        "- [ ] Story 1.2: Refunds\n  - blocked on API key"
+      );
+      const generated = replaceLine(BASE, "Then the money returns", "Then the money is returned");
+
+      const result = mergeFixPlanEdits(BASE, current, generated);
+
+      expect(result.content).toContain(
+        "- [ ] Story 1.2: Refunds\n  - blocked on API key\n  > AC: Given a payment, When I refund, Then the money is returned"
+      );
+      expect(result.content).not.toContain("Then the money returns");
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("keeps tasks Ralph appended and notes added to the Notes section", () => {
+      const current = BASE.replace(
+        "- Follow TDD methodology (red-green-refactor)",
+        "- Follow TDD methodology (red-green-refactor)\n- Payments sandbox key is in .env.example"
+      ).replace(
+        "  > Spec: specs/planning-artifacts/stories.md#story-1-2",
+        "  > Spec: specs/planning-artifacts/stories.md#story-1-2\n- [ ] Fix flaky checkout test"
+      );
+
+      const result = mergeFixPlanEdits(BASE, current, BASE);
+
+      expect(result.content).toContain("#story-1-2\n- [ ] Fix flaky checkout test\n\n## Completed");
+      expect(result.content).toContain(
+        "- Follow TDD methodology (red-green-refactor)\n- Payments sandbox key is in .env.example"
+      );
+    });
+
+    it("keeps sections added by hand after the section they followed", () => {
+      const current = `${BASE}## Blockers\n- Waiting on legal review\n`;
+
+      const result = mergeFixPlanEdits(BASE, current, BASE);
+
+      expect(result.content).toContain("## Blockers\n- Waiting on legal review");
+      expect(result.content.indexOf("## Blockers")).toBeGreaterThan(
+        result.content.indexOf("## Notes")
+      );
+    });
+
+    it("takes completion from the generated plan", () => {
+      const generated = replaceLine(BASE, "- [ ] Story 1.1", "- [x] Story 1.1");
+
+      const result = mergeFixPlanEdits(BASE, BASE, generated);
+
+      expect(result.content).toContain("- [x] Story 1.1: Checkout");
+    });
+
+    it("keeps a story skipped by hand while it is still open", () => {
+      const current = replaceLine(BASE, "- [ ] Story 1.2", "- [-] Story 1.2");
+
+      const result = mergeFixPlanEdits(BASE, current, BASE);
+
+      expect(result.content).toContain("- [-] Story 1.2: Refunds");
+    });
+
+    it("keeps a local rename when the BMAD title did not change", () => {
+      const current = replaceLine(BASE, "Story 1.1: Checkout", "Story 1.1: Checkout (guest only)");
+
+      const result = mergeFixPlanEdits(BASE, current, BASE);
+
+      expect(result.content).toContain("- [ ] Story 1.1: Checkout (guest only)");
+    });
+
+    it("reports a conflict when a story was renamed on both sides", () => {
+      const current = replaceLine(BASE, "Story 1.1: Checkout", "Story 1.1: Guest checkout");
+      const generated = replaceLine(BASE, "Story 1.1: Checkout", "Story 1.1: Checkout flow");
+
+      const result = mergeFixPlanEdits(BASE, current, generated);
+
+      expect(result.content).toContain("- [ ] Story 1.1: Checkout flow");
+      expect(result.conflicts).toEqual([
+        'Story 1.1 was renamed in @fix_plan.md and in the BMAD output; kept "Checkout flow"',
+      ]);
+    });
+
+    it("keeps generated lines removed locally out of the merged plan", () => {
+      const current = BASE.replace("  > AC: Given a cart, When I pay, Then I get a receipt\n", "");
+
+      const result = mergeFixPlanEdits(BASE, current, BASE);
+
+      expect(result.content).not.toContain("Then I get a receipt");
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("reports a conflict when a story was edited locally and in the BMAD output", () => {
+      const current = replaceLine(BASE, "Then I get a receipt", "Then I get an emailed receipt");
+      const generated = replaceLine(BASE, "Then I get a receipt", "Then I see a receipt");
+
+      const result = mergeFixPlanEdits(BASE, current, generated);
+
+      expect(result.content).toContain("Then I see a receipt");
+      expect(result.content).toContain("Then I get an emailed receipt");
+      expect(result.conflicts).toEqual([
+        "Story 1.1 was edited in @fix_plan.md and changed in the BMAD output; kept the regenerated lines next to the local edits",
+      ]);
+    });
+
+    it("does not report a conflict when completed story details are collapsed", () => {
+      const current = BASE.replace(
+        "  > AC: Given a cart, When I pay, Then I get a receipt\n",
+        ""
+      ).replace("- [ ] Story 1.1", "- [x] Story 1.1");
+      const generated = BASE.replace(
+        "  > AC: Given a cart, When I pay, Then I get a receipt\n  > Spec: specs/planning-artifacts/stories.md#story-1-1\n",
+        ""
+      ).replace("- [ ] Story 1.1", "- [x] Story 1.1");
+
+      const result = mergeFixPlanEdits(BASE, current, generated);
+
+      expect(result.content).toBe(generated);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("reports notes dropped with a story removed from the BMAD output", () => {
+      const current = replaceLine(
+        BASE,
+        "- [ ] Story 1.2: Refunds",
+        "- [ ] Story 1.2: Refunds\n  - blocked on API key"
+      );
+      const generated = BASE.replace(
+        [
+          "- [ ] Story 1.2: Refunds",
+          "  > AC: Given a payment, When I refund, Then the money returns",
+          "  > Spec: specs/planning-artifacts/stories.md#story-1-2",
+          "",
+        ].join("\n"),
+        ""
+      );
+
+      const result = mergeFixPlanEdits(BASE, current, generated);
+
+      expect(result.content).not.toContain("Story 1.2");
+      expect(result.conflicts).toEqual([
+        'Story 1.2 was removed from the BMAD output; its notes in @fix_plan.md were dropped: "- blocked on API key"',
+      ]);
+    });
+
+    it("treats lines generateFixPlan never writes as additions without a base", () => {
+      const current = replaceLine(
+        BASE,
+        "- [ ] Story 1.2: Refunds",
+        "- [ ] Story 1.2: Refunds\n  - blocked on API key"
+      );
+      const generated = replaceLine(BASE, "Then the money returns", "Then the money is returned");
+
+      const result = mergeFixPlanEdits(null, current, generated);
+
+      expect(result.content).toContain("  - blocked on API key");
+      expect(result.content).toContain("Then the money is returned");
+      expect(result.content).not.toContain("Then the money returns");
+      expect(result.conflicts).toEqual([]);
+    });
+  });
+});
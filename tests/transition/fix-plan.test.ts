@@ -118,6 +118,28 @@ describe("fix-plan", () => {
       expect(plan).not.toContain("specs/planning-artifacts/epics/epic-1.md#story-1-1");
     });
 
+    it("annotates stories with their dependencies", () => {
+      const stories = [
+        makeStory({ id: "1.1", title: "Login" }),
+        makeStory({ id: "1.2", title: "Logout", dependsOn: ["1.1"] }),
+      ];
+      const plan = generateFixPlan(stories);
+
+      expect(plan).toContain("- [ ] Story 1.2: Logout\n  > Depends on: Story 1.1\n");
+    });
+
+    it("orders stories after the stories they depend on", () => {
+      const stories = [
+        makeStory({ id: "1.1", title: "Login", dependsOn: ["1.2"] }),
+        makeStory({ id: "1.2", title: "Session store" }),
+        makeStory({ id: "1.3", title: "Logout" }),
+      ];
+      const plan = generateFixPlan(stories);
+
+      const order = ["1.2", "1.1", "1.3"].map((id) => plan.indexOf(`Story ${id}:`));
+      expect(order).toEqual([...order].sort((a, b) => a - b));
+    });
+
     it("returns plan with standard sections for empty input", () => {
       const plan = generateFixPlan([]);
 
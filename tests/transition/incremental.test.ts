@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  classifyArtifactChanges,
+  runIncrementalTransition,
+} from "../../src/transition/incremental.js";
+import { exists } from "../../src/utils/file-system.js";
+
+const STORIES = `## Epic 1: Core\n\n### Story 1.1: Feature\n\nDo something.\n\n### Story 1.2: Other\n\nDo more.\n`;
+
+describe("classifyArtifactChanges", () => {
+  it("returns no targets when nothing changed", () => {
+    expect(classifyArtifactChanges([])).toEqual(new Set());
+  });
+
+  it("refreshes specs and the fix plan for story changes", () => {
+    expect(classifyArtifactChanges(["epics-and-stories.md"])).toEqual(
+      new Set(["specs", "fixPlan"])
+    );
+  });
+
+  it("refreshes the fix plan for sprint status changes", () => {
+    expect(classifyArtifactChanges(["sprint-status.yaml"]).has("fixPlan")).toBe(true);
+  });
+
+  it("refreshes context for PRD, architecture and UX changes", () => {
+    expect(classifyArtifactChanges(["prd.md"])).toEqual(new Set(["specs", "context"]));
+    expect(classifyArtifactChanges(["architecture.md"]).has("context")).toBe(true);
+    expect(classifyArtifactChanges(["ux-design.md"]).has("context")).toBe(true);
+  });
+
+  it("only refreshes specs for unrelated documents", () => {
+    expect(classifyArtifactChanges(["notes.md"])).toEqual(new Set(["specs"]));
+  });
+});
+
+describe("runIncrementalTransition", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-incremental-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, "bmalph"), { recursive: true });
+    await mkdir(join(testDir, ".ralph"), { recursive: true });
+    await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+    await writeFile(
+      join(testDir, "bmalph/config.json"),
+      JSON.stringify({ name: "test-project", createdAt: "2025-01-01T00:00:00.000Z" })
+    );
+    await writeFile(join(testDir, "_bmad-output/planning-artifacts/stories.md"), STORIES);
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("regenerates the fix plan and keeps completed stories checked", async () => {
+    await writeFile(
+      join(testDir, ".ralph/@fix_plan.md"),
+      "# Ralph Fix Plan\n\n- [x] Story 1.1: Feature\n"
+    );
+
+    const result = await runIncrementalTransition(testDir, new Set(["fixPlan"]));
+
+    expect(result.storiesCount).toBe(2);
+    expect(result.fixPlanPreserved).toBe(true);
+    expect(result.fixPlanDeferred).toBe(false);
+    const fixPlan = await readFile(join(testDir, ".ralph/@fix_plan.md"), "utf-8");
+    expect(fixPlan).toContain("- [x] Story 1.1: Feature");
+    expect(fixPlan).toContain("- [ ] Story 1.2: Other");
+  });
+
+  it("only writes the requested outputs", async () => {
+    const result = await runIncrementalTransition(testDir, new Set(["specs"]));
+
+    expect(result.specsChanges).toContainEqual(
+      expect.objectContaining({ file: "planning-artifacts/stories.md", status: "added" })
+    );
+    expect(await exists(join(testDir, ".ralph/specs/planning-artifacts/stories.md"))).toBe(true);
+    expect(await exists(join(testDir, ".ralph/@fix_plan.md"))).toBe(false);
+    expect(await exists(join(testDir, ".ralph/PROJECT_CONTEXT.md"))).toBe(false);
+    expect(await exists(join(testDir, "bmalph/state/current-phase.json"))).toBe(false);
+  });
+
+  it("defers the fix plan while a Ralph loop is running", async () => {
+    const existing = "# Ralph Fix Plan\n\n- [x] Story 1.1: Feature\n";
+    await writeFile(join(testDir, ".ralph/@fix_plan.md"), existing);
+    await writeFile(
+      join(testDir, ".ralph/status.json"),
+      JSON.stringify({ loop_count: 3, status: "running" })
+    );
+
+    const result = await runIncrementalTransition(testDir, new Set(["fixPlan"]));
+
+    expect(result.fixPlanDeferred).toBe(true);
+    expect(result.generatedFiles).toEqual([]);
+    expect(await readFile(join(testDir, ".ralph/@fix_plan.md"), "utf-8")).toBe(existing);
+  });
+});
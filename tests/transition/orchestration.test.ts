@@ -134,6 +134,44 @@ describe("orchestration", () => {
     });
   });
 
+  describe("fix plan edits across re-transitions", () => {
+    it("keeps notes and appended tasks when stories change", async () => {
+      const storiesPath = join(testDir, "_bmad-output/planning-artifacts/stories.md");
+      await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+      await writeFile(
+        storiesPath,
+        `## Epic 1: Core\n\n### Story 1.1: Checkout\n\nDo checkout.\n\n### Story 1.2: Refunds\n\nDo refunds.\n`
+      );
+      await runTransition(testDir);
+
+      const fixPlanPath = join(testDir, ".ralph/@fix_plan.md");
+      const generated = await readFile(fixPlanPath, "utf-8");
+      await writeFile(
+        fixPlanPath,
+        generated
+          .replace(
+            "- [ ] Story 1.1: Checkout",
+            "- [ ] Story 1.1: Checkout\n  - Use the existing Stripe client"
+          )
+          .replace("## Notes", "## Notes\n- Sandbox key is in .env.example")
+      );
+      await writeFile(
+        storiesPath,
+        `## Epic 1: Core\n\n### Story 1.1: Checkout\n\nDo guest checkout.\n\n### Story 1.2: Refunds\n\nDo refunds.\n`
+      );
+
+      const result = await runTransition(testDir);
+
+      const fixPlan = await readFile(fixPlanPath, "utf-8");
+      expect(fixPlan).toContain("- [ ] Story 1.1: Checkout\n  - Use the existing Stripe client");
+      expect(fixPlan).toContain("Do guest checkout.");
+      expect(fixPlan).toContain("## Notes\n- Sandbox key is in .env.example");
+      expect(result.warnings).not.toContainEqual(expect.stringContaining("@fix_plan.md"));
+      const base = await readFile(join(testDir, "bmalph/state/fix-plan-base.md"), "utf-8");
+      expect(base).not.toContain("Stripe client");
+    });
+  });
+
   describe("fix-plan spec links use detected stories filename (Bug #2b)", () => {
     it("uses detected stories filename in fix plan spec links", async () => {
       await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
@@ -545,8 +583,8 @@ development_status:
   describe("truncation warnings (Bug #9)", () => {
     it("warns when PRD goals are truncated", async () => {
       await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
-      // Create PRD with very long Executive Summary (>5000 chars)
-      const longContent = "A".repeat(6000);
+      // Create PRD with an Executive Summary over the default token budget
+      const longContent = "Goal detail. ".repeat(6000);
       await writeFile(
         join(testDir, "_bmad-output/planning-artifacts/prd.md"),
         `# PRD\n\n## Executive Summary\n\n${longContent}\n\n## Other Section\n`
@@ -560,6 +598,37 @@ development_status:
 
       // Should warn about truncation
       expect(result.warnings).toContainEqual(expect.stringMatching(/truncat/i));
+      expect(result.warnings).toContainEqual(
+        expect.stringContaining("Full section: .ralph/specs/planning-artifacts/prd.md")
+      );
+      const projectContext = await readFile(join(testDir, ".ralph/PROJECT_CONTEXT.md"), "utf-8");
+      expect(projectContext).toContain(
+        "Full section: [specs/planning-artifacts/prd.md](specs/planning-artifacts/prd.md)"
+      );
+    });
+
+    it("honors contextTokenBudget from config", async () => {
+      await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+      await writeFile(
+        join(testDir, "bmalph/config.json"),
+        JSON.stringify({
+          name: "test-project",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          contextTokenBudget: 50,
+        })
+      );
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/prd.md"),
+        `# PRD\n\n## Executive Summary\n\n${"Goal detail. ".repeat(100)}\n`
+      );
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/stories.md"),
+        `## Epic 1: Core\n\n### Story 1.1: Feature\n\nDo something.\n`
+      );
+
+      const result = await runTransition(testDir);
+
+      expect(result.warnings).toContainEqual(expect.stringMatching(/projectGoals was truncated/));
     });
   });
 
@@ -681,6 +750,45 @@ development_status:
       expect(agent).toContain("npx vitest run");
     });
 
+    it("prefers repository manifests and fills .ralphrc defaults", async () => {
+      await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/stories.md"),
+        `## Epic 1: Core\n\n### Story 1.1: Feature\n\nDo something.\n`
+      );
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/architecture.md"),
+        `# Architecture\n\n## Tech Stack\n\n- Node.js\n- TypeScript\n- vitest\n\n## Other\n`
+      );
+      await writeFile(
+        join(testDir, "package.json"),
+        JSON.stringify({ scripts: { test: "vitest run", build: "tsc" } })
+      );
+      await writeFile(join(testDir, "pnpm-lock.yaml"), "lockfileVersion: '9.0'\n");
+      await writeFile(join(testDir, "tsconfig.json"), "{}");
+      await writeFile(
+        join(testDir, ".ralph/.ralphrc"),
+        'PROJECT_TYPE="${PROJECT_TYPE:-unknown}"\nTEST_COMMAND="${TEST_COMMAND:-}"\n'
+      );
+      await writeFile(
+        join(testDir, ".ralph/@AGENT.md"),
+        "# Agent\n\n## Running Tests\n```bash\necho test\n```\n\n## Development Server\n```bash\necho dev\n```\n"
+      );
+
+      const result = await runTransition(testDir);
+
+      const agent = await readFile(join(testDir, ".ralph/@AGENT.md"), "utf-8");
+      expect(agent).toContain("pnpm test");
+      expect(agent).toContain("npm run dev");
+      const ralphrc = await readFile(join(testDir, ".ralph/.ralphrc"), "utf-8");
+      expect(ralphrc).toContain('PROJECT_TYPE="${PROJECT_TYPE:-typescript}"');
+      expect(ralphrc).toContain('TEST_COMMAND="${TEST_COMMAND:-pnpm test}"');
+      expect(result.generatedFiles).toContainEqual({ path: ".ralph/.ralphrc", action: "updated" });
+      expect(result.warnings).toContainEqual(
+        expect.stringContaining('test command from package.json ("pnpm test") differs')
+      );
+    });
+
     it("warns but does not fail when @AGENT.md is missing", async () => {
       await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
       await writeFile(
@@ -811,6 +919,48 @@ development_status:
   });
 
   describe("pre-flight validation", () => {
+    it("applies the preflight section of bmalph/config.json", async () => {
+      await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+      await writeFile(
+        join(testDir, "bmalph/config.json"),
+        JSON.stringify({
+          name: "test-project",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          preflight: {
+            rules: { E1: "warning" },
+            suppress: [{ rule: "W9", stories: ["1.2"], reason: "Placeholder story" }],
+          },
+        })
+      );
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/stories.md"),
+        `## Epic 1: Core\n\n### Story 1.1: Feature\n\nDo something.\n\n### Story 1.2: Later\n`
+      );
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/readiness.md"),
+        `# Readiness Report\n\n**NO-GO** - Missing test coverage.\n`
+      );
+
+      const result = await runTransition(testDir);
+
+      expect(result.preflightIssues).toContainEqual(
+        expect.objectContaining({
+          id: "E1",
+          severity: "warning",
+          file: "_bmad-output/planning-artifacts/readiness.md",
+        })
+      );
+      expect(result.suppressedPreflightIssues).toEqual([
+        expect.objectContaining({
+          id: "W9",
+          storyId: "1.2",
+          file: "_bmad-output/planning-artifacts/stories.md",
+          line: 7,
+          suppressionReason: "Placeholder story",
+        }),
+      ]);
+    });
+
     it("halts transition on NO-GO readiness report", async () => {
       await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
       await writeFile(
@@ -1191,4 +1341,191 @@ As an admin, I want to view audit history.
       expect(agent).toContain("npx vitest run");
     });
   });
+
+  describe("sharded epics and stories", () => {
+    const artifacts = "_bmad-output/planning-artifacts";
+
+    async function writeArtifact(path: string, content: string): Promise<void> {
+      await mkdir(join(testDir, artifacts, path, ".."), { recursive: true });
+      await writeFile(join(testDir, artifacts, path), content);
+    }
+
+    it("reads shard-doc epics in index order with per-shard spec links", async () => {
+      await writeArtifact(
+        "epics/index.md",
+        "# Epics\n\n- [Epic 1: Auth](./epic-1-auth.md)\n- [Epic 2: Billing](./epic-2-billing.md)\n"
+      );
+      await writeArtifact(
+        "epics/epic-1-auth.md",
+        "# Epic 1: Auth\n\nUsers sign in.\n\n## Story 1.1: Login\n\nAs a user, I want to log in.\n"
+      );
+      await writeArtifact(
+        "epics/epic-2-billing.md",
+        "# Epic 2: Billing\n\n## Story 2.1: Invoices\n\nAs a user, I want invoices.\n"
+      );
+      await writeArtifact("epics.md", "## Epic 9: Stale\n\n### Story 1.1: Old login\n\nOld.\n");
+
+      const result = await runTransition(testDir);
+
+      expect(result.storiesCount).toBe(2);
+      const fixPlan = await readFile(join(testDir, ".ralph/@fix_plan.md"), "utf-8");
+      expect(fixPlan).toContain("### Auth\n> Goal: Users sign in.");
+      expect(fixPlan).toContain("- [ ] Story 1.1: Login");
+      expect(fixPlan).not.toContain("Old login");
+      expect(fixPlan).toContain("Spec: specs/planning-artifacts/epics/epic-1-auth.md#story-1-1");
+      expect(fixPlan).toContain("Spec: specs/planning-artifacts/epics/epic-2-billing.md#story-2-1");
+    });
+
+    it("attaches one-file-per-story shards to their epic and flags numbering gaps", async () => {
+      await writeArtifact("epics.md", "## Epic 1: Auth\n\nUsers sign in.\n");
+      await writeArtifact(
+        "stories/1-1-login.md",
+        [
+          "# Story 1.1: Login",
+          "",
+          "Status: ready-for-dev",
+          "",
+          "## Story",
+          "",
+          "As a user, I want to log in.",
+          "",
+          "## Acceptance Criteria",
+          "",
+          "1. **Given** valid credentials **When** I submit **Then** I see the dashboard",
+          "",
+          "## Tasks / Subtasks",
+          "",
+          "- [ ] Build the form",
+          "  - [ ] Given-style validation",
+          "",
+        ].join("\n")
+      );
+      await writeArtifact(
+        "stories/1-3-logout.md",
+        "# Story 1.3: Logout\n\nAs a user, I log out.\n"
+      );
+
+      const result = await runTransition(testDir, { force: true });
+
+      const fixPlan = await readFile(join(testDir, ".ralph/@fix_plan.md"), "utf-8");
+      expect(fixPlan).toContain("### Auth");
+      expect(fixPlan).toContain("  > I want to log in.");
+      expect(fixPlan).toContain(
+        "  > AC: Given valid credentials When I submit Then I see the dashboard"
+      );
+      expect(fixPlan).not.toContain("Build the form");
+      expect(fixPlan).toContain("Spec: specs/planning-artifacts/stories/1-1-login.md#story-1-1");
+      expect(result.warnings).not.toContainEqual(expect.stringMatching(/not under an epic/));
+      expect(result.preflightIssues).toContainEqual(
+        expect.objectContaining({ id: "W12", message: "Epic 1 is missing story 1.2" })
+      );
+    });
+  });
+
+  describe("test scaffolds", () => {
+    const artifacts = "_bmad-output/planning-artifacts";
+
+    beforeEach(async () => {
+      await mkdir(join(testDir, artifacts), { recursive: true });
+      await writeFile(
+        join(testDir, artifacts, "stories.md"),
+        [
+          "## Epic 1: Auth",
+          "",
+          "### Story 1.1: Login",
+          "",
+          "As a user, I want to log in.",
+          "",
+          "**Acceptance Criteria:**",
+          "",
+          "**Given** valid credentials",
+          "**When** I submit",
+          "**Then** I see the dashboard",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("writes acceptance tests for the detected framework after the specs sync", async () => {
+      await writeFile(
+        join(testDir, artifacts, "architecture.md"),
+        "# Architecture\n\n## Tech Stack\n\n- Python 3.12\n- pytest\n"
+      );
+
+      const result = await runTransition(testDir, { testScaffold: true });
+
+      const scaffold = await readFile(
+        join(testDir, ".ralph/specs/acceptance/test_story_1_1.py"),
+        "utf-8"
+      );
+      expect(scaffold).toContain("Acceptance tests for Story 1.1: Login");
+      expect(scaffold).toContain("# AC 1: Given valid credentials, When I submit, Then I see");
+      expect(scaffold).toContain('pytest.fail("Story 1.1 AC 1 is not implemented")');
+      expect(result.generatedFiles).toContainEqual({
+        path: ".ralph/specs/acceptance/test_story_1_1.py",
+        action: "created",
+      });
+    });
+
+    it("warns when no test framework can be detected", async () => {
+      const result = await runTransition(testDir, { testScaffold: true });
+
+      expect(result.warnings).toContainEqual(
+        expect.stringContaining("Could not detect a test framework")
+      );
+      await expect(access(join(testDir, ".ralph/specs/acceptance"))).rejects.toThrow();
+    });
+
+    it("does not write scaffolds without the option", async () => {
+      await writeFile(
+        join(testDir, artifacts, "architecture.md"),
+        "# Architecture\n\n## Tech Stack\n\n- Go 1.22 with go test\n"
+      );
+
+      await runTransition(testDir);
+
+      await expect(access(join(testDir, ".ralph/specs/acceptance"))).rejects.toThrow();
+    });
+  });
+
+  describe("traceability matrix", () => {
+    const artifacts = "_bmad-output/planning-artifacts";
+
+    it("writes TRACEABILITY.md and .json and warns about coverage gaps", async () => {
+      await mkdir(join(testDir, artifacts), { recursive: true });
+      await writeFile(
+        join(testDir, artifacts, "prd.md"),
+        "# PRD\n\n## Functional Requirements\n\n- FR1: Users can log in\n- FR2: Users can log out\n"
+      );
+      await writeFile(
+        join(testDir, artifacts, "stories.md"),
+        [
+          "## Epic 1: Auth",
+          "",
+          "**FRs covered:** FR1",
+          "",
+          "### Story 1.1: Login",
+          "",
+          "As a user, I want to log in (FR1, FR5).",
+          "",
+        ].join("\n")
+      );
+
+      const result = await runTransition(testDir);
+
+      const markdown = await readFile(join(testDir, ".ralph/specs/TRACEABILITY.md"), "utf-8");
+      expect(markdown).toContain("| FR1 | Users can log in | 1.1 | — |");
+      expect(markdown).toContain("- FR2: Users can log out");
+      const json = JSON.parse(
+        await readFile(join(testDir, ".ralph/specs/TRACEABILITY.json"), "utf-8")
+      );
+      expect(json.unknownReferences).toEqual([{ storyId: "1.1", requirementId: "FR5" }]);
+      expect(result.generatedFiles).toContainEqual({
+        path: ".ralph/specs/TRACEABILITY.md",
+        action: "created",
+      });
+      expect(result.warnings).toContain("1 requirement is not covered by any story: FR2");
+      expect(result.warnings).toContain("Story 1.1 references unknown requirement FR5");
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { formatPreflightSarif } from "../../src/transition/preflight-sarif.js";
+
+describe("preflight-sarif", () => {
+  it("maps issues to SARIF results with rule metadata and locations", () => {
+    const sarif = formatPreflightSarif(
+      [
+        {
+          id: "W11",
+          severity: "warning",
+          message: "Story 1.1 depends on unknown story 9.9",
+          suggestion: "Fix the story reference.",
+          storyId: "1.1",
+          file: "_bmad-output/planning-artifacts/epics.md",
+          line: 3,
+        },
+        { id: "I1", severity: "info", message: "No readiness report found" },
+      ],
+      [],
+      "1.2.3"
+    );
+
+    const run = sarif.runs[0];
+    expect(sarif.version).toBe("2.1.0");
+    expect(run?.tool.driver).toMatchObject({ name: "bmalph", version: "1.2.3" });
+    expect(run?.tool.driver.rules).toEqual([
+      { id: "W11", shortDescription: { text: "Story depends on an unknown story" } },
+      { id: "I1", shortDescription: { text: "Readiness report is missing" } },
+    ]);
+    expect(run?.results).toEqual([
+      {
+        ruleId: "W11",
+        level: "warning",
+        message: { text: "Story 1.1 depends on unknown story 9.9. Fix the story reference." },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "_bmad-output/planning-artifacts/epics.md" },
+              region: { startLine: 3 },
+            },
+          },
+        ],
+      },
+      { ruleId: "I1", level: "note", message: { text: "No readiness report found" } },
+    ]);
+  });
+
+  it("includes suppressed issues and custom rule descriptions", () => {
+    const sarif = formatPreflightSarif(
+      [],
+      [
+        {
+          id: "ticket-key",
+          severity: "error",
+          message: "Story 1.2: must mention a ticket key",
+          storyId: "1.2",
+          suppressionReason: "Tracked in the epic",
+        },
+      ],
+      "1.2.3",
+      [{ id: "ticket-key", message: "must mention a ticket key", pattern: "x", target: "story" }]
+    );
+
+    expect(sarif.runs[0]?.tool.driver.rules).toEqual([
+      { id: "ticket-key", shortDescription: { text: "must mention a ticket key" } },
+    ]);
+    expect(sarif.runs[0]?.results[0]?.suppressions).toEqual([
+      { kind: "external", justification: "Tracked in the epic" },
+    ]);
+  });
+});
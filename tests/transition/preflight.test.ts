@@ -3,7 +3,12 @@ import {
   validatePrd,
   validateArchitecture,
   validateStories,
+  validateStoryDependencies,
+  validateStoryNumbering,
+  validateRequirementCoverage,
   validateReadiness,
+  validateCustomRules,
+  applyPreflightConfig,
   runPreflight,
 } from "../../src/transition/preflight.js";
 import type { Story } from "../../src/transition/types.js";
@@ -455,6 +460,123 @@ Scope.
     });
   });
 
+  describe("validateStoryDependencies", () => {
+    it("returns no issues when dependencies resolve", () => {
+      const stories = [makeStory({ id: "1.1" }), makeStory({ id: "1.2", dependsOn: ["1.1"] })];
+
+      expect(validateStoryDependencies(stories)).toHaveLength(0);
+    });
+
+    it("returns E3 for a dependency cycle", () => {
+      const stories = [
+        makeStory({ id: "1.1", dependsOn: ["1.3"] }),
+        makeStory({ id: "1.2", dependsOn: ["1.1"] }),
+        makeStory({ id: "1.3", dependsOn: ["1.2"] }),
+      ];
+
+      const issues = validateStoryDependencies(stories);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]!.id).toBe("E3");
+      expect(issues[0]!.severity).toBe("error");
+      expect(issues[0]!.message).toBe("Story dependency cycle: 1.1 -> 1.3 -> 1.2 -> 1.1");
+    });
+
+    it("returns E3 for a story that depends on itself", () => {
+      const issues = validateStoryDependencies([makeStory({ id: "1.1", dependsOn: ["1.1"] })]);
+
+      expect(issues[0]!.id).toBe("E3");
+      expect(issues[0]!.message).toBe("Story 1.1 depends on itself");
+    });
+
+    it("returns W11 for a dependency on an unknown story", () => {
+      const issues = validateStoryDependencies([makeStory({ id: "1.1", dependsOn: ["4.2"] })]);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]!.id).toBe("W11");
+      expect(issues[0]!.severity).toBe("warning");
+      expect(issues[0]!.message).toContain("unknown story 4.2");
+    });
+
+    it("fails runPreflight on a cycle", () => {
+      const stories = [
+        makeStory({ id: "1.1", dependsOn: ["1.2"] }),
+        makeStory({ id: "1.2", dependsOn: ["1.1"] }),
+      ];
+
+      const result = runPreflight(new Map(), [], stories, []);
+
+      expect(result.pass).toBe(false);
+      expect(result.issues.some((i) => i.id === "E3")).toBe(true);
+    });
+  });
+
+  describe("validateStoryNumbering", () => {
+    it("returns no issues for contiguous numbering", () => {
+      const stories = ["1.1", "1.2", "2.1"].map((id) => makeStory({ id }));
+
+      expect(validateStoryNumbering(stories)).toEqual([]);
+    });
+
+    it("returns W12 for missing stories and epics", () => {
+      const stories = ["1.1", "1.4", "3.2"].map((id) => makeStory({ id }));
+
+      const issues = validateStoryNumbering(stories);
+
+      expect(issues.map((issue) => issue.id)).toEqual(["W12", "W12", "W12"]);
+      expect(issues.map((issue) => issue.message)).toEqual([
+        "No stories found for epic 2",
+        "Epic 1 is missing stories 1.2, 1.3",
+        "Epic 3 is missing story 3.1",
+      ]);
+      expect(issues[0]!.severity).toBe("warning");
+    });
+  });
+
+  describe("validateRequirementCoverage", () => {
+    it("returns no issues when the PRD has no requirement ids", () => {
+      expect(validateRequirementCoverage(null, [makeStory()])).toEqual([]);
+      expect(validateRequirementCoverage("# PRD\n\nNo numbered requirements.", [])).toEqual([]);
+    });
+
+    it("returns W13 for requirements no story references", () => {
+      const stories = [
+        makeStory({ id: "1.1", description: "Covers FR1." }),
+        makeStory({ id: "1.2", epicDescription: "**FRs covered:** FR-002" }),
+      ];
+
+      const issues = validateRequirementCoverage(COMPLETE_PRD, stories);
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          id: "W13",
+          severity: "warning",
+          message: "1 requirement is not covered by any story: FR3",
+        }),
+      ]);
+    });
+
+    it("returns W14 for stories referencing unknown requirements", () => {
+      const stories = [
+        makeStory({
+          id: "1.1",
+          description: "Covers FR1, FR2 and FR3.",
+          acceptanceCriteria: ["Given FR9, When I act, Then it works"],
+        }),
+      ];
+
+      const issues = validateRequirementCoverage(COMPLETE_PRD, stories);
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          id: "W14",
+          severity: "warning",
+          message: "Story 1.1 references unknown requirement FR9",
+        }),
+      ]);
+    });
+  });
+
   describe("validateReadiness", () => {
     it("returns I1 when no readiness file found", () => {
       const issues = validateReadiness(null);
@@ -617,4 +739,174 @@ Scope.
       expect(result.issues.find((i) => i.id === "W2")).toBeUndefined();
     });
   });
+
+  describe("validateCustomRules", () => {
+    it("reports stories that don't match a required pattern", () => {
+      const stories = [
+        makeStory({ id: "1.1", description: "Implements PROJ-12." }),
+        makeStory({ id: "1.2", description: "No ticket here." }),
+      ];
+
+      const issues = validateCustomRules(
+        [
+          {
+            id: "ticket-key",
+            message: "must mention a ticket key",
+            pattern: "\\b[A-Z]+-\\d+\\b",
+            target: "story",
+            severity: "error",
+          },
+        ],
+        stories,
+        null,
+        null
+      );
+
+      expect(issues).toEqual([
+        {
+          id: "ticket-key",
+          severity: "error",
+          message: "Story 1.2: must mention a ticket key",
+          storyId: "1.2",
+        },
+      ]);
+    });
+
+    it("checks every story independently of stateful regex flags", () => {
+      const stories = ["1.1", "1.2", "1.3", "1.4"].map((id) =>
+        makeStory({ id, description: `Implements PROJ-${id.slice(2)}.` })
+      );
+      const rule = {
+        id: "ticket-key",
+        message: "must mention a ticket key",
+        pattern: "PROJ-\\d+",
+        flags: "gi",
+        target: "story" as const,
+      };
+
+      expect(validateCustomRules([rule], stories, null, null)).toEqual([]);
+    });
+
+    it("reports documents that contain a forbidden pattern", () => {
+      const rule = {
+        id: "no-tbd",
+        message: "PRD still has TBD placeholders",
+        pattern: "tbd",
+        flags: "i",
+        target: "prd" as const,
+        mode: "forbid" as const,
+      };
+
+      expect(validateCustomRules([rule], [], "Scope: TBD", null)).toEqual([
+        { id: "no-tbd", severity: "warning", message: "PRD still has TBD placeholders" },
+      ]);
+      expect(validateCustomRules([rule], [], COMPLETE_PRD, null)).toEqual([]);
+      expect(validateCustomRules([rule], [], null, null)).toEqual([]);
+    });
+  });
+
+  describe("applyPreflightConfig", () => {
+    const issues = [
+      { id: "W4", severity: "warning" as const, message: "PRD missing FRs" },
+      { id: "W8", severity: "warning" as const, message: "Story 1.2 has no ACs", storyId: "1.2" },
+      { id: "W8", severity: "warning" as const, message: "Story 1.3 has no ACs", storyId: "1.3" },
+      { id: "I2", severity: "info" as const, message: "Few stories" },
+    ];
+
+    it("overrides severities and turns rules off", () => {
+      const result = applyPreflightConfig(issues, { rules: { W4: "error", I2: "off" } });
+
+      expect(result.issues.map((issue) => `${issue.id}:${issue.severity}`)).toEqual([
+        "W4:error",
+        "W8:warning",
+        "W8:warning",
+      ]);
+      expect(result.suppressed).toEqual([]);
+    });
+
+    it("suppresses a rule for specific stories with the reason", () => {
+      const result = applyPreflightConfig(issues, {
+        suppress: [{ rule: "W8", stories: ["1.2"], reason: "Spike story" }],
+      });
+
+      expect(result.issues.map((issue) => issue.message)).not.toContain("Story 1.2 has no ACs");
+      expect(result.issues.map((issue) => issue.message)).toContain("Story 1.3 has no ACs");
+      expect(result.suppressed).toEqual([
+        {
+          id: "W8",
+          severity: "warning",
+          message: "Story 1.2 has no ACs",
+          storyId: "1.2",
+          suppressionReason: "Spike story",
+        },
+      ]);
+    });
+
+    it("throws on unknown rule ids", () => {
+      expect(() => applyPreflightConfig(issues, { rules: { W99: "off" } })).toThrow(
+        'Unknown pre-flight rule "W99"'
+      );
+      expect(() =>
+        applyPreflightConfig(issues, {
+          suppress: [{ rule: "ticket", stories: ["1.1"], reason: "x" }],
+        })
+      ).toThrow('Unknown pre-flight rule "ticket"');
+    });
+  });
+
+  describe("runPreflight with config", () => {
+    it("applies the config and fails on custom error rules", () => {
+      const artifactContents = new Map([
+        ["prd.md", COMPLETE_PRD],
+        ["architecture.md", COMPLETE_ARCHITECTURE],
+      ]);
+      const stories = [
+        makeStory({ id: "1.1", description: "PROJ-1" }),
+        makeStory({ id: "1.2", title: "Signup", description: "PROJ-2" }),
+        makeStory({ id: "2.1", title: "Dashboard" }),
+      ];
+
+      const result = runPreflight(artifactContents, ["prd.md", "architecture.md"], stories, [], {
+        config: {
+          rules: { I1: "off" },
+          customRules: [
+            {
+              id: "ticket-key",
+              message: "must mention a ticket key",
+              pattern: "PROJ-\\d+",
+              target: "story",
+              severity: "error",
+            },
+          ],
+        },
+      });
+
+      expect(result.pass).toBe(false);
+      expect(result.issues.map((issue) => issue.id)).toEqual(["W13", "ticket-key"]);
+      expect(result.suppressed).toEqual([]);
+    });
+
+    it("locates issues in the planning documents", () => {
+      const storiesContent = "## Epic 1: Core\n\n### Story 1.1: Login\n\nLog in.\n";
+      const artifactContents = new Map([
+        ["epics.md", storiesContent],
+        ["architecture.md", "# Architecture\n"],
+      ]);
+      const stories = [makeStory({ id: "1.1", sourceFile: "epics.md", dependsOn: ["9.9"] })];
+
+      const result = runPreflight(artifactContents, ["epics.md", "architecture.md"], stories, [], {
+        artifactsPath: "_bmad-output/planning-artifacts",
+      });
+
+      expect(result.issues.find((issue) => issue.id === "W11")).toMatchObject({
+        storyId: "1.1",
+        file: "_bmad-output/planning-artifacts/epics.md",
+        line: 3,
+      });
+      expect(result.issues.find((issue) => issue.id === "W7")).toMatchObject({
+        file: "_bmad-output/planning-artifacts/architecture.md",
+      });
+      expect(result.issues.find((issue) => issue.id === "W1")?.file).toBeUndefined();
+    });
+  });
 });
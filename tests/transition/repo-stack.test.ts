@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  fillRalphrcStackDefaults,
+  mergeTechStacks,
+  scanRepositoryStack,
+  type RepoStack,
+} from "../../src/transition/repo-stack.js";
+
+describe("repo-stack", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `bmalph-repo-stack-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  async function write(files: Record<string, string>): Promise<void> {
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(testDir, name), content);
+    }
+  }
+
+  describe("scanRepositoryStack", () => {
+    it("returns null when no manifest is recognized", async () => {
+      expect(await scanRepositoryStack(testDir)).toBeNull();
+    });
+
+    it("reads package.json scripts with the lockfile's package manager", async () => {
+      await write({
+        "package.json": JSON.stringify({
+          scripts: { test: "vitest run", build: "tsc", start: "node dist/index.js" },
+          devDependencies: { typescript: "^5.0.0" },
+        }),
+        "pnpm-lock.yaml": "lockfileVersion: '9.0'\n",
+      });
+
+      expect(await scanRepositoryStack(testDir)).toEqual({
+        projectType: "typescript",
+        packageManager: "pnpm",
+        commands: {
+          setup: "pnpm install",
+          test: "pnpm test",
+          build: "pnpm build",
+          dev: "pnpm start",
+        },
+        sources: {
+          setup: "package.json",
+          test: "package.json",
+          build: "package.json",
+          dev: "package.json",
+        },
+      });
+    });
+
+    it("prefers the packageManager field and skips npm's placeholder test script", async () => {
+      await write({
+        "package.json": JSON.stringify({
+          packageManager: "bun@1.1.0",
+          scripts: { test: 'echo "Error: no test specified" && exit 1', dev: "vite" },
+        }),
+        "package-lock.json": "{}",
+      });
+
+      const stack = await scanRepositoryStack(testDir);
+
+      expect(stack?.projectType).toBe("javascript");
+      expect(stack?.packageManager).toBe("bun");
+      expect(stack?.commands).toEqual({ setup: "bun install", dev: "bun run dev" });
+    });
+
+    it("detects poetry projects and pytest", async () => {
+      await write({
+        "pyproject.toml":
+          '[tool.poetry]\nname = "app"\n\n[tool.poetry.group.dev.dependencies]\npytest = "^8"\n',
+      });
+
+      const stack = await scanRepositoryStack(testDir);
+
+      expect(stack).toMatchObject({
+        projectType: "python",
+        packageManager: "poetry",
+        commands: { setup: "poetry install", test: "poetry run pytest", build: "poetry build" },
+      });
+    });
+
+    it("detects plain requirements.txt projects", async () => {
+      await write({ "requirements.txt": "flask==3.0\n" });
+
+      const stack = await scanRepositoryStack(testDir);
+
+      expect(stack?.commands).toEqual({
+        setup: "pip install -r requirements.txt",
+        test: "python -m unittest discover",
+      });
+      expect(stack?.sources.setup).toBe("requirements.txt");
+    });
+
+    it.each([
+      ["Cargo.toml", "rust", "cargo test"],
+      ["go.mod", "go", "go test ./..."],
+      ["pom.xml", "java", "mvn test"],
+    ])("detects %s", async (manifest, projectType, test) => {
+      await write({ [manifest]: "" });
+
+      const stack = await scanRepositoryStack(testDir);
+
+      expect(stack?.projectType).toBe(projectType);
+      expect(stack?.commands.test).toBe(test);
+    });
+
+    it("fills missing commands from Makefile targets", async () => {
+      await write({
+        "package.json": JSON.stringify({ scripts: { build: "tsc" } }),
+        Makefile: "VERSION := 1\n\ntest: build\n\tnpm run check\n\nserve:\n\tnode .\n",
+      });
+
+      const stack = await scanRepositoryStack(testDir);
+
+      expect(stack?.commands).toEqual({
+        setup: "npm install",
+        build: "npm run build",
+        test: "make test",
+        dev: "make serve",
+      });
+      expect(stack?.sources.test).toBe("Makefile");
+    });
+
+    it("uses a Makefile on its own", async () => {
+      await write({ Makefile: "install:\n\t./setup.sh\n\ntest:\n\t./run-tests.sh\n" });
+
+      expect(await scanRepositoryStack(testDir)).toMatchObject({
+        projectType: "unknown",
+        packageManager: null,
+        commands: { setup: "make install", test: "make test" },
+      });
+    });
+  });
+
+  describe("mergeTechStacks", () => {
+    const repoStack: RepoStack = {
+      projectType: "typescript",
+      packageManager: "pnpm",
+      commands: { setup: "pnpm install", test: "pnpm test" },
+      sources: { setup: "package.json", test: "package.json" },
+    };
+
+    it("prefers repository commands and notes conflicts", () => {
+      const docStack = {
+        setup: "npm install",
+        test: "pnpm test",
+        build: "npm run build",
+        dev: "npm run dev",
+      };
+
+      expect(mergeTechStacks(repoStack, docStack)).toEqual({
+        stack: {
+          setup: "pnpm install",
+          test: "pnpm test",
+          build: "npm run build",
+          dev: "npm run dev",
+        },
+        conflicts: [
+          'Tech stack setup command from package.json ("pnpm install") differs from the architecture doc ("npm install"); using "pnpm install"',
+        ],
+      });
+    });
+
+    it("leaves unknown commands empty", () => {
+      expect(mergeTechStacks(repoStack, null).stack).toEqual({
+        setup: "pnpm install",
+        test: "pnpm test",
+        build: "",
+        dev: "",
+      });
+      expect(mergeTechStacks(null, null)).toEqual({ stack: null, conflicts: [] });
+    });
+  });
+
+  describe("fillRalphrcStackDefaults", () => {
+    const repoStack: RepoStack = {
+      projectType: "python",
+      packageManager: "pip",
+      commands: { test: "python -m unittest discover" },
+      sources: { test: "pyproject.toml" },
+    };
+
+    it("fills template defaults and keeps the env fallback form", () => {
+      const content = [
+        'PROJECT_TYPE="${PROJECT_TYPE:-unknown}"',
+        'TEST_COMMAND="${TEST_COMMAND:-}"',
+        "",
+      ].join("\n");
+
+      expect(fillRalphrcStackDefaults(content, repoStack)).toBe(
+        [
+          'PROJECT_TYPE="${PROJECT_TYPE:-python}"',
+          'TEST_COMMAND="${TEST_COMMAND:-python -m unittest discover}"',
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("never replaces values the user chose", () => {
+      const content = 'PROJECT_TYPE="go"\nTEST_COMMAND="make check"\n';
+
+      expect(fillRalphrcStackDefaults(content, repoStack)).toBe(content);
+    });
+  });
+});
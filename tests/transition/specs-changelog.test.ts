@@ -2,7 +2,11 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdir, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { generateSpecsChangelog, formatChangelog } from "../../src/transition/specs-changelog.js";
+import {
+  generateSpecsChangelog,
+  formatChangelog,
+  formatChangelogJson,
+} from "../../src/transition/specs-changelog.js";
 
 describe("specs-changelog", () => {
   let testDir: string;
@@ -65,6 +69,32 @@ describe("specs-changelog", () => {
       expect(changes[0].summary).toBe("# Updated Content");
     });
 
+    it("adds story-level details for modified epics files", async () => {
+      await writeFile(
+        join(oldSpecsDir, "epics.md"),
+        "## Epic 1: Auth\n\n### Story 1.1: Login\n\nAs a user, I log in.\n"
+      );
+      await writeFile(
+        join(newSourceDir, "epics.md"),
+        "## Epic 1: Auth\n\n### Story 1.1: Sign in\n\nAs a user, I log in.\n"
+      );
+
+      const changes = await generateSpecsChangelog(oldSpecsDir, newSourceDir);
+
+      expect(changes[0]?.stories).toEqual([
+        { id: "1.1", title: "Sign in", status: "renamed", previousTitle: "Login" },
+      ]);
+    });
+
+    it("adds section-level details for other modified markdown files", async () => {
+      await writeFile(join(oldSpecsDir, "prd.md"), "## Goals\n\nA\n\n## Scope\n\nB\n");
+      await writeFile(join(newSourceDir, "prd.md"), "## Goals\n\nA\n\n## Scope\n\nC\n");
+
+      const changes = await generateSpecsChangelog(oldSpecsDir, newSourceDir);
+
+      expect(changes[0]?.sections).toEqual([{ heading: "Scope", status: "modified" }]);
+    });
+
     it("includes first differing line as summary for modified files", async () => {
       await writeFile(
         join(oldSpecsDir, "doc.md"),
@@ -233,6 +263,59 @@ This is line 3.
       expect(md).not.toContain("()");
     });
 
+    it("lists story and section changes under modified files", () => {
+      const md = formatChangelog(
+        [
+          {
+            file: "planning-artifacts/epics.md",
+            status: "modified",
+            stories: [
+              { id: "1.1", title: "Sign in", status: "renamed", previousTitle: "Login" },
+              {
+                id: "1.2",
+                title: "Logout",
+                status: "modified",
+                descriptionChanged: true,
+                addedCriteria: ["Given A, When B, Then C"],
+                removedCriteria: ["Given A, When B, Then D"],
+              },
+              { id: "1.3", title: "Profile", status: "added" },
+              {
+                id: "1.4",
+                title: "Settings",
+                status: "modified",
+                addedDependencies: ["1.2", "1.3"],
+                removedDependencies: ["1.1"],
+              },
+            ],
+          },
+          {
+            file: "planning-artifacts/prd.md",
+            status: "modified",
+            sections: [{ heading: "PRD > Scope", status: "modified" }],
+          },
+        ],
+        "2024-01-25"
+      );
+
+      expect(md).toContain(
+        [
+          "- planning-artifacts/epics.md",
+          "  - Story 1.1 renamed: Login -> Sign in",
+          "  - Story 1.2 modified: Logout",
+          "    - Description changed",
+          "    - AC added: Given A, When B, Then C",
+          "    - AC removed: Given A, When B, Then D",
+          "  - Story 1.3 added: Profile",
+          "  - Story 1.4 modified: Settings",
+          "    - Depends on added: 1.2, 1.3",
+          "    - Depends on removed: 1.1",
+          "- planning-artifacts/prd.md",
+          "  - Section modified: PRD > Scope",
+        ].join("\n")
+      );
+    });
+
     it("omits empty sections", () => {
       const changes = [{ file: "added.md", status: "added" as const }];
 
@@ -243,4 +326,15 @@ This is line 3.
       expect(md).not.toContain("## Removed");
     });
   });
+
+  describe("formatChangelogJson", () => {
+    it("serializes the changes with the timestamp", () => {
+      const changes = [{ file: "prd.md", status: "added" as const }];
+
+      expect(JSON.parse(formatChangelogJson(changes, "2024-01-25"))).toEqual({
+        generatedAt: "2024-01-25",
+        changes,
+      });
+    });
+  });
 });
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffMarkdownSpec,
+  diffSections,
+  diffStories,
+  splitMarkdownSections,
+} from "../../src/transition/specs-section-diff.js";
+
+const EPICS = `## Epic 1: Auth
+
+### Story 1.1: Login
+
+As a user, I want to log in.
+
+**Acceptance Criteria:**
+
+**Given** valid credentials
+**When** I submit
+**Then** I see the dashboard
+
+### Story 1.2: Logout
+
+As a user, I want to log out.
+
+**Given** I am logged in
+**When** I click logout
+**Then** I am signed out
+`;
+
+describe("specs-section-diff", () => {
+  describe("diffStories", () => {
+    it("reports added, removed and renamed stories", () => {
+      const updated = EPICS.replace("Story 1.2: Logout", "Story 1.3: Sign out").replace(
+        "Story 1.1: Login",
+        "Story 1.1: Sign in"
+      );
+
+      expect(diffStories(EPICS, updated)).toEqual([
+        { id: "1.1", title: "Sign in", status: "renamed", previousTitle: "Login" },
+        { id: "1.3", title: "Sign out", status: "added" },
+        { id: "1.2", title: "Logout", status: "removed" },
+      ]);
+    });
+
+    it("reports changed acceptance criteria and descriptions", () => {
+      const updated = EPICS.replace("I see the dashboard", "I see my profile").replace(
+        "I want to log out.",
+        "I want to log out of every device."
+      );
+
+      expect(diffStories(EPICS, updated)).toEqual([
+        {
+          id: "1.1",
+          title: "Login",
+          status: "modified",
+          addedCriteria: ["Given valid credentials, When I submit, Then I see my profile"],
+          removedCriteria: ["Given valid credentials, When I submit, Then I see the dashboard"],
+        },
+        { id: "1.2", title: "Logout", status: "modified", descriptionChanged: true },
+      ]);
+    });
+
+    it("reports stories whose only change is their dependencies", () => {
+      const withDependency = EPICS.replace(
+        "I want to log out.",
+        "I want to log out.\n\nDepends on: Story 1.1"
+      );
+      const movedDependency = EPICS.replace(
+        "I want to log in.",
+        "I want to log in.\n\nDepends on: Story 1.2"
+      );
+
+      expect(diffStories(EPICS, withDependency)).toEqual([
+        { id: "1.2", title: "Logout", status: "modified", addedDependencies: ["1.1"] },
+      ]);
+      expect(diffStories(withDependency, movedDependency)).toEqual([
+        { id: "1.1", title: "Login", status: "modified", addedDependencies: ["1.2"] },
+        { id: "1.2", title: "Logout", status: "modified", removedDependencies: ["1.1"] },
+      ]);
+    });
+
+    it("ignores formatting-only edits", () => {
+      expect(diffStories(EPICS, EPICS.replace("\n\n### Story 1.2", "\n\n\n### Story 1.2"))).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("splitMarkdownSections", () => {
+    it("keys sections by heading path and keeps only their own text", () => {
+      const sections = splitMarkdownSections(
+        "Intro\n\n# PRD\n\n## Goals\n\nShip it.\n\n### Metrics\n\nFast.\n\n## Scope\n\nSmall.\n"
+      );
+
+      expect([...sections.entries()]).toEqual([
+        ["(top of file)", "Intro"],
+        ["PRD", ""],
+        ["PRD > Goals", "Ship it."],
+        ["PRD > Goals > Metrics", "Fast."],
+        ["PRD > Scope", "Small."],
+      ]);
+    });
+
+    it("ignores headings inside code fences and numbers duplicates", () => {
+      const sections = splitMarkdownSections(
+        "## Notes\n\n```bash\n# not a heading\n```\n\n## Notes\n\nSecond.\n"
+      );
+
+      expect([...sections.keys()]).toEqual(["Notes", "Notes (2)"]);
+      expect(sections.get("Notes")).toContain("# not a heading");
+    });
+  });
+
+  describe("diffSections", () => {
+    it("reports added, removed and modified sections", () => {
+      const before = "# PRD\n\n## Goals\n\nShip it.\n\n## Risks\n\nNone.\n";
+      const after = "# PRD\n\n## Goals\n\nShip it soon.\n\n## Scope\n\nSmall.\n";
+
+      expect(diffSections(before, after)).toEqual([
+        { heading: "PRD > Goals", status: "modified" },
+        { heading: "PRD > Scope", status: "added" },
+        { heading: "PRD > Risks", status: "removed" },
+      ]);
+    });
+  });
+
+  describe("diffMarkdownSpec", () => {
+    it("uses story-level changes for documents with stories", () => {
+      const result = diffMarkdownSpec(EPICS, EPICS.replace("Logout", "Log out"));
+
+      expect(result).toEqual({
+        stories: [{ id: "1.2", title: "Log out", status: "renamed", previousTitle: "Logout" }],
+      });
+    });
+
+    it("uses section-level changes for other documents", () => {
+      expect(diffMarkdownSpec("## Goals\n\nA\n", "## Goals\n\nB\n")).toEqual({
+        sections: [{ heading: "Goals", status: "modified" }],
+      });
+    });
+
+    it("returns nothing when no story or section changed", () => {
+      expect(diffMarkdownSpec("## Goals\n\nA\n", "## Goals\n\nA  \n")).toEqual({});
+    });
+  });
+});
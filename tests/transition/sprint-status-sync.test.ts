@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  deriveSprintStatusUpdates,
+  findSprintStatusFile,
+  syncSprintStatusBack,
+} from "../../src/transition/sprint-status-sync.js";
+import { parseFixPlanStories } from "../../src/story/fix-plan-editor.js";
+import type { SprintStoryStatus } from "../../src/transition/types.js";
+
+const FIX_PLAN = [
+  "# Ralph Fix Plan",
+  "",
+  "## Stories to Implement",
+  "",
+  "### Accounts",
+  "- [x] Story 1.1: Login",
+  "- [ ] Story 1.2: Profile",
+  "  > Depends on: Story 1.3",
+  "- [ ] Story 1.3: Settings",
+  "",
+  "## Completed",
+  "",
+].join("\n");
+
+const SPRINT_STATUS = `development_status:
+  epic-1: backlog
+  1-1-login: ready-for-dev
+  1-2-profile: backlog
+  1-3-settings: backlog
+`;
+
+describe("sprint-status-sync", () => {
+  describe("deriveSprintStatusUpdates", () => {
+    const current = new Map<string, SprintStoryStatus>([
+      ["1.1", "ready-for-dev"],
+      ["1.2", "backlog"],
+      ["1.3", "backlog"],
+    ]);
+
+    it("marks checked stories done and the next unblocked story in progress", () => {
+      const updates = deriveSprintStatusUpdates(parseFixPlanStories(FIX_PLAN), current);
+
+      expect(updates).toEqual(
+        new Map([
+          ["1.1", "done"],
+          ["1.3", "in-progress"],
+        ])
+      );
+    });
+
+    it("does not mark a story in progress before Ralph has finished any", () => {
+      const plan = FIX_PLAN.replace("- [x] Story 1.1", "- [ ] Story 1.1");
+
+      expect(deriveSprintStatusUpdates(parseFixPlanStories(plan), current).size).toBe(0);
+    });
+
+    it("never moves a done story back", () => {
+      const plan = FIX_PLAN.replace("- [ ] Story 1.3", "- [x] Story 1.3");
+      const updates = deriveSprintStatusUpdates(
+        parseFixPlanStories(plan),
+        new Map([...current, ["1.2", "done"]])
+      );
+
+      expect(updates.has("1.2")).toBe(false);
+    });
+  });
+
+  describe("syncSprintStatusBack", () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(
+        tmpdir(),
+        `bmalph-sprint-sync-${Date.now()}-${Math.random().toString(36).slice(2)}`
+      );
+      await mkdir(join(testDir, ".ralph"), { recursive: true });
+      await writeFile(join(testDir, ".ralph/@fix_plan.md"), FIX_PLAN);
+    });
+
+    afterEach(async () => {
+      try {
+        await rm(testDir, { recursive: true, force: true });
+      } catch {
+        // Windows file locking
+      }
+    });
+
+    it("returns null when the project has no sprint status file", async () => {
+      expect(await findSprintStatusFile(testDir)).toBeNull();
+      expect(await syncSprintStatusBack(testDir)).toBeNull();
+    });
+
+    it("updates the implementation-artifacts sprint status", async () => {
+      const path = "_bmad-output/implementation-artifacts/sprint-status.yaml";
+      await mkdir(join(testDir, "_bmad-output/implementation-artifacts"), { recursive: true });
+      await writeFile(join(testDir, path), SPRINT_STATUS);
+
+      const result = await syncSprintStatusBack(testDir);
+
+      expect(result?.path).toBe(path);
+      expect(result?.warnings).toEqual([]);
+      expect(await readFile(join(testDir, path), "utf-8")).toBe(`development_status:
+  epic-1: in-progress
+  1-1-login: done
+  1-2-profile: backlog
+  1-3-settings: in-progress
+`);
+    });
+
+    it("finds a sprint status file in the planning artifacts", async () => {
+      await mkdir(join(testDir, "_bmad-output/planning-artifacts"), { recursive: true });
+      await writeFile(
+        join(testDir, "_bmad-output/planning-artifacts/sprint-status.yaml"),
+        SPRINT_STATUS
+      );
+
+      expect(await findSprintStatusFile(testDir)).toBe(
+        "_bmad-output/planning-artifacts/sprint-status.yaml"
+      );
+    });
+
+    it("leaves an invalid sprint status file untouched", async () => {
+      const path = "_bmad-output/implementation-artifacts/sprint-status.yaml";
+      const invalid = "development_status:\n  1-1-login: ship-it\n";
+      await mkdir(join(testDir, "_bmad-output/implementation-artifacts"), { recursive: true });
+      await writeFile(join(testDir, path), invalid);
+
+      const result = await syncSprintStatusBack(testDir);
+
+      expect(result?.changes).toEqual([]);
+      expect(result?.warnings).toContainEqual(expect.stringMatching(/ship-it/));
+      expect(await readFile(join(testDir, path), "utf-8")).toBe(invalid);
+    });
+  });
+});
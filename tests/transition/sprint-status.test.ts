@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseSprintStatus } from "../../src/transition/sprint-status.js";
+import { parseSprintStatus, updateSprintStatus } from "../../src/transition/sprint-status.js";
 
 describe("sprint-status", () => {
   describe("parseSprintStatus", () => {
@@ -81,4 +81,70 @@ development_status:
       expect(result.warnings).toContainEqual(expect.stringMatching(/development_status/i));
     });
   });
+
+  describe("updateSprintStatus", () => {
+    const content = `# generated by sprint-planning
+generated: 2026-03-07
+
+development_status:
+  # Epic 1: Accounts
+  epic-1: backlog
+  1-1-user-authentication: ready-for-dev
+  1-2-account-management: backlog
+  epic-1-retrospective: optional
+
+  epic-2: contexted
+  2-1-billing-api: backlog
+`;
+
+    it("updates story statuses and rolls epics up, keeping comments and order", () => {
+      const result = updateSprintStatus(
+        content,
+        new Map([
+          ["1.1", "done"],
+          ["1.2", "in-progress"],
+        ])
+      );
+
+      expect(result.content).toBe(
+        content
+          .replace("epic-1: backlog", "epic-1: in-progress")
+          .replace("1-1-user-authentication: ready-for-dev", "1-1-user-authentication: done")
+          .replace("1-2-account-management: backlog", "1-2-account-management: in-progress")
+      );
+      expect(result.changes).toEqual([
+        { key: "1-1-user-authentication", from: "ready-for-dev", to: "done" },
+        { key: "1-2-account-management", from: "backlog", to: "in-progress" },
+        { key: "epic-1", from: "backlog", to: "in-progress" },
+      ]);
+    });
+
+    it("marks an epic done when all of its stories are done", () => {
+      const result = updateSprintStatus(
+        content,
+        new Map([
+          ["1.1", "done"],
+          ["1.2", "done"],
+        ])
+      );
+
+      expect(result.content).toContain("  epic-1: done\n");
+      expect(result.content).toContain("  epic-2: contexted\n");
+    });
+
+    it("returns the content unchanged when nothing changes", () => {
+      const result = updateSprintStatus(content, new Map([["1.1", "ready-for-dev"]]));
+
+      expect(result.content).toBe(content);
+      expect(result.changes).toEqual([]);
+    });
+
+    it("preserves CRLF line endings", () => {
+      const crlf = "development_status:\r\n  epic-1: backlog\r\n  1-1-login: backlog\r\n";
+
+      const result = updateSprintStatus(crlf, new Map([["1.1", "done"]]));
+
+      expect(result.content).toBe("development_status:\r\n  epic-1: done\r\n  1-1-login: done\r\n");
+    });
+  });
 });
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  findDanglingDependencies,
+  findDependencyCycles,
+  orderStoriesByDependencies,
+  parseDependencyLine,
+  parseFixPlanDependsOn,
+} from "../../src/transition/story-dependencies.js";
+import type { Story } from "../../src/transition/types.js";
+
+function makeStory(id: string, dependsOn?: string[]): Story {
+  return {
+    epic: "Core",
+    epicDescription: "",
+    id,
+    title: `Story ${id}`,
+    description: "",
+    acceptanceCriteria: [],
+    sourceFile: "epics.md",
+    ...(dependsOn && { dependsOn }),
+  };
+}
+
+function ids(stories: Story[]): string[] {
+  return stories.map((story) => story.id);
+}
+
+describe("story-dependencies", () => {
+  describe("parseDependencyLine", () => {
+    it.each([
+      ["Depends on: Story 1.3", ["1.3"]],
+      ["**Depends on:** Story 1.1, Story 2.4", ["1.1", "2.4"]],
+      ["- Prerequisites: 1.1 and 1.2", ["1.1", "1.2"]],
+      ["**Dependencies:** Stories 3.1, 3.2", ["3.1", "3.2"]],
+      ["Blocked by: Story 2.1", ["2.1"]],
+      ["**Prerequisites**: 1.1 (audit log storage)", ["1.1"]],
+    ])("parses %j", (line, expected) => {
+      expect(parseDependencyLine(line)).toEqual(expected);
+    });
+
+    it("returns null for lines without story ids or keywords", () => {
+      expect(parseDependencyLine("Prerequisites: None")).toBeNull();
+      expect(parseDependencyLine("As a user, I want story 1.1 to work")).toBeNull();
+    });
+
+    it.each([
+      "Depends on Story 1.3",
+      "Requires Node 18.0 or newer",
+      "Requires: Story 4.1",
+      "- Dependencies installed via npm 10.2 lockfile",
+      "Prerequisites: Node 18.0 or newer",
+    ])("ignores %j without a dependency label and story id", (line) => {
+      expect(parseDependencyLine(line)).toBeNull();
+    });
+  });
+
+  describe("parseFixPlanDependsOn", () => {
+    it("reads ids from a fix plan detail line", () => {
+      expect(parseFixPlanDependsOn("Depends on: Story 1.1, Story 1.2")).toEqual(["1.1", "1.2"]);
+      expect(parseFixPlanDependsOn("AC: Given story 1.1")).toEqual([]);
+    });
+  });
+
+  describe("findDanglingDependencies", () => {
+    it("reports dependencies on unknown stories", () => {
+      const stories = [makeStory("1.1"), makeStory("1.2", ["1.1", "9.9"])];
+
+      expect(findDanglingDependencies(stories)).toEqual([{ storyId: "1.2", dependencyId: "9.9" }]);
+    });
+  });
+
+  describe("findDependencyCycles", () => {
+    it("returns no cycles for an acyclic graph", () => {
+      const stories = [
+        makeStory("1.1"),
+        makeStory("1.2", ["1.1"]),
+        makeStory("1.3", ["1.1", "1.2"]),
+      ];
+
+      expect(findDependencyCycles(stories)).toEqual([]);
+    });
+
+    it("reports each cycle once starting from its lowest id", () => {
+      const stories = [
+        makeStory("1.1"),
+        makeStory("1.2", ["1.3"]),
+        makeStory("1.3", ["1.4"]),
+        makeStory("1.4", ["1.2"]),
+        makeStory("2.1", ["1.3"]),
+      ];
+
+      expect(findDependencyCycles(stories)).toEqual([["1.2", "1.3", "1.4"]]);
+    });
+  });
+
+  describe("orderStoriesByDependencies", () => {
+    it("keeps input order when there are no dependencies", () => {
+      const stories = [makeStory("1.1"), makeStory("1.2"), makeStory("2.1")];
+
+      expect(ids(orderStoriesByDependencies(stories))).toEqual(["1.1", "1.2", "2.1"]);
+    });
+
+    it("moves stories after their prerequisites", () => {
+      const stories = [
+        makeStory("1.1", ["2.1"]),
+        makeStory("1.2"),
+        makeStory("2.1", ["1.2"]),
+        makeStory("2.2"),
+      ];
+
+      expect(ids(orderStoriesByDependencies(stories))).toEqual(["1.2", "2.1", "1.1", "2.2"]);
+    });
+
+    it("ignores unknown dependencies and appends cyclic stories in input order", () => {
+      const stories = [
+        makeStory("1.1", ["1.2"]),
+        makeStory("1.2", ["1.1"]),
+        makeStory("1.3", ["9.9"]),
+      ];
+
+      expect(ids(orderStoriesByDependencies(stories))).toEqual(["1.3", "1.1", "1.2"]);
+    });
+  });
+});
@@ -159,6 +159,124 @@ Notes:
     });
   });
 
+  describe("dependencies", () => {
+    it("extracts declared dependencies and keeps them out of the description", () => {
+      const content = `## Epic 1: Reporting
+
+### Story 1.3: Export audit trail
+
+As an analyst, I want to export the audit trail.
+
+**Depends on:** Story 1.1, Story 1.2
+**Prerequisites:** 1.1 (audit log storage)
+
+**Acceptance Criteria:**
+
+- Given reporting is enabled
+- When I export the audit trail
+- Then the CSV download starts
+`;
+      const stories = parseStories(content);
+
+      expect(stories[0].dependsOn).toEqual(["1.1", "1.2"]);
+      expect(stories[0].description).toBe("As an analyst, I want to export the audit trail.");
+    });
+
+    it("leaves dependsOn unset for stories without dependency lines", () => {
+      const content = `## Epic 1: Reporting
+
+### Story 1.1: Store audit log
+
+Requires a database table for audit events.
+`;
+      const stories = parseStories(content);
+
+      expect(stories[0].dependsOn).toBeUndefined();
+      expect(stories[0].description).toContain("Requires a database table");
+    });
+    it("keeps version numbers and acceptance criteria out of dependsOn", () => {
+      const content = `## Epic 1: Setup
+
+### Story 1.1: Scaffold project
+
+Requires Node 18.0 or newer.
+
+**Acceptance Criteria:**
+
+- Given a fresh checkout
+- When I run the setup script
+  - Dependencies: installed via npm 10.2 lockfile
+- Then the dev server starts
+  - Blocked by: Story 1.0 stays respected
+`;
+      const stories = parseStories(content);
+
+      expect(stories[0].dependsOn).toBeUndefined();
+      expect(stories[0].description).toBe("Requires Node 18.0 or newer.");
+      expect(stories[0].acceptanceCriteria).toEqual([
+        "Given a fresh checkout, When I run the setup script, Dependencies: installed via npm 10.2 lockfile, Then the dev server starts, Blocked by: Story 1.0 stays respected",
+      ]);
+    });
+  });
+
+  describe("sharded input", () => {
+    it("parses shard-doc epic files whose headings were promoted a level", () => {
+      const content = `# Epic 2: Billing
+
+Charge customers.
+
+## Story 2.1: Invoices
+
+As a customer, I want invoices.
+
+**Acceptance Criteria:**
+
+**Given** a paid order
+**Then** an invoice is sent
+`;
+      const result = parseStoriesWithWarnings(content, "epics/epic-2-billing.md");
+
+      expect(result.epics).toEqual([
+        { number: 2, epic: "Billing", epicDescription: "Charge customers." },
+      ]);
+      expect(result.stories[0]).toMatchObject({
+        epic: "Billing",
+        id: "2.1",
+        sourceFile: "epics/epic-2-billing.md",
+        acceptanceCriteria: ["Given a paid order, Then an invoice is sent"],
+      });
+    });
+
+    it("parses per-story files without picking up tasks or metadata", () => {
+      const content = `# Story 1.1: Login
+
+Status: ready-for-dev
+
+## Story
+
+As a user, I want to log in.
+
+## Acceptance Criteria
+
+1. **Given** valid credentials **When** I submit **Then** I see the dashboard
+2. Given a wrong password
+   Then an error is shown
+
+## Tasks / Subtasks
+
+- [ ] Build the form (AC: 1)
+  - [ ] Add validation
+`;
+      const result = parseStoriesWithWarnings(content, "stories/1-1-login.md");
+
+      expect(result.stories[0]?.description).toBe("As a user, I want to log in.");
+      expect(result.stories[0]?.acceptanceCriteria).toEqual([
+        "Given valid credentials When I submit Then I see the dashboard",
+        "Given a wrong password, Then an error is shown",
+      ]);
+    });
+  });
+
   describe("parseStoriesWithWarnings", () => {
     it("warns about malformed story IDs", () => {
       const content = `## Epic 1: Test
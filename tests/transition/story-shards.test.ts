@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { collectTransitionArtifacts } from "../../src/transition/artifact-collection.js";
+import {
+  attachShardedStoriesToEpics,
+  orderStoryFiles,
+  parseShardIndex,
+} from "../../src/transition/story-shards.js";
+import type { Story } from "../../src/transition/types.js";
+
+function makeStory(id: string, epic = ""): Story {
+  return {
+    epic,
+    epicDescription: epic ? `${epic} goal` : "",
+    id,
+    title: `Story ${id}`,
+    description: "",
+    acceptanceCriteria: [],
+    sourceFile: `stories/${id}.md`,
+  };
+}
+
+describe("story-shards", () => {
+  describe("collectTransitionArtifacts", () => {
+    it("separates shard indexes and skips whole documents that were sharded", () => {
+      const collected = collectTransitionArtifacts([
+        "epics.md",
+        "epics/index.md",
+        "epics/epic-10-reports.md",
+        "epics/epic-2-billing.md",
+        "stories/1-1-login.md",
+        "prd.md",
+      ]);
+
+      expect(collected.storyFiles).toEqual([
+        "epics/epic-2-billing.md",
+        "epics/epic-10-reports.md",
+        "stories/1-1-login.md",
+      ]);
+      expect(collected.storyIndexFiles).toEqual(["epics/index.md"]);
+      expect(collected.supersededStoryFiles).toEqual(["epics.md"]);
+    });
+  });
+
+  describe("parseShardIndex", () => {
+    it("returns linked shard files in table of contents order", () => {
+      const index = [
+        "# Epics",
+        "",
+        "## Table of Contents",
+        "",
+        "- [Overview](./overview.md)",
+        "- [Epic 2: Billing](./epic-2-billing.md)",
+        "  - [Story 2.1](./epic-2-billing.md#story-21-invoices)",
+        "- [Epic 1: Auth](epic-1-auth.md)",
+      ].join("\n");
+
+      expect(parseShardIndex(index)).toEqual([
+        "overview.md",
+        "epic-2-billing.md",
+        "epic-1-auth.md",
+      ]);
+    });
+  });
+
+  describe("orderStoryFiles", () => {
+    it("follows the index and falls back to numeric path order", () => {
+      const contents = new Map([["epics/index.md", "- [B](./epic-b.md)\n- [A](./epic-a.md)\n"]]);
+
+      const ordered = orderStoryFiles(
+        [
+          "epics/epic-a.md",
+          "epics/epic-b.md",
+          "epics/extra.md",
+          "stories/1-10-x.md",
+          "stories/1-9-y.md",
+        ],
+        ["epics/index.md"],
+        contents
+      );
+
+      expect(ordered).toEqual([
+        "epics/epic-b.md",
+        "epics/epic-a.md",
+        "epics/extra.md",
+        "stories/1-9-y.md",
+        "stories/1-10-x.md",
+      ]);
+    });
+  });
+
+  describe("attachShardedStoriesToEpics", () => {
+    it("attaches epic-less stories to the epic with the same number", () => {
+      const warnings = ['Story 1.2: "Story 1.2" is not under an epic', "Something else"];
+
+      const result = attachShardedStoriesToEpics(
+        [makeStory("1.2"), makeStory("3.1")],
+        [...warnings, 'Story 3.1: "Story 3.1" is not under an epic'],
+        [{ number: 1, epic: "Auth", epicDescription: "Users sign in" }]
+      );
+
+      expect(result.stories[0]).toMatchObject({ epic: "Auth", epicDescription: "Users sign in" });
+      expect(result.stories[1]?.epic).toBe("");
+      expect(result.warnings).toEqual([
+        "Something else",
+        'Story 3.1: "Story 3.1" is not under an epic',
+      ]);
+    });
+  });
+});
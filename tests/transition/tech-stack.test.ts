@@ -446,6 +446,13 @@ This content should remain unchanged.
       expect(result).toContain("## Development Server\n\n```bash\ngo run .\n```");
     });
 
+    it("keeps the placeholder for unknown commands", () => {
+      const stack = { setup: "pnpm install", test: "pnpm test", build: "", dev: "" };
+      const result = customizeAgentMd(template, stack);
+      expect(result).toContain("## Running Tests\n\n```bash\npnpm test\n```");
+      expect(result).toContain('## Development Server\n\n```bash\necho "placeholder"\n```');
+    });
+
     it("preserves other content unchanged", () => {
       const stack = {
         setup: "npm install",
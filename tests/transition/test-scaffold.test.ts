@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { generateTestScaffolds, resolveTestFramework } from "../../src/transition/test-scaffold.js";
+import type { Story, TechStack } from "../../src/transition/types.js";
+
+function story(overrides: Partial<Story> = {}): Story {
+  return {
+    epic: "Auth",
+    epicDescription: "",
+    id: "1.2",
+    title: "Login",
+    description: "As a user, I want to log in.",
+    acceptanceCriteria: [
+      "Given valid credentials, When I submit, Then I see the dashboard",
+      'Given a "wrong" password, When I submit, Then I see an error',
+    ],
+    sourceFile: "stories.md",
+    ...overrides,
+  };
+}
+
+function stack(test: string): TechStack {
+  return { setup: "", test, build: "", dev: "" };
+}
+
+describe("test-scaffold", () => {
+  describe("resolveTestFramework", () => {
+    it("maps detected test commands to frameworks", () => {
+      expect(resolveTestFramework(stack("npx vitest run"))).toBe("vitest");
+      expect(resolveTestFramework(stack("npx jest"))).toBe("jest");
+      expect(resolveTestFramework(stack("npm test"))).toBe("jest");
+      expect(resolveTestFramework(stack("npx mocha"))).toBe("mocha");
+      expect(resolveTestFramework(stack("pytest"))).toBe("pytest");
+      expect(resolveTestFramework(stack("python -m pytest"))).toBe("pytest");
+      expect(resolveTestFramework(stack("python -m unittest discover"))).toBe("unittest");
+      expect(resolveTestFramework(stack("go test ./..."))).toBe("go");
+      expect(resolveTestFramework(stack("cargo test"))).toBe("cargo");
+    });
+
+    it("returns null for unknown test commands", () => {
+      expect(resolveTestFramework(stack("make check"))).toBeNull();
+    });
+  });
+
+  describe("generateTestScaffolds", () => {
+    it("writes one failing vitest case per acceptance criterion", () => {
+      const [file] = generateTestScaffolds([story()], "vitest");
+
+      expect(file?.name).toBe("story-1-2.test.js");
+      expect(file?.content).toBe(
+        [
+          "// Acceptance tests for Story 1.2: Login",
+          "// Generated by bmalph implement --test-scaffold. Replace each placeholder with a real test.",
+          "",
+          'import { describe, it } from "vitest";',
+          "",
+          'describe("Story 1.2: Login", () => {',
+          '  it("AC 1: Given valid credentials, When I submit, Then I see the dashboard", () => {',
+          '    throw new Error("Story 1.2 AC 1 is not implemented");',
+          "  });",
+          "",
+          '  it("AC 2: Given a \\"wrong\\" password, When I submit, Then I see an error", () => {',
+          '    throw new Error("Story 1.2 AC 2 is not implemented");',
+          "  });",
+          "});",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("relies on test globals for jest and mocha", () => {
+      const [file] = generateTestScaffolds([story()], "jest");
+
+      expect(file?.name).toBe("story-1-2.test.js");
+      expect(file?.content).not.toContain("import");
+      expect(file?.content).toContain('describe("Story 1.2: Login", () => {');
+    });
+
+    it("writes pytest functions that fail", () => {
+      const [file] = generateTestScaffolds([story()], "pytest");
+
+      expect(file?.name).toBe("test_story_1_2.py");
+      expect(file?.content).toContain("import pytest\n\n\ndef test_story_1_2_ac_1():");
+      expect(file?.content).toContain(
+        "    # AC 1: Given valid credentials, When I submit, Then I see the dashboard\n" +
+          '    pytest.fail("Story 1.2 AC 1 is not implemented")'
+      );
+      expect(file?.content).toContain("def test_story_1_2_ac_2():");
+    });
+
+    it("writes a unittest TestCase per story", () => {
+      const [file] = generateTestScaffolds([story()], "unittest");
+
+      expect(file?.name).toBe("test_story_1_2.py");
+      expect(file?.content).toContain("class TestStory1_2(unittest.TestCase):");
+      expect(file?.content).toContain(
+        '    def test_ac_2(self):\n        # AC 2: Given a "wrong" password'
+      );
+      expect(file?.content).toContain('        self.fail("Story 1.2 AC 2 is not implemented")');
+    });
+
+    it("writes go tests that call t.Fatal", () => {
+      const [file] = generateTestScaffolds([story()], "go");
+
+      expect(file?.name).toBe("story_1_2_test.go");
+      expect(file?.content).toContain('package acceptance\n\nimport "testing"');
+      expect(file?.content).toContain(
+        "// AC 1: Given valid credentials, When I submit, Then I see the dashboard\n" +
+          "func TestStory1_2AC1(t *testing.T) {\n" +
+          '\tt.Fatal("Story 1.2 AC 1 is not implemented")\n' +
+          "}"
+      );
+    });
+
+    it("writes cargo tests that panic", () => {
+      const [file] = generateTestScaffolds([story()], "cargo");
+
+      expect(file?.name).toBe("story_1_2.rs");
+      expect(file?.content).toContain(
+        "#[test]\nfn story_1_2_ac_2() {\n" +
+          '    panic!("{}", "Story 1.2 AC 2 is not implemented");\n' +
+          "}"
+      );
+    });
+
+    it("skips stories without acceptance criteria", () => {
+      const files = generateTestScaffolds(
+        [story({ id: "1.1", acceptanceCriteria: [] }), story()],
+        "pytest"
+      );
+
+      expect(files.map((file) => file.name)).toEqual(["test_story_1_2.py"]);
+    });
+  });
+});
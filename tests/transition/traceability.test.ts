@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTraceabilityMatrix,
+  extractRequirements,
+  findRequirementReferences,
+  formatTraceabilityMd,
+} from "../../src/transition/traceability.js";
+import type { Story } from "../../src/transition/types.js";
+
+const PRD = `# PRD
+
+## Functional Requirements
+
+- FR1: Users can log in
+- **FR-002:** Users can reset their password
+### FR3 Audit log
+
+## Non-Functional Requirements
+
+| NFR1 | Pages load in under 2 seconds |
+NFR2. Data is encrypted at rest
+
+Later mention of FR1 in prose does not redefine it.
+`;
+
+function story(overrides: Partial<Story> = {}): Story {
+  return {
+    epic: "Auth",
+    epicDescription: "",
+    id: "1.1",
+    title: "Login",
+    description: "",
+    acceptanceCriteria: [],
+    sourceFile: "epics.md",
+    ...overrides,
+  };
+}
+
+describe("traceability", () => {
+  describe("extractRequirements", () => {
+    it("extracts FR and NFR definitions from lists, headings and tables", () => {
+      expect(extractRequirements(PRD)).toEqual([
+        { id: "FR1", kind: "FR", text: "Users can log in" },
+        { id: "FR2", kind: "FR", text: "Users can reset their password" },
+        { id: "FR3", kind: "FR", text: "Audit log" },
+        { id: "NFR1", kind: "NFR", text: "Pages load in under 2 seconds" },
+        { id: "NFR2", kind: "NFR", text: "Data is encrypted at rest" },
+      ]);
+    });
+
+    it("returns an empty list when the PRD has no requirement ids", () => {
+      expect(extractRequirements("# PRD\n\n- Users can log in\n")).toEqual([]);
+    });
+  });
+
+  describe("findRequirementReferences", () => {
+    it("normalizes ids and keeps the order of first mention", () => {
+      expect(findRequirementReferences("Covers NFR-01, FR12 and FR_3, again FR12")).toEqual([
+        "NFR1",
+        "FR12",
+        "FR3",
+      ]);
+    });
+
+    it("ignores ids embedded in other words", () => {
+      expect(findRequirementReferences("XFR1 and FR1a")).toEqual([]);
+    });
+  });
+
+  describe("buildTraceabilityMatrix", () => {
+    const requirements = extractRequirements(PRD);
+
+    it("traces requirements to stories, acceptance criteria and epic coverage", () => {
+      const matrix = buildTraceabilityMatrix(requirements, [
+        story({
+          id: "1.1",
+          description: "Implements FR1.",
+          acceptanceCriteria: ["Given FR1 and NFR1, When I log in, Then it is fast"],
+        }),
+        story({ id: "1.2", epicDescription: "**FRs covered:** FR2" }),
+        story({ id: "2.1", epicDescription: "**FRs covered:** FR2" }),
+      ]);
+
+      const byId = new Map(matrix.requirements.map((trace) => [trace.id, trace]));
+      expect(byId.get("FR1")?.stories).toEqual(["1.1"]);
+      expect(byId.get("FR1")?.acceptanceCriteria).toEqual([{ storyId: "1.1", criterion: 1 }]);
+      expect(byId.get("NFR1")?.stories).toEqual(["1.1"]);
+      expect(byId.get("FR2")?.stories).toEqual(["1.2", "2.1"]);
+      expect(byId.get("FR3")?.stories).toEqual([]);
+      expect(matrix.unknownReferences).toEqual([]);
+    });
+
+    it("reports unknown ids referenced by a story once", () => {
+      const matrix = buildTraceabilityMatrix(requirements, [
+        story({
+          id: "1.1",
+          description: "See FR9.",
+          acceptanceCriteria: ["Given FR9, When I act, Then it works"],
+        }),
+      ]);
+
+      expect(matrix.unknownReferences).toEqual([{ storyId: "1.1", requirementId: "FR9" }]);
+    });
+  });
+
+  describe("formatTraceabilityMd", () => {
+    it("renders coverage, the matrix and the gaps", () => {
+      const matrix = buildTraceabilityMatrix(
+        [
+          { id: "FR1", kind: "FR", text: "Log in | out" },
+          { id: "FR2", kind: "FR", text: "Reset password" },
+          { id: "NFR1", kind: "NFR", text: "Fast" },
+        ],
+        [
+          story({
+            id: "1.1",
+            acceptanceCriteria: ["Given FR1, When I log in, Then NFR1 holds", "Given FR7"],
+          }),
+        ]
+      );
+
+      expect(formatTraceabilityMd(matrix)).toBe(
+        [
+          "# Requirements Traceability",
+          "",
+          "Functional requirements covered: 1/2",
+          "Non-functional requirements covered: 1/1",
+          "",
+          "| Requirement | Description | Stories | Acceptance Criteria |",
+          "| --- | --- | --- | --- |",
+          "| FR1 | Log in \\| out | 1.1 | 1.1 AC 1 |",
+          "| FR2 | Reset password | — | — |",
+          "| NFR1 | Fast | 1.1 | 1.1 AC 1 |",
+          "",
+          "## Uncovered Requirements",
+          "",
+          "- FR2: Reset password",
+          "",
+          "## Unknown References",
+          "",
+          "- Story 1.1 references FR7",
+          "",
+        ].join("\n")
+      );
+    });
+  });
+});
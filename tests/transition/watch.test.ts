@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, utimes, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  ArtifactChangeDebouncer,
+  diffSnapshots,
+  snapshotArtifacts,
+  watchTransition,
+} from "../../src/transition/watch.js";
+
+describe("snapshotArtifacts / diffSnapshots", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `bmalph-watch-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "epics"), { recursive: true });
+    await writeFile(join(testDir, "prd.md"), "# PRD\n");
+    await writeFile(join(testDir, "epics/epic-1.md"), "## Epic 1\n");
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  it("reports no changes between identical snapshots", async () => {
+    const first = await snapshotArtifacts(testDir);
+    const second = await snapshotArtifacts(testDir);
+
+    expect(first.size).toBe(2);
+    expect(diffSnapshots(first, second)).toEqual([]);
+  });
+
+  it("reports added, modified and removed files", async () => {
+    const before = await snapshotArtifacts(testDir);
+    await writeFile(join(testDir, "architecture.md"), "# Arch\n");
+    await writeFile(join(testDir, "prd.md"), "# PRD v2\n");
+    const future = new Date(Date.now() + 5000);
+    await utimes(join(testDir, "prd.md"), future, future);
+    await rm(join(testDir, "epics/epic-1.md"));
+
+    const after = await snapshotArtifacts(testDir);
+
+    expect(diffSnapshots(before, after)).toEqual(["architecture.md", "epics/epic-1.md", "prd.md"]);
+  });
+});
+
+describe("ArtifactChangeDebouncer", () => {
+  it("holds changes until the debounce period has passed", () => {
+    let now = 0;
+    const debouncer = new ArtifactChangeDebouncer(1000, () => now);
+
+    debouncer.record(["prd.md"]);
+    now = 500;
+    expect(debouncer.takeSettled()).toBeNull();
+    now = 1000;
+    expect(debouncer.takeSettled()).toEqual(["prd.md"]);
+    expect(debouncer.takeSettled()).toBeNull();
+  });
+
+  it("restarts the quiet period on every change and merges batches", () => {
+    let now = 0;
+    const debouncer = new ArtifactChangeDebouncer(1000, () => now);
+
+    debouncer.record(["stories.md"]);
+    now = 800;
+    debouncer.record(["prd.md", "stories.md"]);
+    now = 1500;
+    expect(debouncer.takeSettled()).toBeNull();
+    now = 1800;
+    expect(debouncer.takeSettled()).toEqual(["prd.md", "stories.md"]);
+  });
+
+  it("ignores empty change sets", () => {
+    const debouncer = new ArtifactChangeDebouncer(0, () => 0);
+    debouncer.record([]);
+    expect(debouncer.takeSettled()).toBeNull();
+  });
+});
+
+describe("watchTransition", () => {
+  it("throws when no artifacts directory exists", async () => {
+    const testDir = join(
+      tmpdir(),
+      `bmalph-watch-empty-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(testDir, { recursive: true });
+    try {
+      await expect(
+        watchTransition({ projectDir: testDir, onCycle: () => {}, onError: () => {} })
+      ).rejects.toThrow("No BMAD artifacts found");
+    } finally {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+});
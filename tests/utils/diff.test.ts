@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { createUnifiedDiff, diffLines } from "../../src/utils/diff.js";
+
+describe("diff", () => {
+  describe("diffLines", () => {
+    it("finds a minimal edit script", () => {
+      const ops = diffLines("a\nb\nc\nd\n", "a\nc\nd\ne\n");
+
+      expect(ops).toEqual([
+        { kind: "equal", line: "a" },
+        { kind: "delete", line: "b" },
+        { kind: "equal", line: "c" },
+        { kind: "equal", line: "d" },
+        { kind: "insert", line: "e" },
+      ]);
+    });
+
+    it("treats a missing trailing newline as a change", () => {
+      const ops = diffLines("a\nb", "a\nb\n");
+
+      expect(ops.filter((op) => op.kind !== "equal")).toEqual([
+        { kind: "delete", line: "b\n\\ No newline at end of file" },
+        { kind: "insert", line: "b" },
+      ]);
+    });
+  });
+
+  describe("createUnifiedDiff", () => {
+    it("returns an empty string for identical content", () => {
+      expect(createUnifiedDiff("x.md", "same\n", "same\n")).toBe("");
+    });
+
+    it("renders headers, hunk ranges and context lines", () => {
+      const oldText = ["1", "2", "3", "4", "5", "6", "7", "8"].join("\n") + "\n";
+      const newText = ["1", "2", "3", "4", "five", "6", "7", "8"].join("\n") + "\n";
+
+      expect(createUnifiedDiff(".ralph/x.md", oldText, newText)).toBe(
+        [
+          "--- a/.ralph/x.md",
+          "+++ b/.ralph/x.md",
+          "@@ -2,7 +2,7 @@",
+          " 2",
+          " 3",
+          " 4",
+          "-5",
+          "+five",
+          " 6",
+          " 7",
+          " 8",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("splits distant changes into separate hunks", () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      const changed = [...lines];
+      changed[1] = "changed 2";
+      changed[18] = "changed 19";
+
+      const diff = createUnifiedDiff("f", lines.join("\n") + "\n", changed.join("\n") + "\n");
+
+      expect(diff.match(/^@@/gm)).toHaveLength(2);
+      expect(diff).toContain("@@ -1,5 +1,5 @@");
+      expect(diff).toContain("@@ -16,5 +16,5 @@");
+    });
+
+    it("uses /dev/null for created and deleted files", () => {
+      expect(createUnifiedDiff("new.md", null, "a\nb\n")).toBe(
+        "--- /dev/null\n+++ b/new.md\n@@ -0,0 +1,2 @@\n+a\n+b\n"
+      );
+      expect(createUnifiedDiff("old.md", "a\n", null)).toBe(
+        "--- a/old.md\n+++ /dev/null\n@@ -1 +0,0 @@\n-a\n"
+      );
+    });
+  });
+});
@@ -42,6 +42,11 @@ describe("formatStatus", () => {
     expect(result).toContain("blocked");
   });
 
+  it("returns styled string for 'paused'", () => {
+    const result = formatStatus("paused");
+    expect(result).toContain("paused");
+  });
+
   it("transforms not_started to human-readable form", () => {
     const result = formatStatus("not_started");
     expect(result).toContain("not started");
@@ -85,4 +90,10 @@ describe("formatExitReason", () => {
   it("returns generic label for unmapped exit code", () => {
     expect(formatExitReason(42)).toBe("error (exit 42)");
   });
+
+  it("prefers the reason bmalph stopped the loop over the exit code", () => {
+    expect(formatExitReason(143, "cost budget reached ($5.00 of $5.00)")).toBe(
+      "stopped: cost budget reached ($5.00 of $5.00)"
+    );
+  });
 });
@@ -0,0 +1,173 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  parseRalphMetrics,
+  readRalphMetrics,
+  validateRalphLoopMetrics,
+} from "../../src/utils/ralph-metrics.js";
+
+function makeTmpDir(): string {
+  return join(
+    tmpdir(),
+    `bmalph-ralph-metrics-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+}
+
+const RAW_RECORD = {
+  run_id: "2025-06-01T10:00:00+00:00",
+  loop: 3,
+  timestamp: "2025-06-01T10:12:00+00:00",
+  driver: "claude-code",
+  session_id: "sess-1",
+  loop_outcome: "success",
+  duration_ms: 61000,
+  duration_api_ms: 55000,
+  input_tokens: 1200,
+  output_tokens: 800,
+  cache_read_tokens: 5000,
+  cache_creation_tokens: 300,
+  total_cost_usd: 0.42,
+  num_turns: 7,
+  files_changed: 4,
+  reported_files_modified: 3,
+  has_errors: false,
+  exit_signal: false,
+  was_read_only_timeout: false,
+  quality_gate_result: null,
+  has_permission_denials: false,
+  circuit_breaker_state: "CLOSED",
+};
+
+describe("ralph-metrics", () => {
+  let testDir: string;
+
+  afterEach(async () => {
+    if (!testDir) return;
+
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Windows file locking
+    }
+  });
+
+  describe("validateRalphLoopMetrics", () => {
+    it("normalizes a full metrics.sh record to camelCase", () => {
+      expect(validateRalphLoopMetrics(RAW_RECORD)).toEqual({
+        runId: "2025-06-01T10:00:00+00:00",
+        loop: 3,
+        timestamp: "2025-06-01T10:12:00+00:00",
+        driver: "claude-code",
+        sessionId: "sess-1",
+        loopOutcome: "success",
+        durationMs: 61000,
+        durationApiMs: 55000,
+        inputTokens: 1200,
+        outputTokens: 800,
+        cacheReadTokens: 5000,
+        cacheCreationTokens: 300,
+        totalCostUsd: 0.42,
+        numTurns: 7,
+        filesChanged: 4,
+        reportedFilesModified: 3,
+        hasErrors: false,
+        exitSignal: false,
+        wasReadOnlyTimeout: false,
+        qualityGateResult: null,
+        hasPermissionDenials: false,
+        circuitBreakerState: "CLOSED",
+      });
+    });
+
+    it("defaults optional fields for minimal records", () => {
+      const result = validateRalphLoopMetrics({
+        run_id: "r1",
+        loop: 1,
+        timestamp: "2025-06-01T10:00:00Z",
+        loop_outcome: "error",
+      });
+
+      expect(result.driver).toBe("unknown");
+      expect(result.totalCostUsd).toBeNull();
+      expect(result.filesChanged).toBe(0);
+      expect(result.hasErrors).toBe(false);
+      expect(result.circuitBreakerState).toBe("UNKNOWN");
+    });
+
+    it("accepts the api_limit outcome written by ralph_loop.sh", () => {
+      expect(
+        validateRalphLoopMetrics({ ...RAW_RECORD, loop_outcome: "api_limit" }).loopOutcome
+      ).toBe("api_limit");
+    });
+
+    it("rejects unknown outcomes", () => {
+      expect(() => validateRalphLoopMetrics({ ...RAW_RECORD, loop_outcome: "exploded" })).toThrow(
+        "loop_outcome must be one of"
+      );
+    });
+
+    it("rejects non-numeric usage fields", () => {
+      expect(() => validateRalphLoopMetrics({ ...RAW_RECORD, total_cost_usd: "0.4" })).toThrow(
+        "total_cost_usd must be a number or null"
+      );
+    });
+
+    it("rejects invalid timestamps", () => {
+      expect(() => validateRalphLoopMetrics({ ...RAW_RECORD, timestamp: "soon" })).toThrow(
+        "timestamp must be a valid timestamp"
+      );
+    });
+
+    it("rejects non-object input", () => {
+      expect(() => validateRalphLoopMetrics([RAW_RECORD])).toThrow("expected an object");
+    });
+  });
+
+  describe("parseRalphMetrics", () => {
+    it("skips blank lines and reports malformed lines with line numbers", () => {
+      const content = [
+        JSON.stringify(RAW_RECORD),
+        "",
+        '{"run_id": "partial',
+        JSON.stringify({ ...RAW_RECORD, loop: 4 }),
+        JSON.stringify({ ...RAW_RECORD, loop: "five" }),
+      ].join("\n");
+
+      const result = parseRalphMetrics(content);
+
+      expect(result.records.map((r) => r.loop)).toEqual([3, 4]);
+      expect(result.skipped.map((s) => s.line)).toEqual([3, 5]);
+    });
+  });
+
+  describe("readRalphMetrics", () => {
+    it("returns missing when metrics.jsonl does not exist", async () => {
+      testDir = makeTmpDir();
+      await mkdir(testDir, { recursive: true });
+
+      const result = await readRalphMetrics(testDir);
+
+      expect(result.kind).toBe("missing");
+    });
+
+    it("reads records from .ralph/logs/metrics.jsonl", async () => {
+      testDir = makeTmpDir();
+      await mkdir(join(testDir, ".ralph/logs"), { recursive: true });
+      await writeFile(
+        join(testDir, ".ralph/logs/metrics.jsonl"),
+        JSON.stringify(RAW_RECORD) + "\n"
+      );
+
+      const result = await readRalphMetrics(testDir);
+
+      expect(result.kind).toBe("ok");
+      if (result.kind === "ok") {
+        expect(result.path).toBe(join(testDir, ".ralph/logs/metrics.jsonl"));
+        expect(result.value.records).toHaveLength(1);
+        expect(result.value.skipped).toEqual([]);
+      }
+    });
+  });
+});
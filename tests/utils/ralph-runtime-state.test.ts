@@ -6,6 +6,7 @@ import {
   readRalphRuntimeStatus,
   readRalphRuntimeSession,
   readRalphCircuitBreaker,
+  isRalphLoopRunning,
 } from "../../src/utils/ralph-runtime-state.js";
 
 function makeTmpDir(): string {
@@ -566,4 +567,29 @@ describe("ralph-runtime-state", () => {
       expect(result.kind).toBe("invalid");
     });
   });
+
+  describe("isRalphLoopRunning", () => {
+    it("is true when status.json reports a running loop", async () => {
+      testDir = makeTmpDir();
+      const ralphDir = join(testDir, ".ralph");
+      await mkdir(ralphDir, { recursive: true });
+      await writeJson(join(ralphDir, "status.json"), { loop_count: 2, status: "running" });
+
+      expect(await isRalphLoopRunning(testDir)).toBe(true);
+    });
+
+    it("is false for finished, missing or unreadable status", async () => {
+      testDir = makeTmpDir();
+      const ralphDir = join(testDir, ".ralph");
+      await mkdir(ralphDir, { recursive: true });
+
+      expect(await isRalphLoopRunning(testDir)).toBe(false);
+
+      await writeJson(join(ralphDir, "status.json"), { loop_count: 2, status: "halted" });
+      expect(await isRalphLoopRunning(testDir)).toBe(false);
+
+      await writeFile(join(ralphDir, "status.json"), "{ not json");
+      expect(await isRalphLoopRunning(testDir)).toBe(false);
+    });
+  });
 });
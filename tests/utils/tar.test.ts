@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { gzipSync } from "node:zlib";
+import { createTarGz, parseTarGz } from "../../src/utils/tar.js";
+
+describe("tar", () => {
+  it("round-trips files with their content", () => {
+    const archive = createTarGz([
+      { path: "bmalph/config.json", content: Buffer.from('{"name":"x"}\n') },
+      { path: "empty.txt", content: Buffer.alloc(0) },
+      { path: "binary.bin", content: Buffer.from([0, 1, 2, 255]) },
+    ]);
+
+    const entries = parseTarGz(archive);
+
+    expect(entries.map((e) => e.path)).toEqual(["bmalph/config.json", "empty.txt", "binary.bin"]);
+    expect(entries[0]?.content.toString()).toBe('{"name":"x"}\n');
+    expect(entries[1]?.content.length).toBe(0);
+    expect([...(entries[2]?.content ?? [])]).toEqual([0, 1, 2, 255]);
+  });
+
+  it("stores paths longer than 100 bytes using the ustar prefix", () => {
+    const path = `${"planning/".repeat(15)}prd.md`;
+    const [entry] = parseTarGz(createTarGz([{ path, content: Buffer.from("# PRD") }]));
+
+    expect(entry?.path).toBe(path);
+  });
+
+  it("rejects paths that cannot be split", () => {
+    expect(() => createTarGz([{ path: "a".repeat(120), content: Buffer.alloc(0) }])).toThrow(
+      "Path too long"
+    );
+  });
+
+  it("rejects data that is not gzip", () => {
+    expect(() => parseTarGz(Buffer.from("plain text"))).toThrow("not a valid gzip file");
+  });
+
+  it("detects corrupted headers", () => {
+    const tar = Buffer.alloc(1024 * 2);
+    tar.write("file.txt", 0);
+    tar.write("0000000000\0", 124);
+    tar.write("0", 156);
+    tar.write("0000000\0", 148);
+
+    expect(() => parseTarGz(gzipSync(tar))).toThrow("bad header checksum");
+  });
+});
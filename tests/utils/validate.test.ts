@@ -3,6 +3,7 @@ import {
   validateConfig,
   validateBmadConfig,
   validateState,
+  validateRunRegistryEntry,
   validateCircuitBreakerState,
   validateRalphSession,
   validateRalphApiStatus,
@@ -10,6 +11,8 @@ import {
   validateProjectName,
   normalizeRalphStatus,
   parseInterval,
+  parseTimeFilter,
+  parseDuration,
 } from "../../src/utils/validate.js";
 import { DEFAULT_INTERVAL_MS } from "../../src/utils/constants.js";
 
@@ -106,9 +109,120 @@ describe("validateConfig", () => {
     const result = validateConfig(data);
     expect(result.upstreamVersions).toEqual({ bmadCommit: "abc" });
   });
+
+  describe("hooks", () => {
+    const base = { name: "proj", createdAt: "2025-01-01T00:00:00.000Z" };
+
+    it("accepts command and HTTP hooks", () => {
+      const hooks = {
+        story_completed: [{ command: "./notify.sh", timeoutMs: 5000 }],
+        run_finished: [
+          { url: "https://hooks.slack.com/services/T000", headers: { "X-Token": "abc" } },
+        ],
+      };
+
+      expect(validateConfig({ ...base, hooks }).hooks).toEqual(hooks);
+    });
+
+    it("rejects an unknown event", () => {
+      expect(() =>
+        validateConfig({ ...base, hooks: { loop_started: [{ command: "true" }] } })
+      ).toThrow('config.hooks has unknown event "loop_started"');
+    });
+
+    it("rejects a target with both or neither of command and url", () => {
+      expect(() =>
+        validateConfig({
+          ...base,
+          hooks: { run_finished: [{ command: "true", url: "https://example.com" }] },
+        })
+      ).toThrow("config.hooks.run_finished[0] must have either a command or a url");
+      expect(() => validateConfig({ ...base, hooks: { run_finished: [{}] } })).toThrow(
+        "must have either a command or a url"
+      );
+    });
+
+    it("rejects a non-HTTP url", () => {
+      expect(() =>
+        validateConfig({ ...base, hooks: { circuit_open: [{ url: "file:///etc/passwd" }] } })
+      ).toThrow("config.hooks.circuit_open[0].url must be an http(s) URL");
+    });
+
+    it("rejects an invalid timeout", () => {
+      expect(() =>
+        validateConfig({ ...base, hooks: { loop_error: [{ command: "true", timeoutMs: 0 }] } })
+      ).toThrow("config.hooks.loop_error[0].timeoutMs must be a positive integer");
+    });
+  });
 });
 
 describe("validateBmadConfig", () => {
+  it("accepts a positive integer contextTokenBudget", () => {
+    const data = { name: "proj", createdAt: "2025-01-01T00:00:00.000Z", contextTokenBudget: 4000 };
+    expect(validateConfig(data).contextTokenBudget).toBe(4000);
+  });
+
+  it("throws when contextTokenBudget is not a positive integer", () => {
+    for (const contextTokenBudget of [0, -5, 1.5, "4000"]) {
+      const data = { name: "proj", createdAt: "2025-01-01T00:00:00.000Z", contextTokenBudget };
+      expect(() => validateConfig(data)).toThrow(
+        "config.contextTokenBudget must be a positive integer"
+      );
+    }
+  });
+
+  it("accepts a preflight section", () => {
+    const preflight = {
+      rules: { W4: "error", I2: "off" },
+      suppress: [{ rule: "W8", stories: ["1.2"], reason: "Spike story" }],
+      customRules: [
+        {
+          id: "ticket-key",
+          message: "must mention a ticket key",
+          pattern: "[A-Z]+-\\d+",
+          target: "story",
+          severity: "error",
+        },
+      ],
+    };
+    const data = { name: "proj", createdAt: "2025-01-01T00:00:00.000Z", preflight };
+    expect(validateConfig(data).preflight).toEqual(preflight);
+  });
+
+  it.each([
+    [{ rules: { W4: "fatal" } }, "config.preflight.rules.W4 must be one of"],
+    [{ suppress: [{ rule: "W8", stories: [], reason: "x" }] }, "suppress[0].stories"],
+    [{ suppress: [{ rule: "W8", stories: ["1.1"] }] }, "suppress[0].reason"],
+    [
+      { customRules: [{ id: "W1", message: "m", pattern: "x", target: "story" }] },
+      "reserved for built-in rules",
+    ],
+    [
+      { customRules: [{ id: "c", message: "m", pattern: "(", target: "story" }] },
+      "not a valid regular expression",
+    ],
+    [
+      { customRules: [{ id: "c", message: "m", pattern: "x", flags: "gi", target: "story" }] },
+      'customRules[0].flags must not include "g" or "y"',
+    ],
+    [
+      { customRules: [{ id: "c", message: "m", pattern: "x", target: "epic" }] },
+      "customRules[0].target must be one of",
+    ],
+    [
+      {
+        customRules: [
+          { id: "c", message: "m", pattern: "x", target: "prd" },
+          { id: "c", message: "m", pattern: "y", target: "prd" },
+        ],
+      },
+      'duplicate id "c"',
+    ],
+  ])("rejects invalid preflight config %j", (preflight, message) => {
+    const data = { name: "proj", createdAt: "2025-01-01T00:00:00.000Z", preflight };
+    expect(() => validateConfig(data)).toThrow(message);
+  });
+
   it("accepts a valid config with all optional fields", () => {
     const data = {
       platform: "claude-code",
@@ -282,6 +396,60 @@ describe("validateState", () => {
   });
 });
 
+describe("validateRunRegistryEntry", () => {
+  const valid = {
+    pid: 4242,
+    processGroup: null,
+    driver: "codex",
+    reviewMode: "off",
+    startedAt: "2026-03-01T10:00:00.000Z",
+    logs: { ralph: ".ralph/logs/ralph.log", metrics: ".ralph/logs/metrics.jsonl" },
+  };
+
+  it("accepts a valid entry", () => {
+    expect(validateRunRegistryEntry(valid)).toEqual(valid);
+  });
+
+  it("accepts a run budget", () => {
+    const entry = { ...valid, budget: { maxCostUsd: 5, maxLoops: 20 } };
+
+    expect(validateRunRegistryEntry(entry)).toEqual(entry);
+  });
+
+  it("rejects a non-positive budget limit", () => {
+    expect(() => validateRunRegistryEntry({ ...valid, budget: { maxLoops: 0 } })).toThrow(
+      "runRegistry.budget.maxLoops must be a positive number"
+    );
+  });
+
+  it("keeps the process start time", () => {
+    const entry = { ...valid, processStartTime: "123456" };
+
+    expect(validateRunRegistryEntry(entry)).toEqual(entry);
+    expect(() => validateRunRegistryEntry({ ...valid, processStartTime: 123456 })).toThrow(
+      "runRegistry.processStartTime must be a non-empty string"
+    );
+  });
+
+  it("rejects a non-integer pid", () => {
+    expect(() => validateRunRegistryEntry({ ...valid, pid: "4242" })).toThrow(
+      "runRegistry.pid must be a positive integer"
+    );
+  });
+
+  it("rejects an unknown review mode", () => {
+    expect(() => validateRunRegistryEntry({ ...valid, reviewMode: "max" })).toThrow(
+      "runRegistry.reviewMode must be one of: off, enhanced, ultimate"
+    );
+  });
+
+  it("rejects missing log paths", () => {
+    expect(() => validateRunRegistryEntry({ ...valid, logs: undefined })).toThrow(
+      "runRegistry.logs: expected an object"
+    );
+  });
+});
+
 describe("validateCircuitBreakerState", () => {
   it("accepts valid CLOSED state", () => {
     const data = { state: "CLOSED", consecutive_no_progress: 0 };
@@ -713,3 +881,41 @@ describe("parseInterval", () => {
     expect(parseInterval("3000")).toBe(3000);
   });
 });
+
+describe("parseDuration", () => {
+  it("parses minutes, hours, days and weeks", () => {
+    expect(parseDuration("90m", "--max-duration")).toBe(90 * 60 * 1000);
+    expect(parseDuration("8h", "--max-duration")).toBe(8 * 60 * 60 * 1000);
+    expect(parseDuration("2d", "--max-duration")).toBe(2 * 24 * 60 * 60 * 1000);
+    expect(parseDuration("1w", "--max-duration")).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it("throws with the flag name for zero or unparseable values", () => {
+    expect(() => parseDuration("0h", "--max-duration")).toThrow("Invalid --max-duration value");
+    expect(() => parseDuration("8", "--max-duration")).toThrow("Invalid --max-duration value");
+  });
+});
+
+describe("parseTimeFilter", () => {
+  const now = new Date("2025-06-10T12:00:00Z");
+
+  it("parses relative hours back from now", () => {
+    expect(parseTimeFilter("24h", "--since", now).toISOString()).toBe("2025-06-09T12:00:00.000Z");
+  });
+
+  it("parses relative minutes, days and weeks", () => {
+    expect(parseTimeFilter("30m", "--since", now).toISOString()).toBe("2025-06-10T11:30:00.000Z");
+    expect(parseTimeFilter("7d", "--since", now).toISOString()).toBe("2025-06-03T12:00:00.000Z");
+    expect(parseTimeFilter("2w", "--since", now).toISOString()).toBe("2025-05-27T12:00:00.000Z");
+  });
+
+  it("parses absolute ISO dates", () => {
+    expect(parseTimeFilter("2025-06-01T00:00:00Z", "--since", now).toISOString()).toBe(
+      "2025-06-01T00:00:00.000Z"
+    );
+  });
+
+  it("throws with the flag name for unparseable values", () => {
+    expect(() => parseTimeFilter("yesterday", "--since", now)).toThrow("Invalid --since value");
+  });
+});
@@ -102,6 +102,20 @@ describe("renderer", () => {
       expect(output).toContain("running");
     });
 
+    it("marks the header and loop panel while Ralph is paused", () => {
+      const loop: LoopInfo = {
+        loopCount: 4,
+        status: "running",
+        lastAction: "paused",
+        callsMadeThisHour: 4,
+        maxCallsPerHour: 100,
+      };
+      const output = renderDashboard(makeState({ loop }), COLS);
+
+      expect(output).toContain("RALPH MONITOR — PAUSED");
+      expect(output).toContain("Status: paused");
+    });
+
     it("renders footer with quit hint and update time", () => {
       const loop: LoopInfo = {
         loopCount: 1,